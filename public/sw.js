@@ -0,0 +1,46 @@
+// App shell service worker
+// Hashed build assets are served cache-first; pages and other files under the
+// app's scope (index.html, environments.json) go to the network first and fall
+// back to the last cached copy. API requests are never cached here, the
+// dashboard keeps its own snapshots in IndexedDB.
+const CACHE = 'juggernaut-shell-v1';
+const SCOPE = new URL(self.registration.scope).pathname;
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.add(SCOPE)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) (await caches.open(CACHE)).put(request, response.clone());
+  return response;
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) (await caches.open(CACHE)).put(request, response.clone());
+    return response;
+  } catch (e) {
+    // Deep links all render the same shell
+    const cached = await caches.match(request) ?? (request.mode === 'navigate' ? await caches.match(SCOPE) : undefined);
+    if (cached) return cached;
+    throw e;
+  }
+}
+
+self.addEventListener('fetch', event => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'GET' || url.origin !== self.location.origin || !url.pathname.startsWith(SCOPE)) return;
+  event.respondWith(url.pathname.startsWith(`${SCOPE}assets/`) ? cacheFirst(event.request) : networkFirst(event.request));
+});
@@ -0,0 +1,342 @@
+// Alerts panel: active alerts, history and rule management
+import React, { useRef, useState } from 'react';
+import { Bell, BellRing, Check, Trash2, Upload, Download } from 'lucide-react';
+
+import {
+  ALERT_METRICS, ALERT_COMPARATORS, describeRule, parseAlertRules, serializeAlertRules,
+  type Alert, type AlertRule, type AlertsController, type AlertMetric, type AlertComparator
+} from './alerts';
+import { downloadBlob } from './export';
+import { formatDate } from './hooks';
+import { useShortcut } from './shortcuts';
+
+type AlertsTab = 'active' | 'history' | 'rules';
+
+const SEVERITY_STYLES = {
+  critical: 'bg-red-900/50 text-red-400',
+  warning: 'bg-amber-900/50 text-amber-400',
+};
+
+interface AlertBellProps {
+  alerts: AlertsController;
+  onClick: () => void;
+}
+
+export const AlertBell: React.FC<AlertBellProps> = ({ alerts, onClick }) => {
+  const unacknowledged = alerts.active.filter(a => !a.acknowledgedAt);
+  const critical = unacknowledged.some(a => a.severity === 'critical');
+
+  return (
+    <button
+      onClick={onClick}
+      className="relative p-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition"
+      aria-label={`Alerts (${unacknowledged.length} unacknowledged)`}
+    >
+      {unacknowledged.length > 0
+        ? <BellRing className={`w-4 h-4 ${critical ? 'text-red-400' : 'text-amber-400'}`} />
+        : <Bell className="w-4 h-4" />}
+      {unacknowledged.length > 0 && (
+        <span className={`absolute -top-1 -right-1 min-w-[1.1rem] px-1 rounded-full text-[10px] font-semibold text-white ${
+          critical ? 'bg-red-600' : 'bg-amber-600'
+        }`}>
+          {unacknowledged.length}
+        </span>
+      )}
+    </button>
+  );
+};
+
+const AlertRow: React.FC<{ alert: Alert; onAcknowledge?: () => void }> = ({ alert, onAcknowledge }) => (
+  <li className="bg-zinc-800 rounded p-3 text-sm space-y-1">
+    <div className="flex items-center justify-between gap-2">
+      <div className="flex items-center gap-2">
+        <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${SEVERITY_STYLES[alert.severity]}`}>
+          {alert.severity}
+        </span>
+        <span className="font-medium">{alert.ruleName}</span>
+      </div>
+      {onAcknowledge && !alert.acknowledgedAt && (
+        <button
+          onClick={onAcknowledge}
+          className="inline-flex items-center gap-1 text-xs text-zinc-400 hover:text-white"
+        >
+          <Check className="w-3 h-3" /> Acknowledge
+        </button>
+      )}
+    </div>
+    <p className="text-zinc-300 text-xs">{alert.message}</p>
+    <p className="text-zinc-500 text-xs">
+      Fired {formatDate(alert.firedAt)}
+      {alert.acknowledgedAt && ` • acknowledged ${formatDate(alert.acknowledgedAt)}`}
+      {alert.resolvedAt && ` • resolved ${formatDate(alert.resolvedAt)}`}
+    </p>
+  </li>
+);
+
+const EMPTY_RULE: Omit<AlertRule, 'id'> = {
+  name: '',
+  enabled: true,
+  metric: 'verificationRate',
+  comparator: '<',
+  threshold: 99.5,
+  forMinutes: 0,
+  severity: 'warning',
+};
+
+const RuleForm: React.FC<{ onAdd: (rule: AlertRule) => void }> = ({ onAdd }) => {
+  const [draft, setDraft] = useState(EMPTY_RULE);
+  const inputClass = 'bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm';
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onAdd({ ...draft, name: draft.name.trim() || describeRule({ ...draft, id: '' }), id: `rule-${Date.now()}` });
+    setDraft(EMPTY_RULE);
+  };
+
+  return (
+    <form onSubmit={submit} className="bg-zinc-800/50 rounded p-3 space-y-2">
+      <input
+        value={draft.name}
+        onChange={e => setDraft(d => ({ ...d, name: e.target.value }))}
+        placeholder="Rule name"
+        className={`${inputClass} w-full`}
+      />
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={draft.metric}
+          onChange={e => setDraft(d => ({ ...d, metric: e.target.value as AlertMetric }))}
+          className={inputClass}
+          aria-label="Metric"
+        >
+          {(Object.keys(ALERT_METRICS) as AlertMetric[]).map(m => (
+            <option key={m} value={m}>{ALERT_METRICS[m].label}</option>
+          ))}
+        </select>
+        <select
+          value={draft.comparator}
+          onChange={e => setDraft(d => ({ ...d, comparator: e.target.value as AlertComparator }))}
+          className={inputClass}
+          aria-label="Comparator"
+        >
+          {ALERT_COMPARATORS.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <input
+          type="number"
+          step="any"
+          value={draft.threshold}
+          onChange={e => setDraft(d => ({ ...d, threshold: Number(e.target.value) }))}
+          className={`${inputClass} w-24`}
+          aria-label="Threshold"
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <label className="flex items-center gap-1 text-zinc-400">
+          for
+          <input
+            type="number"
+            min={0}
+            value={draft.forMinutes}
+            onChange={e => setDraft(d => ({ ...d, forMinutes: Math.max(0, Number(e.target.value)) }))}
+            className={`${inputClass} w-16`}
+          />
+          min
+        </label>
+        <select
+          value={draft.severity}
+          onChange={e => setDraft(d => ({ ...d, severity: e.target.value as AlertRule['severity'] }))}
+          className={inputClass}
+          aria-label="Severity"
+        >
+          <option value="warning">Warning</option>
+          <option value="critical">Critical</option>
+        </select>
+        <button type="submit" className="ml-auto px-3 py-1 rounded bg-blue-800 hover:bg-blue-700 text-sm font-medium transition">
+          Add rule
+        </button>
+      </div>
+    </form>
+  );
+};
+
+interface AlertsPanelProps {
+  alerts: AlertsController;
+  onClose: () => void;
+}
+
+export const AlertsPanel: React.FC<AlertsPanelProps> = ({ alerts, onClose }) => {
+  const [tab, setTab] = useState<AlertsTab>('active');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { rules, setRules } = alerts;
+
+  useShortcut('Escape', onClose, { description: 'Close dialog' });
+
+  const updateRule = (id: string, patch: Partial<AlertRule>) => {
+    setRules(rs => rs.map(r => (r.id === id ? { ...r, ...patch } : r)));
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseAlertRules(await file.text());
+      // Imported rules replace same-id rules and keep the rest
+      setRules(rs => [...rs.filter(r => !imported.some(i => i.id === r.id)), ...imported]);
+      setImportError(null);
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : 'Could not import rules');
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([serializeAlertRules(rules)], { type: 'application/json' }), 'alert-rules.json');
+  };
+
+  const tabs: { id: AlertsTab; label: string }[] = [
+    { id: 'active', label: `Active (${alerts.active.length})` },
+    { id: 'history', label: 'History' },
+    { id: 'rules', label: `Rules (${rules.length})` },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-40 flex justify-end" onClick={onClose}>
+      <aside
+        className="w-full max-w-md h-full bg-zinc-900 border-l border-zinc-800 flex flex-col"
+        onClick={e => e.stopPropagation()}
+        aria-label="Alerts"
+      >
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+          <h3 className="font-medium">Alerts</h3>
+          <button
+            onClick={onClose}
+            className="text-zinc-400 hover:text-white text-xl p-1"
+            aria-label="Close alerts"
+          >
+            &times;
+          </button>
+        </div>
+
+        <div className="flex gap-1 px-4 pt-3">
+          {tabs.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={`px-3 py-1 rounded text-sm transition ${
+                tab === t.id ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:bg-zinc-800'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-4 overflow-auto flex-1 space-y-3">
+          {tab === 'active' && (
+            <>
+              {alerts.active.some(a => !a.acknowledgedAt) && (
+                <button onClick={alerts.acknowledgeAll} className="text-xs text-zinc-400 hover:text-white">
+                  Acknowledge all
+                </button>
+              )}
+              {alerts.active.length === 0
+                ? <p className="text-sm text-zinc-500">No active alerts</p>
+                : (
+                  <ul className="space-y-2">
+                    {alerts.active.map(a => (
+                      <AlertRow key={a.id} alert={a} onAcknowledge={() => alerts.acknowledge(a.id)} />
+                    ))}
+                  </ul>
+                )}
+            </>
+          )}
+
+          {tab === 'history' && (
+            <>
+              {alerts.history.some(a => a.resolvedAt) && (
+                <button onClick={alerts.clearHistory} className="text-xs text-zinc-400 hover:text-white">
+                  Clear resolved
+                </button>
+              )}
+              {alerts.history.length === 0
+                ? <p className="text-sm text-zinc-500">No alerts have fired</p>
+                : (
+                  <ul className="space-y-2">
+                    {alerts.history.map(a => <AlertRow key={a.id} alert={a} />)}
+                  </ul>
+                )}
+            </>
+          )}
+
+          {tab === 'rules' && (
+            <>
+              <div className="flex flex-wrap items-center gap-3 text-xs">
+                <label className="flex items-center gap-2 text-zinc-300">
+                  <input
+                    type="checkbox"
+                    checked={alerts.notificationsEnabled}
+                    onChange={e => alerts.enableNotifications(e.target.checked)}
+                  />
+                  Browser notifications
+                </label>
+                <div className="ml-auto flex gap-2">
+                  <button
+                    onClick={() => fileInput.current?.click()}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 transition"
+                  >
+                    <Upload className="w-3 h-3" /> Import
+                  </button>
+                  <button
+                    onClick={handleExport}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 transition"
+                  >
+                    <Download className="w-3 h-3" /> Export
+                  </button>
+                  <input
+                    ref={fileInput}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={e => {
+                      const file = e.target.files?.[0];
+                      if (file) handleImport(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </div>
+              </div>
+              {importError && <p className="text-xs text-red-400">{importError}</p>}
+
+              <ul className="space-y-2">
+                {rules.map(rule => (
+                  <li key={rule.id} className="bg-zinc-800 rounded p-3 flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
+                      className="mt-1"
+                      aria-label={`Enable ${rule.name}`}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium">{rule.name}</p>
+                      <p className="text-xs text-zinc-400">{describeRule(rule)}</p>
+                    </div>
+                    <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${SEVERITY_STYLES[rule.severity]}`}>
+                      {rule.severity}
+                    </span>
+                    <button
+                      onClick={() => setRules(rs => rs.filter(r => r.id !== rule.id))}
+                      className="text-zinc-500 hover:text-red-400"
+                      aria-label={`Delete ${rule.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              <RuleForm onAdd={rule => setRules(rs => [...rs, rule])} />
+            </>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
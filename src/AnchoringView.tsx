@@ -0,0 +1,228 @@
+// Anchoring analytics: time-to-anchor percentiles, backlog and batch sizes
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  AreaChart, Area, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer
+} from 'recharts';
+import { Timer, Gauge, Hourglass, Layers, RefreshCw } from 'lucide-react';
+
+import type { AnchoringAnalytics, Receipt, ThroughputRange, ThroughputWindow } from './types';
+import { getAnchoringAnalytics, getOldestPending, isAbortError, ApiError } from './api';
+import { useInterval, formatDate, formatDuration, truncateHash } from './hooks';
+import { THROUGHPUT_RANGES, resolveThroughputWindow, formatBucketLabel, BUCKET_MS } from './throughput';
+import {
+  MetricCard, ErrorBanner, CHART_TICK, CHART_TOOLTIP_STYLE, CHART_TOOLTIP_LABEL_STYLE
+} from './components';
+
+type AnchoringRange = Exclude<ThroughputRange, 'custom'>;
+
+const PENDING_LIMIT = 10;
+const REFRESH_MS = 30000;
+
+const formatLatency = (seconds: number | null): string => (seconds === null ? '—' : formatDuration(seconds));
+
+interface AnchoringViewProps {
+  /** Latest anchored block; a new one triggers a refetch */
+  latestBlock?: number;
+  onSelectReceipt: (receipt: Receipt) => void;
+}
+
+const AnchoringView: React.FC<AnchoringViewProps> = ({ latestBlock, onSelectReceipt }) => {
+  const [range, setRange] = useState<AnchoringRange>('24h');
+  const [timeWindow, setTimeWindow] = useState<ThroughputWindow>(() => resolveThroughputWindow('24h'));
+  const [analytics, setAnalytics] = useState<AnchoringAnalytics | null>(null);
+  const [pending, setPending] = useState<Receipt[]>([]);
+  const [fetchedAt, setFetchedAt] = useState(() => Date.now());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const fetchData = useCallback(async () => {
+    // A newer fetch (e.g. another range) supersedes this one
+    controller.current?.abort();
+    const { signal } = controller.current = new AbortController();
+    try {
+      setError(null);
+      const nextWindow = resolveThroughputWindow(range);
+      const [data, oldest] = await Promise.all([
+        getAnchoringAnalytics(nextWindow, { signal }),
+        getOldestPending(PENDING_LIMIT, { signal }),
+      ]);
+      setAnalytics(data);
+      setTimeWindow(nextWindow);
+      setPending(oldest);
+      setFetchedAt(Date.now());
+    } catch (e) {
+      if (isAbortError(e)) return;
+      const message = e instanceof ApiError
+        ? `API Error (${e.status}): ${e.message}`
+        : 'Failed to fetch anchoring analytics';
+      setError(message);
+      console.error('Anchoring analytics fetch error:', e);
+    } finally {
+      if (!signal.aborted) setLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData, latestBlock]);
+
+  useInterval(fetchData, REFRESH_MS);
+
+  const withDate = Date.parse(timeWindow.to) - Date.parse(timeWindow.from) > BUCKET_MS.day;
+  const backlogData = useMemo(
+    () => (analytics?.backlog ?? []).map(p => ({
+      ...p,
+      label: formatBucketLabel(p.timestamp, timeWindow.bucket, withDate),
+    })),
+    [analytics, timeWindow.bucket, withDate]
+  );
+  const latency = analytics?.latency;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-medium text-white">Anchoring Latency &amp; Backlog</h2>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1">
+            {(Object.keys(THROUGHPUT_RANGES) as AnchoringRange[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setRange(key)}
+                className={`px-2 py-0.5 rounded text-xs transition ${
+                  range === key ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:bg-zinc-800'
+                }`}
+              >
+                {THROUGHPUT_RANGES[key].label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={fetchData}
+            className="p-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition"
+            aria-label="Refresh anchoring analytics"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && <ErrorBanner message={error} onRetry={fetchData} />}
+
+      {/* Time-to-anchor percentiles */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <MetricCard
+          icon={Timer}
+          label="p50 time to anchor"
+          value={formatLatency(latency?.p50 ?? null)}
+          subvalue="Median receipt"
+          color="bg-emerald-900/50 text-emerald-400"
+        />
+        <MetricCard
+          icon={Gauge}
+          label="p95 time to anchor"
+          value={formatLatency(latency?.p95 ?? null)}
+          color="bg-amber-900/50 text-amber-400"
+        />
+        <MetricCard
+          icon={Hourglass}
+          label="p99 time to anchor"
+          value={formatLatency(latency?.p99 ?? null)}
+          color="bg-red-900/50 text-red-400"
+        />
+        <MetricCard
+          icon={Layers}
+          label="Anchored in range"
+          value={(latency?.samples ?? 0).toLocaleString()}
+          subvalue={`${THROUGHPUT_RANGES[range].title} window`}
+          color="bg-violet-900/50 text-violet-400"
+        />
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2 bg-zinc-900 border border-zinc-800 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-zinc-400 mb-4">Pending Backlog</h3>
+          <ResponsiveContainer width="100%" height={240}>
+            <AreaChart data={backlogData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+              <XAxis dataKey="label" tick={CHART_TICK} tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis tick={CHART_TICK} tickLine={false} axisLine={false} allowDecimals={false} />
+              <Tooltip contentStyle={CHART_TOOLTIP_STYLE} labelStyle={CHART_TOOLTIP_LABEL_STYLE} />
+              <Area
+                type="monotone"
+                dataKey="pending"
+                name="Pending"
+                stroke="#f59e0b"
+                fill="#f59e0b"
+                fillOpacity={0.15}
+                isAnimationActive={false}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-zinc-400 mb-4">Batch Size per Block</h3>
+          {analytics && analytics.batchSizes.length > 0 ? (
+            <ResponsiveContainer width="100%" height={240}>
+              <BarChart data={analytics.batchSizes}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#27272a" vertical={false} />
+                <XAxis dataKey="size" tick={CHART_TICK} tickLine={false} axisLine={false} />
+                <YAxis tick={CHART_TICK} tickLine={false} axisLine={false} allowDecimals={false} />
+                <Tooltip
+                  contentStyle={CHART_TOOLTIP_STYLE}
+                  labelStyle={CHART_TOOLTIP_LABEL_STYLE}
+                  labelFormatter={size => `${size} receipts per batch`}
+                  cursor={{ fill: '#27272a' }}
+                />
+                <Bar dataKey="blocks" name="Blocks" fill="#8b5cf6" isAnimationActive={false} />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <p className="text-center text-sm text-zinc-500 py-24">No batches anchored in range</p>
+          )}
+        </div>
+      </div>
+
+      {/* Oldest pending receipts */}
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg">
+        <div className="p-4 border-b border-zinc-800">
+          <h3 className="font-medium">Oldest Pending Receipts</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-800/50">
+              <tr>
+                <th className="text-left px-4 py-3 font-medium text-zinc-400">Receipt Hash</th>
+                <th className="text-left px-4 py-3 font-medium text-zinc-400">Created</th>
+                <th className="text-left px-4 py-3 font-medium text-zinc-400">Waiting</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-800">
+              {pending.length === 0 ? (
+                <tr>
+                  <td colSpan={3} className="text-center py-8 text-zinc-500">Nothing waiting to be anchored</td>
+                </tr>
+              ) : (
+                pending.map(r => (
+                  <tr key={r.id} className="hover:bg-zinc-800/30 cursor-pointer" onClick={() => onSelectReceipt(r)}>
+                    <td className="px-4 py-3 font-mono text-xs">{truncateHash(r.receiptHash, 8)}</td>
+                    <td className="px-4 py-3 text-zinc-400 text-xs">{formatDate(r.createdAt)}</td>
+                    <td className="px-4 py-3 text-amber-400 text-xs">
+                      {formatDuration((fetchedAt - Date.parse(r.createdAt)) / 1000)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnchoringView;
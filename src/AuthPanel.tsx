@@ -0,0 +1,130 @@
+// Sign-in screen and signed-in user badge
+import React, { useState } from 'react';
+import { Shield, LogIn, LogOut, RefreshCw } from 'lucide-react';
+
+import type { Role } from './types';
+import type { ApiEnvironment } from './environments';
+import { signInDemo, signInWithToken, beginOidcSignIn, signOut, AuthError, type AuthSession } from './auth';
+import { EnvironmentSelector } from './EnvironmentPanel';
+
+const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  auditor: 'Auditor',
+};
+
+interface SignInScreenProps {
+  environments: ApiEnvironment[];
+  active: ApiEnvironment;
+  /** Why sign-in is needed again, e.g. an expired session */
+  notice?: string | null;
+  onSelectEnvironment: (id: string) => void;
+}
+
+export const SignInScreen: React.FC<SignInScreenProps> = ({ environments, active, notice, onSelectEnvironment }) => {
+  const [token, setToken] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The session listener moves the dashboard on once sign-in succeeds
+  const attempt = async (signIn: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await signIn();
+    } catch (e) {
+      setError(e instanceof AuthError ? e.message : 'Sign-in failed');
+      console.error('Sign-in error:', e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const buttonClass = 'w-full inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded text-sm font-medium transition';
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-zinc-100 flex items-center justify-center p-6">
+      <div className="w-full max-w-sm bg-zinc-900 border border-zinc-800 rounded-lg p-6 space-y-5">
+        <div className="flex items-center gap-3">
+          <Shield className="w-8 h-8 text-blue-500" />
+          <div>
+            <h1 className="text-xl font-bold">Juggernaut Rail</h1>
+            <p className="text-sm text-zinc-400">Sign in to continue</p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-zinc-400">Environment</span>
+          <EnvironmentSelector environments={environments} active={active} onSelect={onSelectEnvironment} />
+        </div>
+
+        {notice && <p className="text-sm text-amber-400">{notice}</p>}
+
+        {active.mock ? (
+          <div className="space-y-2">
+            {(['viewer', 'auditor'] as Role[]).map(role => (
+              <button key={role} onClick={() => signInDemo(active, role)} className={buttonClass}>
+                <LogIn className="w-4 h-4" />
+                Continue as {ROLE_LABELS[role]}
+              </button>
+            ))}
+            <p className="text-xs text-zinc-500">Demo mode: pick a role to try.</p>
+          </div>
+        ) : active.auth.type === 'oidc' ? (
+          <button onClick={() => attempt(() => beginOidcSignIn(active))} disabled={busy} className={buttonClass}>
+            {busy ? <RefreshCw className="w-4 h-4 animate-spin" /> : <LogIn className="w-4 h-4" />}
+            Sign in with SSO
+          </button>
+        ) : (
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              attempt(() => signInWithToken(active, token.trim()));
+            }}
+            className="space-y-2"
+          >
+            <input
+              type="password"
+              value={token}
+              onChange={e => setToken(e.target.value)}
+              placeholder="API token"
+              autoComplete="off"
+              className="w-full bg-zinc-800 border border-zinc-700 rounded px-3 py-2 text-sm focus:outline-none focus:border-zinc-600"
+              aria-label="API token"
+            />
+            <button type="submit" disabled={busy || !token.trim()} className={buttonClass}>
+              {busy ? <RefreshCw className="w-4 h-4 animate-spin" /> : <LogIn className="w-4 h-4" />}
+              Sign in
+            </button>
+          </form>
+        )}
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+interface UserBadgeProps {
+  environment: ApiEnvironment;
+  session: AuthSession;
+  /** Static credentials have nothing to sign out of */
+  canSignOut: boolean;
+}
+
+export const UserBadge: React.FC<UserBadgeProps> = ({ environment, session, canSignOut }) => (
+  <div className="flex items-center gap-2 px-3 py-1.5 rounded bg-zinc-800 text-xs">
+    <span className="text-zinc-300">{session.user.name}</span>
+    <span className={session.user.role === 'auditor' ? 'text-violet-400' : 'text-zinc-500'}>
+      {ROLE_LABELS[session.user.role]}
+    </span>
+    {canSignOut && (
+      <button
+        onClick={() => signOut(environment)}
+        className="text-zinc-400 hover:text-white"
+        aria-label="Sign out"
+      >
+        <LogOut className="w-3 h-3" />
+      </button>
+    )}
+  </div>
+);
@@ -0,0 +1,208 @@
+// Command palette (Ctrl+K / ⌘K) and the `?` keyboard shortcuts overlay
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Search, Hash, CornerDownLeft } from 'lucide-react';
+
+import { useShortcut, useShortcutList, formatShortcut } from './shortcuts';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  group: string;
+  /** Shortcut for the same action, shown alongside */
+  keys?: string;
+  run: () => void;
+}
+
+// Short prefixes match too many receipts to be worth a lookup
+const MIN_HASH_PREFIX = 4;
+
+/**
+ * Receipt hash prefix typed into the palette, normalized; null for anything else
+ */
+export function hashPrefixInput(input: string): string | null {
+  const hex = input.trim().replace(/^0x/i, '');
+  return hex.length >= MIN_HASH_PREFIX && /^[0-9a-f]+$/i.test(hex) ? hex.toLowerCase() : null;
+}
+
+const Keys: React.FC<{ keys: string }> = ({ keys }) => (
+  <span className="flex gap-1">
+    {formatShortcut(keys).map((cap, i) => (
+      <kbd key={i} className="min-w-[1.5rem] px-1.5 py-0.5 rounded bg-zinc-800 border border-zinc-700 text-xs text-center text-zinc-300">
+        {cap}
+      </kbd>
+    ))}
+  </span>
+);
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  /** Open the receipt whose hash starts with the prefix */
+  onJumpToReceipt: (hashPrefix: string) => void;
+  onClose: () => void;
+}
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onJumpToReceipt, onClose }) => {
+  const [input, setInput] = useState('');
+  const [selected, setSelected] = useState(0);
+  const list = useRef<HTMLUListElement>(null);
+
+  useShortcut('Escape', onClose, { description: 'Close dialog' });
+
+  const hashPrefix = hashPrefixInput(input);
+  const matching = useMemo(() => {
+    const terms = input.toLowerCase().split(/\s+/).filter(Boolean);
+    const found = commands.filter(c => terms.every(t => `${c.group} ${c.label}`.toLowerCase().includes(t)));
+    if (!hashPrefix) return found;
+    const jump: PaletteCommand = {
+      id: 'jump',
+      label: `Open receipt 0x${hashPrefix}…`,
+      group: 'Receipts',
+      run: () => onJumpToReceipt(hashPrefix),
+    };
+    return [jump, ...found];
+  }, [commands, input, hashPrefix, onJumpToReceipt]);
+
+  useEffect(() => setSelected(0), [input]);
+
+  useEffect(() => {
+    list.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const run = (command: PaletteCommand | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelected(i => (matching.length === 0 ? 0 : (i + step + matching.length) % matching.length));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      run(matching[selected]);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 flex items-start justify-center p-4 pt-[15vh] z-50"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Command palette"
+    >
+      <div
+        className="bg-zinc-900 border border-zinc-800 rounded-lg max-w-xl w-full overflow-hidden shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="relative border-b border-zinc-800">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-500" />
+          <input
+            type="text"
+            autoFocus
+            value={input}
+            onChange={e => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command or a receipt hash prefix"
+            className="w-full bg-transparent pl-11 pr-4 py-3 text-sm outline-none"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="palette-commands"
+            aria-activedescendant={matching[selected] ? `palette-${matching[selected].id}` : undefined}
+          />
+        </div>
+        <ul ref={list} id="palette-commands" role="listbox" className="max-h-80 overflow-auto py-1">
+          {matching.length === 0 ? (
+            <li className="px-4 py-6 text-center text-sm text-zinc-500">No matching commands</li>
+          ) : matching.map((command, i) => (
+            <li
+              key={command.id}
+              id={`palette-${command.id}`}
+              role="option"
+              aria-selected={i === selected}
+              onClick={() => run(command)}
+              onMouseMove={() => setSelected(i)}
+              className={`flex items-center gap-3 px-4 py-2 text-sm cursor-pointer ${
+                i === selected ? 'bg-zinc-800 text-white' : 'text-zinc-300'
+              }`}
+            >
+              {command.id === 'jump' && <Hash className="w-4 h-4 text-blue-400" />}
+              <span className="text-xs text-zinc-500 w-20 shrink-0">{command.group}</span>
+              <span className="flex-1 truncate">{command.label}</span>
+              {command.keys && <Keys keys={command.keys} />}
+              {i === selected && <CornerDownLeft className="w-3.5 h-3.5 text-zinc-500" />}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+interface ShortcutsHelpProps {
+  onClose: () => void;
+}
+
+/**
+ * Every listed binding currently registered; ones unavailable in the current
+ * view are dimmed
+ */
+export const ShortcutsHelp: React.FC<ShortcutsHelpProps> = ({ onClose }) => {
+  useShortcut('Escape', onClose, { description: 'Close dialog' });
+  const shortcuts = useShortcutList();
+
+  const groups = new Map<string, typeof shortcuts>();
+  for (const s of shortcuts) groups.set(s.group, [...(groups.get(s.group) ?? []), s]);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="shortcuts-title"
+    >
+      <div
+        className="bg-zinc-900 border border-zinc-800 rounded-lg max-w-lg w-full max-h-[85vh] overflow-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+          <h3 id="shortcuts-title" className="font-medium">Keyboard Shortcuts</h3>
+          <button
+            onClick={onClose}
+            className="text-zinc-400 hover:text-white text-xl p-1"
+            aria-label="Close shortcuts"
+          >
+            &times;
+          </button>
+        </div>
+        <div className="p-4 space-y-4">
+          {[...groups].map(([group, list]) => (
+            <section key={group}>
+              <h4 className="text-xs font-medium text-zinc-500 uppercase tracking-wide mb-2">{group}</h4>
+              <ul className="space-y-1.5">
+                {list.map(s => (
+                  <li
+                    key={`${s.keys} ${s.description}`}
+                    className={`flex items-center justify-between text-sm ${s.enabled ? 'text-zinc-300' : 'text-zinc-600'}`}
+                    title={s.shadowedBy
+                      ? `These keys currently run "${s.shadowedBy}"`
+                      : s.enabled ? undefined : 'Not available here'}
+                  >
+                    <span>
+                      {s.description}
+                      {s.shadowedBy && <span className="ml-2 text-xs text-amber-400">Conflicts with {s.shadowedBy}</span>}
+                    </span>
+                    <Keys keys={s.keys} />
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,86 +1,86 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { RefreshCw, Pause, Play, GitCompare, Command } from 'lucide-react';
+
+import type {
+  Receipt, Metrics, ThroughputPoint, ThroughputRange, ThroughputWindow, ChainStatus, FilterType,
+  ReceiptQuery, StreamEvent, StreamStatus
+} from './types';
 import {
-  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip,
-  ResponsiveContainer, PieChart, Pie, Cell
-} from 'recharts';
+  fetchAllData, peekAllData, getReceipt, getReceipts, subscribeToStream, matchesFilter, describeError, isAbortError,
+  isUnreachable, RECEIPTS_PER_PAGE, ApiError, type DashboardResults, type DashboardPanel, type Settled
+} from './api';
+import { applyMetricsDelta } from './metrics';
+import { parseReceiptQuery, matchesQuery, isEmptyQuery } from './query';
+import { useDebounce, useInterval, useOnline } from './hooks';
+import { useAlerts, useFailedReceipts } from './alerts';
+import { AlertBell, AlertsPanel } from './AlertsPanel';
+import { useSchemaViolations, diagnosticsEnabled } from './diagnostics';
+import { DiagnosticsButton, DiagnosticsPanel } from './DiagnosticsPanel';
+import ExplorerView from './ExplorerView';
+import AnchoringView from './AnchoringView';
+import FailuresView from './FailuresView';
+import KeysView from './KeysView';
+import MigrationView from './MigrationView';
+import PlaygroundView from './PlaygroundView';
+import ReportsView from './ReportsView';
+import ReceiptsTable from './ReceiptsTable';
+import { ReceiptModal } from './ReceiptModal';
 import {
-  Shield, CheckCircle, XCircle, Clock, Database, Link2,
-  RefreshCw, Search, ChevronLeft, ChevronRight, AlertCircle
-} from 'lucide-react';
-
-import type { Receipt, Metrics, ThroughputPoint, ChainStatus, FilterType } from './types';
-import { fetchAllData, USE_MOCK, ApiError } from './api';
-import { useDebounce, useKeydown, formatTime, truncateHash } from './hooks';
+  MetricsSummary, ThroughputChart, SignatureBreakdown, ChainAnchoringPanel, type BrushRange, type CustomRange
+} from './OverviewPanels';
+import { EXPORT_FORMATS, useReceiptExport } from './ExportControl';
+import { useReportScheduler } from './reports';
+import { receiptKeyWarnings, useSigningKeys } from './keys';
+import { currentLocation, navigate, usePopState, type DashboardLocation, type DashboardView } from './router';
+import { getEnvironments, getActiveEnvironment, selectEnvironment } from './environments';
+import { EnvironmentSelector, MetricsComparison } from './EnvironmentPanel';
+import { useSession, requiresSignIn } from './auth';
+import { SignInScreen, UserBadge } from './AuthPanel';
+import { searchFields } from './schemas';
+import { ReceiptCompare } from './ReceiptCompare';
+import { CommandPalette, ShortcutsHelp, type PaletteCommand } from './CommandPalette';
+import { useShortcuts, formatShortcut } from './shortcuts';
+import { saveSnapshot, loadSnapshot, rememberReceipt, getCachedReceipt, isCachedReceipt } from './offline';
+import { ErrorBanner, OfflineBanner, PanelError } from './components';
+import { THROUGHPUT_RANGES, resolveThroughputWindow } from './throughput';
+import { useAnchorChecks } from './anchor';
 
 // ============================================================================
 // Sub-components
 // ============================================================================
 
-interface StatusBadgeProps {
-  verified: boolean;
-  label: string;
-}
-
-const StatusBadge: React.FC<StatusBadgeProps> = ({ verified, label }) => (
-  <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${
-    verified ? 'bg-emerald-900/50 text-emerald-400' : 'bg-red-900/50 text-red-400'
-  }`}>
-    {verified ? <CheckCircle className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
-    {label}
-  </span>
-);
+const STREAM_LABELS: Record<StreamStatus, string> = {
+  connecting: 'Connecting',
+  sse: 'Live • SSE',
+  websocket: 'Live • WebSocket',
+  mock: 'Live • Demo',
+  polling: 'Polling',
+};
 
-interface MetricCardProps {
-  icon: React.FC<{ className?: string }>;
-  label: string;
-  value: string | number;
-  subvalue?: string;
-  color: string;
+interface StreamIndicatorProps {
+  status: StreamStatus;
+  paused: boolean;
+  onTogglePause: () => void;
 }
 
-const MetricCard: React.FC<MetricCardProps> = ({ icon: Icon, label, value, subvalue, color }) => (
-  <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4">
-    <div className="flex items-center gap-3">
-      <div className={`p-2 rounded-lg ${color}`}>
-        <Icon className="w-5 h-5" />
-      </div>
-      <div>
-        <p className="text-zinc-400 text-sm">{label}</p>
-        <p className="text-2xl font-semibold text-white">{value}</p>
-        {subvalue && <p className="text-xs text-zinc-500">{subvalue}</p>}
-      </div>
-    </div>
-  </div>
-);
-
-interface ErrorBannerProps {
-  message: string;
-  onRetry: () => void;
-}
+const StreamIndicator: React.FC<StreamIndicatorProps> = ({ status, paused, onTogglePause }) => {
+  const live = status === 'sse' || status === 'websocket' || status === 'mock';
+  const dot = paused ? 'bg-zinc-500' : live ? 'bg-emerald-500 animate-pulse' : 'bg-amber-500';
 
-const ErrorBanner: React.FC<ErrorBannerProps> = ({ message, onRetry }) => (
-  <div className="bg-red-900/20 border border-red-800 rounded-lg p-4 flex items-center justify-between">
-    <div className="flex items-center gap-3">
-      <AlertCircle className="w-5 h-5 text-red-400" />
-      <p className="text-red-300">{message}</p>
+  return (
+    <div className="flex items-center gap-2 px-3 py-1.5 rounded bg-zinc-800 text-xs">
+      <span className={`w-2 h-2 rounded-full ${dot}`} />
+      <span className="text-zinc-300">{paused ? 'Paused' : STREAM_LABELS[status]}</span>
+      <button
+        onClick={onTogglePause}
+        className="text-zinc-400 hover:text-white"
+        aria-label={paused ? 'Resume live updates' : 'Pause live updates'}
+      >
+        {paused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+      </button>
     </div>
-    <button
-      onClick={onRetry}
-      className="px-3 py-1.5 bg-red-800 hover:bg-red-700 rounded text-sm font-medium transition"
-    >
-      Retry
-    </button>
-  </div>
-);
-
-const EmptyState: React.FC<{ message: string }> = ({ message }) => (
-  <tr>
-    <td colSpan={5} className="text-center py-12 text-zinc-500">
-      <Database className="w-8 h-8 mx-auto mb-2 opacity-50" />
-      {message}
-    </td>
-  </tr>
-);
+  );
+};
 
 const LoadingSpinner: React.FC = () => (
   <div className="min-h-screen bg-zinc-950 flex items-center justify-center">
@@ -88,143 +88,562 @@ const LoadingSpinner: React.FC = () => (
   </div>
 );
 
-interface ReceiptModalProps {
-  receipt: Receipt;
-  onClose: () => void;
+// ============================================================================
+// Main Dashboard
+// ============================================================================
+
+interface DashboardData {
+  metrics: Metrics | null;
+  receipts: Receipt[];
+  totalPages: number;
+  totalReceipts: number;
+  throughput: ThroughputPoint[];
+  throughputWindow: ThroughputWindow;
+  chainStatus: ChainStatus | null;
+  /** Epoch ms of the fetch, shown when offline */
+  fetchedAt: number;
 }
 
-const ReceiptModal: React.FC<ReceiptModalProps> = ({ receipt, onClose }) => {
-  useKeydown('Escape', onClose);
+type PanelErrors = Partial<Record<DashboardPanel, string>>;
 
-  return (
-    <div
-      className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50"
-      onClick={onClose}
-      role="dialog"
-      aria-modal="true"
-      aria-labelledby="modal-title"
-    >
-      <div
-        className="bg-zinc-900 border border-zinc-800 rounded-lg max-w-2xl w-full max-h-[80vh] overflow-auto"
-        onClick={e => e.stopPropagation()}
-      >
-        <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
-          <h3 id="modal-title" className="font-medium">Receipt Details</h3>
-          <button
-            onClick={onClose}
-            className="text-zinc-400 hover:text-white text-xl p-1"
-            aria-label="Close modal"
-          >
-            &times;
-          </button>
-        </div>
-        <div className="p-4 space-y-4">
-          <div>
-            <p className="text-xs text-zinc-500 mb-1">Receipt Hash</p>
-            <p className="font-mono text-sm bg-zinc-800 p-2 rounded break-all select-all">
-              {receipt.receiptHash}
-            </p>
-          </div>
-          <div className="grid grid-cols-3 gap-4">
-            <div>
-              <p className="text-xs text-zinc-500 mb-1">Ed25519</p>
-              <StatusBadge verified={receipt.edVerified} label={receipt.edVerified ? 'Verified' : 'Failed'} />
-            </div>
-            <div>
-              <p className="text-xs text-zinc-500 mb-1">ECDSA</p>
-              <StatusBadge verified={receipt.ecVerified} label={receipt.ecVerified ? 'Verified' : 'Failed'} />
-            </div>
-            <div>
-              <p className="text-xs text-zinc-500 mb-1">Hash</p>
-              <StatusBadge verified={receipt.hashVerified} label={receipt.hashVerified ? 'Valid' : 'Invalid'} />
-            </div>
-          </div>
-          <div>
-            <p className="text-xs text-zinc-500 mb-1">Payload</p>
-            <pre className="font-mono text-xs bg-zinc-800 p-2 rounded overflow-auto max-h-40">
-              {JSON.stringify(receipt.payload, null, 2)}
-            </pre>
-          </div>
-          {receipt.txHash && (
-            <div>
-              <p className="text-xs text-zinc-500 mb-1">Chain Anchor</p>
-              <div className="bg-zinc-800 p-2 rounded">
-                <p className="font-mono text-xs break-all select-all">{receipt.txHash}</p>
-                <p className="text-xs text-zinc-400 mt-1">Block #{receipt.blockNumber}</p>
-              </div>
-            </div>
-          )}
-          <div>
-            <p className="text-xs text-zinc-500 mb-1">Timestamp</p>
-            <p className="text-sm">{new Date(receipt.createdAt).toLocaleString()}</p>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
+const PANEL_LABELS: Record<DashboardPanel, string> = {
+  metrics: 'Metrics',
+  receipts: 'Receipts',
+  throughput: 'Throughput',
+  chainStatus: 'Chain status',
 };
 
-// ============================================================================
-// Main Dashboard
-// ============================================================================
+/**
+ * Fold panel results into the data on screen; a failed panel keeps its previous value
+ */
+function mergeResults(
+  results: DashboardResults,
+  previous: DashboardData | undefined,
+  throughputWindow: ThroughputWindow,
+  fetchedAt: number
+): DashboardData {
+  const { metrics, receipts, throughput, chainStatus } = results;
+  return {
+    metrics: metrics.ok ? metrics.data : previous?.metrics ?? null,
+    receipts: receipts.ok ? receipts.data.receipts : previous?.receipts ?? [],
+    totalPages: receipts.ok ? receipts.data.pagination.pages : previous?.totalPages ?? 1,
+    totalReceipts: receipts.ok ? receipts.data.pagination.total : previous?.totalReceipts ?? 0,
+    throughput: throughput.ok ? throughput.data : previous?.throughput ?? [],
+    throughputWindow: throughput.ok ? throughputWindow : previous?.throughputWindow ?? throughputWindow,
+    chainStatus: chainStatus.ok ? chainStatus.data : previous?.chainStatus ?? null,
+    fetchedAt,
+  };
+}
+
+const POLL_INTERVAL_MS = 15000;
+const HIGHLIGHT_MS = 4000;
+
+const FILTER_LABELS: Record<FilterType, string> = {
+  all: 'All',
+  verified: 'Verified',
+  pending: 'Pending',
+  anchored: 'Anchored',
+};
+
+const VIEW_TABS: { key: DashboardView; label: string }[] = [
+  { key: 'overview', label: 'Overview' },
+  { key: 'explorer', label: 'Explorer' },
+  { key: 'anchoring', label: 'Anchoring' },
+  { key: 'failures', label: 'Failures' },
+  { key: 'keys', label: 'Keys' },
+  { key: 'migration', label: 'PQC Migration' },
+  { key: 'playground', label: 'Submit / Verify' },
+  { key: 'reports', label: 'Reports' },
+];
+
+interface DashboardProps {
+  /** Set when returning from a failed identity provider sign-in */
+  authNotice?: string | null;
+}
 
-const Dashboard: React.FC = () => {
+const Dashboard: React.FC<DashboardProps> = ({ authNotice }) => {
+  const [initialLocation] = useState(currentLocation);
   const [metrics, setMetrics] = useState<Metrics | null>(null);
   const [receipts, setReceipts] = useState<Receipt[]>([]);
   const [throughput, setThroughput] = useState<ThroughputPoint[]>([]);
   const [chainStatus, setChainStatus] = useState<ChainStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [page, setPage] = useState(1);
+  const [panelErrors, setPanelErrors] = useState<PanelErrors>({});
+  const [page, setPage] = useState(initialLocation.page);
   const [totalPages, setTotalPages] = useState(1);
-  const [filter, setFilter] = useState<FilterType>('all');
-  const [searchInput, setSearchInput] = useState('');
+  const [totalReceipts, setTotalReceipts] = useState(0);
+  const [filter, setFilter] = useState<FilterType>(initialLocation.filter);
+  const [searchInput, setSearchInput] = useState(initialLocation.search);
   const [selectedReceipt, setSelectedReceipt] = useState<Receipt | null>(null);
+  const [comparedReceipts, setComparedReceipts] = useState<[Receipt, Receipt] | null>(null);
+  // Receipt named by the URL that still has to be fetched
+  const [receiptToOpen, setReceiptToOpen] = useState<string | null>(initialLocation.receiptId);
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>('connecting');
+  const [paused, setPaused] = useState(false);
+  const [queued, setQueued] = useState<Receipt[]>([]);
+  const [highlighted, setHighlighted] = useState<Set<string>>(new Set());
+  const [throughputRange, setThroughputRange] = useState<ThroughputRange>('24h');
+  const [customRange, setCustomRange] = useState<CustomRange | undefined>();
+  const [throughputWindow, setThroughputWindow] = useState(() => resolveThroughputWindow('24h'));
+  const [brushInput, setBrushInput] = useState<BrushRange | null>(null);
+  const [showAlerts, setShowAlerts] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const schemaViolations = useSchemaViolations();
+  const [view, setView] = useState<DashboardView>(initialLocation.view);
+  const [environment, setEnvironment] = useState(getActiveEnvironment);
+  const [comparing, setComparing] = useState(false);
+  // Last data per environment, shown immediately when switching back
+  const environmentCache = useRef(new Map<string, DashboardData>());
+  const [dataAsOf, setDataAsOf] = useState<number | null>(null);
+  // The last fetch failed without reaching the API
+  const [unreachable, setUnreachable] = useState(false);
+  const online = useOnline();
+  const offline = !online || unreachable;
+  const environments = getEnvironments();
+  const auth = useSession(environment);
+  const signedIn = auth.status === 'signed-in';
+  // Viewers search, compare and export payloads as they see them, so masked
+  // values can't be confirmed by searching or recovered from an export
+  const roleRedaction = useMemo(
+    () => (auth.role === 'viewer' ? environment.redaction : []),
+    [auth.role, environment.redaction]
+  );
+  // Key registry, for flagging receipts signed outside a key's validity
+  const signingKeys = useSigningKeys(environment.id, signedIn);
+  const anchors = useAnchorChecks(receipts);
+
+  // Rules are evaluated against every change to the loaded data
+  const failedReceipts = useFailedReceipts(environment.id, signedIn, metrics ? metrics.total - metrics.verified : null);
+  const alertSnapshot = useMemo(
+    () => ({ envId: environment.id, metrics, chainStatus, failedReceipts }),
+    [environment.id, metrics, chainStatus, failedReceipts]
+  );
+  const alerts = useAlerts(alertSnapshot);
+  useReportScheduler(environment, signedIn);
 
-  // Debounce search to avoid excessive filtering
+  // Debounce search to avoid a request per keystroke
   const search = useDebounce(searchInput, 300);
+  const searchKeywords = useMemo(() => searchFields(environment.schemas), [environment]);
+  const { query: searchQuery, errors: queryErrors } = useMemo(
+    () => parseReceiptQuery(search, searchKeywords),
+    [search, searchKeywords]
+  );
+
+  // Brushing the throughput chart narrows the receipts table to that window
+  const zoom = useDebounce(brushInput, 400);
+  const query = useMemo<ReceiptQuery>(
+    () => (zoom ? { ...searchQuery, from: zoom.from, to: zoom.to } : searchQuery),
+    [searchQuery, zoom]
+  );
+  const exporter = useReceiptExport(filter, query, roleRedaction);
+
+  const applyData = useCallback((data: DashboardData) => {
+    setMetrics(data.metrics);
+    setReceipts(data.receipts);
+    setTotalPages(data.totalPages);
+    setTotalReceipts(data.totalReceipts);
+    setThroughput(data.throughput);
+    setThroughputWindow(data.throughputWindow);
+    setChainStatus(data.chainStatus);
+    setDataAsOf(data.fetchedAt);
+  }, []);
+
+  const fetchController = useRef<AbortController | null>(null);
+  // Arguments of the data on screen, so a changed page can be painted from cache first
+  const shownArgs = useRef('');
+
+  useEffect(() => () => fetchController.current?.abort(), []);
 
   const fetchData = useCallback(async () => {
+    if (!signedIn) return;
+    // A response for an environment we've switched away from only feeds the cache
+    const isCurrent = () => getActiveEnvironment().id === environment.id;
+    const timeWindow = resolveThroughputWindow(throughputRange, customRange);
+    const args = JSON.stringify([environment.id, page, filter, query, throughputRange, customRange]);
+
+    // Stale-while-revalidate: show the last response for new arguments straight away
+    const previous = environmentCache.current.get(environment.id);
+    const stale = args === shownArgs.current ? null : peekAllData(page, filter, query, timeWindow);
+    if (stale) applyData(mergeResults(stale, previous, timeWindow, previous?.fetchedAt ?? Date.now()));
+
+    const controller = new AbortController();
+    const superseded = fetchController.current;
+    fetchController.current = controller;
     try {
       setError(null);
-      const data = await fetchAllData(page, filter);
-      setMetrics(data.metrics);
-      setReceipts(data.receipts);
-      setTotalPages(data.totalPages);
-      setThroughput(data.throughput);
-      setChainStatus(data.chainStatus);
+      const pending = fetchAllData(page, filter, query, timeWindow, { signal: controller.signal });
+      // Cancelled after the new fetch has joined any identical in-flight requests
+      superseded?.abort();
+      const results = await pending;
+
+      const errors: PanelErrors = {};
+      for (const panel of Object.keys(results) as DashboardPanel[]) {
+        const result = results[panel];
+        if (result.ok) continue;
+        errors[panel] = `${PANEL_LABELS[panel]}: ${describeError(result.error)}`;
+        console.error(`Dashboard ${panel} fetch error:`, result.error);
+      }
+      const settled: Settled<unknown>[] = Object.values(results);
+      // Every panel failed without an answer from the API
+      const unreachableNow = settled.every(r => !r.ok && isUnreachable(r.error));
+
+      const data = mergeResults(results, environmentCache.current.get(environment.id), timeWindow, Date.now());
+      if (!unreachableNow) environmentCache.current.set(environment.id, data);
+      if (settled.every(r => r.ok)) saveSnapshot(environment.id, data, data.fetchedAt, environment.redaction);
+      if (!isCurrent()) return;
+
+      if (unreachableNow) {
+        // Keep what is on screen, or fall back to the last snapshot
+        setUnreachable(true);
+        setPanelErrors({});
+        if (environmentCache.current.has(environment.id)) return;
+        const snapshot = await loadSnapshot<DashboardData>(environment.id);
+        if (!isCurrent() || controller.signal.aborted) return;
+        if (snapshot) applyData(snapshot.data);
+        else setError('Failed to fetch data');
+        return;
+      }
+
+      setUnreachable(false);
+      setPanelErrors(errors);
+      applyData(data);
+      shownArgs.current = args;
+      // Page 1 already includes anything that was queued
+      if (page === 1 && results.receipts.ok) setQueued([]);
+      // Re-check anchors on every fetch; confirmations move on
+      anchors.expire();
     } catch (e) {
-      const message = e instanceof ApiError
-        ? `API Error (${e.status}): ${e.message}`
-        : 'Failed to fetch data';
-      setError(message);
-      console.error('Dashboard fetch error:', e);
+      // Only cancellation rejects, and then a newer fetch owns the state
+      if (!isAbortError(e)) console.error('Dashboard fetch error:', e);
     } finally {
-      setLoading(false);
+      if (isCurrent() && !controller.signal.aborted) setLoading(false);
     }
-  }, [page, filter]);
+  }, [environment, signedIn, page, filter, query, throughputRange, customRange, applyData, anchors.expire]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
-  // Filter receipts client-side by search
-  const filteredReceipts = receipts.filter(r => {
-    if (!search) return true;
-    const searchLower = search.toLowerCase();
-    return (
-      r.receiptHash.toLowerCase().includes(searchLower) ||
-      r.txHash?.toLowerCase().includes(searchLower) ||
-      JSON.stringify(r.payload).toLowerCase().includes(searchLower)
+  // Resync as soon as the browser is back online
+  const wasOnline = useRef(online);
+
+  useEffect(() => {
+    if (online && !wasOnline.current) fetchData();
+    wasOnline.current = online;
+  }, [online, fetchData]);
+
+  // Switch backend: show its cached data straight away, then refresh
+  const switchEnvironment = (id: string) => {
+    const next = selectEnvironment(id);
+    if (next.id === environment.id) return;
+    setEnvironment(next);
+    setPage(1);
+    setQueued([]);
+    setSelectedReceipt(null);
+    setReceiptToOpen(null);
+    setComparedReceipts(null);
+    anchors.reset();
+
+    setError(null);
+    setPanelErrors({});
+    setUnreachable(false);
+    const cached = environmentCache.current.get(next.id);
+    if (cached) {
+      applyData(cached);
+    } else {
+      setDataAsOf(null);
+      setMetrics(null);
+      setReceipts([]);
+      setThroughput([]);
+      setChainStatus(null);
+      setLoading(true);
+    }
+  };
+
+  // A new search or zoom starts from the first page of results
+  const handleSearchChange = (value: string) => {
+    setSearchInput(value);
+    setPage(1);
+  };
+
+  const handleBrushChange = (brush: BrushRange | null) => {
+    setBrushInput(brush);
+    setPage(1);
+  };
+
+  const handleRangeChange = (range: ThroughputRange, custom?: CustomRange) => {
+    setThroughputRange(range);
+    setCustomRange(custom);
+    if (brushInput) handleBrushChange(null);
+  };
+
+  // Mirror navigation state into the URL once search input settles;
+  // search edits replace the current history entry, everything else pushes
+  const openReceiptId = selectedReceipt?.id ?? receiptToOpen;
+
+  useEffect(() => {
+    if (search !== searchInput) return;
+    navigate(
+      {
+        environment: environments.length > 1 ? environment.id : null,
+        view,
+        receiptId: openReceiptId,
+        page,
+        filter,
+        search,
+      },
+      { replace: search !== currentLocation().search }
     );
+  }, [environments.length, environment, view, openReceiptId, page, filter, search, searchInput]);
+
+  // Open a receipt named by the URL, fetching it when it is not on this page
+  useEffect(() => {
+    if (!receiptToOpen || !signedIn) return;
+    let cancelled = false;
+    getReceipt(receiptToOpen)
+      .then(receipt => {
+        if (!cancelled) setSelectedReceipt(receipt);
+      })
+      .catch(async e => {
+        // Offline, a receipt viewed before may still be cached
+        const cached = isUnreachable(e) ? await getCachedReceipt(environment.id, receiptToOpen) : null;
+        if (cancelled) return;
+        if (cached) {
+          setSelectedReceipt(cached);
+          return;
+        }
+        setError(e instanceof ApiError && e.status === 404
+          ? `Receipt ${receiptToOpen} not found`
+          : 'Failed to load receipt');
+        console.error('Receipt fetch error:', e);
+        // Drop the dead link from history rather than stacking a new entry
+        navigate({ ...currentLocation(), receiptId: null }, { replace: true });
+      })
+      .finally(() => {
+        if (!cancelled) setReceiptToOpen(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [receiptToOpen, signedIn, environment.id]);
+
+  // Keep opened receipts for offline use
+  useEffect(() => {
+    if (selectedReceipt && !isCachedReceipt(selectedReceipt)) {
+      rememberReceipt(environment.id, selectedReceipt, environment.redaction);
+    }
+  }, [selectedReceipt, environment]);
+
+  // Back/forward restores the state the URL describes
+  usePopState((location: DashboardLocation) => {
+    const switching = !!location.environment && location.environment !== environment.id;
+    if (switching) switchEnvironment(location.environment!);
+    setView(location.view);
+    setPage(location.page);
+    if (location.filter !== filter) setQueued([]);
+    setFilter(location.filter);
+    setSearchInput(location.search);
+
+    if (location.receiptId === openReceiptId && !switching) return;
+    const onPage = switching ? undefined : receipts.find(r => r.id === location.receiptId);
+    setSelectedReceipt(onPage ?? null);
+    setReceiptToOpen(location.receiptId && !onPage ? location.receiptId : null);
   });
 
+  // Fall back to interval refreshes while the stream is down
+  useInterval(fetchData, streamStatus === 'polling' && !paused ? POLL_INTERVAL_MS : null);
+
+  const highlightRows = useCallback((ids: string[]) => {
+    setHighlighted(h => new Set([...h, ...ids]));
+    setTimeout(() => {
+      setHighlighted(h => {
+        const next = new Set(h);
+        ids.forEach(id => next.delete(id));
+        return next;
+      });
+    }, HIGHLIGHT_MS);
+  }, []);
+
+  const mergeReceipts = useCallback((incoming: Receipt[]) => {
+    const ids = new Set(incoming.map(r => r.id));
+    setReceipts(rs => [...incoming, ...rs.filter(r => !ids.has(r.id))].slice(0, RECEIPTS_PER_PAGE));
+    highlightRows([...ids]);
+  }, [highlightRows]);
+
+  const handleStreamEvent = useCallback((event: StreamEvent) => {
+    switch (event.type) {
+      case 'receipt': {
+        const { receipt } = event;
+        if (!receipt.txHash) {
+          setChainStatus(cs => cs && { ...cs, pending: cs.pending + 1 });
+        }
+        if (!matchesFilter(receipt, filter) || !matchesQuery(receipt, query, roleRedaction)) return;
+        setTotalReceipts(t => t + 1);
+        // Only page 1 shows the newest receipts; elsewhere just count them
+        if (paused || page !== 1) {
+          setQueued(q => [receipt, ...q]);
+        } else {
+          mergeReceipts([receipt]);
+        }
+        return;
+      }
+      case 'metrics':
+        setMetrics(m => m && applyMetricsDelta(m, event.delta));
+        return;
+      case 'anchor': {
+        const { receiptIds, txHash, blockNumber, anchoredAt, proofs } = event;
+        const anchor = (r: Receipt): Receipt =>
+          receiptIds.includes(r.id) ? { ...r, txHash, blockNumber, anchoredAt, merkleProof: proofs?.[r.id] } : r;
+        setReceipts(rs => rs.map(anchor));
+        setQueued(q => q.map(anchor));
+        setSelectedReceipt(r => r && anchor(r));
+        setChainStatus(cs => cs && {
+          ...cs,
+          anchored: cs.anchored + receiptIds.length,
+          pending: Math.max(0, cs.pending - receiptIds.length),
+          latestBlock: { blockNumber, txHash },
+        });
+        return;
+      }
+    }
+  }, [filter, query, roleRedaction, page, paused, mergeReceipts]);
+
+  // Subscribe once; the ref keeps the handler's view of page/filter current
+  const streamHandler = useRef(handleStreamEvent);
+
+  useEffect(() => {
+    streamHandler.current = handleStreamEvent;
+  }, [handleStreamEvent]);
+
+  // Views with their own receipt lists listen in on the same subscription
+  const streamListeners = useRef(new Set<(event: StreamEvent) => void>());
+
+  const listenToStream = useCallback((listener: (event: StreamEvent) => void) => {
+    streamListeners.current.add(listener);
+    return () => {
+      streamListeners.current.delete(listener);
+    };
+  }, []);
+
+  // Resubscribe when the environment or session changes
+  useEffect(() => {
+    if (!signedIn) return;
+    return subscribeToStream({
+      onEvent: event => {
+        streamHandler.current(event);
+        streamListeners.current.forEach(listener => listener(event));
+      },
+      onStatus: setStreamStatus,
+    });
+  }, [environment.id, signedIn]);
+
+  // Show queued receipts: merge on page 1, otherwise jump there and refetch
+  const flushQueued = () => {
+    setPaused(false);
+    if (page === 1) {
+      mergeReceipts(queued.filter(r => matchesFilter(r, filter) && matchesQuery(r, query, roleRedaction)));
+    } else {
+      highlightRows(queued.map(r => r.id));
+      setPage(1);
+    }
+    setQueued([]);
+  };
+
+  const togglePause = () => {
+    if (paused) flushQueued();
+    else setPaused(true);
+  };
+
   // Reset page when filter changes
   const handleFilterChange = (newFilter: FilterType) => {
     setFilter(newFilter);
     setPage(1);
+    setQueued([]);
   };
 
+  // Open a unique match for a hash prefix; several are shown as a search
+  const jumpToReceipt = async (hashPrefix: string) => {
+    const loaded = receipts.filter(r => r.receiptHash.toLowerCase().startsWith(hashPrefix));
+    if (loaded.length === 1) {
+      setSelectedReceipt(loaded[0]);
+      return;
+    }
+    try {
+      const { receipts: found } = await getReceipts(1, 2, 'all', { hashPrefix });
+      if (found.length === 1) {
+        setSelectedReceipt(found[0]);
+      } else if (found.length === 0) {
+        setError(`No receipt hash starts with 0x${hashPrefix}`);
+      } else {
+        setView('overview');
+        handleFilterChange('all');
+        handleSearchChange(`hash:${hashPrefix}`);
+      }
+    } catch (e) {
+      const message = e instanceof ApiError
+        ? `API Error (${e.status}): ${e.message}`
+        : 'Failed to look up receipt';
+      setError(message);
+      console.error('Receipt lookup error:', e);
+    }
+  };
+
+  // The table's keys don't act behind a dialog
+  const dialogOpen = !!selectedReceipt || !!comparedReceipts || showPalette || showShortcuts || showAlerts || showDiagnostics;
+
+  useShortcuts([
+    { keys: 'mod+k', description: 'Command palette', handler: () => setShowPalette(p => !p), enabled: signedIn },
+    { keys: '?', description: 'Keyboard shortcuts', handler: () => setShowShortcuts(s => !s), enabled: signedIn },
+  ]);
+
+  const paletteCommands = (): PaletteCommand[] => [
+    ...VIEW_TABS.map(tab => ({ id: `view-${tab.key}`, label: tab.label, group: 'Go to', run: () => setView(tab.key) })),
+    ...(Object.keys(FILTER_LABELS) as FilterType[]).map(key => ({
+      id: `filter-${key}`,
+      label: `${FILTER_LABELS[key]} receipts`,
+      group: 'Filter',
+      run: () => {
+        setView('overview');
+        handleFilterChange(key);
+      },
+    })),
+    ...(Object.keys(THROUGHPUT_RANGES) as (keyof typeof THROUGHPUT_RANGES)[]).map(key => ({
+      id: `range-${key}`,
+      label: `Last ${THROUGHPUT_RANGES[key].label}`,
+      group: 'Time range',
+      run: () => {
+        setView('overview');
+        handleRangeChange(key);
+      },
+    })),
+    ...EXPORT_FORMATS.map(({ format, label }) => ({
+      id: `export-${format}`,
+      label: `Export ${label}`,
+      group: 'Export',
+      run: () => {
+        setView('overview');
+        exporter.start(format);
+      },
+    })),
+    { id: 'refresh', label: 'Refresh data', group: 'Actions', run: fetchData },
+    { id: 'pause', label: paused ? 'Resume live updates' : 'Pause live updates', group: 'Actions', run: togglePause },
+    { id: 'shortcuts', label: 'Keyboard shortcuts', group: 'Actions', keys: '?', run: () => setShowShortcuts(true) },
+  ];
+
+  if (auth.status === 'checking') return <LoadingSpinner />;
+  if (auth.status === 'signed-out') {
+    return (
+      <SignInScreen
+        environments={environments}
+        active={environment}
+        notice={auth.notice ?? authNotice}
+        onSelectEnvironment={switchEnvironment}
+      />
+    );
+  }
   if (loading) return <LoadingSpinner />;
 
   return (
@@ -235,15 +654,42 @@ const Dashboard: React.FC = () => {
           <div>
             <h1 className="text-2xl font-semibold text-white">Receipt Dashboard</h1>
             <p className="text-zinc-400 text-sm">
-              Dual-signature verification system • Ed25519 + secp256k1/ECDSA
+              Multi-signature verification system • Ed25519 + ECDSA, ML-DSA/SLH-DSA post-quantum
             </p>
           </div>
           <div className="flex items-center gap-3">
-            {USE_MOCK && (
+            {environment.mock && (
               <span className="px-3 py-1.5 rounded text-xs font-medium bg-amber-900/50 text-amber-400">
                 Demo Mode
               </span>
             )}
+            <EnvironmentSelector environments={environments} active={environment} onSelect={switchEnvironment} />
+            {environments.length > 1 && (
+              <button
+                onClick={() => setComparing(c => !c)}
+                className={`p-2 rounded-lg transition ${comparing ? 'bg-zinc-700' : 'bg-zinc-800 hover:bg-zinc-700'}`}
+                aria-label="Compare environments"
+                aria-pressed={comparing}
+              >
+                <GitCompare className="w-4 h-4" />
+              </button>
+            )}
+            <StreamIndicator status={streamStatus} paused={paused} onTogglePause={togglePause} />
+            {auth.session && (
+              <UserBadge environment={environment} session={auth.session} canSignOut={requiresSignIn(environment)} />
+            )}
+            <AlertBell alerts={alerts} onClick={() => setShowAlerts(true)} />
+            {diagnosticsEnabled() && (
+              <DiagnosticsButton violations={schemaViolations} onClick={() => setShowDiagnostics(true)} />
+            )}
+            <button
+              onClick={() => setShowPalette(true)}
+              className="p-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition"
+              title={`Command palette (${formatShortcut('mod+k').join('+')})`}
+              aria-label="Open command palette"
+            >
+              <Command className="w-4 h-4" />
+            </button>
             <button
               onClick={fetchData}
               className="p-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition"
@@ -254,232 +700,176 @@ const Dashboard: React.FC = () => {
           </div>
         </div>
 
+        {/* Views */}
+        <nav className="flex gap-1 border-b border-zinc-800">
+          {VIEW_TABS.map(tab => (
+            <button
+              key={tab.key}
+              onClick={() => setView(tab.key)}
+              className={`px-3 py-2 text-sm border-b-2 -mb-px transition ${
+                view === tab.key
+                  ? 'border-blue-500 text-white'
+                  : 'border-transparent text-zinc-400 hover:text-zinc-200'
+              }`}
+              aria-current={view === tab.key ? 'page' : undefined}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </nav>
+
         {/* Error Banner */}
+        {offline && dataAsOf !== null && <OfflineBanner asOf={dataAsOf} onRetry={fetchData} />}
         {error && <ErrorBanner message={error} onRetry={fetchData} />}
 
-        {/* Metrics */}
-        {metrics && (
-          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-            <MetricCard
-              icon={Database}
-              label="Total Receipts"
-              value={metrics.total.toLocaleString()}
-              subvalue={`+${metrics.lastHour} last hour`}
-              color="bg-blue-900/50 text-blue-400"
-            />
-            <MetricCard
-              icon={Shield}
-              label="Verified"
-              value={`${metrics.verificationRate}%`}
-              subvalue={`${metrics.verified.toLocaleString()} receipts`}
-              color="bg-emerald-900/50 text-emerald-400"
-            />
-            <MetricCard
-              icon={Link2}
-              label="Anchored"
-              value={`${metrics.anchoringRate}%`}
-              subvalue={`${metrics.anchored.toLocaleString()} on-chain`}
-              color="bg-violet-900/50 text-violet-400"
-            />
-            <MetricCard
-              icon={Clock}
-              label="Throughput"
-              value={`${metrics.throughput.avgPerMinute}/min`}
-              subvalue={`${metrics.lastDay} last 24h`}
-              color="bg-amber-900/50 text-amber-400"
-            />
-          </div>
+        {comparing && (
+          <MetricsComparison environments={environments} active={environment} onClose={() => setComparing(false)} />
         )}
 
-        {/* Charts */}
-        <div className="grid lg:grid-cols-3 gap-4">
-          <div className="lg:col-span-2 bg-zinc-900 border border-zinc-800 rounded-lg p-4">
-            <h3 className="text-sm font-medium text-zinc-400 mb-4">24-Hour Throughput</h3>
-            <ResponsiveContainer width="100%" height={200}>
-              <LineChart data={throughput}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
-                <XAxis
-                  dataKey="hour"
-                  tick={{ fill: '#71717a', fontSize: 11 }}
-                  tickLine={false}
-                  axisLine={false}
-                />
-                <YAxis
-                  tick={{ fill: '#71717a', fontSize: 11 }}
-                  tickLine={false}
-                  axisLine={false}
-                />
-                <Tooltip
-                  contentStyle={{ background: '#18181b', border: '1px solid #27272a', borderRadius: 8 }}
-                  labelStyle={{ color: '#a1a1aa' }}
-                />
-                <Line type="monotone" dataKey="count" stroke="#3b82f6" strokeWidth={2} dot={false} />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
+        {view === 'explorer' && (
+          <ExplorerView
+            key={environment.id}
+            schemas={environment.schemas}
+            searchRedaction={roleRedaction}
+            onSelectReceipt={setSelectedReceipt}
+            onStreamEvent={listenToStream}
+          />
+        )}
 
-          <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4">
-            <h3 className="text-sm font-medium text-zinc-400 mb-4">Chain Anchoring</h3>
-            <ResponsiveContainer width="100%" height={140}>
-              <PieChart>
-                <Pie
-                  data={[
-                    { name: 'Anchored', value: chainStatus?.anchored || 0 },
-                    { name: 'Pending', value: chainStatus?.pending || 0 },
-                    { name: 'Unanchored', value: chainStatus?.unanchored || 0 }
-                  ]}
-                  cx="50%"
-                  cy="50%"
-                  innerRadius={40}
-                  outerRadius={60}
-                  dataKey="value"
-                >
-                  <Cell fill="#10b981" />
-                  <Cell fill="#f59e0b" />
-                  <Cell fill="#ef4444" />
-                </Pie>
-                <Tooltip
-                  contentStyle={{ background: '#18181b', border: '1px solid #27272a', borderRadius: 8 }}
-                />
-              </PieChart>
-            </ResponsiveContainer>
-            <div className="flex justify-center gap-4 text-xs">
-              <span className="flex items-center gap-1">
-                <span className="w-2 h-2 rounded-full bg-emerald-500" /> Anchored
-              </span>
-              <span className="flex items-center gap-1">
-                <span className="w-2 h-2 rounded-full bg-amber-500" /> Pending
-              </span>
-              <span className="flex items-center gap-1">
-                <span className="w-2 h-2 rounded-full bg-red-500" /> Failed
-              </span>
-            </div>
-            {chainStatus?.latestBlock && (
-              <p className="text-center text-xs text-zinc-500 mt-3">
-                Latest: Block #{chainStatus.latestBlock.blockNumber}
-              </p>
+        {view === 'anchoring' && (
+          <AnchoringView
+            key={environment.id}
+            latestBlock={chainStatus?.latestBlock?.blockNumber}
+            onSelectReceipt={setSelectedReceipt}
+          />
+        )}
+
+        {view === 'failures' && (
+          <FailuresView
+            key={environment.id}
+            totalReceipts={metrics?.total}
+            onSelectReceipt={setSelectedReceipt}
+          />
+        )}
+
+        {view === 'keys' && <KeysView key={environment.id} />}
+
+        {view === 'migration' && <MigrationView key={environment.id} totalReceipts={metrics?.total} />}
+
+        {view === 'playground' && (
+          <PlaygroundView key={environment.id} schemas={environment.schemas} onSelectReceipt={setSelectedReceipt} />
+        )}
+
+        {view === 'reports' && <ReportsView key={environment.id} environment={environment} />}
+
+        {view === 'overview' && (
+          <>
+            {/* Metrics */}
+            {panelErrors.metrics && <PanelError message={panelErrors.metrics} onRetry={fetchData} />}
+            {metrics && <MetricsSummary metrics={metrics} />}
+            {metrics?.signatures && (
+              <SignatureBreakdown
+                stats={metrics.signatures}
+                total={metrics.total}
+                onShowMigration={() => setView('migration')}
+              />
             )}
-          </div>
-        </div>
 
-        {/* Receipts Table */}
-        <div className="bg-zinc-900 border border-zinc-800 rounded-lg">
-          <div className="p-4 border-b border-zinc-800 flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
-            <div className="flex items-center gap-2">
-              <h3 className="font-medium">Receipts</h3>
-              <select
-                value={filter}
-                onChange={e => handleFilterChange(e.target.value as FilterType)}
-                className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm"
-              >
-                <option value="all">All</option>
-                <option value="verified">Verified</option>
-                <option value="pending">Pending</option>
-                <option value="anchored">Anchored</option>
-              </select>
-            </div>
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-500" />
-              <input
-                type="text"
-                placeholder="Search hash, tx, payload..."
-                value={searchInput}
-                onChange={e => setSearchInput(e.target.value)}
-                className="bg-zinc-800 border border-zinc-700 rounded pl-9 pr-3 py-1.5 text-sm w-64"
+            {/* Charts */}
+            <div className="grid lg:grid-cols-3 gap-4">
+              <ThroughputChart
+                data={throughput}
+                timeWindow={throughputWindow}
+                range={throughputRange}
+                brush={brushInput}
+                onRangeChange={handleRangeChange}
+                onBrushChange={handleBrushChange}
+                error={panelErrors.throughput}
+                onRetry={fetchData}
+              />
+              <ChainAnchoringPanel
+                chainStatus={chainStatus}
+                error={panelErrors.chainStatus}
+                onRetry={fetchData}
+                onShowAnchoring={() => setView('anchoring')}
               />
             </div>
-          </div>
-
-          <div className="overflow-x-auto">
-            <table className="w-full text-sm">
-              <thead className="bg-zinc-800/50">
-                <tr>
-                  <th className="text-left px-4 py-3 font-medium text-zinc-400">Receipt Hash</th>
-                  <th className="text-left px-4 py-3 font-medium text-zinc-400">Payload</th>
-                  <th className="text-left px-4 py-3 font-medium text-zinc-400">Signatures</th>
-                  <th className="text-left px-4 py-3 font-medium text-zinc-400">Chain</th>
-                  <th className="text-left px-4 py-3 font-medium text-zinc-400">Time</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-zinc-800">
-                {filteredReceipts.length === 0 ? (
-                  <EmptyState message={search ? 'No receipts match your search' : 'No receipts found'} />
-                ) : (
-                  filteredReceipts.map(r => (
-                    <tr
-                      key={r.id}
-                      className="hover:bg-zinc-800/30 cursor-pointer"
-                      onClick={() => setSelectedReceipt(r)}
-                    >
-                      <td className="px-4 py-3 font-mono text-xs">
-                        {truncateHash(r.receiptHash, 8)}
-                      </td>
-                      <td className="px-4 py-3">
-                        <span className="text-zinc-300">
-                          {(r.payload as Record<string, unknown>)?.nurse as string || '—'}
-                        </span>
-                        <span className="text-zinc-500 ml-2">
-                          #{(r.payload as Record<string, unknown>)?.patientId as number}
-                        </span>
-                      </td>
-                      <td className="px-4 py-3">
-                        <div className="flex gap-1">
-                          <StatusBadge verified={r.edVerified} label="Ed" />
-                          <StatusBadge verified={r.ecVerified} label="EC" />
-                        </div>
-                      </td>
-                      <td className="px-4 py-3">
-                        {r.txHash ? (
-                          <span className="inline-flex items-center gap-1 text-emerald-400 text-xs">
-                            <CheckCircle className="w-3 h-3" /> #{r.blockNumber}
-                          </span>
-                        ) : (
-                          <span className="text-zinc-500 text-xs">Pending</span>
-                        )}
-                      </td>
-                      <td className="px-4 py-3 text-zinc-400 text-xs">
-                        {formatTime(r.createdAt)}
-                      </td>
-                    </tr>
-                  ))
-                )}
-              </tbody>
-            </table>
-          </div>
 
-          <div className="p-4 border-t border-zinc-800 flex items-center justify-between">
-            <p className="text-sm text-zinc-500">
-              Page {page} of {totalPages}
-            </p>
-            <div className="flex gap-2">
-              <button
-                onClick={() => setPage(p => Math.max(1, p - 1))}
-                disabled={page === 1}
-                className="p-2 rounded bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed transition"
-                aria-label="Previous page"
-              >
-                <ChevronLeft className="w-4 h-4" />
-              </button>
-              <button
-                onClick={() => setPage(p => Math.min(totalPages, p + 1))}
-                disabled={page === totalPages}
-                className="p-2 rounded bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed transition"
-                aria-label="Next page"
-              >
-                <ChevronRight className="w-4 h-4" />
-              </button>
-            </div>
-          </div>
-        </div>
+            <ReceiptsTable
+              key={environment.id}
+              environment={environment}
+              receipts={receipts}
+              page={page}
+              totalPages={totalPages}
+              totalReceipts={totalReceipts}
+              filter={filter}
+              searchInput={searchInput}
+              searchKeywords={searchKeywords}
+              queryErrors={queryErrors}
+              searching={!isEmptyQuery(query)}
+              signingKeys={signingKeys}
+              anchorChecks={anchors.checks}
+              highlighted={highlighted}
+              queuedCount={queued.length}
+              exporter={exporter}
+              error={panelErrors.receipts}
+              keysEnabled={!dialogOpen}
+              onPageChange={setPage}
+              onFilterChange={handleFilterChange}
+              onSearchChange={handleSearchChange}
+              onFlushQueued={flushQueued}
+              onRetry={fetchData}
+              onSelectReceipt={setSelectedReceipt}
+              onCompare={setComparedReceipts}
+            />
+          </>
+        )}
 
         {/* Receipt Detail Modal */}
         {selectedReceipt && (
-          <ReceiptModal receipt={selectedReceipt} onClose={() => setSelectedReceipt(null)} />
+          <ReceiptModal
+            receipt={selectedReceipt}
+            role={auth.role}
+            redaction={environment.redaction}
+            schemas={environment.schemas}
+            keyWarnings={receiptKeyWarnings(selectedReceipt, signingKeys)}
+            signingKeys={signingKeys}
+            anchorCheck={anchors.checks[selectedReceipt.id]}
+            onRecheckAnchor={() => anchors.recheck(selectedReceipt)}
+            onClose={() => setSelectedReceipt(null)}
+          />
+        )}
+
+        {comparedReceipts && (
+          <ReceiptCompare
+            receipts={comparedReceipts}
+            schemas={environment.schemas}
+            redaction={roleRedaction}
+            onSelectReceipt={r => {
+              setComparedReceipts(null);
+              setSelectedReceipt(r);
+            }}
+            onClose={() => setComparedReceipts(null)}
+          />
+        )}
+
+        {showPalette && (
+          <CommandPalette
+            commands={paletteCommands()}
+            onJumpToReceipt={jumpToReceipt}
+            onClose={() => setShowPalette(false)}
+          />
+        )}
+        {showShortcuts && <ShortcutsHelp onClose={() => setShowShortcuts(false)} />}
+
+        {showAlerts && <AlertsPanel alerts={alerts} onClose={() => setShowAlerts(false)} />}
+        {showDiagnostics && (
+          <DiagnosticsPanel violations={schemaViolations} onClose={() => setShowDiagnostics(false)} />
         )}
 
         {/* Footer */}
         <footer className="text-center text-xs text-zinc-600 pt-4">
-          Final Boss Technologies • Dual-Signature Receipt System • PQC upgrade path available
+          Final Boss Technologies • Multi-Signature Receipt System • Post-quantum signatures supported
         </footer>
       </div>
     </div>
@@ -0,0 +1,112 @@
+// Developer diagnostics: API responses that didn't match their schema
+import React from 'react';
+import { Bug } from 'lucide-react';
+
+import { clearSchemaViolations, type SchemaViolation } from './diagnostics';
+import { formatDate } from './hooks';
+import { useShortcut } from './shortcuts';
+
+const SEVERITY_STYLES: Record<SchemaViolation['severity'], string> = {
+  error: 'bg-red-900/50 text-red-400',
+  coerced: 'bg-amber-900/50 text-amber-400',
+};
+
+interface DiagnosticsButtonProps {
+  violations: SchemaViolation[];
+  onClick: () => void;
+}
+
+export const DiagnosticsButton: React.FC<DiagnosticsButtonProps> = ({ violations, onClick }) => {
+  const errors = violations.some(v => v.severity === 'error');
+
+  return (
+    <button
+      onClick={onClick}
+      className="relative p-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition"
+      aria-label={`Diagnostics (${violations.length} schema issues)`}
+    >
+      <Bug className={`w-4 h-4 ${violations.length === 0 ? '' : errors ? 'text-red-400' : 'text-amber-400'}`} />
+      {violations.length > 0 && (
+        <span className={`absolute -top-1 -right-1 min-w-[1.1rem] px-1 rounded-full text-[10px] font-semibold text-white ${
+          errors ? 'bg-red-600' : 'bg-amber-600'
+        }`}>
+          {violations.length}
+        </span>
+      )}
+    </button>
+  );
+};
+
+const ViolationRow: React.FC<{ violation: SchemaViolation }> = ({ violation }) => (
+  <li className="bg-zinc-800 rounded p-3 text-xs space-y-1">
+    <div className="flex items-center justify-between gap-2">
+      <code className="text-zinc-200 break-all">{violation.path}</code>
+      <span className={`px-1.5 py-0.5 rounded font-medium ${SEVERITY_STYLES[violation.severity]}`}>
+        {violation.severity}
+      </span>
+    </div>
+    <p className="text-zinc-400">
+      Expected <span className="text-zinc-200">{violation.expected}</span>, got{' '}
+      <span className="text-zinc-200 break-all">{violation.received}</span>
+    </p>
+    <p className="text-zinc-500">
+      {violation.count > 1 ? `${violation.count}× • last ` : ''}
+      {formatDate(new Date(violation.lastSeen).toISOString())} • {violation.envId}
+    </p>
+  </li>
+);
+
+interface DiagnosticsPanelProps {
+  violations: SchemaViolation[];
+  onClose: () => void;
+}
+
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ violations, onClose }) => {
+  useShortcut('Escape', onClose, { description: 'Close dialog' });
+
+  const byEndpoint = new Map<string, SchemaViolation[]>();
+  for (const v of violations) byEndpoint.set(v.endpoint, [...(byEndpoint.get(v.endpoint) ?? []), v]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-40 flex justify-end" onClick={onClose}>
+      <aside
+        className="w-full max-w-md h-full bg-zinc-900 border-l border-zinc-800 flex flex-col"
+        onClick={e => e.stopPropagation()}
+        aria-label="Diagnostics"
+      >
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+          <h3 className="font-medium">Schema diagnostics</h3>
+          <button
+            onClick={onClose}
+            className="text-zinc-400 hover:text-white text-xl p-1"
+            aria-label="Close diagnostics"
+          >
+            &times;
+          </button>
+        </div>
+
+        <div className="p-4 overflow-auto flex-1 space-y-4">
+          <p className="text-xs text-zinc-500">
+            Errors rejected the response and the panel using it shows an error. Coerced fields used a
+            legacy shape and were converted.
+          </p>
+          {violations.length > 0 && (
+            <button onClick={clearSchemaViolations} className="text-xs text-zinc-400 hover:text-white">
+              Clear
+            </button>
+          )}
+          {violations.length === 0
+            ? <p className="text-sm text-zinc-500">Every response matched its schema</p>
+            : [...byEndpoint].map(([endpoint, list]) => (
+              <section key={endpoint} className="space-y-2">
+                <h4 className="text-sm font-mono text-zinc-300">{endpoint}</h4>
+                <ul className="space-y-2">
+                  {list.map(v => <ViolationRow key={`${v.envId} ${v.path} ${v.severity}`} violation={v} />)}
+                </ul>
+              </section>
+            ))}
+        </div>
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+// Environment selector, badge and cross-environment metrics comparison
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+
+import type { Metrics } from './types';
+import { getMetrics, describeError } from './api';
+import type { ApiEnvironment, EnvironmentColor } from './environments';
+
+const ENVIRONMENT_STYLES: Record<EnvironmentColor, string> = {
+  zinc: 'bg-zinc-800 text-zinc-300',
+  blue: 'bg-blue-900/50 text-blue-400',
+  emerald: 'bg-emerald-900/50 text-emerald-400',
+  amber: 'bg-amber-900/50 text-amber-400',
+  red: 'bg-red-900/50 text-red-400',
+  violet: 'bg-violet-900/50 text-violet-400',
+};
+
+interface EnvironmentSelectorProps {
+  environments: ApiEnvironment[];
+  active: ApiEnvironment;
+  onSelect: (id: string) => void;
+}
+
+/**
+ * Colored badge for the active environment; a selector when there is a choice
+ */
+export const EnvironmentSelector: React.FC<EnvironmentSelectorProps> = ({ environments, active, onSelect }) => {
+  const className = `px-3 py-1.5 rounded text-xs font-medium ${ENVIRONMENT_STYLES[active.color]}`;
+
+  if (environments.length < 2) {
+    return <span className={className}>{active.name}</span>;
+  }
+  return (
+    <select
+      value={active.id}
+      onChange={e => onSelect(e.target.value)}
+      className={`${className} border-0 cursor-pointer`}
+      aria-label="Environment"
+    >
+      {environments.map(env => (
+        <option key={env.id} value={env.id}>{env.name}</option>
+      ))}
+    </select>
+  );
+};
+
+type ComparedMetric = {
+  label: string;
+  value: (m: Metrics) => number;
+  format?: (n: number) => string;
+};
+
+const COMPARED_METRICS: ComparedMetric[] = [
+  { label: 'Total receipts', value: m => m.total },
+  { label: 'Last hour', value: m => m.lastHour },
+  { label: 'Last 24h', value: m => m.lastDay },
+  { label: 'Verified', value: m => m.verified },
+  { label: 'Verification rate', value: m => parseFloat(m.verificationRate), format: n => `${n.toFixed(2)}%` },
+  { label: 'Anchored', value: m => m.anchored },
+  { label: 'Anchoring rate', value: m => parseFloat(m.anchoringRate), format: n => `${n.toFixed(2)}%` },
+  { label: 'Avg per minute', value: m => parseFloat(m.throughput.avgPerMinute), format: n => n.toFixed(2) },
+];
+
+const formatValue = (metric: ComparedMetric, n: number): string =>
+  metric.format ? metric.format(n) : n.toLocaleString();
+
+type MetricsResult = { metrics: Metrics } | { error: string };
+
+async function loadMetrics(env: ApiEnvironment): Promise<MetricsResult> {
+  try {
+    return { metrics: await getMetrics(env) };
+  } catch (e) {
+    console.error(`Metrics fetch error (${env.name}):`, e);
+    return { error: describeError(e) };
+  }
+}
+
+interface MetricsComparisonProps {
+  environments: ApiEnvironment[];
+  active: ApiEnvironment;
+  onClose: () => void;
+}
+
+/**
+ * Side-by-side `Metrics` for two environments, with the difference between them
+ */
+export const MetricsComparison: React.FC<MetricsComparisonProps> = ({ environments, active, onClose }) => {
+  const [leftId, setLeftId] = useState(active.id);
+  const [rightId, setRightId] = useState(() => environments.find(e => e.id !== active.id)?.id ?? active.id);
+  const [results, setResults] = useState<Record<string, MetricsResult>>({});
+
+  const left = environments.find(e => e.id === leftId) ?? active;
+  const right = environments.find(e => e.id === rightId) ?? active;
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([left, right].map(env => loadMetrics(env).then(result => [env.id, result] as const)))
+      .then(entries => {
+        if (!cancelled) setResults(Object.fromEntries(entries));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [left, right]);
+
+  const leftResult = results[left.id];
+  const rightResult = results[right.id];
+  const leftMetrics = leftResult && 'metrics' in leftResult ? leftResult.metrics : null;
+  const rightMetrics = rightResult && 'metrics' in rightResult ? rightResult.metrics : null;
+
+  const cell = (result: MetricsResult | undefined, metric: ComparedMetric) => {
+    if (!result) return <span className="text-zinc-600">…</span>;
+    if ('error' in result) return <span className="text-red-400">{result.error}</span>;
+    return formatValue(metric, metric.value(result.metrics));
+  };
+
+  const envSelect = (value: string, onChange: (id: string) => void, label: string) => (
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm"
+      aria-label={label}
+    >
+      {environments.map(env => (
+        <option key={env.id} value={env.id}>{env.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-lg">
+      <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+        <h3 className="font-medium">Compare Environments</h3>
+        <button onClick={onClose} className="text-zinc-400 hover:text-white" aria-label="Close comparison">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-zinc-800/50">
+            <tr>
+              <th className="text-left px-4 py-3 font-medium text-zinc-400">Metric</th>
+              <th className="text-left px-4 py-2">{envSelect(leftId, setLeftId, 'First environment')}</th>
+              <th className="text-left px-4 py-2">{envSelect(rightId, setRightId, 'Second environment')}</th>
+              <th className="text-left px-4 py-3 font-medium text-zinc-400">Difference</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-800">
+            {COMPARED_METRICS.map(metric => {
+              const delta = leftMetrics && rightMetrics ? metric.value(rightMetrics) - metric.value(leftMetrics) : null;
+              return (
+                <tr key={metric.label}>
+                  <td className="px-4 py-3 text-zinc-400">{metric.label}</td>
+                  <td className="px-4 py-3">{cell(leftResult, metric)}</td>
+                  <td className="px-4 py-3">{cell(rightResult, metric)}</td>
+                  <td className={`px-4 py-3 text-xs ${delta ? 'text-zinc-300' : 'text-zinc-500'}`}>
+                    {delta === null ? '—' : `${delta > 0 ? '+' : ''}${formatValue(metric, delta)}`}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,405 @@
+// High-volume receipts explorer: cursor-paginated infinite scroll over a
+// virtualized table, sortable by time, block and status
+import React, { useState, useEffect, useLayoutEffect, useCallback, useMemo, useRef } from 'react';
+import { ArrowUp, ArrowDown, ArrowUpDown, ChevronsUp, RefreshCw, Search, CheckCircle } from 'lucide-react';
+
+import type { FilterType, Receipt, ReceiptSort, ReceiptSortField, StreamEvent } from './types';
+import { getReceiptsByCursor, matchesFilter, isAbortError, ApiError } from './api';
+import { parseReceiptQuery, matchesQuery, isEmptyQuery } from './query';
+import { useDebounce, formatTime, truncateHash } from './hooks';
+import { DEFAULT_SORT, receiptStatus, newestFirst, type ReceiptStatus } from './explorer';
+import { BADGE_LABELS, signatureLabel } from './signatures';
+import { failureReason } from './forensics';
+import { searchFields, type PayloadSchema } from './schemas';
+import type { RedactionRule } from './redaction';
+import { StatusBadge, ErrorBanner } from './components';
+
+export const EXPLORER_PAGE_SIZES = [50, 100, 250, 500];
+
+// Rows have a fixed height so the visible window is arithmetic
+const ROW_HEIGHT = 36;
+/** Rows rendered beyond each edge of the viewport */
+const OVERSCAN = 10;
+/** Fetch the next page once the viewport is this many rows from the end */
+const LOAD_AHEAD = 50;
+/**
+ * Rows kept loaded. Scrolling stops here; past it, narrowing the search is
+ * more useful than scrolling further.
+ */
+const MAX_LOADED_ROWS = 10000;
+
+const SORT_COLUMNS: { field: ReceiptSortField; label: string }[] = [
+  { field: 'status', label: 'Status' },
+  { field: 'block', label: 'Block' },
+  { field: 'time', label: 'Time' },
+];
+
+// Direction a column starts in: newest first, problems first
+const INITIAL_DIRECTION: Record<ReceiptSortField, ReceiptSort['direction']> = {
+  time: 'desc',
+  block: 'desc',
+  status: 'asc',
+};
+
+const STATUS_STYLES: Record<ReceiptStatus, { label: string; className: string }> = {
+  failed: { label: 'Failed', className: 'text-red-400' },
+  pending: { label: 'Pending', className: 'text-amber-400' },
+  anchored: { label: 'Anchored', className: 'text-emerald-400' },
+};
+
+const COLUMN_COUNT = 6;
+
+interface ExplorerViewProps {
+  schemas: PayloadSchema[];
+  /** Redaction searches must respect, for matching streamed receipts */
+  searchRedaction: RedactionRule[];
+  onSelectReceipt: (receipt: Receipt) => void;
+  /** Listen to the live stream; returns the unsubscribe */
+  onStreamEvent: (listener: (event: StreamEvent) => void) => () => void;
+}
+
+const ExplorerView: React.FC<ExplorerViewProps> = ({ schemas, searchRedaction, onSelectReceipt, onStreamEvent }) => {
+  const [filter, setFilter] = useState<FilterType>('all');
+  const [searchInput, setSearchInput] = useState('');
+  const [sort, setSort] = useState<ReceiptSort>(DEFAULT_SORT);
+  const [pageSize, setPageSize] = useState(EXPLORER_PAGE_SIZES[1]);
+  const [rows, setRows] = useState<Receipt[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Receipts inserted above the viewport, or arrived under an order they can't be placed in
+  const [newAbove, setNewAbove] = useState(0);
+  const [unplaced, setUnplaced] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const capped = rows.length >= MAX_LOADED_ROWS;
+
+  const scroller = useRef<HTMLDivElement>(null);
+  const controller = useRef<AbortController | null>(null);
+  // A page request in flight; infinite scroll waits for it
+  const fetching = useRef(false);
+  const firstRowId = useRef<string | null>(null);
+  // Every receipt id loaded since the last reload, so pages and the stream
+  // don't add one twice
+  const seen = useRef(new Set<string>());
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const search = useDebounce(searchInput, 300);
+  const searchKeywords = useMemo(() => searchFields(schemas), [schemas]);
+  const { query, errors: queryErrors } = useMemo(
+    () => parseReceiptQuery(search, searchKeywords),
+    [search, searchKeywords]
+  );
+
+  const reportError = (e: unknown) => {
+    const message = e instanceof ApiError
+      ? `API Error (${e.status}): ${e.message}`
+      : 'Failed to fetch receipts';
+    setError(message);
+    console.error('Explorer fetch error:', e);
+  };
+
+  // First page for the current criteria; supersedes any load in flight
+  const reload = useCallback(async () => {
+    controller.current?.abort();
+    const { signal } = controller.current = new AbortController();
+    fetching.current = true;
+    setLoading(true);
+    setError(null);
+    setNewAbove(0);
+    setUnplaced(0);
+    if (scroller.current) scroller.current.scrollTop = 0;
+    try {
+      const page = await getReceiptsByCursor(null, pageSize, filter, query, sort, { signal });
+      firstRowId.current = null;
+      seen.current = new Set(page.receipts.map(r => r.id));
+      setRows(page.receipts);
+      setNextCursor(page.nextCursor ?? null);
+      setTotal(page.total ?? null);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      reportError(e);
+    } finally {
+      if (!signal.aborted) {
+        fetching.current = false;
+        setLoading(false);
+      }
+    }
+  }, [filter, query, sort, pageSize]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || capped || fetching.current || !controller.current) return;
+    const { signal } = controller.current;
+    fetching.current = true;
+    setLoading(true);
+    try {
+      const page = await getReceiptsByCursor(nextCursor, pageSize, filter, query, sort, { signal });
+      // The stream may already have added some of these
+      const fresh = page.receipts.filter(r => !seen.current.has(r.id));
+      fresh.forEach(r => seen.current.add(r.id));
+      setRows(rs => [...rs, ...fresh].slice(0, MAX_LOADED_ROWS));
+      setNextCursor(page.nextCursor ?? null);
+      if (page.total !== undefined) setTotal(page.total);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      reportError(e);
+    } finally {
+      if (!signal.aborted) {
+        fetching.current = false;
+        setLoading(false);
+      }
+    }
+  }, [nextCursor, capped, filter, query, sort, pageSize]);
+
+  const handleStreamEvent = useCallback((event: StreamEvent) => {
+    if (event.type === 'receipt') {
+      const { receipt } = event;
+      if (!matchesFilter(receipt, filter) || !matchesQuery(receipt, query, searchRedaction)) return;
+      setTotal(t => t !== null ? t + 1 : t);
+      // A new receipt is the newest; anywhere else its place may not be loaded yet
+      if (newestFirst(sort)) {
+        if (seen.current.has(receipt.id)) return;
+        seen.current.add(receipt.id);
+        // At the cap the oldest loaded rows make room, and no further pages load
+        setRows(rs => [receipt, ...rs].slice(0, MAX_LOADED_ROWS));
+      } else {
+        setUnplaced(n => n + 1);
+      }
+    } else if (event.type === 'anchor') {
+      const { receiptIds, txHash, blockNumber, anchoredAt, proofs } = event;
+      setRows(rs => rs.map(r => (
+        receiptIds.includes(r.id) ? { ...r, txHash, blockNumber, anchoredAt, merkleProof: proofs?.[r.id] } : r
+      )));
+    }
+  }, [filter, query, searchRedaction, sort]);
+
+  // Subscribe once; the ref keeps the handler's view of the criteria current
+  const streamHandler = useRef(handleStreamEvent);
+
+  useEffect(() => {
+    streamHandler.current = handleStreamEvent;
+  }, [handleStreamEvent]);
+
+  useEffect(() => onStreamEvent(event => streamHandler.current(event)), [onStreamEvent]);
+
+  // Keep the rows on screen in place when receipts are inserted above them
+  useLayoutEffect(() => {
+    const previous = firstRowId.current;
+    firstRowId.current = rows[0]?.id ?? null;
+    const el = scroller.current;
+    if (!previous || !el || el.scrollTop === 0) return;
+    const inserted = rows.findIndex(r => r.id === previous);
+    if (inserted <= 0) return;
+    el.scrollTop += inserted * ROW_HEIGHT;
+    setScrollTop(el.scrollTop);
+    setNewAbove(n => n + inserted);
+  }, [rows]);
+
+  useLayoutEffect(() => {
+    const el = scroller.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const top = e.currentTarget.scrollTop;
+    setScrollTop(top);
+    // Rows scrolled back into view are no longer new
+    setNewAbove(n => Math.min(n, Math.floor(top / ROW_HEIGHT)));
+  };
+
+  const scrollToTop = () => {
+    scroller.current?.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  useEffect(() => {
+    if (last >= rows.length - LOAD_AHEAD) loadMore();
+  }, [last, rows.length, loadMore]);
+
+  const toggleSort = (field: ReceiptSortField) => {
+    setSort(s => (s.field === field
+      ? { field, direction: s.direction === 'asc' ? 'desc' : 'asc' }
+      : { field, direction: INITIAL_DIRECTION[field] }));
+  };
+
+  const sortHeader = (field: ReceiptSortField, label: string) => {
+    const active = sort.field === field;
+    const Icon = !active ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <th
+        key={field}
+        className="text-left px-4 py-3 font-medium text-zinc-400"
+        aria-sort={active ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+      >
+        <button
+          onClick={() => toggleSort(field)}
+          className={`inline-flex items-center gap-1 hover:text-white transition ${active ? 'text-white' : ''}`}
+        >
+          {label}
+          <Icon className={`w-3 h-3 ${active ? '' : 'text-zinc-600'}`} />
+        </button>
+      </th>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && <ErrorBanner message={error} onRetry={reload} />}
+
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg overflow-hidden">
+        <div className="p-4 border-b border-zinc-800 flex flex-wrap items-start justify-between gap-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <h2 className="font-medium">Receipts Explorer</h2>
+            <select
+              value={filter}
+              onChange={e => setFilter(e.target.value as FilterType)}
+              className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm"
+            >
+              <option value="all">All</option>
+              <option value="verified">Verified</option>
+              <option value="pending">Pending</option>
+              <option value="anchored">Anchored</option>
+            </select>
+            <label className="flex items-center gap-2 text-xs text-zinc-400">
+              Page size
+              <select
+                value={pageSize}
+                onChange={e => setPageSize(Number(e.target.value))}
+                className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm text-white"
+              >
+                {EXPLORER_PAGE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+              </select>
+            </label>
+            {loading && <RefreshCw className="w-4 h-4 text-zinc-500 animate-spin" />}
+            {unplaced > 0 && (
+              <button
+                onClick={reload}
+                className="px-2 py-1 rounded bg-blue-900/50 text-blue-400 hover:bg-blue-900/70 text-xs font-medium transition"
+              >
+                {unplaced} new receipt{unplaced === 1 ? '' : 's'} • Reload
+              </button>
+            )}
+          </div>
+          <div>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-500" />
+              <input
+                type="text"
+                placeholder="Search, e.g. nurse:Alice block:>900 ed:failed"
+                title={`Payload fields: ${Object.keys(searchKeywords).join(', ')}`}
+                value={searchInput}
+                onChange={e => setSearchInput(e.target.value)}
+                className="bg-zinc-800 border border-zinc-700 rounded pl-9 pr-3 py-1.5 text-sm w-80"
+                aria-describedby={queryErrors.length > 0 ? 'explorer-search-errors' : undefined}
+              />
+            </div>
+            {queryErrors.length > 0 && (
+              <p id="explorer-search-errors" className="text-xs text-red-400 mt-1">{queryErrors.join(' • ')}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="relative">
+          {newAbove > 0 && (
+            <button
+              onClick={scrollToTop}
+              className="absolute top-12 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 px-3 py-1 rounded-full bg-blue-600 hover:bg-blue-500 text-xs font-medium shadow-lg transition"
+            >
+              <ChevronsUp className="w-3.5 h-3.5" /> {newAbove} new above
+            </button>
+          )}
+          <div ref={scroller} onScroll={handleScroll} className="h-[65vh] overflow-auto">
+            <table className="w-full text-sm table-fixed">
+              <thead className="bg-zinc-800 sticky top-0 z-10">
+                <tr>
+                  <th className="text-left px-4 py-3 font-medium text-zinc-400 w-48">Receipt Hash</th>
+                  <th className="text-left px-4 py-3 font-medium text-zinc-400 w-32">Type</th>
+                  <th className="text-left px-4 py-3 font-medium text-zinc-400">Signatures</th>
+                  {SORT_COLUMNS.map(c => sortHeader(c.field, c.label))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.length === 0 ? (
+                  !loading && (
+                    <tr>
+                      <td colSpan={COLUMN_COUNT} className="px-4 py-8 text-center text-zinc-500">
+                        {isEmptyQuery(query) ? 'No receipts found' : 'No receipts match your search'}
+                      </td>
+                    </tr>
+                  )
+                ) : (
+                  <>
+                    {first > 0 && <tr style={{ height: first * ROW_HEIGHT }} aria-hidden="true" />}
+                    {rows.slice(first, last).map(r => {
+                      const status = STATUS_STYLES[receiptStatus(r)];
+                      return (
+                        <tr
+                          key={r.id}
+                          style={{ height: ROW_HEIGHT }}
+                          className="hover:bg-zinc-800/30 cursor-pointer whitespace-nowrap shadow-[inset_0_-1px_0_#27272a]"
+                          onClick={() => onSelectReceipt(r)}
+                        >
+                          <td className="px-4 font-mono text-xs truncate">{truncateHash(r.receiptHash, 8)}</td>
+                          <td className="px-4 text-zinc-400 text-xs truncate">{r.type ?? '—'}</td>
+                          <td className="px-4">
+                            <div className="flex gap-1 overflow-hidden">
+                              {r.signatures.map((signature, i) => (
+                                <StatusBadge
+                                  key={i}
+                                  verified={signature.verified}
+                                  label={BADGE_LABELS[signature.algorithm]}
+                                  title={failureReason(r, signature.algorithm) ?? signatureLabel(signature)}
+                                />
+                              ))}
+                            </div>
+                          </td>
+                          <td className={`px-4 text-xs ${status.className}`}>{status.label}</td>
+                          <td className="px-4 text-xs">
+                            {r.blockNumber !== undefined ? (
+                              <span className="inline-flex items-center gap-1 text-emerald-400">
+                                <CheckCircle className="w-3 h-3" /> #{r.blockNumber}
+                              </span>
+                            ) : (
+                              <span className="text-zinc-500">—</span>
+                            )}
+                          </td>
+                          <td className="px-4 text-zinc-400 text-xs">{formatTime(r.createdAt)}</td>
+                        </tr>
+                      );
+                    })}
+                    {last < rows.length && (
+                      <tr style={{ height: (rows.length - last) * ROW_HEIGHT }} aria-hidden="true" />
+                    )}
+                  </>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-zinc-800 flex items-center justify-between text-sm text-zinc-500">
+          <p>
+            {rows.length.toLocaleString()} loaded
+            {total !== null && ` of ${total.toLocaleString()} receipt${total === 1 ? '' : 's'}`}
+          </p>
+          {capped && (nextCursor || total === null || total > rows.length) ? (
+            <p>Showing the first {MAX_LOADED_ROWS.toLocaleString()}; narrow the search to see the rest</p>
+          ) : !nextCursor && rows.length > 0 && !loading && <p>End of results</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExplorerView;
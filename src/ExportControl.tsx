@@ -0,0 +1,108 @@
+// Receipt export control for the overview table, and the state behind it
+import React, { useState, useEffect, useRef } from 'react';
+import { Download } from 'lucide-react';
+
+import type { FilterType, ReceiptQuery } from './types';
+import { ApiError } from './api';
+import { exportReceipts, downloadBlob, type ExportFormat, type ExportProgress } from './export';
+import type { RedactionRule } from './redaction';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'jsonl', label: 'JSON Lines' },
+  { format: 'bundle', label: 'Audit bundle (.zip, unsigned)' },
+];
+
+export interface ReceiptExporter {
+  progress: ExportProgress | null;
+  error: string | null;
+  start: (format: ExportFormat) => void;
+  cancel: () => void;
+}
+
+/**
+ * Export state lives with the dashboard so the command palette can start one
+ */
+export function useReceiptExport(filter: FilterType, query: ReceiptQuery, redaction: RedactionRule[]): ReceiptExporter {
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  // Stop paging if the dashboard goes away mid-export
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const start = async (format: ExportFormat) => {
+    if (controller.current) return;
+    controller.current = new AbortController();
+    setError(null);
+    setProgress({ exported: 0, total: null });
+    try {
+      const { blob, filename } = await exportReceipts({
+        format,
+        filter,
+        query,
+        redaction,
+        signal: controller.current.signal,
+        onProgress: setProgress,
+      });
+      downloadBlob(blob, filename);
+    } catch (e) {
+      if (!(e instanceof DOMException && e.name === 'AbortError')) {
+        setError(e instanceof ApiError ? `Export failed (${e.status})` : 'Export failed');
+        console.error('Export error:', e);
+      }
+    } finally {
+      controller.current = null;
+      setProgress(null);
+    }
+  };
+
+  return { progress, error, start, cancel: () => controller.current?.abort() };
+}
+
+interface ExportControlProps {
+  exporter: ReceiptExporter;
+}
+
+export const ExportControl: React.FC<ExportControlProps> = ({ exporter: { progress, error, start, cancel } }) => {
+  if (progress) {
+    const pct = progress.total ? Math.round((progress.exported / progress.total) * 100) : 0;
+    return (
+      <div className="flex items-center gap-2 text-xs text-zinc-400">
+        <div className="w-24 h-1.5 bg-zinc-800 rounded overflow-hidden">
+          <div className="h-full bg-blue-500 transition-all" style={{ width: `${pct}%` }} />
+        </div>
+        <span>
+          {progress.exported.toLocaleString()}
+          {progress.total !== null && `/${progress.total.toLocaleString()}`}
+        </span>
+        <button
+          onClick={cancel}
+          className="px-2 py-0.5 rounded bg-zinc-800 hover:bg-zinc-700 transition"
+        >
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="relative">
+        <Download className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-zinc-500 pointer-events-none" />
+        <select
+          value=""
+          onChange={e => start(e.target.value as ExportFormat)}
+          className="bg-zinc-800 border border-zinc-700 rounded pl-7 pr-2 py-1 text-sm"
+          aria-label="Export receipts"
+        >
+          <option value="" disabled>Export</option>
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <option key={format} value={format}>{label}</option>
+          ))}
+        </select>
+      </div>
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </div>
+  );
+};
@@ -0,0 +1,301 @@
+// Signature failure forensics: failure-rate timeline, signer keys and failed receipts
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
+} from 'recharts';
+import { XCircle, Percent, Key, FileWarning, RefreshCw } from 'lucide-react';
+
+import type { FailureAnalytics, Receipt, ThroughputRange, ThroughputWindow } from './types';
+import { getFailureAnalytics, isAbortError, ApiError } from './api';
+import { useInterval, formatDate, truncateHash } from './hooks';
+import { THROUGHPUT_RANGES, resolveThroughputWindow, formatBucketLabel, BUCKET_MS } from './throughput';
+import {
+  CHECK_LABELS, groupFailures, receiptFailures, describeReason, type FailureGrouping
+} from './forensics';
+import { SIGNER_ALGORITHMS, ALGORITHM_COLORS } from './signatures';
+import {
+  MetricCard, ErrorBanner, CHART_TICK, CHART_TOOLTIP_STYLE, CHART_TOOLTIP_LABEL_STYLE
+} from './components';
+
+type FailuresRange = Exclude<ThroughputRange, 'custom'>;
+
+const REFRESH_MS = 30000;
+
+const GROUPINGS: { key: FailureGrouping; label: string }[] = [
+  { key: 'check', label: 'By cause' },
+  { key: 'key', label: 'By signer key' },
+];
+
+const formatRate = (failed: number, total: number): string =>
+  (total > 0 ? `${((failed / total) * 100).toFixed(2)}%` : '—');
+
+interface FailuresViewProps {
+  /** Receipts seen so far; a new one triggers a refetch */
+  totalReceipts?: number;
+  onSelectReceipt: (receipt: Receipt) => void;
+}
+
+const FailuresView: React.FC<FailuresViewProps> = ({ totalReceipts, onSelectReceipt }) => {
+  const [range, setRange] = useState<FailuresRange>('24h');
+  const [timeWindow, setTimeWindow] = useState<ThroughputWindow>(() => resolveThroughputWindow('24h'));
+  const [analytics, setAnalytics] = useState<FailureAnalytics | null>(null);
+  const [grouping, setGrouping] = useState<FailureGrouping>('check');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const fetchData = useCallback(async () => {
+    // A newer fetch (e.g. another range) supersedes this one
+    controller.current?.abort();
+    const { signal } = controller.current = new AbortController();
+    try {
+      setError(null);
+      const nextWindow = resolveThroughputWindow(range);
+      setAnalytics(await getFailureAnalytics(nextWindow, { signal }));
+      setTimeWindow(nextWindow);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      const message = e instanceof ApiError
+        ? `API Error (${e.status}): ${e.message}`
+        : 'Failed to fetch failure analytics';
+      setError(message);
+      console.error('Failure analytics fetch error:', e);
+    } finally {
+      if (!signal.aborted) setLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData, totalReceipts]);
+
+  useInterval(fetchData, REFRESH_MS);
+
+  const withDate = Date.parse(timeWindow.to) - Date.parse(timeWindow.from) > BUCKET_MS.day;
+  const timelineData = useMemo(
+    () => (analytics?.timeline ?? []).map(p => ({
+      ...p,
+      label: formatBucketLabel(p.timestamp, timeWindow.bucket, withDate),
+      rate: p.total > 0 ? (p.failed / p.total) * 100 : 0,
+    })),
+    [analytics, timeWindow.bucket, withDate]
+  );
+  const groups = useMemo(() => groupFailures(analytics?.receipts ?? [], grouping), [analytics, grouping]);
+
+  const totals = (analytics?.timeline ?? []).reduce(
+    (sum, p) => ({ total: sum.total + p.total, failed: sum.failed + p.failed }),
+    { total: 0, failed: 0 }
+  );
+  // Post-quantum counts are absent from backends that only dual-sign
+  const signatureFailures = SIGNER_ALGORITHMS
+    .map(algorithm => ({
+      algorithm,
+      failed: (analytics?.timeline ?? []).reduce((sum, p) => sum + (p[algorithm] ?? 0), 0),
+    }))
+    .filter(({ algorithm, failed }) => failed > 0 || algorithm === 'ed25519' || algorithm === 'secp256k1');
+  const failedSignatures = signatureFailures.reduce((sum, s) => sum + s.failed, 0);
+  const badKeys = (analytics?.keys ?? []).filter(k => k.failed > 0).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-medium text-white">Signature Failures</h2>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1">
+            {(Object.keys(THROUGHPUT_RANGES) as FailuresRange[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setRange(key)}
+                className={`px-2 py-0.5 rounded text-xs transition ${
+                  range === key ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:bg-zinc-800'
+                }`}
+              >
+                {THROUGHPUT_RANGES[key].label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={fetchData}
+            className="p-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition"
+            aria-label="Refresh failure analytics"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && <ErrorBanner message={error} onRetry={fetchData} />}
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <MetricCard
+          icon={XCircle}
+          label="Failed receipts"
+          value={totals.failed.toLocaleString()}
+          subvalue={`${THROUGHPUT_RANGES[range].title} window`}
+          color="bg-red-900/50 text-red-400"
+        />
+        <MetricCard
+          icon={Percent}
+          label="Failure rate"
+          value={formatRate(totals.failed, totals.total)}
+          subvalue={`of ${totals.total.toLocaleString()} receipts`}
+          color="bg-amber-900/50 text-amber-400"
+        />
+        <MetricCard
+          icon={FileWarning}
+          label="Failed signatures"
+          value={failedSignatures.toLocaleString()}
+          subvalue={signatureFailures.map(s => `${s.failed} ${CHECK_LABELS[s.algorithm]}`).join(' • ')}
+          color="bg-violet-900/50 text-violet-400"
+        />
+        <MetricCard
+          icon={Key}
+          label="Keys with failures"
+          value={`${badKeys} / ${analytics?.keys.length ?? 0}`}
+          color="bg-blue-900/50 text-blue-400"
+        />
+      </div>
+
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4">
+        <h3 className="text-sm font-medium text-zinc-400 mb-4">Failures over Time</h3>
+        <ResponsiveContainer width="100%" height={240}>
+          <ComposedChart data={timelineData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#27272a" vertical={false} />
+            <XAxis dataKey="label" tick={CHART_TICK} tickLine={false} axisLine={false} minTickGap={24} />
+            <YAxis yAxisId="count" tick={CHART_TICK} tickLine={false} axisLine={false} allowDecimals={false} />
+            <YAxis
+              yAxisId="rate"
+              orientation="right"
+              tick={CHART_TICK}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={v => `${v}%`}
+            />
+            <Tooltip
+              contentStyle={CHART_TOOLTIP_STYLE}
+              labelStyle={CHART_TOOLTIP_LABEL_STYLE}
+              formatter={(value: number, name: string) => (name === 'Failure rate' ? `${value.toFixed(2)}%` : value)}
+              cursor={{ fill: '#27272a' }}
+            />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            {signatureFailures.map(({ algorithm }) => (
+              <Bar
+                key={algorithm}
+                yAxisId="count"
+                dataKey={algorithm}
+                name={CHECK_LABELS[algorithm]}
+                stackId="checks"
+                fill={ALGORITHM_COLORS[algorithm]}
+                isAnimationActive={false}
+              />
+            ))}
+            <Bar yAxisId="count" dataKey="hash" name="Hash" stackId="checks" fill="#f59e0b" isAnimationActive={false} />
+            <Line
+              yAxisId="rate"
+              type="monotone"
+              dataKey="rate"
+              name="Failure rate"
+              stroke="#ef4444"
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Signer keys */}
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg">
+        <div className="p-4 border-b border-zinc-800">
+          <h3 className="font-medium">Signer Keys</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-800/50">
+              <tr>
+                <th className="text-left px-4 py-3 font-medium text-zinc-400">Fingerprint</th>
+                <th className="text-left px-4 py-3 font-medium text-zinc-400">Algorithm</th>
+                <th className="text-right px-4 py-3 font-medium text-zinc-400">Signed</th>
+                <th className="text-right px-4 py-3 font-medium text-zinc-400">Failed</th>
+                <th className="text-right px-4 py-3 font-medium text-zinc-400">Failure rate</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-800">
+              {(analytics?.keys ?? []).length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="text-center py-8 text-zinc-500">No signatures checked in range</td>
+                </tr>
+              ) : (
+                [...analytics!.keys].sort((a, b) => b.failed - a.failed).map(k => (
+                  <tr key={`${k.algorithm} ${k.fingerprint}`}>
+                    <td className="px-4 py-3 font-mono text-xs">{k.fingerprint}</td>
+                    <td className="px-4 py-3 text-zinc-400 text-xs">{CHECK_LABELS[k.algorithm]}</td>
+                    <td className="px-4 py-3 text-right text-xs">{k.signed.toLocaleString()}</td>
+                    <td className={`px-4 py-3 text-right text-xs ${k.failed > 0 ? 'text-red-400' : 'text-zinc-500'}`}>
+                      {k.failed.toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3 text-right text-xs">{formatRate(k.failed, k.signed)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Failed receipts */}
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg">
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between gap-2">
+          <h3 className="font-medium">Failed Receipts</h3>
+          <div className="flex items-center gap-1">
+            {GROUPINGS.map(g => (
+              <button
+                key={g.key}
+                onClick={() => setGrouping(g.key)}
+                className={`px-2 py-0.5 rounded text-xs transition ${
+                  grouping === g.key ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:bg-zinc-800'
+                }`}
+              >
+                {g.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {groups.length === 0 ? (
+          <p className="text-center py-8 text-sm text-zinc-500">No failed checks in range</p>
+        ) : (
+          <div className="divide-y divide-zinc-800">
+            {groups.map(group => (
+              <section key={group.key}>
+                <div className="px-4 py-2 bg-zinc-800/50 flex items-center justify-between text-xs">
+                  <span className="text-zinc-300">{group.label}</span>
+                  <span className="text-zinc-500">{group.receipts.length}</span>
+                </div>
+                <table className="w-full text-sm">
+                  <tbody className="divide-y divide-zinc-800">
+                    {group.receipts.map(r => (
+                      <tr key={r.id} className="hover:bg-zinc-800/30 cursor-pointer" onClick={() => onSelectReceipt(r)}>
+                        <td className="px-4 py-2 font-mono text-xs">{truncateHash(r.receiptHash, 8)}</td>
+                        <td className="px-4 py-2 text-xs text-zinc-400">
+                          {receiptFailures(r)
+                            .map(f => `${CHECK_LABELS[f.check]}: ${describeReason(f.reason)}`)
+                            .join(' • ')}
+                        </td>
+                        <td className="px-4 py-2 text-zinc-400 text-xs text-right whitespace-nowrap">{formatDate(r.createdAt)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FailuresView;
@@ -0,0 +1,232 @@
+// Signing key registry: validity windows, revocations and the rotation timeline
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer
+} from 'recharts';
+import { KeyRound, CalendarClock, Ban, Archive, RefreshCw } from 'lucide-react';
+
+import type { SigningKey } from './types';
+import { getKeys, isAbortError, ApiError } from './api';
+import { formatDate } from './hooks';
+import { CHECK_LABELS } from './forensics';
+import { keyStatus, keyEnd, type KeyStatus } from './keys';
+import {
+  MetricCard, ErrorBanner, CHART_TICK, CHART_TOOLTIP_STYLE, CHART_TOOLTIP_LABEL_STYLE
+} from './components';
+
+const DAY_MS = 86400000;
+// Open-ended keys run this far past the latest date on the chart
+const TIMELINE_PADDING_MS = 30 * DAY_MS;
+
+const STATUS_STYLES: Record<KeyStatus, { label: string; badge: string; fill: string }> = {
+  active: { label: 'Active', badge: 'bg-emerald-900/50 text-emerald-400', fill: '#10b981' },
+  scheduled: { label: 'Scheduled', badge: 'bg-blue-900/50 text-blue-400', fill: '#3b82f6' },
+  retired: { label: 'Retired', badge: 'bg-zinc-800 text-zinc-400', fill: '#52525b' },
+  revoked: { label: 'Revoked', badge: 'bg-red-900/50 text-red-400', fill: '#ef4444' },
+};
+
+const formatDay = (ms: number): string =>
+  new Date(ms).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' });
+
+interface TimelineRow {
+  name: string;
+  /** Bar start relative to the chart origin; drawn transparent */
+  offset: number;
+  span: number;
+  status: KeyStatus;
+  key: SigningKey;
+}
+
+/**
+ * One bar per key from its start to revocation, retirement or past the chart's end
+ */
+function timelineRows(keys: SigningKey[], now: number): { rows: TimelineRow[]; origin: number; end: number } {
+  const starts = keys.map(k => Date.parse(k.validFrom));
+  const ends = keys.map(keyEnd).filter((t): t is number => t !== null);
+  const origin = Math.min(now, ...starts);
+  const end = Math.max(now, ...starts, ...ends) + TIMELINE_PADDING_MS;
+
+  const rows = [...keys]
+    .sort((a, b) => a.algorithm.localeCompare(b.algorithm) || Date.parse(a.validFrom) - Date.parse(b.validFrom))
+    .map(key => {
+      const start = Date.parse(key.validFrom);
+      return {
+        name: `${CHECK_LABELS[key.algorithm]} ${key.id}`,
+        offset: start - origin,
+        span: (keyEnd(key) ?? end) - start,
+        status: keyStatus(key, now),
+        key,
+      };
+    });
+  return { rows, origin, end };
+}
+
+const KeysView: React.FC = () => {
+  const [keys, setKeys] = useState<SigningKey[]>([]);
+  const [fetchedAt, setFetchedAt] = useState(() => Date.now());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const fetchData = useCallback(async () => {
+    controller.current?.abort();
+    const { signal } = controller.current = new AbortController();
+    try {
+      setError(null);
+      setKeys(await getKeys({ signal }));
+      setFetchedAt(Date.now());
+    } catch (e) {
+      if (isAbortError(e)) return;
+      const message = e instanceof ApiError
+        ? `API Error (${e.status}): ${e.message}`
+        : 'Failed to fetch signing keys';
+      setError(message);
+      console.error('Signing keys fetch error:', e);
+    } finally {
+      if (!signal.aborted) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const timeline = useMemo(() => timelineRows(keys, fetchedAt), [keys, fetchedAt]);
+  const count = (status: KeyStatus) => keys.filter(k => keyStatus(k, fetchedAt) === status).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-medium text-white">Signing Keys</h2>
+        <button
+          onClick={fetchData}
+          className="p-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition"
+          aria-label="Refresh signing keys"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && <ErrorBanner message={error} onRetry={fetchData} />}
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <MetricCard icon={KeyRound} label="Active keys" value={count('active')} color="bg-emerald-900/50 text-emerald-400" />
+        <MetricCard
+          icon={CalendarClock}
+          label="Scheduled"
+          value={count('scheduled')}
+          subvalue="Keys not yet valid"
+          color="bg-blue-900/50 text-blue-400"
+        />
+        <MetricCard icon={Archive} label="Retired" value={count('retired')} color="bg-zinc-800 text-zinc-400" />
+        <MetricCard icon={Ban} label="Revoked" value={count('revoked')} color="bg-red-900/50 text-red-400" />
+      </div>
+
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4">
+        <h3 className="text-sm font-medium text-zinc-400 mb-4">Rotation Timeline</h3>
+        {timeline.rows.length > 0 ? (
+          <ResponsiveContainer width="100%" height={48 + timeline.rows.length * 36}>
+            <BarChart data={timeline.rows} layout="vertical" barCategoryGap={8}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#27272a" horizontal={false} />
+              <XAxis
+                type="number"
+                domain={[0, timeline.end - timeline.origin]}
+                tick={CHART_TICK}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={v => formatDay(timeline.origin + v)}
+              />
+              <YAxis type="category" dataKey="name" tick={CHART_TICK} tickLine={false} axisLine={false} width={130} />
+              <Tooltip
+                contentStyle={CHART_TOOLTIP_STYLE}
+                labelStyle={CHART_TOOLTIP_LABEL_STYLE}
+                cursor={{ fill: '#27272a' }}
+                formatter={(_value, _name, item) => {
+                  const { key, status } = item.payload as TimelineRow;
+                  const until = keyEnd(key);
+                  return [
+                    `${formatDay(Date.parse(key.validFrom))} – ${until === null ? 'open' : formatDay(until)}`,
+                    STATUS_STYLES[status].label,
+                  ];
+                }}
+              />
+              <Bar dataKey="offset" stackId="window" fill="transparent" isAnimationActive={false} tooltipType="none" />
+              <Bar dataKey="span" stackId="window" isAnimationActive={false} radius={3}>
+                {timeline.rows.map(row => <Cell key={row.key.id} fill={STATUS_STYLES[row.status].fill} />)}
+              </Bar>
+              <ReferenceLine
+                x={fetchedAt - timeline.origin}
+                stroke="#a1a1aa"
+                strokeDasharray="4 4"
+                label={{ value: 'Now', fill: '#a1a1aa', fontSize: 11, position: 'top' }}
+              />
+            </BarChart>
+          </ResponsiveContainer>
+        ) : (
+          <p className="text-center text-sm text-zinc-500 py-12">No keys registered</p>
+        )}
+      </div>
+
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg">
+        <div className="p-4 border-b border-zinc-800">
+          <h3 className="font-medium">Key Registry</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-800/50">
+              <tr>
+                <th className="text-left px-4 py-3 font-medium text-zinc-400">Key</th>
+                <th className="text-left px-4 py-3 font-medium text-zinc-400">Fingerprint</th>
+                <th className="text-left px-4 py-3 font-medium text-zinc-400">Status</th>
+                <th className="text-left px-4 py-3 font-medium text-zinc-400">Valid</th>
+                <th className="text-left px-4 py-3 font-medium text-zinc-400">Revoked</th>
+                <th className="text-right px-4 py-3 font-medium text-zinc-400">Receipts</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-800">
+              {timeline.rows.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="text-center py-8 text-zinc-500">No keys registered</td>
+                </tr>
+              ) : (
+                timeline.rows.map(({ key, status }) => (
+                  <tr key={key.id}>
+                    <td className="px-4 py-3 text-xs">
+                      <span className="text-zinc-200">{key.id}</span>
+                      <span className="text-zinc-500 ml-2">{CHECK_LABELS[key.algorithm]}</span>
+                    </td>
+                    <td className="px-4 py-3 font-mono text-xs" title={key.publicKey}>{key.fingerprint}</td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[status].badge}`}>
+                        {STATUS_STYLES[status].label}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-zinc-400 text-xs">
+                      {formatDate(key.validFrom)} – {key.validTo ? formatDate(key.validTo) : 'open'}
+                    </td>
+                    <td className="px-4 py-3 text-xs">
+                      {key.revokedAt ? (
+                        <>
+                          <span className="text-red-400">{formatDate(key.revokedAt)}</span>
+                          {key.revocationReason && <p className="text-zinc-500">{key.revocationReason}</p>}
+                        </>
+                      ) : (
+                        <span className="text-zinc-600">—</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right text-xs">{key.receiptCount.toLocaleString()}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeysView;
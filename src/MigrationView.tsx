@@ -0,0 +1,236 @@
+// Post-quantum migration: share of receipts carrying a PQC signature, and signatures per algorithm
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
+} from 'recharts';
+import { ShieldCheck, ShieldAlert, Atom, RefreshCw } from 'lucide-react';
+
+import type { SignatureAnalytics, SignerAlgorithm, ThroughputRange, ThroughputWindow } from './types';
+import { getSignatureAnalytics, isAbortError, ApiError } from './api';
+import { useInterval } from './hooks';
+import { THROUGHPUT_RANGES, resolveThroughputWindow, formatBucketLabel, BUCKET_MS } from './throughput';
+import { CHECK_LABELS } from './forensics';
+import { ALGORITHM_COLORS, isPostQuantum } from './signatures';
+import {
+  MetricCard, ErrorBanner, PqcTag, CHART_TICK, CHART_TOOLTIP_STYLE, CHART_TOOLTIP_LABEL_STYLE
+} from './components';
+
+type MigrationRange = Exclude<ThroughputRange, 'custom'>;
+
+const REFRESH_MS = 60000;
+
+const formatShare = (part: number, total: number): string =>
+  (total > 0 ? `${((part / total) * 100).toFixed(1)}%` : '—');
+
+interface MigrationViewProps {
+  /** Receipts seen so far; a new one triggers a refetch */
+  totalReceipts?: number;
+}
+
+const MigrationView: React.FC<MigrationViewProps> = ({ totalReceipts }) => {
+  const [range, setRange] = useState<MigrationRange>('30d');
+  const [timeWindow, setTimeWindow] = useState<ThroughputWindow>(() => resolveThroughputWindow('30d'));
+  const [analytics, setAnalytics] = useState<SignatureAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const fetchData = useCallback(async () => {
+    // A newer fetch (e.g. another range) supersedes this one
+    controller.current?.abort();
+    const { signal } = controller.current = new AbortController();
+    try {
+      setError(null);
+      const nextWindow = resolveThroughputWindow(range);
+      setAnalytics(await getSignatureAnalytics(nextWindow, { signal }));
+      setTimeWindow(nextWindow);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      const message = e instanceof ApiError
+        ? `API Error (${e.status}): ${e.message}`
+        : 'Failed to fetch signature analytics';
+      setError(message);
+      console.error('Signature analytics fetch error:', e);
+    } finally {
+      if (!signal.aborted) setLoading(false);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData, totalReceipts]);
+
+  useInterval(fetchData, REFRESH_MS);
+
+  const withDate = Date.parse(timeWindow.to) - Date.parse(timeWindow.from) > BUCKET_MS.day;
+  const timelineData = useMemo(
+    () => (analytics?.timeline ?? []).map(p => ({
+      label: formatBucketLabel(p.timestamp, timeWindow.bucket, withDate),
+      pqc: p.pqc,
+      classical: p.total - p.pqc,
+      // No receipts means no coverage to report, not 0%
+      coverage: p.total > 0 ? (p.pqc / p.total) * 100 : null,
+    })),
+    [analytics, timeWindow.bucket, withDate]
+  );
+
+  const total = analytics?.total ?? 0;
+  const pqc = analytics?.pqc ?? 0;
+  const stats = (algorithm: SignerAlgorithm) => analytics?.algorithms.find(s => s.algorithm === algorithm);
+  const pqcCard = (algorithm: SignerAlgorithm) => {
+    const s = stats(algorithm);
+    return {
+      value: (s?.signed ?? 0).toLocaleString(),
+      subvalue: s ? `${formatShare(s.verified, s.signed)} verified` : 'Not in use',
+    };
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-medium text-white">Post-Quantum Migration</h2>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1">
+            {(Object.keys(THROUGHPUT_RANGES) as MigrationRange[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setRange(key)}
+                className={`px-2 py-0.5 rounded text-xs transition ${
+                  range === key ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:bg-zinc-800'
+                }`}
+              >
+                {THROUGHPUT_RANGES[key].label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={fetchData}
+            className="p-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition"
+            aria-label="Refresh signature analytics"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && <ErrorBanner message={error} onRetry={fetchData} />}
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <MetricCard
+          icon={ShieldCheck}
+          label="PQC coverage"
+          value={formatShare(pqc, total)}
+          subvalue={`${pqc.toLocaleString()} of ${total.toLocaleString()} receipts`}
+          color="bg-teal-900/50 text-teal-400"
+        />
+        <MetricCard
+          icon={ShieldAlert}
+          label="Classical only"
+          value={(total - pqc).toLocaleString()}
+          subvalue={`${THROUGHPUT_RANGES[range].title} window`}
+          color="bg-amber-900/50 text-amber-400"
+        />
+        <MetricCard icon={Atom} label="ML-DSA signatures" {...pqcCard('ml-dsa')} color="bg-emerald-900/50 text-emerald-400" />
+        <MetricCard icon={Atom} label="SLH-DSA signatures" {...pqcCard('slh-dsa')} color="bg-emerald-900/50 text-emerald-400" />
+      </div>
+
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4">
+        <h3 className="text-sm font-medium text-zinc-400 mb-4">Coverage over Time</h3>
+        <ResponsiveContainer width="100%" height={240}>
+          <ComposedChart data={timelineData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#27272a" vertical={false} />
+            <XAxis dataKey="label" tick={CHART_TICK} tickLine={false} axisLine={false} minTickGap={24} />
+            <YAxis yAxisId="count" tick={CHART_TICK} tickLine={false} axisLine={false} allowDecimals={false} />
+            <YAxis
+              yAxisId="coverage"
+              orientation="right"
+              domain={[0, 100]}
+              tick={CHART_TICK}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={v => `${v}%`}
+            />
+            <Tooltip
+              contentStyle={CHART_TOOLTIP_STYLE}
+              labelStyle={CHART_TOOLTIP_LABEL_STYLE}
+              formatter={(value: number, name: string) => (name === 'PQC coverage' ? `${value.toFixed(1)}%` : value)}
+              cursor={{ fill: '#27272a' }}
+            />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Bar yAxisId="count" dataKey="pqc" name="With PQC signature" stackId="receipts" fill="#14b8a6" isAnimationActive={false} />
+            <Bar yAxisId="count" dataKey="classical" name="Classical only" stackId="receipts" fill="#52525b" isAnimationActive={false} />
+            <Line
+              yAxisId="coverage"
+              type="monotone"
+              dataKey="coverage"
+              name="PQC coverage"
+              stroke="#2dd4bf"
+              strokeWidth={2}
+              dot={false}
+              connectNulls
+              isAnimationActive={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg">
+        <div className="p-4 border-b border-zinc-800">
+          <h3 className="font-medium">Signatures by Algorithm</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-800/50">
+              <tr>
+                <th className="text-left px-4 py-3 font-medium text-zinc-400">Algorithm</th>
+                <th className="text-right px-4 py-3 font-medium text-zinc-400">Signed</th>
+                <th className="text-right px-4 py-3 font-medium text-zinc-400">Verified</th>
+                <th className="text-left px-4 py-3 font-medium text-zinc-400 w-1/3">Share of receipts</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-800">
+              {(analytics?.algorithms ?? []).length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="text-center py-8 text-zinc-500">No signatures in this window</td>
+                </tr>
+              ) : (
+                analytics!.algorithms.map(s => (
+                  <tr key={s.algorithm}>
+                    <td className="px-4 py-3">
+                      <span className="inline-flex items-center gap-2 text-zinc-200">
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ALGORITHM_COLORS[s.algorithm] }} />
+                        {CHECK_LABELS[s.algorithm]}
+                        {isPostQuantum(s.algorithm) && <PqcTag />}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right text-xs">{s.signed.toLocaleString()}</td>
+                    <td className="px-4 py-3 text-right text-xs">{formatShare(s.verified, s.signed)}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 h-1.5 rounded bg-zinc-800">
+                          <div
+                            className="h-1.5 rounded"
+                            style={{
+                              width: `${total > 0 ? Math.min(100, (s.signed / total) * 100) : 0}%`,
+                              backgroundColor: ALGORITHM_COLORS[s.algorithm],
+                            }}
+                          />
+                        </div>
+                        <span className="text-xs text-zinc-400 w-12 text-right">{formatShare(s.signed, total)}</span>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MigrationView;
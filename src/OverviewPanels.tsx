@@ -0,0 +1,354 @@
+// Overview panels: headline metrics, throughput chart, signature breakdown
+// and anchoring share
+import React, { useState, useMemo } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip,
+  ResponsiveContainer, PieChart, Pie, Cell, Brush
+} from 'recharts';
+import { Shield, Clock, Database, Link2 } from 'lucide-react';
+
+import type { Metrics, ChainStatus, ThroughputPoint, ThroughputRange, ThroughputWindow, SignatureStats } from './types';
+import { CHECK_LABELS } from './forensics';
+import { ALGORITHM_COLORS, isPostQuantum } from './signatures';
+import {
+  PqcTag, MetricCard, PanelError, CHART_TICK, CHART_TOOLTIP_STYLE, CHART_TOOLTIP_LABEL_STYLE
+} from './components';
+import { THROUGHPUT_RANGES, formatBucketLabel, bucketEnd, BUCKET_MS } from './throughput';
+
+type ThroughputSeries = 'count' | 'verified' | 'failed' | 'anchored';
+
+const THROUGHPUT_SERIES: { key: ThroughputSeries; label: string; color: string }[] = [
+  { key: 'count', label: 'Total', color: '#3b82f6' },
+  { key: 'verified', label: 'Verified', color: '#10b981' },
+  { key: 'failed', label: 'Failed', color: '#ef4444' },
+  { key: 'anchored', label: 'Anchored', color: '#8b5cf6' },
+];
+
+/** Brushed chart selection and the time window it covers */
+export interface BrushRange {
+  startIndex: number;
+  endIndex: number;
+  from: string;
+  to: string;
+}
+
+export interface CustomRange {
+  from: string;
+  to: string;
+}
+
+/** datetime-local input value for a timestamp, in local time */
+const toLocalInput = (ms: number): string =>
+  new Date(ms - new Date(ms).getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+interface ThroughputChartProps {
+  data: ThroughputPoint[];
+  timeWindow: ThroughputWindow;
+  range: ThroughputRange;
+  brush: BrushRange | null;
+  onRangeChange: (range: ThroughputRange, custom?: CustomRange) => void;
+  onBrushChange: (brush: BrushRange | null) => void;
+  error?: string;
+  onRetry: () => void;
+}
+
+export const ThroughputChart: React.FC<ThroughputChartProps> = ({
+  data, timeWindow, range, brush, onRangeChange, onBrushChange, error, onRetry
+}) => {
+  const [visible, setVisible] = useState<Set<ThroughputSeries>>(new Set(['count', 'failed', 'anchored']));
+  const [customDraft, setCustomDraft] = useState<CustomRange>(() => ({
+    from: toLocalInput(Date.now() - BUCKET_MS.day),
+    to: toLocalInput(Date.now()),
+  }));
+
+  const withDate = Date.parse(timeWindow.to) - Date.parse(timeWindow.from) > BUCKET_MS.day;
+  const chartData = useMemo(
+    () => data.map(p => ({ ...p, label: formatBucketLabel(p.timestamp, timeWindow.bucket, withDate) })),
+    [data, timeWindow.bucket, withDate]
+  );
+  const title = range === 'custom' ? 'Custom Range' : THROUGHPUT_RANGES[range].title;
+
+  const toggleSeries = (key: ThroughputSeries) => {
+    setVisible(v => {
+      const next = new Set(v);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleBrush = ({ startIndex, endIndex }: { startIndex?: number; endIndex?: number }) => {
+    if (startIndex === undefined || endIndex === undefined || !data[startIndex] || !data[endIndex]) return;
+    const full = startIndex === 0 && endIndex === data.length - 1;
+    onBrushChange(full ? null : {
+      startIndex,
+      endIndex,
+      from: data[startIndex].timestamp,
+      to: bucketEnd(data[endIndex].timestamp, timeWindow.bucket),
+    });
+  };
+
+  return (
+    <div className="lg:col-span-2 bg-zinc-900 border border-zinc-800 rounded-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="text-sm font-medium text-zinc-400">{title} Throughput</h3>
+        <div className="flex items-center gap-1">
+          {(Object.keys(THROUGHPUT_RANGES) as (keyof typeof THROUGHPUT_RANGES)[]).map(key => (
+            <button
+              key={key}
+              onClick={() => onRangeChange(key)}
+              className={`px-2 py-0.5 rounded text-xs transition ${
+                range === key ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:bg-zinc-800'
+              }`}
+            >
+              {THROUGHPUT_RANGES[key].label}
+            </button>
+          ))}
+          <button
+            onClick={() => onRangeChange('custom', customDraft)}
+            className={`px-2 py-0.5 rounded text-xs transition ${
+              range === 'custom' ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:bg-zinc-800'
+            }`}
+          >
+            Custom
+          </button>
+        </div>
+      </div>
+
+      {range === 'custom' && (
+        <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+          <input
+            type="datetime-local"
+            value={customDraft.from}
+            onChange={e => setCustomDraft(d => ({ ...d, from: e.target.value }))}
+            className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1"
+            aria-label="Range start"
+          />
+          <span className="text-zinc-500">to</span>
+          <input
+            type="datetime-local"
+            value={customDraft.to}
+            onChange={e => setCustomDraft(d => ({ ...d, to: e.target.value }))}
+            className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1"
+            aria-label="Range end"
+          />
+          <button
+            onClick={() => onRangeChange('custom', customDraft)}
+            disabled={!customDraft.from || !customDraft.to || customDraft.from >= customDraft.to}
+            className="px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 transition"
+          >
+            Apply
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-3">
+          <PanelError message={error} onRetry={onRetry} />
+        </div>
+      )}
+
+      <ResponsiveContainer width="100%" height={240}>
+        <LineChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+          <XAxis
+            dataKey="label"
+            tick={CHART_TICK}
+            tickLine={false}
+            axisLine={false}
+            minTickGap={24}
+          />
+          <YAxis
+            tick={CHART_TICK}
+            tickLine={false}
+            axisLine={false}
+            allowDecimals={false}
+          />
+          <Tooltip
+            contentStyle={CHART_TOOLTIP_STYLE}
+            labelStyle={CHART_TOOLTIP_LABEL_STYLE}
+          />
+          {THROUGHPUT_SERIES.filter(s => visible.has(s.key)).map(s => (
+            <Line
+              key={s.key}
+              type="monotone"
+              dataKey={s.key}
+              name={s.label}
+              stroke={s.color}
+              strokeWidth={s.key === 'count' ? 2 : 1.5}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+          {chartData.length > 1 && (
+            <Brush
+              dataKey="label"
+              height={20}
+              stroke="#3f3f46"
+              fill="#18181b"
+              travellerWidth={8}
+              startIndex={brush?.startIndex ?? 0}
+              endIndex={brush?.endIndex ?? chartData.length - 1}
+              onChange={handleBrush}
+            />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mt-2 text-xs">
+        <div className="flex gap-3">
+          {THROUGHPUT_SERIES.map(s => (
+            <button
+              key={s.key}
+              onClick={() => toggleSeries(s.key)}
+              className={`flex items-center gap-1 transition ${visible.has(s.key) ? 'text-zinc-300' : 'text-zinc-600'}`}
+              aria-pressed={visible.has(s.key)}
+            >
+              <span className="w-2 h-2 rounded-full" style={{ background: s.color }} /> {s.label}
+            </button>
+          ))}
+        </div>
+        {brush && (
+          <button onClick={() => onBrushChange(null)} className="text-zinc-400 hover:text-white">
+            Reset zoom • table filtered to selection
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface SignatureBreakdownProps {
+  stats: SignatureStats[];
+  /** Receipts overall, for each algorithm's share */
+  total: number;
+  onShowMigration: () => void;
+}
+
+export const SignatureBreakdown: React.FC<SignatureBreakdownProps> = ({ stats, total, onShowMigration }) => (
+  <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4">
+    <div className="flex items-center justify-between mb-3">
+      <h3 className="text-sm font-medium text-zinc-400">Signatures by Algorithm</h3>
+      <button onClick={onShowMigration} className="text-xs text-zinc-400 hover:text-white">
+        PQC migration →
+      </button>
+    </div>
+    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+      {stats.map(s => (
+        <div key={s.algorithm}>
+          <p className="flex items-center gap-2 text-sm text-zinc-200">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ALGORITHM_COLORS[s.algorithm] }} />
+            {CHECK_LABELS[s.algorithm]}
+            {isPostQuantum(s.algorithm) && <PqcTag />}
+          </p>
+          <p className="text-lg font-semibold text-white">
+            {s.signed > 0 ? ((s.verified / s.signed) * 100).toFixed(2) : '0.00'}%
+            <span className="ml-1 text-xs font-normal text-zinc-500">verified</span>
+          </p>
+          <p className="text-xs text-zinc-500">
+            {s.signed.toLocaleString()} signed
+            {total > 0 && ` • ${((s.signed / total) * 100).toFixed(1)}% of receipts`}
+          </p>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export const MetricsSummary: React.FC<{ metrics: Metrics }> = ({ metrics }) => (
+  <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+    <MetricCard
+      icon={Database}
+      label="Total Receipts"
+      value={metrics.total.toLocaleString()}
+      subvalue={`+${metrics.lastHour} last hour`}
+      color="bg-blue-900/50 text-blue-400"
+    />
+    <MetricCard
+      icon={Shield}
+      label="Verified"
+      value={`${metrics.verificationRate}%`}
+      subvalue={`${metrics.verified.toLocaleString()} receipts`}
+      color="bg-emerald-900/50 text-emerald-400"
+    />
+    <MetricCard
+      icon={Link2}
+      label="Anchored"
+      value={`${metrics.anchoringRate}%`}
+      subvalue={`${metrics.anchored.toLocaleString()} on-chain`}
+      color="bg-violet-900/50 text-violet-400"
+    />
+    <MetricCard
+      icon={Clock}
+      label="Throughput"
+      value={`${metrics.throughput.avgPerMinute}/min`}
+      subvalue={`${metrics.lastDay} last 24h`}
+      color="bg-amber-900/50 text-amber-400"
+    />
+  </div>
+);
+
+interface ChainAnchoringPanelProps {
+  chainStatus: ChainStatus | null;
+  error?: string;
+  onRetry: () => void;
+  onShowAnchoring: () => void;
+}
+
+export const ChainAnchoringPanel: React.FC<ChainAnchoringPanelProps> = ({
+  chainStatus, error, onRetry, onShowAnchoring
+}) => (
+  <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4">
+    <h3 className="text-sm font-medium text-zinc-400 mb-4">Chain Anchoring</h3>
+    {error && (
+      <div className="mb-2">
+        <PanelError message={error} onRetry={onRetry} />
+      </div>
+    )}
+    <ResponsiveContainer width="100%" height={140}>
+      <PieChart>
+        <Pie
+          data={[
+            { name: 'Anchored', value: chainStatus?.anchored || 0 },
+            { name: 'Pending', value: chainStatus?.pending || 0 },
+            { name: 'Unanchored', value: chainStatus?.unanchored || 0 }
+          ]}
+          cx="50%"
+          cy="50%"
+          innerRadius={40}
+          outerRadius={60}
+          dataKey="value"
+        >
+          <Cell fill="#10b981" />
+          <Cell fill="#f59e0b" />
+          <Cell fill="#ef4444" />
+        </Pie>
+        <Tooltip
+          contentStyle={CHART_TOOLTIP_STYLE}
+        />
+      </PieChart>
+    </ResponsiveContainer>
+    <div className="flex justify-center gap-4 text-xs">
+      <span className="flex items-center gap-1">
+        <span className="w-2 h-2 rounded-full bg-emerald-500" /> Anchored
+      </span>
+      <span className="flex items-center gap-1">
+        <span className="w-2 h-2 rounded-full bg-amber-500" /> Pending
+      </span>
+      <span className="flex items-center gap-1">
+        <span className="w-2 h-2 rounded-full bg-red-500" /> Failed
+      </span>
+    </div>
+    {chainStatus?.latestBlock && (
+      <p className="text-center text-xs text-zinc-500 mt-3">
+        Latest: Block #{chainStatus.latestBlock.blockNumber}
+      </p>
+    )}
+    <button
+      onClick={onShowAnchoring}
+      className="block mx-auto mt-2 text-xs text-blue-400 hover:text-blue-300"
+    >
+      Latency &amp; backlog →
+    </button>
+  </div>
+);
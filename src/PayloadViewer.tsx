@@ -0,0 +1,183 @@
+// Structured payload viewer and receipts table column chooser
+import React, { useState, useEffect, useRef } from 'react';
+import { ChevronRight, ChevronDown, Lock, Columns } from 'lucide-react';
+
+import {
+  getFieldValue, formatPayloadValue, type PayloadSchema, type PayloadColumn
+} from './schemas';
+
+// Nested objects below this depth start collapsed
+const EXPANDED_DEPTH = 1;
+
+const isBranch = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  !!value && typeof value === 'object';
+
+const ScalarValue: React.FC<{ value: unknown; redacted: boolean }> = ({ value, redacted }) => {
+  if (redacted) {
+    return (
+      <span className="inline-flex items-center gap-1 text-zinc-500">
+        <Lock className="w-3 h-3" />{String(value)}
+      </span>
+    );
+  }
+  if (typeof value === 'string') return <span className="text-emerald-300 break-all">"{value}"</span>;
+  if (typeof value === 'number' || typeof value === 'boolean') return <span className="text-blue-300">{String(value)}</span>;
+  return <span className="text-zinc-500">null</span>;
+};
+
+interface PayloadNodeProps {
+  name: string;
+  value: unknown;
+  path: string;
+  depth: number;
+  redacted: Set<string>;
+}
+
+const PayloadNode: React.FC<PayloadNodeProps> = ({ name, value, path, depth, redacted }) => {
+  const [open, setOpen] = useState(depth < EXPANDED_DEPTH);
+
+  if (!isBranch(value)) {
+    return (
+      <div className="flex gap-2 py-0.5" style={{ paddingLeft: depth * 16 + 16 }}>
+        <span className="text-zinc-400">{name}</span>
+        <ScalarValue value={value} redacted={redacted.has(path)} />
+      </div>
+    );
+  }
+
+  const entries = Array.isArray(value) ? value.map((v, i) => [String(i), v] as const) : Object.entries(value);
+  return (
+    <div>
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="flex items-center gap-1 py-0.5 text-zinc-400 hover:text-white"
+        style={{ paddingLeft: depth * 16 }}
+        aria-expanded={open}
+      >
+        {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        {name}
+        <span className="text-zinc-600">
+          {Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`}
+        </span>
+      </button>
+      {open && entries.map(([key, child]) => (
+        <PayloadNode
+          key={key}
+          name={key}
+          value={child}
+          path={`${path}.${key}`}
+          depth={depth + 1}
+          redacted={redacted}
+        />
+      ))}
+    </div>
+  );
+};
+
+interface PayloadViewerProps {
+  payload: Record<string, unknown>;
+  schema: PayloadSchema;
+  /** Dotted paths that hold redaction masks */
+  redactedFields: string[];
+}
+
+/**
+ * Schema fields first, then the whole payload as a collapsible tree or raw JSON
+ */
+export const PayloadViewer: React.FC<PayloadViewerProps> = ({ payload, schema, redactedFields }) => {
+  const [raw, setRaw] = useState(false);
+  const redacted = new Set(redactedFields);
+
+  return (
+    <div className="bg-zinc-800 rounded text-xs">
+      {schema.fields.length > 0 && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 p-2 border-b border-zinc-700">
+          {schema.fields.map(field => (
+            <React.Fragment key={field.path}>
+              <dt className="text-zinc-500">{field.label}</dt>
+              <dd className={redacted.has(field.path) ? 'text-zinc-500' : 'text-zinc-200'}>
+                {formatPayloadValue(getFieldValue(payload, field.path), redacted.has(field.path) ? 'text' : field.format)}
+              </dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+      <div className="p-2 font-mono max-h-48 overflow-auto">
+        {raw ? (
+          <pre>{JSON.stringify(payload, null, 2)}</pre>
+        ) : (
+          Object.entries(payload).map(([key, value]) => (
+            <PayloadNode key={key} name={key} value={value} path={key} depth={0} redacted={redacted} />
+          ))
+        )}
+      </div>
+      <div className="px-2 pb-2 flex items-center justify-between text-zinc-500">
+        <span>{schema.label}</span>
+        <button onClick={() => setRaw(r => !r)} className="hover:text-white">
+          {raw ? 'Tree' : 'Raw JSON'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface ColumnChooserProps {
+  columns: PayloadColumn[];
+  visible: string[];
+  onChange: (visible: string[]) => void;
+}
+
+export const ColumnChooser: React.FC<ColumnChooserProps> = ({ columns, visible, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  // Keep the schema's column order regardless of click order
+  const toggle = (path: string) => onChange(
+    columns.map(c => c.path).filter(p => (p === path ? !visible.includes(p) : visible.includes(p)))
+  );
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="p-1.5 rounded bg-zinc-800 hover:bg-zinc-700 transition"
+        aria-label="Choose columns"
+        aria-expanded={open}
+      >
+        <Columns className="w-4 h-4" />
+      </button>
+      {open && (
+        <div className="absolute left-0 mt-1 w-56 bg-zinc-900 border border-zinc-700 rounded shadow-lg z-10 p-2 space-y-1">
+          <p className="text-xs text-zinc-500 px-1 pb-1">Payload columns</p>
+          {columns.map(column => (
+            <label key={column.path} className="flex items-center gap-2 px-1 py-0.5 text-sm cursor-pointer hover:bg-zinc-800 rounded">
+              <input
+                type="checkbox"
+                checked={visible.includes(column.path)}
+                onChange={() => toggle(column.path)}
+              />
+              <span>{column.label}</span>
+              <span className="ml-auto text-xs text-zinc-600 font-mono">{column.path}</span>
+            </label>
+          ))}
+          <button
+            onClick={() => onChange(columns.filter(c => c.defaultVisible).map(c => c.path))}
+            className="w-full text-left px-1 pt-1 text-xs text-zinc-400 hover:text-white"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,409 @@
+// Submit / verify playground: submit a payload and follow it through hashing,
+// signing and anchoring, or check a pasted receipt without submitting it
+import React, { useState, useEffect, useRef } from 'react';
+import { CheckCircle, Circle, RefreshCw, Upload, Send, ShieldCheck } from 'lucide-react';
+
+import type { Receipt } from './types';
+import { submitReceipt, getReceipt, isAbortError, ApiError } from './api';
+import { useInterval, formatTime, formatDuration, truncateHash } from './hooks';
+import { verifyReceipt, type LocalVerification } from './verify';
+import { parsePlaygroundInput, lifecycleStage, LIFECYCLE_STAGES, InputError, type LifecycleStage } from './playground';
+import { signatureLabel, isPostQuantum } from './signatures';
+import { getActiveEnvironment } from './environments';
+import type { PayloadSchema } from './schemas';
+import { StatusBadge, PqcTag, LocalVerificationPanel } from './components';
+
+type PlaygroundMode = 'submit' | 'verify';
+
+const TRACK_POLL_MS = 2500;
+
+const STAGE_LABELS: Record<LifecycleStage, string> = {
+  submitted: 'Submitted',
+  hashed: 'Hashed',
+  signed: 'Signed',
+  anchored: 'Anchored',
+};
+
+const EXAMPLE_PAYLOAD = { id: 'selfie_playground.jpg', patientId: 101, nurse: 'Alice' };
+
+interface StageDetailProps {
+  stage: LifecycleStage;
+  receipt: Receipt;
+  verification: LocalVerification | null;
+}
+
+const StageDetail: React.FC<StageDetailProps> = ({ stage, receipt, verification }) => {
+  switch (stage) {
+    case 'submitted':
+      return <span>Accepted as <span className="font-mono">{receipt.id}</span></span>;
+    case 'hashed': {
+      const local = verification?.checks[0]?.local;
+      return (
+        <span className="flex flex-wrap items-center gap-2">
+          <span className="font-mono">{truncateHash(receipt.receiptHash, 8)}</span>
+          {local !== undefined && local !== null && (
+            <StatusBadge verified={local} label={local ? 'Recomputed locally' : 'Local hash differs'} />
+          )}
+        </span>
+      );
+    }
+    case 'signed':
+      return (
+        <span className="flex flex-wrap items-center gap-1">
+          {receipt.signatures.map((s, i) => {
+            // Signature checks follow the hash check in signature order; two
+            // signatures may share an algorithm
+            const local = verification?.checks[i + 1]?.local;
+            return (
+              <span key={i} className="inline-flex items-center gap-1">
+                <StatusBadge
+                  verified={s.verified && local !== false}
+                  label={signatureLabel(s)}
+                  title={local === false ? 'Does not verify locally' : undefined}
+                />
+                {isPostQuantum(s.algorithm) && <PqcTag />}
+              </span>
+            );
+          })}
+        </span>
+      );
+    case 'anchored':
+      return (
+        <span>
+          Block #{receipt.blockNumber}
+          {receipt.txHash && <span className="font-mono text-zinc-500"> • {truncateHash(receipt.txHash, 6)}</span>}
+        </span>
+      );
+  }
+};
+
+interface PlaygroundViewProps {
+  schemas: PayloadSchema[];
+  /** Open a receipt in the detail modal */
+  onSelectReceipt: (receipt: Receipt) => void;
+}
+
+const PlaygroundView: React.FC<PlaygroundViewProps> = ({ schemas, onSelectReceipt }) => {
+  const [mode, setMode] = useState<PlaygroundMode>('submit');
+  const [text, setText] = useState('');
+  const [type, setType] = useState('');
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [tracked, setTracked] = useState<Receipt | null>(null);
+  // When each stage was first seen, from the submission on
+  const [reachedAt, setReachedAt] = useState<Partial<Record<LifecycleStage, string>>>({});
+  const [trackError, setTrackError] = useState<string | null>(null);
+  const [external, setExternal] = useState<Receipt | null>(null);
+  const [verification, setVerification] = useState<LocalVerification | null>(null);
+
+  const controller = useRef<AbortController | null>(null);
+  const verifiedKey = useRef<string | null>(null);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const track = (receipt: Receipt) => {
+    setTracked(receipt);
+    const reached = LIFECYCLE_STAGES.indexOf(lifecycleStage(receipt));
+    setReachedAt(previous => {
+      const next = { ...previous };
+      const now = new Date().toISOString();
+      LIFECYCLE_STAGES.slice(0, reached + 1).forEach(stage => {
+        next[stage] ??= now;
+      });
+      return next;
+    });
+  };
+
+  // Verify locally once signatures arrive, and again only if more are added
+  useEffect(() => {
+    if (!tracked || tracked.signatures.length === 0) return;
+    const key = `${tracked.id}:${tracked.signatures.length}`;
+    if (verifiedKey.current === key) return;
+    verifiedKey.current = key;
+    verifyReceipt(tracked)
+      .then(setVerification)
+      .catch(e => console.error('Local verification error:', e));
+  }, [tracked]);
+
+  const poll = async () => {
+    if (!tracked) return;
+    controller.current?.abort();
+    const { signal } = controller.current = new AbortController();
+    try {
+      track(await getReceipt(tracked.id, { signal }));
+      setTrackError(null);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setTrackError(e instanceof ApiError ? `API Error (${e.status}): ${e.message}` : 'Failed to refresh receipt');
+      console.error('Receipt tracking error:', e);
+    }
+  };
+
+  useInterval(poll, tracked && !tracked.txHash ? TRACK_POLL_MS : null);
+
+  const reset = () => {
+    controller.current?.abort();
+    verifiedKey.current = null;
+    setTracked(null);
+    setReachedAt({});
+    setTrackError(null);
+    setExternal(null);
+    setVerification(null);
+    setInputError(null);
+  };
+
+  const switchMode = (next: PlaygroundMode) => {
+    reset();
+    setMode(next);
+  };
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    setInputError(null);
+  };
+
+  const handleSubmit = async () => {
+    reset();
+    let input;
+    try {
+      input = parsePlaygroundInput(text);
+    } catch (e) {
+      if (!(e instanceof InputError)) throw e;
+      setInputError(e.message);
+      return;
+    }
+
+    setBusy(true);
+    const { signal } = controller.current = new AbortController();
+    const submittedAt = new Date().toISOString();
+    try {
+      const receipt = await submitReceipt({ ...input.submission, type: type || input.submission.type }, { signal });
+      setReachedAt({ submitted: submittedAt });
+      track(receipt);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setInputError(e instanceof ApiError ? `API Error (${e.status}): ${e.message}` : 'Failed to submit receipt');
+      console.error('Receipt submission error:', e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    reset();
+    let input;
+    try {
+      input = parsePlaygroundInput(text);
+    } catch (e) {
+      if (!(e instanceof InputError)) throw e;
+      setInputError(e.message);
+      return;
+    }
+    if (input.kind !== 'receipt') {
+      setInputError('This is a payload; paste a receipt with its hash and signatures to verify it');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      setVerification(await verifyReceipt(input.receipt));
+      setExternal(input.receipt);
+    } catch (e) {
+      setInputError(e instanceof Error ? e.message : 'Local verification failed');
+      console.error('Local verification error:', e);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const current = tracked ? lifecycleStage(tracked) : null;
+  const elapsed = (stage: LifecycleStage) => {
+    const at = reachedAt[stage];
+    return at && reachedAt.submitted
+      ? `+${formatDuration((Date.parse(at) - Date.parse(reachedAt.submitted)) / 1000)}`
+      : null;
+  };
+
+  const failedChecks = verification?.checks.filter(c => c.local === false) ?? [];
+  const uncheckable = verification?.checks.filter(c => c.local === null) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-medium text-white">Submit / Verify</h2>
+        <div className="flex items-center gap-1">
+          {(['submit', 'verify'] as PlaygroundMode[]).map(key => (
+            <button
+              key={key}
+              onClick={() => switchMode(key)}
+              className={`px-2 py-0.5 rounded text-xs transition ${
+                mode === key ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:bg-zinc-800'
+              }`}
+            >
+              {key === 'submit' ? 'Submit payload' : 'Verify external receipt'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-sm font-medium text-zinc-400">
+              {mode === 'submit' ? 'Payload or exported receipt' : 'Receipt'}
+            </h3>
+            <div className="flex items-center gap-2">
+              {mode === 'submit' && (
+                <button
+                  onClick={() => setText(JSON.stringify(EXAMPLE_PAYLOAD, null, 2))}
+                  className="text-xs text-blue-400 hover:text-blue-300"
+                >
+                  Insert example
+                </button>
+              )}
+              <label className="flex items-center gap-1 px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 text-xs cursor-pointer transition">
+                <Upload className="w-3.5 h-3.5" /> Upload
+                <input
+                  type="file"
+                  accept=".json,.jsonl,application/json"
+                  className="hidden"
+                  onChange={e => {
+                    handleUpload(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+          <textarea
+            value={text}
+            onChange={e => {
+              setText(e.target.value);
+              setInputError(null);
+            }}
+            rows={14}
+            spellCheck={false}
+            placeholder={mode === 'submit'
+              ? '{ "patientId": 101, "nurse": "Alice", "id": "selfie_1.jpg" }'
+              : 'Paste a receipt, e.g. one line of a JSON Lines export'}
+            className="w-full bg-zinc-800 border border-zinc-700 rounded p-2 font-mono text-xs"
+            aria-label={mode === 'submit' ? 'Payload JSON' : 'Receipt JSON'}
+            aria-describedby={inputError ? 'playground-error' : undefined}
+          />
+          {inputError && <p id="playground-error" className="text-xs text-red-400">{inputError}</p>}
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            {mode === 'submit' ? (
+              <select
+                value={type}
+                onChange={e => setType(e.target.value)}
+                className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm"
+                aria-label="Receipt type"
+              >
+                <option value="">Type from receipt or untyped</option>
+                {schemas.map(s => <option key={s.type} value={s.type}>{s.label}</option>)}
+              </select>
+            ) : (
+              <p className="text-xs text-zinc-500">Checked in the browser; nothing is sent to the backend</p>
+            )}
+            <button
+              onClick={mode === 'submit' ? handleSubmit : handleVerify}
+              disabled={busy || text.trim() === ''}
+              className="flex items-center gap-1 px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition"
+            >
+              {mode === 'submit' ? <Send className="w-4 h-4" /> : <ShieldCheck className="w-4 h-4" />}
+              {mode === 'submit' ? 'Submit' : 'Verify'}
+            </button>
+          </div>
+          {mode === 'submit' && getActiveEnvironment().mock && (
+            <p className="text-xs text-zinc-500">Demo mode: signing and anchoring are simulated</p>
+          )}
+        </div>
+
+        <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4 space-y-4">
+          {mode === 'submit' && (
+            <>
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-zinc-400">Lifecycle</h3>
+                {tracked && (
+                  <button onClick={() => onSelectReceipt(tracked)} className="text-xs text-blue-400 hover:text-blue-300">
+                    View receipt →
+                  </button>
+                )}
+              </div>
+              {!tracked && !busy ? (
+                <p className="text-sm text-zinc-500">Submit a payload to follow it through hashing, signing and anchoring</p>
+              ) : (
+                <ol className="space-y-3">
+                  {LIFECYCLE_STAGES.map((stage, i) => {
+                    const done = !!tracked && LIFECYCLE_STAGES.indexOf(current!) >= i;
+                    const waiting = !done && (tracked ? LIFECYCLE_STAGES.indexOf(current!) === i - 1 : i === 0);
+                    return (
+                      <li key={stage} className="flex items-start gap-3">
+                        {done ? (
+                          <CheckCircle className="w-4 h-4 mt-0.5 text-emerald-400 shrink-0" />
+                        ) : waiting ? (
+                          <RefreshCw className="w-4 h-4 mt-0.5 text-blue-400 animate-spin shrink-0" />
+                        ) : (
+                          <Circle className="w-4 h-4 mt-0.5 text-zinc-600 shrink-0" />
+                        )}
+                        <div className="flex-1 min-w-0 text-xs">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className={`text-sm ${done ? 'text-zinc-200' : 'text-zinc-500'}`}>{STAGE_LABELS[stage]}</span>
+                            {done && reachedAt[stage] && (
+                              <span className="text-zinc-500">
+                                {stage === 'submitted' ? formatTime(reachedAt[stage]!) : elapsed(stage)}
+                              </span>
+                            )}
+                          </div>
+                          {done && tracked && (
+                            <div className="mt-1 text-zinc-400">
+                              <StageDetail stage={stage} receipt={tracked} verification={verification} />
+                            </div>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+              {trackError && <p className="text-xs text-red-400">{trackError}</p>}
+              {verification && <LocalVerificationPanel result={verification} />}
+            </>
+          )}
+
+          {mode === 'verify' && (
+            <>
+              <h3 className="text-sm font-medium text-zinc-400">Result</h3>
+              {!external || !verification ? (
+                <p className="text-sm text-zinc-500">Paste a receipt to recompute its hash and check its signatures</p>
+              ) : (
+                <>
+                  <div className="text-xs space-y-1">
+                    <p className="text-zinc-400">
+                      <span className="font-mono">{external.id}</span> • {truncateHash(external.receiptHash, 8)}
+                    </p>
+                    {failedChecks.length === 0 ? (
+                      <p className="text-emerald-400">
+                        {uncheckable.length === 0 ? 'Hash and signatures verify' : 'No check failed'}
+                        {uncheckable.length > 0 && <span className="text-zinc-500"> • {uncheckable.length} could not be checked</span>}
+                      </p>
+                    ) : (
+                      <p className="text-red-400">
+                        {failedChecks.map(c => c.label).join(', ')} failed
+                      </p>
+                    )}
+                  </div>
+                  <LocalVerificationPanel result={verification} claimedBy="Receipt" />
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlaygroundView;
@@ -0,0 +1,44 @@
+// QR code rendered as one SVG path
+import React, { useMemo } from 'react';
+import qrcode from 'qrcode-generator';
+
+// Light modules the spec requires around the symbol
+const QUIET_ZONE = 4;
+
+interface QrCodeProps {
+  value: string;
+  /** Rendered width and height in pixels */
+  size?: number;
+  title?: string;
+}
+
+export const QrCode: React.FC<QrCodeProps> = ({ value, size = 96, title }) => {
+  const { path, modules } = useMemo(() => {
+    // Type 0 picks the smallest version that fits
+    const qr = qrcode(0, 'M');
+    qr.addData(value);
+    qr.make();
+    const count = qr.getModuleCount();
+    let d = '';
+    for (let row = 0; row < count; row++) {
+      for (let col = 0; col < count; col++) {
+        if (qr.isDark(row, col)) d += `M${col + QUIET_ZONE} ${row + QUIET_ZONE}h1v1h-1z`;
+      }
+    }
+    return { path: d, modules: count + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${modules} ${modules}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={title ?? value}
+    >
+      <rect width={modules} height={modules} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
@@ -0,0 +1,324 @@
+// Side-by-side comparison of two receipts with the chain of custody of their subject
+import React, { useState, useEffect, useMemo } from 'react';
+import { GitFork, Unlink, Link2, RefreshCw } from 'lucide-react';
+
+import type { Receipt } from './types';
+import { formatDate, formatDuration, truncateHash } from './hooks';
+import { useShortcut } from './shortcuts';
+import { redactPayload, type RedactionRule, type RedactedPayload } from './redaction';
+import { formatPayloadValue, getFieldValue, resolveSchema, type PayloadSchema } from './schemas';
+import {
+  diffRedactedPayloads, receiptSubject, fetchCustodyChain, type CustodyChain, type CustodyLink, type PayloadChangeKind,
+  type ReceiptSubject
+} from './custody';
+import { describeError, isAbortError } from './api';
+import { signatureLabel } from './signatures';
+import { StatusBadge } from './components';
+
+const CHANGE_STYLES: Record<PayloadChangeKind, { label: string; row: string; text: string }> = {
+  changed: { label: 'Changed', row: 'bg-amber-900/10', text: 'text-amber-400' },
+  added: { label: 'Added', row: 'bg-emerald-900/10', text: 'text-emerald-400' },
+  removed: { label: 'Removed', row: 'bg-red-900/10', text: 'text-red-400' },
+  unchanged: { label: 'Same', row: '', text: 'text-zinc-500' },
+  redacted: { label: 'Redacted', row: '', text: 'text-zinc-500' },
+};
+
+const LINK_NOTES: Record<CustodyLink, string | null> = {
+  start: 'Start of the chain',
+  linked: null,
+  missing: 'Gap: the previous receipt it references is not on record',
+  unlinked: 'Gap: does not reference a previous receipt',
+};
+
+// Read from the redacted payload so a masked subject stays masked
+const formatSubject = (subject: ReceiptSubject, shown: RedactedPayload): string =>
+  `${subject.label} ${formatPayloadValue(getFieldValue(shown.payload, subject.path))}`;
+
+interface CustodyTimelineProps {
+  chain: CustodyChain;
+  /** Receipts being compared, highlighted in the timeline */
+  compared: Receipt[];
+  onSelectReceipt: (receipt: Receipt) => void;
+}
+
+const CustodyTimeline: React.FC<CustodyTimelineProps> = ({ chain, compared, onSelectReceipt }) => {
+  if (!chain.entries.some(e => e.receipt.previousReceiptHash)) {
+    return <p className="text-xs text-zinc-500">Receipts for this subject do not reference previous receipts</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-xs">
+        <span className="px-2 py-0.5 rounded bg-zinc-800 text-zinc-300">{chain.entries.length} receipts</span>
+        {chain.gaps === 0 && chain.forks.length === 0 ? (
+          <span className="px-2 py-0.5 rounded bg-emerald-900/50 text-emerald-400">Chain intact</span>
+        ) : (
+          <>
+            {chain.gaps > 0 && (
+              <span className="px-2 py-0.5 rounded bg-red-900/50 text-red-400">
+                {chain.gaps} gap{chain.gaps === 1 ? '' : 's'}
+              </span>
+            )}
+            {chain.forks.length > 0 && (
+              <span className="px-2 py-0.5 rounded bg-amber-900/50 text-amber-400">
+                {chain.forks.length} fork{chain.forks.length === 1 ? '' : 's'}
+              </span>
+            )}
+          </>
+        )}
+        {chain.truncated && <span className="text-zinc-500">Older receipts not loaded</span>}
+      </div>
+
+      <ol className="relative border-l border-zinc-700 ml-2 space-y-3">
+        {chain.entries.map(({ receipt, link, forked }) => {
+          const gap = link === 'missing' || link === 'unlinked';
+          const highlighted = compared.some(r => r.id === receipt.id);
+          return (
+            <li key={receipt.id} className="ml-4">
+              <span
+                className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-zinc-900 ${
+                  gap ? 'bg-red-500' : forked ? 'bg-amber-500' : highlighted ? 'bg-blue-500' : 'bg-zinc-500'
+                }`}
+              />
+              <button
+                onClick={() => onSelectReceipt(receipt)}
+                className={`w-full text-left rounded px-2 py-1 text-xs hover:bg-zinc-800 ${
+                  highlighted ? 'bg-blue-900/20' : ''
+                }`}
+              >
+                <span className="font-mono text-zinc-300">{truncateHash(receipt.receiptHash, 6)}</span>
+                <span className="text-zinc-500 ml-2">{formatDate(receipt.createdAt)}</span>
+                {highlighted && <span className="text-blue-400 ml-2">compared</span>}
+                {LINK_NOTES[link] && (
+                  <span className={`flex items-center gap-1 mt-0.5 ${gap ? 'text-red-400' : 'text-zinc-500'}`}>
+                    {gap && <Unlink className="w-3 h-3" />}
+                    {LINK_NOTES[link]}
+                  </span>
+                )}
+                {forked && (
+                  <span className="flex items-center gap-1 mt-0.5 text-amber-400">
+                    <GitFork className="w-3 h-3" />
+                    Fork: another receipt continues from the same previous receipt
+                  </span>
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+interface ReceiptCompareProps {
+  receipts: [Receipt, Receipt];
+  schemas: PayloadSchema[];
+  redaction: RedactionRule[];
+  /** Open a receipt from the custody timeline */
+  onSelectReceipt: (receipt: Receipt) => void;
+  onClose: () => void;
+}
+
+export const ReceiptCompare: React.FC<ReceiptCompareProps> = ({
+  receipts, schemas, redaction, onSelectReceipt, onClose
+}) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [chain, setChain] = useState<CustodyChain | null>(null);
+  const [chainError, setChainError] = useState<string | null>(null);
+
+  useShortcut('Escape', onClose, { description: 'Close dialog' });
+
+  // Older receipt on the left, so the diff reads forward in time
+  const [before, after] = useMemo(
+    () => [...receipts].sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt)),
+    [receipts]
+  );
+  const shown = useMemo(
+    () => [before, after].map(r => redactPayload(r.payload, redaction)),
+    [before, after, redaction]
+  );
+  const changes = useMemo(() => diffRedactedPayloads(shown[0], shown[1]), [shown]);
+  const formats = useMemo(() => {
+    const fields = [resolveSchema(before, schemas), resolveSchema(after, schemas)].flatMap(s => s.fields);
+    return new Map(fields.map(f => [f.path, f.format]));
+  }, [before, after, schemas]);
+
+  const subjects = [receiptSubject(before, schemas), receiptSubject(after, schemas)];
+  const sameSubject = !!subjects[0] && !!subjects[1] &&
+    subjects[0].path === subjects[1].path && String(subjects[0].value) === String(subjects[1].value);
+  const subject = sameSubject ? subjects[0] : null;
+  const subjectPath = subject?.path;
+  const subjectValue = subject?.value;
+
+  useEffect(() => {
+    setChain(null);
+    setChainError(null);
+    if (subjectPath === undefined || subjectValue === undefined) return;
+    const controller = new AbortController();
+    fetchCustodyChain({ path: subjectPath, value: subjectValue }, { signal: controller.signal })
+      .then(setChain)
+      .catch(e => {
+        if (isAbortError(e)) return;
+        setChainError(describeError(e));
+        console.error('Chain of custody fetch error:', e);
+      });
+    return () => controller.abort();
+  }, [subjectPath, subjectValue]);
+
+  const delta = (Date.parse(after.createdAt) - Date.parse(before.createdAt)) / 1000;
+  const differing = changes.filter(c => c.kind !== 'unchanged' && c.kind !== 'redacted');
+  const visibleChanges = showUnchanged ? changes : differing;
+
+  const cell = (index: 0 | 1, path: string) => {
+    const redacted = shown[index].redactedFields.includes(path);
+    const value = getFieldValue(shown[index].payload, path);
+    return (
+      <span className={redacted ? 'text-zinc-500' : undefined}>
+        {value === undefined ? '—' : formatPayloadValue(value, redacted ? 'text' : formats.get(path))}
+      </span>
+    );
+  };
+
+  const sideBySide: { label: string; render: (r: Receipt) => React.ReactNode }[] = [
+    { label: 'Receipt hash', render: r => <span className="font-mono">{truncateHash(r.receiptHash, 8)}</span> },
+    { label: 'Type', render: r => resolveSchema(r, schemas).label },
+    { label: 'Created', render: r => new Date(r.createdAt).toLocaleString() },
+    {
+      label: 'Signatures',
+      render: r => (
+        <div className="flex flex-wrap gap-1">
+          {r.signatures.map((s, i) => (
+            <StatusBadge key={i} verified={s.verified} label={signatureLabel(s)} />
+          ))}
+        </div>
+      ),
+    },
+    {
+      label: 'Hash',
+      render: r => <StatusBadge verified={r.hashVerified} label={r.hashVerified ? 'Valid' : 'Invalid'} />,
+    },
+    {
+      label: 'Anchor',
+      render: r => (r.blockNumber !== undefined
+        ? <span>Block #{r.blockNumber}{r.anchoredAt && <span className="text-zinc-500"> • {formatDate(r.anchoredAt)}</span>}</span>
+        : <span className="text-amber-400">Pending</span>),
+    },
+    {
+      label: 'Previous receipt',
+      render: r => (r.previousReceiptHash
+        ? <span className="font-mono">{truncateHash(r.previousReceiptHash, 8)}</span>
+        : <span className="text-zinc-500">—</span>),
+    },
+  ];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="compare-title"
+    >
+      <div
+        className="bg-zinc-900 border border-zinc-800 rounded-lg max-w-4xl w-full max-h-[85vh] overflow-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+          <h3 id="compare-title" className="font-medium">Compare Receipts</h3>
+          <button
+            onClick={onClose}
+            className="text-zinc-400 hover:text-white text-xl p-1"
+            aria-label="Close comparison"
+          >
+            &times;
+          </button>
+        </div>
+
+        <div className="p-4 space-y-6">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-zinc-300">Created {formatDuration(delta)} apart</span>
+            {after.previousReceiptHash === before.receiptHash && (
+              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs bg-blue-900/50 text-blue-400">
+                <Link2 className="w-3 h-3" />
+                Newer receipt continues from the older one
+              </span>
+            )}
+            {sameSubject ? (
+              <span className="px-2 py-0.5 rounded text-xs bg-zinc-800 text-zinc-300">
+                Same subject • {formatSubject(subject!, shown[0])}
+              </span>
+            ) : (
+              <span className="px-2 py-0.5 rounded text-xs bg-amber-900/50 text-amber-400">
+                {subjects[0] || subjects[1] ? 'Different subjects' : 'No subject field'}
+              </span>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-zinc-500">
+                  <th className="text-left font-medium py-2 pr-4 w-36" />
+                  <th className="text-left font-medium py-2 pr-4">Older</th>
+                  <th className="text-left font-medium py-2">Newer</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-800">
+                {sideBySide.map(row => (
+                  <tr key={row.label}>
+                    <td className="py-2 pr-4 text-zinc-500">{row.label}</td>
+                    <td className="py-2 pr-4 text-zinc-300">{row.render(before)}</td>
+                    <td className="py-2 text-zinc-300">{row.render(after)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-medium text-zinc-400">
+                Payload • {differing.length === 0 ? 'identical' : `${differing.length} difference${differing.length === 1 ? '' : 's'}`}
+              </h4>
+              <label className="flex items-center gap-2 text-xs text-zinc-400">
+                <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} />
+                Show unchanged and redacted fields
+              </label>
+            </div>
+            {visibleChanges.length > 0 && (
+              <table className="w-full text-xs">
+                <tbody className="divide-y divide-zinc-800">
+                  {visibleChanges.map(change => (
+                    <tr key={change.path} className={CHANGE_STYLES[change.kind].row}>
+                      <td className="py-1.5 px-2 font-mono text-zinc-400 w-36">{change.path}</td>
+                      <td className="py-1.5 px-2 text-zinc-300">{change.kind === 'added' ? '—' : cell(0, change.path)}</td>
+                      <td className="py-1.5 px-2 text-zinc-300">{change.kind === 'removed' ? '—' : cell(1, change.path)}</td>
+                      <td className={`py-1.5 px-2 text-right ${CHANGE_STYLES[change.kind].text}`}>
+                        {CHANGE_STYLES[change.kind].label}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {subject && (
+            <div>
+              <h4 className="text-sm font-medium text-zinc-400 mb-2">
+                Chain of Custody • {formatSubject(subject, shown[0])}
+              </h4>
+              {chainError ? (
+                <p className="text-xs text-red-400">{chainError}</p>
+              ) : chain ? (
+                <CustodyTimeline chain={chain} compared={[before, after]} onSelectReceipt={onSelectReceipt} />
+              ) : (
+                <RefreshCw className="w-4 h-4 text-zinc-500 animate-spin" />
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
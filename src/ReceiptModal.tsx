@@ -0,0 +1,446 @@
+// Receipt detail dialog: checks and failures, local verification, payload
+// reveal, chain anchor and Merkle inclusion proof
+import React, { useState, useEffect, useMemo } from 'react';
+import { RefreshCw, ShieldCheck, GitMerge, Eye, EyeOff, AlertTriangle } from 'lucide-react';
+
+import type { Receipt, MerkleProof, Role, RevealAuditEntry, VerificationFailure, SigningKey } from './types';
+import { recordReveal, ApiError } from './api';
+import { formatTime, formatDuration, truncateHash } from './hooks';
+import { verifyReceipt, type LocalVerification } from './verify';
+import { replayMerkleProof } from './merkle';
+import type { KeyWarning } from './keys';
+import { receiptFailures, describeReason, CHECK_LABELS } from './forensics';
+import { isPostQuantum, signatureLabel } from './signatures';
+import { redactPayload, type RedactionRule } from './redaction';
+import { resolveSchema, type PayloadSchema } from './schemas';
+import { PayloadViewer } from './PayloadViewer';
+import { useShortcut } from './shortcuts';
+import { isCachedReceipt } from './offline';
+import { StatusBadge, PqcTag, LocalVerificationPanel } from './components';
+import { anchorVerificationEnabled, type AnchorStatus, type AnchorVerification } from './anchor';
+
+const ANCHOR_STATUS_STYLES: Record<AnchorStatus, { label: string; className: string }> = {
+  confirmed: { label: 'Confirmed', className: 'bg-emerald-900/50 text-emerald-400' },
+  pending: { label: 'Confirming', className: 'bg-amber-900/50 text-amber-400' },
+  reorged: { label: 'Reorged', className: 'bg-red-900/50 text-red-400' },
+  not_found: { label: 'Not found', className: 'bg-red-900/50 text-red-400' },
+  mismatch: { label: 'Mismatch', className: 'bg-red-900/50 text-red-400' },
+  error: { label: 'Unverified', className: 'bg-zinc-800 text-zinc-400' },
+};
+
+export const AnchorStatusBadge: React.FC<{ check: AnchorVerification }> = ({ check }) => {
+  const { label, className } = ANCHOR_STATUS_STYLES[check.status];
+  return (
+    <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${className}`} title={check.detail}>
+      {label}
+    </span>
+  );
+};
+
+interface FailureDetailsProps {
+  failures: VerificationFailure[];
+}
+
+const FailureDetails: React.FC<FailureDetailsProps> = ({ failures }) => (
+  <div className="space-y-2">
+    {failures.map(failure => (
+      <div key={failure.check} className="bg-red-900/20 border border-red-900/50 rounded p-2 text-xs space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-medium text-zinc-300">{CHECK_LABELS[failure.check]} failed</span>
+          {failure.keyFingerprint && (
+            <span className="font-mono text-zinc-500" title="Signer key fingerprint">{failure.keyFingerprint}</span>
+          )}
+        </div>
+        <p className="text-red-300">{describeReason(failure.reason)}</p>
+        {failure.expectedHash && failure.actualHash && (
+          <div className="font-mono space-y-0.5 break-all">
+            <p className="text-zinc-400"><span className="text-zinc-500">expected </span>{failure.expectedHash}</p>
+            <p className="text-red-300"><span className="text-zinc-500">actual&nbsp;&nbsp; </span>{failure.actualHash}</p>
+          </div>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+const KeyWarnings: React.FC<{ warnings: KeyWarning[] }> = ({ warnings }) => (
+  <div className="bg-amber-900/20 border border-amber-900/50 rounded p-2 text-xs space-y-1">
+    {warnings.map(w => (
+      <p key={w.algorithm} className="flex items-start gap-2 text-amber-300">
+        <AlertTriangle className="w-3.5 h-3.5 mt-px shrink-0" />
+        <span>
+          {w.message}
+          {w.key?.revocationReason && <span className="text-zinc-400"> ({w.key.revocationReason})</span>}
+        </span>
+      </p>
+    ))}
+  </div>
+);
+
+interface MerkleProofPanelProps {
+  receipt: Receipt;
+  proof: MerkleProof;
+}
+
+const HashCell: React.FC<{ hash: string; onPath: boolean }> = ({ hash, onPath }) => (
+  <span
+    className={`font-mono px-1.5 py-0.5 rounded ${onPath ? 'bg-blue-900/50 text-blue-300' : 'bg-zinc-900 text-zinc-500'}`}
+    title={hash}
+  >
+    {truncateHash(hash, 6)}
+  </span>
+);
+
+const MerkleProofPanel: React.FC<MerkleProofPanelProps> = ({ receipt, proof }) => {
+  const replay = useMemo(() => replayMerkleProof(receipt.receiptHash, proof), [receipt.receiptHash, proof]);
+  const valid = replay.leafMatches && replay.rootMatches;
+
+  return (
+    <div className="bg-zinc-800 rounded p-3 space-y-3 text-xs">
+      <div className="flex items-center justify-between">
+        <p className="text-zinc-400">
+          Leaf #{proof.leafIndex} • {proof.path.length} level{proof.path.length === 1 ? '' : 's'}
+        </p>
+        <div className="flex gap-1">
+          <StatusBadge verified={replay.leafMatches} label={replay.leafMatches ? 'Leaf matches' : 'Leaf mismatch'} />
+          <StatusBadge verified={replay.rootMatches} label={replay.rootMatches ? 'Root matches' : 'Root mismatch'} />
+        </div>
+      </div>
+
+      <ol className="space-y-2 border-l border-zinc-700 ml-1 pl-3">
+        <li>
+          <span className="text-zinc-500 mr-2">Leaf</span>
+          <HashCell hash={receipt.receiptHash} onPath />
+        </li>
+        {replay.steps.map(step => (
+          <li key={step.level} className="space-y-1">
+            <div className="flex items-center gap-1 flex-wrap">
+              <span className="text-zinc-500 mr-1">L{step.level}</span>
+              <HashCell hash={step.left} onPath={step.pathSide === 'left'} />
+              <span className="text-zinc-600">+</span>
+              <HashCell hash={step.right} onPath={step.pathSide === 'right'} />
+            </div>
+            <div className="flex items-center gap-1 pl-6">
+              <span className="text-zinc-600">SHA-256 →</span>
+              <HashCell hash={step.parent} onPath />
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {replay.error && <p className="text-red-400">{replay.error}</p>}
+      <div className={`rounded p-2 font-mono break-all space-y-0.5 ${valid ? 'bg-zinc-900/50' : 'bg-red-900/30 border border-red-800'}`}>
+        <p><span className="text-zinc-500">anchored </span>{proof.root}</p>
+        <p className={replay.rootMatches ? 'text-emerald-300' : 'text-red-300'}>
+          <span className="text-zinc-500">computed </span>{replay.computedRoot}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+interface PayloadPanelProps {
+  receipt: Receipt;
+  role: Role;
+  redaction: RedactionRule[];
+  schemas: PayloadSchema[];
+}
+
+/**
+ * Payload with redaction rules applied. Auditors can reveal the original,
+ * but only after the reveal and its reason have been written to the audit log.
+ * The original is already in the browser, so this gates the display only.
+ */
+const PayloadPanel: React.FC<PayloadPanelProps> = ({ receipt, role, redaction, schemas }) => {
+  const [revealed, setRevealed] = useState<RevealAuditEntry | null>(null);
+  const [reason, setReason] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [revealError, setRevealError] = useState<string | null>(null);
+
+  const { payload, redactedFields } = useMemo(
+    () => redactPayload(receipt.payload, redaction),
+    [receipt.payload, redaction]
+  );
+
+  // A reveal covers one receipt only
+  useEffect(() => {
+    setRevealed(null);
+    setReason(null);
+    setRevealError(null);
+  }, [receipt.id]);
+
+  const handleReveal = async () => {
+    if (!reason?.trim()) return;
+    setSubmitting(true);
+    setRevealError(null);
+    try {
+      setRevealed(await recordReveal({ receiptId: receipt.id, fields: redactedFields, reason: reason.trim() }));
+      setReason(null);
+    } catch (e) {
+      setRevealError(e instanceof ApiError ? `Audit log rejected the reveal (${e.status})` : 'Could not record the reveal');
+      console.error('Reveal audit error:', e);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <p className="text-xs text-zinc-500">
+          Payload
+          {redactedFields.length > 0 && !revealed && (
+            <span className="ml-2">• {redactedFields.length} field{redactedFields.length === 1 ? '' : 's'} redacted</span>
+          )}
+          {revealed && (
+            <span className="ml-2 text-violet-400">• Revealed • logged {formatTime(revealed.recordedAt)}</span>
+          )}
+        </p>
+        {role === 'auditor' && redactedFields.length > 0 && !isCachedReceipt(receipt) && (
+          revealed ? (
+            <button
+              onClick={() => setRevealed(null)}
+              className="inline-flex items-center gap-1 text-xs text-zinc-400 hover:text-white"
+            >
+              <EyeOff className="w-3.5 h-3.5" /> Hide
+            </button>
+          ) : reason === null && (
+            <button
+              onClick={() => setReason('')}
+              className="inline-flex items-center gap-1 text-xs text-zinc-400 hover:text-white"
+            >
+              <Eye className="w-3.5 h-3.5" /> Reveal
+            </button>
+          )
+        )}
+      </div>
+      {reason !== null && (
+        <form
+          onSubmit={e => {
+            e.preventDefault();
+            handleReveal();
+          }}
+          className="flex gap-2 mb-2"
+        >
+          <input
+            type="text"
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder="Reason for revealing (recorded in the audit log)"
+            className="flex-1 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs"
+            aria-label="Reveal reason"
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={submitting || !reason.trim()}
+            className="px-2 py-1 bg-violet-900/50 text-violet-300 hover:bg-violet-900/70 disabled:opacity-50 rounded text-xs font-medium transition"
+          >
+            {submitting ? 'Recording…' : 'Reveal'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setReason(null)}
+            className="px-2 py-1 text-xs text-zinc-400 hover:text-white"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+      {revealError && <p className="text-xs text-red-400 mb-2">{revealError}</p>}
+      <PayloadViewer
+        payload={revealed ? receipt.payload : payload}
+        schema={resolveSchema(receipt, schemas)}
+        redactedFields={revealed ? [] : redactedFields}
+      />
+    </div>
+  );
+};
+
+interface ReceiptModalProps {
+  receipt: Receipt;
+  role: Role;
+  redaction: RedactionRule[];
+  schemas: PayloadSchema[];
+  /** Signatures made by keys that weren't valid at the time */
+  keyWarnings: KeyWarning[];
+  /** Key registry the signatures are verified against */
+  signingKeys: SigningKey[];
+  anchorCheck?: AnchorVerification;
+  onRecheckAnchor: () => void;
+  onClose: () => void;
+}
+
+export const ReceiptModal: React.FC<ReceiptModalProps> = ({
+  receipt, role, redaction, schemas, keyWarnings, signingKeys, anchorCheck, onRecheckAnchor, onClose
+}) => {
+  const [verification, setVerification] = useState<LocalVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [verifyError, setVerifyError] = useState<string | null>(null);
+  const [showProof, setShowProof] = useState(false);
+  const failures = useMemo(() => receiptFailures(receipt), [receipt]);
+
+  useShortcut('Escape', onClose, { description: 'Close dialog' });
+
+  // Results belong to a specific receipt
+  useEffect(() => {
+    setVerification(null);
+    setVerifyError(null);
+    setShowProof(false);
+  }, [receipt.id]);
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    setVerifyError(null);
+    try {
+      setVerification(await verifyReceipt(receipt, signingKeys));
+    } catch (e) {
+      setVerifyError(e instanceof Error ? e.message : 'Local verification failed');
+      console.error('Local verification error:', e);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="modal-title"
+    >
+      <div
+        className="bg-zinc-900 border border-zinc-800 rounded-lg max-w-2xl w-full max-h-[80vh] overflow-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between">
+          <h3 id="modal-title" className="font-medium">Receipt Details</h3>
+          <button
+            onClick={onClose}
+            className="text-zinc-400 hover:text-white text-xl p-1"
+            aria-label="Close modal"
+          >
+            &times;
+          </button>
+        </div>
+        <div className="p-4 space-y-4">
+          <div>
+            <p className="text-xs text-zinc-500 mb-1">Receipt Hash</p>
+            <p className="font-mono text-sm bg-zinc-800 p-2 rounded break-all select-all">
+              {receipt.receiptHash}
+            </p>
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+            {receipt.signatures.map((signature, i) => (
+              <div key={i}>
+                <p className="text-xs text-zinc-500 mb-1 flex items-center gap-1.5">
+                  {signatureLabel(signature)}
+                  {isPostQuantum(signature.algorithm) && <PqcTag />}
+                </p>
+                <StatusBadge verified={signature.verified} label={signature.verified ? 'Verified' : 'Failed'} />
+              </div>
+            ))}
+            <div>
+              <p className="text-xs text-zinc-500 mb-1">Hash</p>
+              <StatusBadge verified={receipt.hashVerified} label={receipt.hashVerified ? 'Valid' : 'Invalid'} />
+            </div>
+          </div>
+          {failures.length > 0 && <FailureDetails failures={failures} />}
+          {keyWarnings.length > 0 && <KeyWarnings warnings={keyWarnings} />}
+          <div className="space-y-2">
+            <button
+              onClick={handleVerify}
+              disabled={verifying || isCachedReceipt(receipt)}
+              className="inline-flex items-center gap-2 px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 rounded text-sm font-medium transition"
+            >
+              {verifying
+                ? <RefreshCw className="w-4 h-4 animate-spin" />
+                : <ShieldCheck className="w-4 h-4" />}
+              Verify locally
+            </button>
+            {isCachedReceipt(receipt) && (
+              <p className="text-xs text-zinc-500">Offline copy with a redacted payload; verify once back online</p>
+            )}
+            {verifyError && <p className="text-xs text-red-400">{verifyError}</p>}
+            {verification && <LocalVerificationPanel result={verification} />}
+          </div>
+          <PayloadPanel receipt={receipt} role={role} redaction={redaction} schemas={schemas} />
+          {receipt.txHash && (
+            <div>
+              <p className="text-xs text-zinc-500 mb-1">Chain Anchor</p>
+              <div className="bg-zinc-800 p-2 rounded">
+                <p className="font-mono text-xs break-all select-all">{receipt.txHash}</p>
+                <p className="text-xs text-zinc-400 mt-1">Block #{receipt.blockNumber}</p>
+              </div>
+              {anchorVerificationEnabled() && (
+                <div className="mt-2 bg-zinc-800 p-2 rounded text-xs space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-zinc-400">Independent check</span>
+                    <div className="flex items-center gap-2">
+                      {anchorCheck
+                        ? <AnchorStatusBadge check={anchorCheck} />
+                        : <span className="text-zinc-500">Checking…</span>}
+                      <button
+                        onClick={onRecheckAnchor}
+                        className="text-zinc-400 hover:text-white"
+                        aria-label="Re-check anchor"
+                      >
+                        <RefreshCw className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                  {anchorCheck && (
+                    <>
+                      {anchorCheck.chainBlock !== undefined && (
+                        <p className="text-zinc-400">
+                          On-chain block #{anchorCheck.chainBlock} • {anchorCheck.confirmations} confirmation{anchorCheck.confirmations === 1 ? '' : 's'}
+                        </p>
+                      )}
+                      {anchorCheck.rootEmbedded !== undefined && (
+                        <p className={anchorCheck.rootEmbedded ? 'text-zinc-400' : 'text-red-400'}>
+                          {anchorCheck.rootEmbedded ? 'Root found in transaction input' : 'Root missing from transaction input'}
+                        </p>
+                      )}
+                      {anchorCheck.detail && <p className="text-zinc-500">{anchorCheck.detail}</p>}
+                    </>
+                  )}
+                </div>
+              )}
+              {receipt.merkleProof ? (
+                <div className="mt-2 space-y-2">
+                  <button
+                    onClick={() => setShowProof(v => !v)}
+                    className="inline-flex items-center gap-2 text-xs text-zinc-400 hover:text-white"
+                    aria-expanded={showProof}
+                  >
+                    <GitMerge className="w-3.5 h-3.5" />
+                    {showProof ? 'Hide' : 'Show'} inclusion proof
+                  </button>
+                  {showProof && <MerkleProofPanel receipt={receipt} proof={receipt.merkleProof} />}
+                </div>
+              ) : (
+                <p className="text-xs text-zinc-500 mt-2">No inclusion proof supplied</p>
+              )}
+            </div>
+          )}
+          <div>
+            <p className="text-xs text-zinc-500 mb-1">Timestamp</p>
+            <p className="text-sm">{new Date(receipt.createdAt).toLocaleString()}</p>
+          </div>
+          {receipt.anchoredAt && (
+            <div>
+              <p className="text-xs text-zinc-500 mb-1">Anchored</p>
+              <p className="text-sm">
+                {new Date(receipt.anchoredAt).toLocaleString()}
+                <span className="text-zinc-500 ml-2">
+                  after {formatDuration((Date.parse(receipt.anchoredAt) - Date.parse(receipt.createdAt)) / 1000)}
+                </span>
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+// Embeddable receipt verification card: signature and anchor status for one
+// receipt, with a QR code linking to it in the full dashboard
+import React, { useState, useEffect, useMemo } from 'react';
+import { ShieldCheck, ShieldAlert, CheckCircle, Clock, RefreshCw, ExternalLink } from 'lucide-react';
+
+import type { PublicReceipt } from './types';
+import { getPublicReceipt } from './publicApi';
+import type { ApiEnvironment } from './environments';
+import type { WidgetParams } from './widgetParams';
+import { buildUrl } from './router';
+import { formatDate, truncateHash } from './hooks';
+import { signatureLabel, signaturesVerified, isPostQuantum } from './signatures';
+import { redactPayload } from './redaction';
+import { StatusBadge, PqcTag } from './components';
+import { QrCode } from './QrCode';
+
+interface ReceiptWidgetProps {
+  env: ApiEnvironment;
+  params: WidgetParams;
+}
+
+const ReceiptWidget: React.FC<ReceiptWidgetProps> = ({ env, params }) => {
+  // undefined while loading, null when there is no such receipt
+  const [receipt, setReceipt] = useState<PublicReceipt | null | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!params.receipt) return;
+    const controller = new AbortController();
+    getPublicReceipt(env, params.receipt, { allowPayload: params.allowPayload, signal: controller.signal })
+      .then(setReceipt)
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        setError(e instanceof Error ? e.message : 'Lookup failed');
+        console.error('Public receipt lookup error:', e);
+      });
+    return () => controller.abort();
+  }, [env, params]);
+
+  const shownPayload = useMemo(
+    () => (receipt?.payload ? redactPayload(receipt.payload, env.redaction) : null),
+    [receipt, env.redaction]
+  );
+
+  let body: React.ReactNode;
+  if (!params.receipt) {
+    body = <p className="text-sm text-zinc-400">No receipt given; set the <code>receipt</code> parameter to a hash or id.</p>;
+  } else if (error) {
+    body = <p className="text-sm text-red-400">{error}</p>;
+  } else if (receipt === undefined) {
+    body = <RefreshCw className="w-5 h-5 text-zinc-500 animate-spin mx-auto" />;
+  } else if (receipt === null) {
+    body = (
+      <p className="text-sm text-zinc-400">
+        No receipt matches <span className="font-mono">{truncateHash(params.receipt, 8)}</span>
+      </p>
+    );
+  } else {
+    const verified = receipt.hashVerified && signaturesVerified(receipt);
+    const link = new URL(buildUrl({
+      environment: env.id, view: 'overview', receiptId: receipt.id, page: 1, filter: 'all', search: '',
+    }), window.location.origin).href;
+
+    body = (
+      <div className="space-y-3">
+        <div className={`flex items-center gap-2 ${verified ? 'text-emerald-400' : 'text-red-400'}`}>
+          {verified ? <ShieldCheck className="w-5 h-5" /> : <ShieldAlert className="w-5 h-5" />}
+          <span className="font-medium">{verified ? 'Verified receipt' : 'Verification failed'}</span>
+        </div>
+
+        <div className="flex gap-4">
+          <div className="flex-1 min-w-0 space-y-2 text-xs">
+            <div>
+              <p className="text-zinc-500">Receipt hash</p>
+              <p className="font-mono text-zinc-300 break-all">{receipt.receiptHash}</p>
+            </div>
+            <div>
+              <p className="text-zinc-500">Created</p>
+              <p className="text-zinc-300">{formatDate(receipt.createdAt)}</p>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              <StatusBadge verified={receipt.hashVerified} label="Hash" />
+              {receipt.signatures.map((s, i) => (
+                <span key={i} className="inline-flex items-center gap-1">
+                  <StatusBadge verified={s.verified} label={signatureLabel(s)} />
+                  {isPostQuantum(s.algorithm) && <PqcTag />}
+                </span>
+              ))}
+            </div>
+            {receipt.txHash ? (
+              <p className="flex items-center gap-1 text-emerald-400">
+                <CheckCircle className="w-3 h-3" />
+                Anchored in block #{receipt.blockNumber}
+                {receipt.anchoredAt && <span className="text-zinc-500"> • {formatDate(receipt.anchoredAt)}</span>}
+              </p>
+            ) : (
+              <p className="flex items-center gap-1 text-amber-400">
+                <Clock className="w-3 h-3" /> Awaiting anchor
+              </p>
+            )}
+          </div>
+          <a href={link} target="_blank" rel="noopener noreferrer" className="shrink-0" title="Open the full receipt">
+            <QrCode value={link} size={96} title="QR code linking to the full receipt" />
+          </a>
+        </div>
+
+        {shownPayload && (
+          <div>
+            <p className="text-xs text-zinc-500 mb-1">
+              Payload{shownPayload.redactedFields.length > 0 && ` • ${shownPayload.redactedFields.length} field${
+                shownPayload.redactedFields.length === 1 ? '' : 's'} redacted`}
+            </p>
+            <pre className="bg-zinc-800 rounded p-2 text-xs text-zinc-300 overflow-auto max-h-40">
+              {JSON.stringify(shownPayload.payload, null, 2)}
+            </pre>
+          </div>
+        )}
+
+        <a
+          href={link}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
+        >
+          Open full receipt <ExternalLink className="w-3 h-3" />
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4 text-white">
+      {body}
+      <p className="mt-3 text-[10px] text-zinc-600">Juggernaut Rail • {env.name}</p>
+    </div>
+  );
+};
+
+export default ReceiptWidget;
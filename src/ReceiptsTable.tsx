@@ -0,0 +1,362 @@
+// Overview receipts table: filter, search, payload columns, export, compare
+// selection and keyboard navigation over the current page
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  CheckCircle, Database, Search, ChevronLeft, ChevronRight, GitCompare, AlertTriangle, ListChecks
+} from 'lucide-react';
+
+import type { Receipt, FilterType, SigningKey } from './types';
+import { formatTime, truncateHash } from './hooks';
+import { receiptKeyWarnings } from './keys';
+import { failureReason } from './forensics';
+import { BADGE_LABELS, signatureLabel } from './signatures';
+import type { ApiEnvironment } from './environments';
+import { redactPayload } from './redaction';
+import {
+  resolveSchema, payloadColumns, getFieldValue, formatPayloadValue, loadVisibleColumns, saveVisibleColumns
+} from './schemas';
+import { ColumnChooser } from './PayloadViewer';
+import { ExportControl, type ReceiptExporter } from './ExportControl';
+import { AnchorStatusBadge } from './ReceiptModal';
+import { useShortcuts } from './shortcuts';
+import { StatusBadge, PanelError } from './components';
+import type { AnchorVerification } from './anchor';
+
+const EmptyState: React.FC<{ message: string; colSpan: number }> = ({ message, colSpan }) => (
+  <tr>
+    <td colSpan={colSpan} className="text-center py-12 text-zinc-500">
+      <Database className="w-8 h-8 mx-auto mb-2 opacity-50" />
+      {message}
+    </td>
+  </tr>
+);
+
+interface ReceiptsTableProps {
+  environment: ApiEnvironment;
+  receipts: Receipt[];
+  page: number;
+  totalPages: number;
+  totalReceipts: number;
+  filter: FilterType;
+  searchInput: string;
+  /** Search keywords for payload fields, listed in the search box tooltip */
+  searchKeywords: Record<string, string>;
+  queryErrors: string[];
+  /** A search or chart zoom narrows the results */
+  searching: boolean;
+  /** Key registry, for flagging receipts signed outside a key's validity */
+  signingKeys: SigningKey[];
+  /** Independent anchor checks, by receipt id */
+  anchorChecks: Record<string, AnchorVerification>;
+  /** Rows that just arrived from the stream */
+  highlighted: Set<string>;
+  /** Streamed receipts waiting while paused or off page 1 */
+  queuedCount: number;
+  exporter: ReceiptExporter;
+  error?: string;
+  /** j/k and friends; off while a dialog is open */
+  keysEnabled: boolean;
+  onPageChange: (page: number) => void;
+  onFilterChange: (filter: FilterType) => void;
+  onSearchChange: (search: string) => void;
+  onFlushQueued: () => void;
+  onRetry: () => void;
+  onSelectReceipt: (receipt: Receipt) => void;
+  onCompare: (receipts: [Receipt, Receipt]) => void;
+}
+
+/**
+ * Mounted per environment, so column choices, selection and the keyboard
+ * cursor start afresh on a switch
+ */
+const ReceiptsTable: React.FC<ReceiptsTableProps> = ({
+  environment, receipts, page, totalPages, totalReceipts, filter, searchInput, searchKeywords, queryErrors,
+  searching, signingKeys, anchorChecks, highlighted, queuedCount, exporter, error, keysEnabled,
+  onPageChange, onFilterChange, onSearchChange, onFlushQueued, onRetry, onSelectReceipt, onCompare
+}) => {
+  // Multi-select for comparing; null when not selecting
+  const [compareSelection, setCompareSelection] = useState<Receipt[] | null>(null);
+  // Row under the j/k cursor, by id so live inserts don't move it
+  const [activeReceiptId, setActiveReceiptId] = useState<string | null>(null);
+
+  const columns = useMemo(() => payloadColumns(environment.schemas), [environment.schemas]);
+  const [visibleColumns, setVisibleColumns] = useState(() => loadVisibleColumns(environment.id, columns));
+
+  const handleColumnsChange = (visible: string[]) => {
+    setVisibleColumns(visible);
+    saveVisibleColumns(environment.id, visible);
+  };
+
+  // The table only ever shows redacted payloads; reveals happen in the detail modal
+  const shownPayloads = useMemo(
+    () => new Map(receipts.map(r => [
+      r.id,
+      { schema: resolveSchema(r, environment.schemas), ...redactPayload(r.payload, environment.redaction) },
+    ])),
+    [receipts, environment]
+  );
+
+  const keyWarnings = useMemo(
+    () => new Map(receipts.map(r => [r.id, receiptKeyWarnings(r, signingKeys)])),
+    [receipts, signingKeys]
+  );
+
+  const isSelected = (receipt: Receipt) => !!compareSelection?.some(r => r.id === receipt.id);
+
+  // Compare takes two receipts; picking a third drops the earliest pick
+  const toggleCompareSelection = (receipt: Receipt) => {
+    setCompareSelection(selection => {
+      if (!selection) return selection;
+      if (selection.some(r => r.id === receipt.id)) return selection.filter(r => r.id !== receipt.id);
+      return [...selection, receipt].slice(-2);
+    });
+  };
+
+  const moveActiveRow = (step: number) => {
+    if (receipts.length === 0) return;
+    const index = receipts.findIndex(r => r.id === activeReceiptId);
+    const next = index < 0
+      ? (step > 0 ? 0 : receipts.length - 1)
+      : Math.min(receipts.length - 1, Math.max(0, index + step));
+    setActiveReceiptId(receipts[next].id);
+  };
+
+  const openActiveRow = () => {
+    const receipt = receipts.find(r => r.id === activeReceiptId);
+    if (!receipt) return;
+    if (compareSelection) toggleCompareSelection(receipt);
+    else onSelectReceipt(receipt);
+  };
+
+  useEffect(() => {
+    if (activeReceiptId) document.getElementById(`receipt-row-${activeReceiptId}`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeReceiptId]);
+
+  const tableGroup = 'Receipts table';
+
+  useShortcuts([
+    { keys: 'j', description: 'Next receipt', group: tableGroup, handler: () => moveActiveRow(1), enabled: keysEnabled },
+    { keys: 'k', description: 'Previous receipt', group: tableGroup, handler: () => moveActiveRow(-1), enabled: keysEnabled },
+    {
+      keys: 'Enter',
+      description: compareSelection ? 'Select receipt' : 'Open receipt',
+      group: tableGroup,
+      handler: openActiveRow,
+      enabled: keysEnabled && receipts.some(r => r.id === activeReceiptId),
+    },
+    {
+      keys: 'ArrowLeft',
+      description: 'Previous page',
+      group: tableGroup,
+      handler: () => onPageChange(Math.max(1, page - 1)),
+      enabled: keysEnabled && page > 1,
+    },
+    {
+      keys: 'ArrowRight',
+      description: 'Next page',
+      group: tableGroup,
+      handler: () => onPageChange(Math.min(totalPages, page + 1)),
+      enabled: keysEnabled && page < totalPages,
+    },
+  ]);
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-lg">
+      <div className="p-4 border-b border-zinc-800 flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
+        <div className="flex items-center gap-2">
+          <h3 className="font-medium">Receipts</h3>
+          {error && <PanelError message={error} onRetry={onRetry} />}
+          <select
+            value={filter}
+            onChange={e => onFilterChange(e.target.value as FilterType)}
+            className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm"
+          >
+            <option value="all">All</option>
+            <option value="verified">Verified</option>
+            <option value="pending">Pending</option>
+            <option value="anchored">Anchored</option>
+          </select>
+          <ColumnChooser columns={columns} visible={visibleColumns} onChange={handleColumnsChange} />
+          <ExportControl exporter={exporter} />
+          {compareSelection ? (
+            <>
+              <span className="text-xs text-zinc-400">{compareSelection.length}/2 selected</span>
+              <button
+                onClick={() => onCompare(compareSelection as [Receipt, Receipt])}
+                disabled={compareSelection.length < 2}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-blue-900/50 text-blue-400 hover:bg-blue-900/70 text-xs font-medium disabled:opacity-50 disabled:cursor-not-allowed transition"
+              >
+                <GitCompare className="w-3.5 h-3.5" /> Compare
+              </button>
+              <button
+                onClick={() => setCompareSelection(null)}
+                className="px-2 py-1 rounded text-zinc-400 hover:bg-zinc-800 text-xs transition"
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setCompareSelection([])}
+              className="p-1.5 rounded bg-zinc-800 hover:bg-zinc-700 transition"
+              title="Select two receipts to compare"
+              aria-label="Select receipts to compare"
+            >
+              <ListChecks className="w-4 h-4" />
+            </button>
+          )}
+          {queuedCount > 0 && (
+            <button
+              onClick={onFlushQueued}
+              className="px-2 py-1 rounded bg-blue-900/50 text-blue-400 hover:bg-blue-900/70 text-xs font-medium transition"
+            >
+              {queuedCount} new receipt{queuedCount === 1 ? '' : 's'}
+            </button>
+          )}
+        </div>
+        <div>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-500" />
+            <input
+              type="text"
+              placeholder="Search, e.g. nurse:Alice block:>900 ed:failed"
+              title={`Payload fields: ${Object.keys(searchKeywords).join(', ')}`}
+              value={searchInput}
+              onChange={e => onSearchChange(e.target.value)}
+              className="bg-zinc-800 border border-zinc-700 rounded pl-9 pr-3 py-1.5 text-sm w-80"
+              aria-describedby={queryErrors.length > 0 ? 'search-errors' : undefined}
+            />
+          </div>
+          {queryErrors.length > 0 && (
+            <p id="search-errors" className="text-xs text-red-400 mt-1">{queryErrors.join(' • ')}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-zinc-800/50">
+            <tr>
+              {compareSelection && <th className="w-8 pl-4 py-3" aria-label="Selected" />}
+              <th className="text-left px-4 py-3 font-medium text-zinc-400">Receipt Hash</th>
+              {visibleColumns.map(path => (
+                <th key={path} className="text-left px-4 py-3 font-medium text-zinc-400">
+                  {columns.find(c => c.path === path)?.label}
+                </th>
+              ))}
+              <th className="text-left px-4 py-3 font-medium text-zinc-400">Signatures</th>
+              <th className="text-left px-4 py-3 font-medium text-zinc-400">Chain</th>
+              <th className="text-left px-4 py-3 font-medium text-zinc-400">Time</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-800">
+            {receipts.length === 0 ? (
+              <EmptyState
+                message={searching ? 'No receipts match your search' : 'No receipts found'}
+                colSpan={(compareSelection ? 5 : 4) + visibleColumns.length}
+              />
+            ) : (
+              receipts.map(r => (
+                <tr
+                  key={r.id}
+                  id={`receipt-row-${r.id}`}
+                  className={`hover:bg-zinc-800/30 cursor-pointer transition-colors duration-1000 ${
+                    highlighted.has(r.id) || isSelected(r) ? 'bg-blue-900/20' : ''
+                  } ${r.id === activeReceiptId ? 'outline outline-1 -outline-offset-1 outline-blue-500' : ''}`}
+                  onClick={() => (compareSelection ? toggleCompareSelection(r) : onSelectReceipt(r))}
+                >
+                  {compareSelection && (
+                    <td className="w-8 pl-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={isSelected(r)}
+                        onChange={() => toggleCompareSelection(r)}
+                        onClick={e => e.stopPropagation()}
+                        aria-label={`Select receipt ${truncateHash(r.receiptHash, 8)}`}
+                      />
+                    </td>
+                  )}
+                  <td className="px-4 py-3 font-mono text-xs">
+                    {truncateHash(r.receiptHash, 8)}
+                  </td>
+                  {visibleColumns.map(path => {
+                    const shown = shownPayloads.get(r.id);
+                    const redacted = !!shown?.redactedFields.includes(path);
+                    const format = shown?.schema.fields.find(f => f.path === path)?.format;
+                    return (
+                      <td key={path} className={`px-4 py-3 ${redacted ? 'text-zinc-500' : 'text-zinc-300'}`}>
+                        {shown && formatPayloadValue(getFieldValue(shown.payload, path), redacted ? 'text' : format)}
+                      </td>
+                    );
+                  })}
+                  <td className="px-4 py-3">
+                    <div className="flex gap-1">
+                      {r.signatures.map((signature, i) => (
+                        <StatusBadge
+                          key={i}
+                          verified={signature.verified}
+                          label={BADGE_LABELS[signature.algorithm]}
+                          title={failureReason(r, signature.algorithm) ?? signatureLabel(signature)}
+                        />
+                      ))}
+                      {!!keyWarnings.get(r.id)?.length && (
+                        <span
+                          className="inline-flex items-center px-1 text-amber-400"
+                          title={keyWarnings.get(r.id)!.map(w => w.message).join('\n')}
+                          aria-label="Signed by a key outside its validity"
+                        >
+                          <AlertTriangle className="w-3.5 h-3.5" />
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3">
+                    {r.txHash ? (
+                      <div className="flex items-center gap-2">
+                        <span className="inline-flex items-center gap-1 text-emerald-400 text-xs">
+                          <CheckCircle className="w-3 h-3" /> #{r.blockNumber}
+                        </span>
+                        {anchorChecks[r.id] && <AnchorStatusBadge check={anchorChecks[r.id]} />}
+                      </div>
+                    ) : (
+                      <span className="text-zinc-500 text-xs">Pending</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-zinc-400 text-xs">
+                    {formatTime(r.createdAt)}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="p-4 border-t border-zinc-800 flex items-center justify-between">
+        <p className="text-sm text-zinc-500">
+          Page {page} of {totalPages} • {totalReceipts.toLocaleString()} receipt{totalReceipts === 1 ? '' : 's'}
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onPageChange(Math.max(1, page - 1))}
+            disabled={page === 1}
+            className="p-2 rounded bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed transition"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onPageChange(Math.min(totalPages, page + 1))}
+            disabled={page === totalPages}
+            className="p-2 rounded bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed transition"
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptsTable;
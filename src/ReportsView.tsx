@@ -0,0 +1,447 @@
+// Compliance report builder: templates, schedules and the stored reports
+import React, { useState, useEffect, useRef } from 'react';
+import { FileText, Plus, Play, Trash2, Printer, Download, CalendarClock, RefreshCw } from 'lucide-react';
+
+import { isAbortError, ApiError } from './api';
+import type { ApiEnvironment } from './environments';
+import { formatDate } from './hooks';
+import { downloadBlob } from './export';
+import { listReports, deleteReport, type StoredReport } from './offline';
+import {
+  REPORT_PERIODS, REPORT_SECTIONS, WEEKDAYS, newReportTemplate, loadReportTemplates, updateReportTemplates,
+  describeSchedule, generateReport, onReportGenerated, resolveReportRange,
+  type ReportTemplate, type ReportPeriod, type ReportSection
+} from './reports';
+import { useShortcut } from './shortcuts';
+import { ErrorBanner } from './components';
+
+const SECTIONS = Object.keys(REPORT_SECTIONS) as ReportSection[];
+const MONTH_DAYS = Array.from({ length: 28 }, (_, i) => i + 1);
+
+const INPUT_CLASS = 'bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-zinc-500';
+
+function reportFilename(report: StoredReport): string {
+  const slug = report.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'report'}.html`;
+}
+
+interface ReportPreviewProps {
+  report: StoredReport;
+  onClose: () => void;
+}
+
+const ReportPreview: React.FC<ReportPreviewProps> = ({ report, onClose }) => {
+  const frame = useRef<HTMLIFrameElement>(null);
+
+  useShortcut('Escape', onClose, { description: 'Close dialog' });
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 flex items-center justify-center p-4 z-50"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="report-preview-title"
+    >
+      <div
+        className="bg-zinc-900 border border-zinc-800 rounded-lg max-w-4xl w-full h-[90vh] flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-zinc-800 flex items-center justify-between gap-2">
+          <h3 id="report-preview-title" className="font-medium truncate">{report.title}</h3>
+          <div className="flex items-center gap-2 shrink-0">
+            <button
+              onClick={() => frame.current?.contentWindow?.print()}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-sm transition"
+            >
+              <Printer className="w-4 h-4" />
+              Print / PDF
+            </button>
+            <button
+              onClick={() => downloadBlob(new Blob([report.html], { type: 'text/html' }), reportFilename(report))}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-sm transition"
+            >
+              <Download className="w-4 h-4" />
+              Download
+            </button>
+            <button
+              onClick={onClose}
+              className="text-zinc-400 hover:text-white text-xl p-1"
+              aria-label="Close report"
+            >
+              &times;
+            </button>
+          </div>
+        </div>
+        {/* No scripts run in the report; same origin only so Print can reach the frame */}
+        <iframe
+          ref={frame}
+          srcDoc={report.html}
+          sandbox="allow-same-origin allow-modals"
+          title={report.title}
+          className="flex-1 w-full bg-white"
+        />
+      </div>
+    </div>
+  );
+};
+
+interface TemplateEditorProps {
+  template: ReportTemplate;
+  onChange: (template: ReportTemplate) => void;
+}
+
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onChange }) => {
+  const { schedule } = template;
+  const setSchedule = (changes: Partial<ReportTemplate['schedule']>) =>
+    onChange({ ...template, schedule: { ...schedule, ...changes } });
+  const toggleSection = (section: ReportSection) => onChange({
+    ...template,
+    // Keep the document order regardless of click order
+    sections: SECTIONS.filter(s => (s === section) !== template.sections.includes(s)),
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid sm:grid-cols-2 gap-4">
+        <label className="block">
+          <span className="block text-xs text-zinc-500 mb-1">Name</span>
+          <input
+            type="text"
+            value={template.name}
+            onChange={e => onChange({ ...template, name: e.target.value })}
+            className={`w-full ${INPUT_CLASS}`}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-zinc-500 mb-1">Period</span>
+          <select
+            value={template.period}
+            onChange={e => onChange({ ...template, period: e.target.value as ReportPeriod })}
+            className={`w-full ${INPUT_CLASS}`}
+          >
+            {(Object.keys(REPORT_PERIODS) as ReportPeriod[]).map(period => (
+              <option key={period} value={period}>{REPORT_PERIODS[period].label}</option>
+            ))}
+          </select>
+          <span className="block text-xs text-zinc-500 mt-1">
+            Next report covers {resolveReportRange(template.period).label}
+          </span>
+        </label>
+      </div>
+
+      <fieldset>
+        <legend className="text-xs text-zinc-500 mb-2">Sections</legend>
+        <div className="grid sm:grid-cols-2 gap-2">
+          {SECTIONS.map(section => (
+            <label key={section} className="flex items-center gap-2 text-sm text-zinc-300">
+              <input
+                type="checkbox"
+                checked={template.sections.includes(section)}
+                onChange={() => toggleSection(section)}
+                className="accent-blue-500"
+              />
+              {REPORT_SECTIONS[section]}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <fieldset className="border-t border-zinc-800 pt-4">
+        <legend className="sr-only">Schedule</legend>
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="flex items-center gap-2 text-sm text-zinc-300 py-2">
+            <input
+              type="checkbox"
+              checked={schedule.enabled}
+              onChange={e => setSchedule({ enabled: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Generate on a schedule
+          </label>
+          {template.period === 'week' && (
+            <label className="block">
+              <span className="block text-xs text-zinc-500 mb-1">Day</span>
+              <select
+                value={schedule.weekday}
+                onChange={e => setSchedule({ weekday: Number(e.target.value) })}
+                disabled={!schedule.enabled}
+                className={INPUT_CLASS}
+              >
+                {WEEKDAYS.map((day, i) => <option key={day} value={i}>{day}</option>)}
+              </select>
+            </label>
+          )}
+          {template.period === 'month' && (
+            <label className="block">
+              <span className="block text-xs text-zinc-500 mb-1">Day of month</span>
+              <select
+                value={schedule.monthDay}
+                onChange={e => setSchedule({ monthDay: Number(e.target.value) })}
+                disabled={!schedule.enabled}
+                className={INPUT_CLASS}
+              >
+                {MONTH_DAYS.map(day => <option key={day} value={day}>{day}</option>)}
+              </select>
+            </label>
+          )}
+          <label className="block">
+            <span className="block text-xs text-zinc-500 mb-1">Time</span>
+            <input
+              type="time"
+              value={schedule.time}
+              onChange={e => e.target.value && setSchedule({ time: e.target.value })}
+              disabled={!schedule.enabled}
+              className={INPUT_CLASS}
+            />
+          </label>
+        </div>
+        <p className="text-xs text-zinc-500 mt-2">
+          Scheduled reports are generated while the dashboard is open at the scheduled time; a run missed by more
+          than an hour is skipped.
+        </p>
+      </fieldset>
+    </div>
+  );
+};
+
+interface ReportsViewProps {
+  environment: ApiEnvironment;
+}
+
+const ReportsView: React.FC<ReportsViewProps> = ({ environment }) => {
+  const [templates, setTemplates] = useState(() => loadReportTemplates(environment.id));
+  const [selectedId, setSelectedId] = useState<string | null>(() => templates[0]?.id ?? null);
+  const [reports, setReports] = useState<StoredReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState<StoredReport | null>(null);
+
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  useEffect(() => {
+    updateReportTemplates(environment.id, templates);
+  }, [environment.id, templates]);
+
+  useEffect(() => {
+    listReports(environment.id).then(stored => {
+      setReports(current => [...current, ...stored.filter(r => !current.some(c => c.id === r.id))]);
+      setLoading(false);
+    });
+    // New reports, including scheduled runs, also bring updated run times
+    return onReportGenerated(report => {
+      if (report.envId !== environment.id) return;
+      setReports(current => [report, ...current.filter(r => r.id !== report.id)]);
+      setTemplates(loadReportTemplates(environment.id));
+    });
+  }, [environment.id]);
+
+  const selected = templates.find(t => t.id === selectedId) ?? null;
+  const templateNames = new Map(templates.map(t => [t.id, t.name]));
+
+  const addTemplate = () => {
+    const template = newReportTemplate();
+    setTemplates(current => [...current, template]);
+    setSelectedId(template.id);
+  };
+
+  const changeTemplate = (changed: ReportTemplate) =>
+    setTemplates(current => current.map(t => (t.id === changed.id ? changed : t)));
+
+  const removeTemplate = (template: ReportTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"? Reports already generated are kept.`)) return;
+    setTemplates(current => current.filter(t => t.id !== template.id));
+    if (selectedId === template.id) setSelectedId(null);
+  };
+
+  const generate = async (template: ReportTemplate) => {
+    controller.current?.abort();
+    const { signal } = controller.current = new AbortController();
+    setGenerating(template.id);
+    try {
+      setError(null);
+      setPreviewing(await generateReport(environment, template, { signal }));
+    } catch (e) {
+      if (isAbortError(e)) return;
+      const message = e instanceof ApiError
+        ? `API Error (${e.status}): ${e.message}`
+        : 'Failed to generate report';
+      setError(message);
+      console.error('Report generation error:', e);
+    } finally {
+      if (!signal.aborted) setGenerating(null);
+    }
+  };
+
+  const removeReport = async (report: StoredReport) => {
+    await deleteReport(report.id);
+    setReports(current => current.filter(r => r.id !== report.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-medium text-white">Compliance Reports</h2>
+        <button
+          onClick={addTemplate}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm transition"
+        >
+          <Plus className="w-4 h-4" />
+          New template
+        </button>
+      </div>
+
+      {error && selected && <ErrorBanner message={error} onRetry={() => generate(selected)} />}
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        <div className="bg-zinc-900 border border-zinc-800 rounded-lg lg:col-span-1 self-start">
+          <div className="p-4 border-b border-zinc-800">
+            <h3 className="font-medium">Templates</h3>
+          </div>
+          {templates.length === 0 ? (
+            <p className="text-center text-sm text-zinc-500 py-8 px-4">
+              No templates yet. Create one to choose a period and sections.
+            </p>
+          ) : (
+            <ul className="divide-y divide-zinc-800">
+              {templates.map(template => (
+                <li key={template.id}>
+                  <button
+                    onClick={() => setSelectedId(template.id)}
+                    className={`w-full text-left px-4 py-3 transition ${
+                      template.id === selectedId ? 'bg-zinc-800' : 'hover:bg-zinc-800/50'
+                    }`}
+                  >
+                    <span className="block text-sm text-zinc-200 truncate">{template.name || 'Untitled'}</span>
+                    <span className="flex items-center gap-1 text-xs text-zinc-500 mt-0.5">
+                      {template.schedule.enabled && <CalendarClock className="w-3 h-3" />}
+                      {template.schedule.enabled ? describeSchedule(template) : REPORT_PERIODS[template.period].label}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-zinc-900 border border-zinc-800 rounded-lg lg:col-span-2">
+          {selected ? (
+            <>
+              <div className="p-4 border-b border-zinc-800 flex items-center justify-between gap-2">
+                <div>
+                  <h3 className="font-medium">Edit Template</h3>
+                  {selected.lastRunAt && (
+                    <p className="text-xs text-zinc-500">Last scheduled run {formatDate(selected.lastRunAt)}</p>
+                  )}
+                  {selected.lastRunError && (
+                    <p className="text-xs text-red-400">Failed: {selected.lastRunError}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => generate(selected)}
+                    disabled={generating !== null || selected.sections.length === 0}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-sm transition disabled:opacity-50"
+                  >
+                    {generating === selected.id
+                      ? <RefreshCw className="w-4 h-4 animate-spin" />
+                      : <Play className="w-4 h-4" />}
+                    Generate now
+                  </button>
+                  <button
+                    onClick={() => removeTemplate(selected)}
+                    className="p-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-zinc-400 hover:text-red-400 transition"
+                    aria-label="Delete template"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="p-4">
+                <TemplateEditor template={selected} onChange={changeTemplate} />
+              </div>
+            </>
+          ) : (
+            <p className="text-center text-sm text-zinc-500 py-12">Select a template to edit it</p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg">
+        <div className="p-4 border-b border-zinc-800">
+          <h3 className="font-medium">Generated Reports</h3>
+          <p className="text-xs text-zinc-500">Stored in this browser; the most recent 50 are kept</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-800/50">
+              <tr>
+                <th className="text-left px-4 py-3 font-medium text-zinc-400">Report</th>
+                <th className="text-left px-4 py-3 font-medium text-zinc-400">Template</th>
+                <th className="text-left px-4 py-3 font-medium text-zinc-400">Generated</th>
+                <th className="text-right px-4 py-3 font-medium text-zinc-400">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-800">
+              {reports.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="text-center py-8 text-zinc-500">
+                    {loading ? 'Loading…' : 'No reports generated yet'}
+                  </td>
+                </tr>
+              ) : (
+                reports.map(report => (
+                  <tr key={report.id} className="hover:bg-zinc-800/30">
+                    <td className="px-4 py-3">
+                      <button
+                        onClick={() => setPreviewing(report)}
+                        className="flex items-center gap-2 text-left text-zinc-200 hover:text-white"
+                      >
+                        <FileText className="w-4 h-4 text-zinc-500 shrink-0" />
+                        {report.title}
+                      </button>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-zinc-400">
+                      {templateNames.get(report.templateId) ?? <span className="text-zinc-600">Deleted</span>}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-zinc-400">
+                      {formatDate(report.generatedAt)}
+                      {report.scheduled && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-400">Scheduled</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-1">
+                        <button
+                          onClick={() => downloadBlob(new Blob([report.html], { type: 'text/html' }), reportFilename(report))}
+                          className="p-1.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800 transition"
+                          aria-label={`Download ${report.title}`}
+                        >
+                          <Download className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => removeReport(report)}
+                          className="p-1.5 rounded text-zinc-400 hover:text-red-400 hover:bg-zinc-800 transition"
+                          aria-label={`Delete ${report.title}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {previewing && <ReportPreview report={previewing} onClose={() => setPreviewing(null)} />}
+    </div>
+  );
+};
+
+export default ReportsView;
@@ -0,0 +1,141 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+import type { Metrics, Receipt } from './types';
+import {
+  evaluateAlertRules, loadAlertRules, parseAlertRules, serializeAlertRules, describeRule, DEFAULT_ALERT_RULES,
+  type AlertRule, type AlertSnapshot, type AlertEngineState
+} from './alerts';
+
+const EMPTY: AlertEngineState = { breachedSince: {}, open: {} };
+const MINUTE = 60000;
+
+function rule(overrides: Partial<AlertRule> = {}): AlertRule {
+  return {
+    id: 'r1', name: 'Backlog', enabled: true, metric: 'pending', comparator: '>', threshold: 50,
+    forMinutes: 0, severity: 'warning', ...overrides,
+  };
+}
+
+function snapshot(pending: number | null): AlertSnapshot {
+  return {
+    envId: 'staging',
+    metrics: null,
+    chainStatus: pending === null ? null : { pending } as AlertSnapshot['chainStatus'],
+    failedReceipts: [],
+  };
+}
+
+function failed(id: string, hashVerified: boolean, signatureVerified: boolean): Receipt {
+  return {
+    id, receiptHash: id, payload: {}, timestamp: 0, hashVerified, createdAt: '2026-10-01T00:00:00.000Z',
+    signatures: [{ algorithm: 'ed25519', verified: signatureVerified }],
+  };
+}
+
+describe('evaluateAlertRules', () => {
+  it('fires once when the condition holds and resolves when it clears', () => {
+    const first = evaluateAlertRules([rule()], snapshot(60), EMPTY, 0);
+    expect(first.fired).toHaveLength(1);
+    expect(first.fired[0].message).toBe('Pending anchors is 60 (> 50)');
+    expect(first.fired[0].envId).toBe('staging');
+
+    const second = evaluateAlertRules([rule()], snapshot(70), first.state, MINUTE);
+    expect(second.fired).toEqual([]);
+
+    const third = evaluateAlertRules([rule()], snapshot(10), second.state, 2 * MINUTE);
+    expect(third.resolved).toEqual([first.fired[0].id]);
+    expect(third.state.open).toEqual({});
+  });
+
+  it('waits for the condition to hold for the rule duration', () => {
+    const slow = [rule({ forMinutes: 10 })];
+    const start = evaluateAlertRules(slow, snapshot(60), EMPTY, 0);
+    expect(start.fired).toEqual([]);
+    expect(evaluateAlertRules(slow, snapshot(60), start.state, 9 * MINUTE).fired).toEqual([]);
+    expect(evaluateAlertRules(slow, snapshot(60), start.state, 10 * MINUTE).fired).toHaveLength(1);
+  });
+
+  it('restarts the duration when the condition clears in between', () => {
+    const slow = [rule({ forMinutes: 10 })];
+    const start = evaluateAlertRules(slow, snapshot(60), EMPTY, 0);
+    const cleared = evaluateAlertRules(slow, snapshot(10), start.state, 5 * MINUTE);
+    const again = evaluateAlertRules(slow, snapshot(60), cleared.state, 6 * MINUTE);
+    expect(evaluateAlertRules(slow, snapshot(60), again.state, 12 * MINUTE).fired).toEqual([]);
+  });
+
+  it('keeps its place while data is loading', () => {
+    const slow = [rule({ forMinutes: 10 })];
+    const start = evaluateAlertRules(slow, snapshot(60), EMPTY, 0);
+    const loading = evaluateAlertRules(slow, snapshot(null), start.state, 5 * MINUTE);
+    expect(loading.state.breachedSince).toEqual({ r1: 0 });
+    expect(evaluateAlertRules(slow, snapshot(60), loading.state, 10 * MINUTE).fired).toHaveLength(1);
+  });
+
+  it('resolves alerts of disabled and deleted rules', () => {
+    const { state, fired } = evaluateAlertRules([rule()], snapshot(60), EMPTY, 0);
+    expect(evaluateAlertRules([rule({ enabled: false })], snapshot(60), state, MINUTE).resolved).toEqual([fired[0].id]);
+    expect(evaluateAlertRules([], snapshot(60), state, MINUTE).resolved).toEqual([fired[0].id]);
+  });
+
+  it('counts hash and signature failures from the failure window, not a table page', () => {
+    const rules = [
+      rule({ id: 'hash', metric: 'hashFailures', threshold: 0 }),
+      rule({ id: 'sig', metric: 'signatureFailures', threshold: 1 }),
+    ];
+    const failedReceipts = [failed('a', false, true), failed('b', true, false), failed('c', true, false)];
+    const { fired } = evaluateAlertRules(rules, { ...snapshot(0), failedReceipts }, EMPTY, 0);
+    expect(fired.map(a => [a.ruleId, a.value])).toEqual([['hash', 1], ['sig', 2]]);
+  });
+
+  it('holds failure rules while the failure window is loading', () => {
+    const rules = [rule({ id: 'hash', metric: 'hashFailures', threshold: 0, forMinutes: 5 })];
+    const start = evaluateAlertRules(rules, { ...snapshot(0), failedReceipts: [failed('a', false, true)] }, EMPTY, 0);
+    const loading = evaluateAlertRules(rules, { ...snapshot(0), failedReceipts: null }, start.state, MINUTE);
+    expect(loading.resolved).toEqual([]);
+    expect(loading.state.breachedSince).toEqual({ hash: 0 });
+  });
+
+  it('reads rates from the metrics', () => {
+    const metrics = { verificationRate: '98.20', anchoringRate: '100.00', lastHour: 0 } as Metrics;
+    const { fired } = evaluateAlertRules(DEFAULT_ALERT_RULES.slice(0, 3), { ...snapshot(0), metrics }, EMPTY, 0);
+    expect(fired.map(a => a.ruleId)).toEqual(['default-verification-rate', 'default-throughput-zero']);
+  });
+});
+
+describe('loadAlertRules', () => {
+  const stored = (value: string | null) => vi.stubGlobal('localStorage', { getItem: () => value });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('drops saved rules that no longer validate', () => {
+    stored(JSON.stringify([rule(), { ...rule({ id: 'r2' }), metric: 'queueDepth' }, null]));
+    expect(loadAlertRules()).toEqual([rule()]);
+  });
+
+  it('falls back to the defaults when nothing usable is saved', () => {
+    stored(null);
+    expect(loadAlertRules()).toEqual(DEFAULT_ALERT_RULES);
+    stored('{"rules": []}');
+    expect(loadAlertRules()).toEqual(DEFAULT_ALERT_RULES);
+    stored('not json');
+    expect(loadAlertRules()).toEqual(DEFAULT_ALERT_RULES);
+  });
+});
+
+describe('alert rule files', () => {
+  it('round-trips exported rules', () => {
+    expect(parseAlertRules(serializeAlertRules(DEFAULT_ALERT_RULES))).toEqual(DEFAULT_ALERT_RULES);
+    expect(parseAlertRules(JSON.stringify([rule()]))).toEqual([rule()]);
+  });
+
+  it('rejects anything that is not a rule list', () => {
+    expect(() => parseAlertRules('{}')).toThrow('Expected a list of alert rules');
+    expect(() => parseAlertRules(JSON.stringify([rule(), { ...rule(), metric: 'cpu' }]))).toThrow('Rule 2');
+  });
+
+  it('describes rules', () => {
+    expect(describeRule(rule({ forMinutes: 5 }))).toBe('Pending anchors > 50 for 5 min');
+  });
+});
@@ -0,0 +1,410 @@
+// Alerting rules engine
+// Rules are evaluated against each data refresh; firing, acknowledgement and
+// resolution are kept as history. Rules apply to every environment; breach
+// tracking and history are per environment. Rules and history persist in
+// localStorage.
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { ChainStatus, Metrics, Receipt } from './types';
+import { getFailureAnalytics, isAbortError } from './api';
+import { useInterval } from './hooks';
+import { signaturesVerified } from './signatures';
+
+export type AlertMetric =
+  | 'verificationRate'
+  | 'anchoringRate'
+  | 'pending'
+  | 'lastHour'
+  | 'hashFailures'
+  | 'signatureFailures';
+
+export type AlertComparator = '<' | '<=' | '>' | '>=' | '==';
+
+export type AlertSeverity = 'warning' | 'critical';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  metric: AlertMetric;
+  comparator: AlertComparator;
+  threshold: number;
+  /** Condition must hold continuously this long before the alert fires */
+  forMinutes: number;
+  severity: AlertSeverity;
+}
+
+export interface Alert {
+  id: string;
+  /** Environment whose data fired the alert */
+  envId: string;
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  message: string;
+  value: number;
+  firedAt: string;
+  acknowledgedAt?: string;
+  resolvedAt?: string;
+}
+
+/** Data an evaluation sees; any part may still be loading */
+export interface AlertSnapshot {
+  /** Environment the data belongs to */
+  envId: string;
+  metrics: Metrics | null;
+  chainStatus: ChainStatus | null;
+  /** Every receipt with a failed check in the failure window, whatever page or filter the table shows */
+  failedReceipts: Receipt[] | null;
+}
+
+export const ALERT_METRICS: Record<AlertMetric, { label: string; unit: string }> = {
+  verificationRate: { label: 'Verification rate', unit: '%' },
+  anchoringRate: { label: 'Anchoring rate', unit: '%' },
+  pending: { label: 'Pending anchors', unit: '' },
+  lastHour: { label: 'Receipts in last hour', unit: '' },
+  hashFailures: { label: 'Receipts failing hash check (24h)', unit: '' },
+  signatureFailures: { label: 'Receipts failing a signature (24h)', unit: '' },
+};
+
+export const ALERT_COMPARATORS: AlertComparator[] = ['<', '<=', '>', '>=', '=='];
+
+const RULES_KEY = 'juggernaut.alerts.rules';
+const HISTORY_KEY = 'juggernaut.alerts.history';
+const NOTIFY_KEY = 'juggernaut.alerts.notify';
+const HISTORY_LIMIT = 200;
+const EVALUATE_INTERVAL_MS = 30000;
+const FAILURE_WINDOW_MS = 24 * 3600000;
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'default-verification-rate', name: 'Verification rate low', enabled: true,
+    metric: 'verificationRate', comparator: '<', threshold: 99.5, forMinutes: 0, severity: 'critical',
+  },
+  {
+    id: 'default-pending-anchors', name: 'Anchoring backlog', enabled: true,
+    metric: 'pending', comparator: '>', threshold: 50, forMinutes: 10, severity: 'warning',
+  },
+  {
+    id: 'default-throughput-zero', name: 'Throughput stalled', enabled: true,
+    metric: 'lastHour', comparator: '==', threshold: 0, forMinutes: 0, severity: 'critical',
+  },
+  {
+    id: 'default-hash-failure', name: 'Hash verification failure', enabled: true,
+    metric: 'hashFailures', comparator: '>', threshold: 0, forMinutes: 0, severity: 'critical',
+  },
+];
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function metricValue(metric: AlertMetric, snapshot: AlertSnapshot): number | null {
+  const { metrics, chainStatus, failedReceipts } = snapshot;
+  switch (metric) {
+    case 'verificationRate':
+      return metrics ? parseFloat(metrics.verificationRate) : null;
+    case 'anchoringRate':
+      return metrics ? parseFloat(metrics.anchoringRate) : null;
+    case 'pending':
+      return chainStatus ? chainStatus.pending : null;
+    case 'lastHour':
+      return metrics ? metrics.lastHour : null;
+    case 'hashFailures':
+      return failedReceipts ? failedReceipts.filter(r => !r.hashVerified).length : null;
+    case 'signatureFailures':
+      return failedReceipts ? failedReceipts.filter(r => !signaturesVerified(r)).length : null;
+  }
+}
+
+function compare(value: number, comparator: AlertComparator, threshold: number): boolean {
+  switch (comparator) {
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '==': return value === threshold;
+  }
+}
+
+export function describeRule(rule: AlertRule): string {
+  const { label, unit } = ALERT_METRICS[rule.metric];
+  const duration = rule.forMinutes > 0 ? ` for ${rule.forMinutes} min` : '';
+  return `${label} ${rule.comparator} ${rule.threshold}${unit}${duration}`;
+}
+
+/** Per-rule evaluation state carried between refreshes */
+export interface AlertEngineState {
+  /** When each rule's condition started holding, epoch ms */
+  breachedSince: Record<string, number>;
+  /** Open alert id per rule */
+  open: Record<string, string>;
+}
+
+export interface AlertEvaluation {
+  state: AlertEngineState;
+  fired: Alert[];
+  /** Alert ids whose condition cleared */
+  resolved: string[];
+}
+
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  snapshot: AlertSnapshot,
+  state: AlertEngineState,
+  now: number = Date.now()
+): AlertEvaluation {
+  const next: AlertEngineState = { breachedSince: {}, open: { ...state.open } };
+  const fired: Alert[] = [];
+  const resolved: string[] = [];
+
+  const resolve = (ruleId: string) => {
+    if (!next.open[ruleId]) return;
+    resolved.push(next.open[ruleId]);
+    delete next.open[ruleId];
+  };
+
+  for (const rule of rules) {
+    if (!rule.enabled) {
+      resolve(rule.id);
+      continue;
+    }
+
+    const value = metricValue(rule.metric, snapshot);
+    // Data still loading: keep the rule exactly where it was
+    if (value === null) {
+      if (state.breachedSince[rule.id] !== undefined) next.breachedSince[rule.id] = state.breachedSince[rule.id];
+      continue;
+    }
+    if (!compare(value, rule.comparator, rule.threshold)) {
+      resolve(rule.id);
+      continue;
+    }
+
+    const since = state.breachedSince[rule.id] ?? now;
+    next.breachedSince[rule.id] = since;
+    if (next.open[rule.id] || now - since < rule.forMinutes * 60000) continue;
+
+    const { label, unit } = ALERT_METRICS[rule.metric];
+    const alert: Alert = {
+      id: `${rule.id}-${now}`,
+      envId: snapshot.envId,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      severity: rule.severity,
+      message: `${label} is ${value}${unit} (${rule.comparator} ${rule.threshold}${unit})`,
+      value,
+      firedAt: new Date(now).toISOString(),
+    };
+    next.open[rule.id] = alert.id;
+    fired.push(alert);
+  }
+
+  // Alerts for deleted rules resolve too
+  Object.keys(next.open).filter(id => !rules.some(r => r.id === id)).forEach(resolve);
+
+  return { state: next, fired, resolved };
+}
+
+// ============================================================================
+// Persistence and import/export
+// ============================================================================
+
+function load<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function save(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error('Failed to persist alert settings:', e);
+  }
+}
+
+function isAlertRule(value: unknown): value is AlertRule {
+  if (!value || typeof value !== 'object') return false;
+  const r = value as Record<string, unknown>;
+  return (
+    typeof r.id === 'string' &&
+    typeof r.name === 'string' &&
+    typeof r.enabled === 'boolean' &&
+    typeof r.metric === 'string' && r.metric in ALERT_METRICS &&
+    ALERT_COMPARATORS.includes(r.comparator as AlertComparator) &&
+    typeof r.threshold === 'number' &&
+    typeof r.forMinutes === 'number' &&
+    (r.severity === 'warning' || r.severity === 'critical')
+  );
+}
+
+/**
+ * Saved rules, dropping any that no longer validate, such as a metric from an
+ * older version; a corrupt list falls back to the defaults
+ */
+export function loadAlertRules(): AlertRule[] {
+  const saved = load<unknown>(RULES_KEY, DEFAULT_ALERT_RULES);
+  return Array.isArray(saved) ? saved.filter(isAlertRule) : DEFAULT_ALERT_RULES;
+}
+
+/**
+ * Parse an exported rules file; throws on anything that is not a rule list
+ */
+export function parseAlertRules(json: string): AlertRule[] {
+  const data: unknown = JSON.parse(json);
+  const rules = Array.isArray(data) ? data : (data as { rules?: unknown })?.rules;
+  if (!Array.isArray(rules)) throw new Error('Expected a list of alert rules');
+  const invalid = rules.findIndex(r => !isAlertRule(r));
+  if (invalid !== -1) throw new Error(`Rule ${invalid + 1} is not a valid alert rule`);
+  return rules;
+}
+
+export function serializeAlertRules(rules: AlertRule[]): string {
+  return JSON.stringify({ version: 1, rules }, null, 2);
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Receipts with a failed check over the trailing 24 hours, from failure
+ * analytics so failures on other pages or behind the table's filter count.
+ * Refetched on every evaluation tick and whenever `failedCount` changes,
+ * e.g. when the stream delivers a failing receipt; null until loaded and
+ * while `enabled` is false.
+ */
+export function useFailedReceipts(envId: string, enabled: boolean, failedCount: number | null): Receipt[] | null {
+  const [failedReceipts, setFailedReceipts] = useState<Receipt[] | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  const fetchFailures = useCallback(async () => {
+    if (!enabled) return;
+    controller.current?.abort();
+    const { signal } = controller.current = new AbortController();
+    const now = Date.now();
+    const timeWindow = {
+      from: new Date(now - FAILURE_WINDOW_MS).toISOString(),
+      to: new Date(now).toISOString(),
+      bucket: 'hour' as const,
+    };
+    try {
+      setFailedReceipts((await getFailureAnalytics(timeWindow, { signal })).receipts);
+    } catch (e) {
+      // Keep the last result; rules on it hold their place until the next tick
+      if (!isAbortError(e)) console.error('Alert failure analytics error:', e);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    setFailedReceipts(null);
+    return () => controller.current?.abort();
+  }, [envId, enabled]);
+
+  useEffect(() => {
+    fetchFailures();
+  }, [fetchFailures, envId, failedCount]);
+
+  useInterval(fetchFailures, EVALUATE_INTERVAL_MS);
+
+  return failedReceipts;
+}
+
+function notify(alert: Alert): void {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  new Notification(`${alert.severity === 'critical' ? 'Critical' : 'Warning'}: ${alert.ruleName}`, {
+    body: alert.message,
+    tag: alert.ruleId,
+  });
+}
+
+export type AlertsController = ReturnType<typeof useAlerts>;
+
+/**
+ * Keep the newest HISTORY_LIMIT alerts of each environment, so a noisy one
+ * can't push the others' history out
+ */
+function trimHistory(alerts: Alert[]): Alert[] {
+  const counts: Record<string, number> = {};
+  return alerts.filter(a => (counts[a.envId] = (counts[a.envId] ?? 0) + 1) <= HISTORY_LIMIT);
+}
+
+/**
+ * Evaluate rules whenever the snapshot changes (and periodically, so
+ * duration-based rules can fire between refreshes). Each environment keeps
+ * its own breach tracking, so switching away and back neither fires nor
+ * resolves alerts on another environment's data; history and acknowledgement
+ * cover the snapshot's environment.
+ */
+export function useAlerts(snapshot: AlertSnapshot) {
+  const { envId } = snapshot;
+  const [rules, setRules] = useState<AlertRule[]>(loadAlertRules);
+  // History from an earlier session has no engine state behind it, so close it
+  // out; alerts saved before they recorded their environment can't be shown
+  // for one and are dropped
+  const [allHistory, setHistory] = useState<Alert[]>(() => load<Alert[]>(HISTORY_KEY, [])
+    .filter(a => typeof a.envId === 'string')
+    .map(a => (a.resolvedAt ? a : { ...a, resolvedAt: new Date().toISOString() })));
+  const [notificationsEnabled, setNotificationsEnabled] = useState<boolean>(() => load(NOTIFY_KEY, false));
+  const engines = useRef<Record<string, AlertEngineState>>({});
+
+  useEffect(() => save(RULES_KEY, rules), [rules]);
+  useEffect(() => save(HISTORY_KEY, allHistory), [allHistory]);
+  useEffect(() => save(NOTIFY_KEY, notificationsEnabled), [notificationsEnabled]);
+
+  const evaluate = useCallback(() => {
+    const engine = engines.current[snapshot.envId] ?? { breachedSince: {}, open: {} };
+    const { state, fired, resolved } = evaluateAlertRules(rules, snapshot, engine);
+    engines.current[snapshot.envId] = state;
+    if (fired.length === 0 && resolved.length === 0) return;
+
+    const resolvedAt = new Date().toISOString();
+    setHistory(h => trimHistory([
+      ...fired,
+      ...h.map(a => (a.envId === snapshot.envId && resolved.includes(a.id) ? { ...a, resolvedAt } : a)),
+    ]));
+    if (notificationsEnabled) fired.forEach(notify);
+  }, [rules, snapshot, notificationsEnabled]);
+
+  useEffect(() => {
+    evaluate();
+  }, [evaluate]);
+
+  useInterval(evaluate, EVALUATE_INTERVAL_MS);
+
+  const acknowledge = useCallback((alertId: string) => {
+    const acknowledgedAt = new Date().toISOString();
+    setHistory(h => h.map(a => (
+      a.envId === envId && a.id === alertId && !a.acknowledgedAt ? { ...a, acknowledgedAt } : a
+    )));
+  }, [envId]);
+
+  const acknowledgeAll = useCallback(() => {
+    const acknowledgedAt = new Date().toISOString();
+    setHistory(h => h.map(a => (a.envId !== envId || a.acknowledgedAt ? a : { ...a, acknowledgedAt })));
+  }, [envId]);
+
+  const history = useMemo(() => allHistory.filter(a => a.envId === envId), [allHistory, envId]);
+
+  const enableNotifications = useCallback(async (enabled: boolean) => {
+    if (enabled && typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      await Notification.requestPermission();
+    }
+    setNotificationsEnabled(enabled && typeof Notification !== 'undefined' && Notification.permission === 'granted');
+  }, []);
+
+  return {
+    rules,
+    setRules,
+    history,
+    clearHistory: () => setHistory(h => h.filter(a => a.envId !== envId || !a.resolvedAt)),
+    active: history.filter(a => !a.resolvedAt),
+    acknowledge,
+    acknowledgeAll,
+    notificationsEnabled,
+    enableNotifications,
+  };
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+
+import type { Receipt } from './types';
+import { verifyAnchor, verifyAnchors, MIN_CONFIRMATIONS, RPC_TIMEOUT_MS } from './anchor';
+import { buildMerkleTree, getMerkleProof } from './merkle';
+import { startRpcStub, type RpcStub } from './test/rpcStub';
+
+// A batch of four receipts; the test receipt is leaf 1
+const BATCH = ['11', 'cd', '22', '33'].map(b => b.repeat(32));
+const TREE = buildMerkleTree(BATCH);
+const PROOF = getMerkleProof(TREE, 1);
+const ROOT = PROOF.root;
+const SELECTOR = 'f1c2f0c4';
+const HEAD = 1000;
+
+function receipt(txHash: string, blockNumber: number, id: string = txHash): Receipt {
+  return {
+    id,
+    receiptHash: BATCH[1],
+    payload: {},
+    timestamp: 0,
+    hashVerified: true,
+    txHash,
+    blockNumber,
+    createdAt: '2026-10-01T00:00:00.000Z',
+    signatures: [],
+    merkleProof: PROOF,
+  };
+}
+
+describe('verifyAnchor against a local RPC node', () => {
+  let stub: RpcStub;
+
+  beforeAll(async () => {
+    stub = await startRpcStub({
+      head: HEAD,
+      transactions: {
+        '0xconfirmed': { input: `0x${SELECTOR}${ROOT}`, blockNumber: 900 },
+        '0xrecent': { input: `0x${SELECTOR}${ROOT}`, blockNumber: HEAD - 2 },
+        '0xunmined': { input: `0x${SELECTOR}${ROOT}`, blockNumber: null },
+        '0xorphaned': { input: `0x${SELECTOR}${ROOT}`, blockNumber: 950, blockHash: `0x${'ee'.repeat(32)}` },
+        '0xotherroot': { input: `0x${SELECTOR}${'99'.repeat(32)}`, blockNumber: 900 },
+        '0xreverted': { input: `0x${SELECTOR}${ROOT}`, blockNumber: 900, status: '0x0' },
+        // The root shifted by one nibble: a substring, but not at a byte boundary
+        '0xshifted': { input: `0x${SELECTOR}0${ROOT}0`, blockNumber: 900 },
+        '0xhangs': { input: '0x', blockNumber: 900, hang: true },
+      },
+    });
+    // Failures are logged; keep the test output clean
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    await stub.close();
+    vi.restoreAllMocks();
+  });
+
+  it('confirms an anchor with enough confirmations and the root embedded', async () => {
+    const result = await verifyAnchor(receipt('0xconfirmed', 900), stub.url);
+    expect(result).toMatchObject({
+      status: 'confirmed', chainBlock: 900, confirmations: HEAD - 900 + 1, rootEmbedded: true,
+    });
+    expect(stub.calls).toContain('eth_getBlockByNumber');
+  });
+
+  it('reports a block that is no longer canonical as reorged', async () => {
+    const result = await verifyAnchor(receipt('0xorphaned', 950), stub.url);
+    expect(result.status).toBe('reorged');
+    expect(result.detail).toBe('Block #950 is no longer canonical');
+  });
+
+  it('reports a canonical block other than the backend\'s as a mismatch, not a reorg', async () => {
+    const result = await verifyAnchor(receipt('0xconfirmed', 901), stub.url);
+    expect(result.status).toBe('mismatch');
+    expect(result.detail).toBe('Mined in block #900, backend reports #901');
+  });
+
+  it('reports a transaction without the anchored root as a mismatch', async () => {
+    const result = await verifyAnchor(receipt('0xotherroot', 900), stub.url);
+    expect(result).toMatchObject({ status: 'mismatch', rootEmbedded: false });
+  });
+
+  it('reports transactions the node does not know as not found', async () => {
+    expect((await verifyAnchor(receipt('0xmissing', 900), stub.url)).status).toBe('not_found');
+    expect((await verifyAnchor({ ...receipt('', 900), txHash: undefined }, stub.url)).status).toBe('not_found');
+  });
+
+  it('waits for mining and confirmations', async () => {
+    expect(await verifyAnchor(receipt('0xunmined', 900), stub.url)).toMatchObject({ status: 'pending', confirmations: 0 });
+    const recent = await verifyAnchor(receipt('0xrecent', HEAD - 2), stub.url);
+    expect(recent).toMatchObject({ status: 'pending', detail: `3/${MIN_CONFIRMATIONS} confirmations` });
+  });
+
+  it('reports reverted transactions and unreachable nodes as errors', async () => {
+    expect((await verifyAnchor(receipt('0xreverted', 900), stub.url)).detail).toBe('Anchor transaction reverted');
+    const down = await verifyAnchor(receipt('0xconfirmed', 900), 'http://127.0.0.1:9');
+    expect(down).toMatchObject({ status: 'error', detail: 'RPC node unreachable' });
+  });
+
+  it('reports a receipt whose proof does not reproduce the anchored root as a mismatch', async () => {
+    // Outside the batch: the proof's root is anchored, but says nothing about this receipt
+    const outsider = { ...receipt('0xconfirmed', 900), receiptHash: '44'.repeat(32) };
+    expect(await verifyAnchor(outsider, stub.url)).toMatchObject({
+      status: 'mismatch', detail: 'Inclusion proof is for a different receipt',
+    });
+    // A proof rewritten to claim the leaf, with a sibling that doesn't lead to the root
+    const forged = {
+      ...receipt('0xconfirmed', 900),
+      merkleProof: { ...PROOF, path: [{ ...PROOF.path[0], hash: '55'.repeat(32) }, ...PROOF.path.slice(1)] },
+    };
+    expect(await verifyAnchor(forged, stub.url)).toMatchObject({
+      status: 'mismatch', detail: 'Inclusion proof does not reproduce the anchored root',
+    });
+  });
+
+  it('only matches the root at byte boundaries of the transaction input', async () => {
+    expect(await verifyAnchor(receipt('0xshifted', 900), stub.url)).toMatchObject({
+      status: 'mismatch', rootEmbedded: false,
+    });
+  });
+
+  it('checks each receipt in a batch, fetching the shared transaction once', async () => {
+    const outsider = { ...receipt('0xconfirmed', 900, 'outsider'), receiptHash: '44'.repeat(32) };
+    const before = stub.calls.length;
+    const results = await verifyAnchors([receipt('0xconfirmed', 900, 'member'), outsider], stub.url);
+    expect(results.member.status).toBe('confirmed');
+    expect(results.outsider.status).toBe('mismatch');
+    expect(stub.calls.slice(before).filter(m => m === 'eth_getTransactionByHash')).toHaveLength(1);
+  });
+
+  it('gives up on a node that never answers', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      const pending = verifyAnchor(receipt('0xhangs', 900), stub.url);
+      await vi.advanceTimersByTimeAsync(RPC_TIMEOUT_MS);
+      expect(await pending).toMatchObject({
+        status: 'error', detail: `RPC error (408): No answer within ${RPC_TIMEOUT_MS / 1000}s`,
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,298 @@
+// Independent chain anchor verification
+// Checks receipt anchors directly against an EVM JSON-RPC node instead of
+// trusting the backend's txHash/blockNumber. Mock environments answer from the mock chain.
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Receipt } from './types';
+import { getActiveEnvironment } from './environments';
+import { replayMerkleProof } from './merkle';
+
+const MIN_CONFIRMATIONS = Number(import.meta.env.VITE_RPC_MIN_CONFIRMATIONS) || 12;
+const RPC_TIMEOUT_MS = Number(import.meta.env.VITE_RPC_TIMEOUT_MS) || 10000;
+
+/**
+ * True when the active environment has a JSON-RPC node, or is a mock environment
+ */
+export function anchorVerificationEnabled(): boolean {
+  const env = getActiveEnvironment();
+  return !!env.rpcUrl || env.mock;
+}
+
+export type AnchorStatus = 'confirmed' | 'pending' | 'reorged' | 'not_found' | 'mismatch' | 'error';
+
+export interface AnchorVerification {
+  status: AnchorStatus;
+  txHash: string;
+  expectedBlock?: number;
+  chainBlock?: number;
+  confirmations?: number;
+  /** Whether the anchored root (or receipt hash) appears in the transaction input */
+  rootEmbedded?: boolean;
+  detail?: string;
+  checkedAt: string;
+}
+
+interface RpcTransaction {
+  hash: string;
+  input: string;
+  blockNumber: string | null;
+}
+
+interface RpcTransactionReceipt {
+  transactionHash: string;
+  blockNumber: string;
+  blockHash: string;
+  status?: string;
+}
+
+interface RpcBlock {
+  number: string;
+  hash: string;
+}
+
+class RpcError extends Error {
+  code: number;
+
+  constructor(message: string, code: number) {
+    super(message);
+    this.code = code;
+    this.name = 'RpcError';
+  }
+}
+
+let rpcId = 0;
+
+async function rpcCall<T>(
+  method: string,
+  params: unknown[],
+  rpcUrl: string = getActiveEnvironment().rpcUrl ?? ''
+): Promise<T> {
+  if (!rpcUrl && getActiveEnvironment().mock) {
+    const { mockRpc } = await import('./mocks');
+    return mockRpc(method, params) as T;
+  }
+
+  // A node that accepts the connection and never answers must not leave the check hanging
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), RPC_TIMEOUT_MS);
+  try {
+    const response = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: ++rpcId, method, params }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new RpcError(`RPC error: ${response.statusText}`, response.status);
+    }
+
+    const body = await response.json();
+    if (body.error) {
+      throw new RpcError(body.error.message ?? 'RPC error', body.error.code ?? -1);
+    }
+    return body.result as T;
+  } catch (e) {
+    if (controller.signal.aborted) throw new RpcError(`No answer within ${RPC_TIMEOUT_MS / 1000}s`, 408);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const hexToNumber = (hex: string): number => parseInt(hex, 16);
+
+const stripHex = (hex: string): string => (hex.startsWith('0x') ? hex.slice(2) : hex).toLowerCase();
+
+/**
+ * Whether `word`, a 32-byte hash, occurs in the calldata at a byte boundary.
+ * A plain substring search could match across bytes, half a nibble off.
+ */
+function containsWord(input: string, word: string): boolean {
+  const data = stripHex(input);
+  if (!/^[0-9a-f]{64}$/.test(word)) return false;
+  for (let i = 0; i + 64 <= data.length; i += 2) {
+    if (data.slice(i, i + 64) === word) return true;
+  }
+  return false;
+}
+
+/** What the node knows about one anchor transaction */
+interface AnchorTransaction {
+  tx: RpcTransaction | null;
+  txReceipt: RpcTransactionReceipt | null;
+  head: string;
+  /** The canonical block at the mined height; null unless mined */
+  block: RpcBlock | null;
+}
+
+async function fetchAnchorTransaction(txHash: string, rpcUrl?: string): Promise<AnchorTransaction> {
+  const [tx, txReceipt, head] = await Promise.all([
+    rpcCall<RpcTransaction | null>('eth_getTransactionByHash', [txHash], rpcUrl),
+    rpcCall<RpcTransactionReceipt | null>('eth_getTransactionReceipt', [txHash], rpcUrl),
+    rpcCall<string>('eth_blockNumber', [], rpcUrl),
+  ]);
+  const mined = !!tx && !!txReceipt && tx.blockNumber !== null && txReceipt.status !== '0x0';
+  const block = mined
+    ? await rpcCall<RpcBlock | null>('eth_getBlockByNumber', [txReceipt.blockNumber, false], rpcUrl)
+    : null;
+  return { tx, txReceipt, head, block };
+}
+
+/**
+ * The root this receipt should be anchored under. With an inclusion proof
+ * the root is only trusted once the proof reproduces it from the receipt
+ * hash; without one the receipt hash itself must be the anchored value.
+ */
+function anchoredRoot(receipt: Receipt): { root: string; proofError?: string } {
+  const proof = receipt.merkleProof;
+  if (!proof) return { root: stripHex(receipt.receiptHash) };
+  const replay = replayMerkleProof(receipt.receiptHash, proof);
+  const proofError = replay.error ? `Invalid inclusion proof: ${replay.error}`
+    : !replay.leafMatches ? 'Inclusion proof is for a different receipt'
+    : !replay.rootMatches ? 'Inclusion proof does not reproduce the anchored root'
+    : undefined;
+  return { root: stripHex(proof.root), proofError };
+}
+
+async function checkAnchor(
+  receipt: Receipt & { txHash: string },
+  anchorTransaction: Promise<AnchorTransaction>
+): Promise<AnchorVerification> {
+  const { txHash } = receipt;
+  const base = { txHash, expectedBlock: receipt.blockNumber, checkedAt: new Date().toISOString() };
+
+  try {
+    const { tx, txReceipt, head, block } = await anchorTransaction;
+
+    if (!tx) {
+      return { ...base, status: 'not_found', detail: 'Transaction not known to the node' };
+    }
+
+    const { root, proofError } = anchoredRoot(receipt);
+    const rootEmbedded = containsWord(tx.input, root);
+
+    if (!txReceipt || tx.blockNumber === null) {
+      return { ...base, status: 'pending', rootEmbedded, confirmations: 0, detail: 'Transaction not yet mined' };
+    }
+    if (txReceipt.status === '0x0') {
+      return { ...base, status: 'error', rootEmbedded, detail: 'Anchor transaction reverted' };
+    }
+
+    const chainBlock = hexToNumber(txReceipt.blockNumber);
+    const confirmations = hexToNumber(head) - chainBlock + 1;
+
+    // The block the receipt was mined in must still be canonical
+    const canonical = block?.hash === txReceipt.blockHash;
+
+    const result = { ...base, chainBlock, confirmations, rootEmbedded };
+    if (!canonical) {
+      return { ...result, status: 'reorged', detail: `Block #${chainBlock} is no longer canonical` };
+    }
+    // Still on the canonical chain, just not where the backend says: its data is wrong, not the chain
+    if (receipt.blockNumber !== undefined && chainBlock !== receipt.blockNumber) {
+      return {
+        ...result,
+        status: 'mismatch',
+        detail: `Mined in block #${chainBlock}, backend reports #${receipt.blockNumber}`,
+      };
+    }
+    // An anchored root proves nothing about a receipt that isn't in its batch
+    if (proofError) {
+      return { ...result, status: 'mismatch', detail: proofError };
+    }
+    if (!rootEmbedded) {
+      return { ...result, status: 'mismatch', detail: 'Anchored root not found in transaction input' };
+    }
+    if (confirmations < MIN_CONFIRMATIONS) {
+      return { ...result, status: 'pending', detail: `${confirmations}/${MIN_CONFIRMATIONS} confirmations` };
+    }
+    return { ...result, status: 'confirmed' };
+  } catch (e) {
+    const detail = e instanceof RpcError ? `RPC error (${e.code}): ${e.message}` : 'RPC node unreachable';
+    console.error('Anchor verification error:', e);
+    return { ...base, status: 'error', detail };
+  }
+}
+
+/**
+ * Fetch the anchoring transaction and check block, confirmations, the
+ * inclusion proof and the embedded root. `rpcUrl` overrides the configured
+ * node, e.g. a local stub.
+ */
+export async function verifyAnchor(receipt: Receipt, rpcUrl?: string): Promise<AnchorVerification> {
+  const { txHash } = receipt;
+  if (!txHash) {
+    return { status: 'not_found', txHash: '', detail: 'Receipt has no anchor transaction', checkedAt: new Date().toISOString() };
+  }
+  return checkAnchor({ ...receipt, txHash }, fetchAnchorTransaction(txHash, rpcUrl));
+}
+
+/**
+ * Verify the anchor of each receipt, by receipt id. Batched receipts share
+ * one lookup of their transaction, but each must prove its own inclusion.
+ */
+export async function verifyAnchors(
+  receipts: Receipt[],
+  rpcUrl?: string
+): Promise<Record<string, AnchorVerification>> {
+  const lookups = new Map<string, Promise<AnchorTransaction>>();
+  const results = await Promise.all(receipts.map(async receipt => {
+    const { txHash } = receipt;
+    if (!txHash) return [receipt.id, await verifyAnchor(receipt)] as const;
+    if (!lookups.has(txHash)) lookups.set(txHash, fetchAnchorTransaction(txHash, rpcUrl));
+    return [receipt.id, await checkAnchor({ ...receipt, txHash }, lookups.get(txHash)!)] as const;
+  }));
+  return Object.fromEntries(results);
+}
+
+export interface AnchorChecks {
+  /** Results by receipt id */
+  checks: Record<string, AnchorVerification>;
+  recheck: (receipt: Receipt) => Promise<void>;
+  /** Check every anchor again as the receipts next change, e.g. after a refetch */
+  expire: () => void;
+  /** Forget all results, e.g. on an environment switch */
+  reset: () => void;
+}
+
+/**
+ * Verify the anchors of receipts as they appear, each once until expired.
+ * Checks still in flight when reset are dropped: they answer for receipts
+ * that are no longer shown, possibly from another environment.
+ */
+export function useAnchorChecks(receipts: Receipt[]): AnchorChecks {
+  const [checks, setChecks] = useState<Record<string, AnchorVerification>>({});
+  const checked = useRef(new Set<string>());
+  const generation = useRef(0);
+
+  useEffect(() => {
+    if (!anchorVerificationEnabled()) return;
+    const unchecked = receipts.filter(r => r.txHash && !checked.current.has(r.id));
+    if (unchecked.length === 0) return;
+    unchecked.forEach(r => checked.current.add(r.id));
+    const started = generation.current;
+    verifyAnchors(unchecked).then(results => {
+      if (generation.current === started) setChecks(current => ({ ...current, ...results }));
+    });
+  }, [receipts]);
+
+  const recheck = useCallback(async (receipt: Receipt) => {
+    const started = generation.current;
+    const result = await verifyAnchor(receipt);
+    if (generation.current === started) setChecks(current => ({ ...current, [receipt.id]: result }));
+  }, []);
+
+  const expire = useCallback(() => checked.current.clear(), []);
+
+  const reset = useCallback(() => {
+    generation.current += 1;
+    checked.current.clear();
+    setChecks({});
+  }, []);
+
+  return { checks, recheck, expire, reset };
+}
+
+export { RpcError, MIN_CONFIRMATIONS, RPC_TIMEOUT_MS };
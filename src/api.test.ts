@@ -0,0 +1,227 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+import type { ApiEnvironment } from './environments';
+import type { Metrics, ThroughputWindow } from './types';
+import { getMetrics, fetchAllData, peekAllData, ApiError, isAbortError } from './api';
+
+const state = vi.hoisted(() => ({ active: null as ApiEnvironment | null }));
+
+// fetchAllData and peekAllData work on the active environment
+vi.mock('./environments', async importOriginal => {
+  const actual = await importOriginal<typeof import('./environments')>();
+  return { ...actual, getActiveEnvironment: () => state.active ?? actual.getActiveEnvironment() };
+});
+
+const METRICS: Metrics = {
+  total: 10, lastHour: 1, lastDay: 5, verified: 9, anchored: 8,
+  verificationRate: '90.00', anchoringRate: '80.00',
+  throughput: { hourly: 1, daily: 5, avgPerMinute: '0.02' },
+};
+
+const BODIES: Record<string, unknown> = {
+  '/metrics': METRICS,
+  '/receipts': { receipts: [], pagination: { page: 1, pages: 1, total: 0 } },
+  '/analytics/throughput': [],
+  '/analytics/chain': { anchored: 8, pending: 2, unanchored: 0 },
+};
+
+const WINDOW: ThroughputWindow = { from: '2026-10-01T00:00:00.000Z', to: '2026-10-02T00:00:00.000Z', bucket: 'hour' };
+
+// Every test gets its own environment, so the module's cache and in-flight
+// requests never carry over
+let envCount = 0;
+function environment(): ApiEnvironment {
+  envCount += 1;
+  return {
+    id: `test-${envCount}`, name: 'Test', baseUrl: `https://api-${envCount}.test`, auth: { type: 'none' },
+    color: 'zinc', mock: false, redaction: [], schemas: [],
+  };
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, statusText: status === 200 ? 'OK' : 'Error' });
+
+/** Answers each request with the next status, then 200 with the endpoint's body */
+function stubFetch(statuses: number[] = []) {
+  const fetch = vi.fn(async (url: string, _init?: RequestInit) => {
+    const path = new URL(url).pathname;
+    const status = statuses.shift() ?? 200;
+    return json(status === 200 ? BODIES[path] : {}, status);
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+/** A fetch that only answers when told to, and rejects like fetch does on abort */
+function stubPendingFetch() {
+  const pending: { resolve: () => void; signal: AbortSignal }[] = [];
+  const fetch = vi.fn((_url: string, init?: RequestInit) => new Promise<Response>((resolve, reject) => {
+    const signal = init!.signal!;
+    signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    pending.push({ resolve: () => resolve(json(METRICS)), signal });
+  }));
+  vi.stubGlobal('fetch', fetch);
+  return { fetch, pending };
+}
+
+const settled = () => new Promise(resolve => setTimeout(resolve, 0));
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  state.active = null;
+});
+
+describe('request retries', () => {
+  it('retries server errors with backoff until a GET succeeds', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const fetch = stubFetch([503, 502]);
+    const result = getMetrics(environment());
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    await expect(result).resolves.toEqual(METRICS);
+  });
+
+  it('gives up after three attempts', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const fetch = stubFetch([500, 500, 500, 500]);
+    const result = getMetrics(environment());
+    const outcome = expect(result).rejects.toMatchObject({ status: 500 });
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await outcome;
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry client errors', async () => {
+    const fetch = stubFetch([404]);
+    await expect(getMetrics(environment())).rejects.toBeInstanceOf(ApiError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting to retry when the caller aborts', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const fetch = stubFetch([503]);
+    const controller = new AbortController();
+    const result = getMetrics(environment(), { signal: controller.signal });
+    const outcome = expect(result).rejects.toSatisfy(isAbortError);
+
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await outcome;
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('fetchApi sharing and caching', () => {
+  it('sends concurrent identical GETs once', async () => {
+    const fetch = stubFetch();
+    const env = environment();
+    const [a, b] = await Promise.all([getMetrics(env), getMetrics(env)]);
+    expect(a).toEqual(METRICS);
+    expect(b).toBe(a);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps environments apart', async () => {
+    const fetch = stubFetch();
+    await Promise.all([getMetrics(environment()), getMetrics(environment())]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('serves fresh responses from the cache and revalidates stale ones', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const fetch = stubFetch();
+    const env = environment();
+
+    await getMetrics(env);
+    now.mockReturnValue(1_001_999);
+    await getMetrics(env);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1_002_000);
+    await getMetrics(env);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the last dashboard data to show while revalidating', async () => {
+    stubFetch();
+    state.active = environment();
+    expect(peekAllData(1, 'all', {}, WINDOW)).toBeNull();
+
+    const results = await fetchAllData(1, 'all', {}, WINDOW);
+    expect(results.metrics).toEqual({ ok: true, data: METRICS });
+
+    // A failed revalidation leaves the stale copy in place
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 60000);
+    stubFetch([404, 404, 404, 404]);
+    const failed = await fetchAllData(1, 'all', {}, WINDOW);
+    expect(failed.metrics.ok).toBe(false);
+    expect(peekAllData(1, 'all', {}, WINDOW)).toEqual(results);
+    expect(peekAllData(2, 'all', {}, WINDOW)).toBeNull();
+  });
+});
+
+describe('fetchApi cancellation', () => {
+  it('does not cancel a shared request when one caller aborts', async () => {
+    const { fetch, pending } = stubPendingFetch();
+    const env = environment();
+    const leaving = new AbortController();
+    const first = getMetrics(env, { signal: leaving.signal });
+    const second = getMetrics(env);
+    await settled();
+
+    leaving.abort();
+    await expect(first).rejects.toSatisfy(isAbortError);
+    expect(pending[0].signal.aborted).toBe(false);
+
+    pending[0].resolve();
+    await expect(second).resolves.toEqual(METRICS);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts the request once every caller has left', async () => {
+    const { pending } = stubPendingFetch();
+    const env = environment();
+    const a = new AbortController();
+    const b = new AbortController();
+    const first = getMetrics(env, { signal: a.signal });
+    const second = getMetrics(env, { signal: b.signal });
+    await settled();
+
+    a.abort();
+    b.abort();
+    await expect(Promise.allSettled([first, second])).resolves.toHaveLength(2);
+    expect(pending[0].signal.aborted).toBe(true);
+  });
+
+  it('starts a new request after the abandoned one', async () => {
+    const { fetch, pending } = stubPendingFetch();
+    const env = environment();
+    const controller = new AbortController();
+    const abandoned = getMetrics(env, { signal: controller.signal });
+    await settled();
+    controller.abort();
+    await expect(abandoned).rejects.toSatisfy(isAbortError);
+
+    const next = getMetrics(env);
+    await settled();
+    expect(fetch).toHaveBeenCalledTimes(2);
+    pending[1].resolve();
+    await expect(next).resolves.toEqual(METRICS);
+  });
+
+  it('rejects at once when already aborted', async () => {
+    const fetch = stubFetch();
+    await expect(getMetrics(environment(), { signal: AbortSignal.abort() })).rejects.toSatisfy(isAbortError);
+    await settled();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
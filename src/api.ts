@@ -1,9 +1,23 @@
 // API client for Juggernaut Rail
-import type { Metrics, Receipt, ThroughputPoint, ChainStatus, PaginatedResponse, FilterType } from './types';
-import { MOCK_METRICS, MOCK_RECEIPTS, MOCK_THROUGHPUT, MOCK_CHAIN } from './mocks';
+import {
+  metricsDecoder, receiptDecoder, throughputPointDecoder, chainStatusDecoder, anchoringAnalyticsDecoder,
+  paginatedDecoder, cursorPageDecoder, revealAuditEntryDecoder, streamEventDecoder, streamTicketDecoder,
+  failureAnalyticsDecoder, signingKeyDecoder, signatureAnalyticsDecoder,
+  type Metrics, type Receipt, type ThroughputPoint, type ThroughputWindow, type ChainStatus,
+  type PaginatedResponse, type CursorPage, type ReceiptSort, type FilterType, type ReceiptQuery, type StreamEvent, type StreamStatus,
+  type AnchoringAnalytics, type FailureAnalytics, type SignatureAnalytics, type SigningKey, type RevealRequest,
+  type RevealAuditEntry, type ReceiptSubmission
+} from './types';
+import { matchesQuery } from './query';
+import type { RedactionRule } from './redaction';
+import { signaturesVerified } from './signatures';
+import { DEFAULT_SORT, decodeCursor } from './explorer';
+import { getActiveEnvironment, type ApiEnvironment } from './environments';
+import { authorizationHeaders, getSession, refreshSession, expireSession, requiresSignIn } from './auth';
+import { decode, array, DecodeError, type Decoder } from './decode';
+import { reportSchemaIssues } from './diagnostics';
 
-const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:8000';
-const USE_MOCK = import.meta.env.VITE_USE_MOCK === 'true' || import.meta.env.DEV;
+export const RECEIPTS_PER_PAGE = 10;
 
 class ApiError extends Error {
   status: number;
@@ -13,41 +27,359 @@ class ApiError extends Error {
     this.status = status;
     this.name = 'ApiError';
   }
+
+  /** The credentials were missing or rejected; the session has been expired */
+  get unauthorized(): boolean {
+    return this.status === 401;
+  }
+}
+
+class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+// ============================================================================
+// Request layer
+// ============================================================================
+
+const REQUEST_TIMEOUT_MS = 10000;
+/** Total attempts for idempotent GETs */
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 5000;
+/** Cached GET responses younger than this are served without a request */
+const FRESH_MS = 2000;
+const CACHE_MAX_ENTRIES = 200;
+
+interface RequestOptions {
+  env?: ApiEnvironment;
+  method?: 'GET' | 'POST';
+  body?: unknown;
+  /** Abort when the caller no longer needs the response */
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface FetchOptions {
+  /** Defaults to the active environment; background work pins the one it started in */
+  env?: ApiEnvironment;
+  signal?: AbortSignal;
+}
+
+const abortError = () => new DOMException('Request cancelled', 'AbortError');
+
+export function isAbortError(e: unknown): boolean {
+  return e instanceof DOMException && e.name === 'AbortError';
+}
+
+/**
+ * Short label for a failed request, for panel and comparison errors
+ */
+export function describeError(e: unknown): string {
+  if (e instanceof ApiError) return `API Error (${e.status})`;
+  if (e instanceof TimeoutError) return 'Timed out';
+  if (e instanceof DecodeError) return 'Invalid response';
+  return 'Unreachable';
 }
 
-async function fetchApi<T>(endpoint: string): Promise<T> {
-  const response = await fetch(`${API_BASE}${endpoint}`, {
+/**
+ * The API couldn't be reached at all, as opposed to answering badly
+ */
+export function isUnreachable(e: unknown): boolean {
+  return !(e instanceof ApiError || e instanceof DecodeError);
+}
+
+/**
+ * Network failures, timeouts, rate limiting and server errors are worth another try
+ */
+function isRetryable(e: unknown): boolean {
+  if (e instanceof ApiError) return e.status >= 500 || e.status === 429;
+  return e instanceof TimeoutError || e instanceof TypeError;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Check a response against its decoder; coercions and violations are
+ * reported to the diagnostics panel
+ */
+function decodeResponse<T>(env: ApiEnvironment, endpoint: string, decoder: Decoder<T>, data: unknown): T {
+  try {
+    const { value, issues } = decode(decoder, data);
+    reportSchemaIssues(env.id, endpoint, issues);
+    return value;
+  } catch (e) {
+    if (e instanceof DecodeError) {
+      reportSchemaIssues(env.id, endpoint, e.issues);
+      console.warn(`Schema violation in ${endpoint}:`, e.issues);
+    }
+    throw e;
+  }
+}
+
+/**
+ * One attempt, bounded by `timeoutMs`
+ */
+async function send<T>(
+  endpoint: string,
+  decoder: Decoder<T>,
+  { env = getActiveEnvironment(), method = 'GET', body, signal, timeoutMs = REQUEST_TIMEOUT_MS }: RequestOptions
+): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const attempt = async () => fetch(`${env.baseUrl}${endpoint}`, {
+    method,
     headers: {
       'Content-Type': 'application/json',
+      ...await authorizationHeaders(env),
     },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal: controller.signal,
+  });
+
+  try {
+    let response = await attempt();
+
+    // A rejected token gets one refresh attempt before the user has to sign in again
+    if (response.status === 401 && requiresSignIn(env)) {
+      if (await refreshSession(env)) response = await attempt();
+      if (response.status === 401) expireSession(env);
+    }
+
+    if (!response.ok) {
+      throw new ApiError(`API error: ${response.statusText}`, response.status);
+    }
+
+    return decodeResponse(env, endpoint, decoder, await response.json());
+  } catch (e) {
+    if (timedOut) throw new TimeoutError(`Request timed out after ${timeoutMs / 1000}s`);
+    if (signal?.aborted) throw abortError();
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * GETs are retried with jittered exponential backoff; other methods are sent once
+ */
+async function request<T>(endpoint: string, decoder: Decoder<T>, options: RequestOptions): Promise<T> {
+  const attempts = (options.method ?? 'GET') === 'GET' ? RETRY_ATTEMPTS : 1;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await send(endpoint, decoder, options);
+    } catch (e) {
+      if (attempt >= attempts || !isRetryable(e)) throw e;
+      const backoff = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempt - 1));
+      await sleep(backoff / 2 + Math.random() * backoff / 2, options.signal);
+    }
+  }
+}
+
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Callers still waiting; the request is aborted when the last one leaves */
+  waiters: number;
+}
+
+const inFlight = new Map<string, InFlight>();
+const responseCache = new Map<string, { data: unknown; fetchedAt: number }>();
+
+const cacheKey = (env: ApiEnvironment, endpoint: string): string => `${env.id} ${endpoint}`;
+
+function cacheResponse(key: string, data: unknown): void {
+  responseCache.delete(key);
+  responseCache.set(key, { data, fetchedAt: Date.now() });
+  // Maps iterate in insertion order, so the first key is the least recently stored
+  if (responseCache.size > CACHE_MAX_ENTRIES) responseCache.delete(responseCache.keys().next().value!);
+}
+
+/**
+ * Last response for a GET, however old; null when there is none
+ */
+function peekCache<T>(endpoint: string, env: ApiEnvironment = getActiveEnvironment()): T | null {
+  return (responseCache.get(cacheKey(env, endpoint))?.data as T | undefined) ?? null;
+}
+
+/**
+ * Wait on a shared request without letting one caller's abort cancel it for the others
+ */
+function join<T>(key: string, entry: InFlight, signal?: AbortSignal): Promise<T> {
+  if (signal?.aborted) return Promise.reject(abortError());
+  entry.waiters += 1;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      entry.waiters -= 1;
+      if (entry.waiters === 0) {
+        inFlight.delete(key);
+        entry.controller.abort();
+      }
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    entry.promise.then(
+      data => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(data as T);
+      },
+      e => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(e);
+      }
+    );
   });
+}
+
+/**
+ * Concurrent identical GETs share one request, and responses younger than
+ * FRESH_MS are served from the cache
+ */
+async function fetchApi<T>(endpoint: string, decoder: Decoder<T>, options: RequestOptions = {}): Promise<T> {
+  const env = options.env ?? getActiveEnvironment();
+  if ((options.method ?? 'GET') !== 'GET') return request(endpoint, decoder, { ...options, env });
+
+  const key = cacheKey(env, endpoint);
+  const cached = responseCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < FRESH_MS) return cached.data as T;
+  if (options.signal?.aborted) throw abortError();
 
-  if (!response.ok) {
-    throw new ApiError(`API error: ${response.statusText}`, response.status);
+  let entry = inFlight.get(key);
+  if (!entry) {
+    const controller = new AbortController();
+    const shared: InFlight = {
+      controller,
+      waiters: 0,
+      promise: request(endpoint, decoder, { ...options, env, signal: controller.signal })
+        .then(data => {
+          cacheResponse(key, data);
+          return data;
+        })
+        .finally(() => {
+          if (inFlight.get(key) === shared) inFlight.delete(key);
+        }),
+    };
+    // Rejections reach every caller through join(); this one is only bookkeeping
+    shared.promise.catch(() => {});
+    inFlight.set(key, shared);
+    entry = shared;
   }
+  return join<T>(key, entry, options.signal);
+}
+
+// ============================================================================
+// Endpoints
+// ============================================================================
 
-  return response.json();
+/**
+ * `env` defaults to the active environment; comparisons pass one explicitly
+ */
+export async function getMetrics(
+  env: ApiEnvironment = getActiveEnvironment(),
+  { signal }: FetchOptions = {}
+): Promise<Metrics> {
+  // Copies, since the mock stream updates the mock dataset in place
+  if (env.mock) {
+    const { MOCK_METRICS } = await import('./mocks');
+    return structuredClone(MOCK_METRICS);
+  }
+  return fetchApi('/metrics', metricsDecoder, { env, signal });
 }
 
-export async function getMetrics(): Promise<Metrics> {
-  if (USE_MOCK) return MOCK_METRICS;
-  return fetchApi<Metrics>('/metrics');
+export function matchesFilter(receipt: Receipt, filter: FilterType): boolean {
+  if (filter === 'verified') return signaturesVerified(receipt);
+  if (filter === 'pending') return !receipt.txHash;
+  if (filter === 'anchored') return !!receipt.txHash;
+  return true;
+}
+
+/**
+ * Serialize a query for `/receipts`; payload fields become `payload.<field>`
+ */
+function setQueryParams(params: URLSearchParams, query: ReceiptQuery): void {
+  const { payload, ...rest } = query;
+  for (const [key, value] of Object.entries(rest)) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  for (const [field, value] of Object.entries(payload ?? {})) {
+    params.set(`payload.${field}`, value);
+  }
+}
+
+function receiptsEndpoint(page: number, limit: number, filter: FilterType, query: ReceiptQuery): string {
+  const params = new URLSearchParams({
+    page: String(page),
+    limit: String(limit),
+  });
+  if (filter !== 'all') params.set('status', filter);
+  setQueryParams(params, query);
+  return `/receipts?${params}`;
+}
+
+function receiptCursorEndpoint(
+  cursor: string | null,
+  limit: number,
+  filter: FilterType,
+  query: ReceiptQuery,
+  sort: ReceiptSort
+): string {
+  const params = new URLSearchParams({
+    limit: String(limit),
+    sort: sort.field,
+    order: sort.direction,
+  });
+  if (cursor) params.set('cursor', cursor);
+  if (filter !== 'all') params.set('status', filter);
+  setQueryParams(params, query);
+  return `/receipts?${params}`;
+}
+
+function throughputEndpoint(window: ThroughputWindow): string {
+  const params = new URLSearchParams({ from: window.from, to: window.to, bucket: window.bucket });
+  return `/analytics/throughput?${params}`;
+}
+
+/**
+ * Viewers search the mock dataset as they see it, redacted
+ */
+function mockSearchRedaction(env: ApiEnvironment): RedactionRule[] {
+  return getSession(env.id)?.user.role === 'auditor' ? [] : env.redaction;
 }
 
 export async function getReceipts(
   page: number = 1,
   limit: number = 10,
-  filter: FilterType = 'all'
+  filter: FilterType = 'all',
+  query: ReceiptQuery = {},
+  { env = getActiveEnvironment(), signal }: FetchOptions = {}
 ): Promise<PaginatedResponse<Receipt>> {
-  if (USE_MOCK) {
-    const filtered = filter === 'all'
-      ? MOCK_RECEIPTS
-      : MOCK_RECEIPTS.filter(r => {
-          if (filter === 'verified') return r.edVerified && r.ecVerified;
-          if (filter === 'pending') return !r.txHash;
-          if (filter === 'anchored') return !!r.txHash;
-          return true;
-        });
+  if (env.mock) {
+    const { MOCK_RECEIPTS } = await import('./mocks');
+    const filtered = MOCK_RECEIPTS.filter(r => matchesFilter(r, filter) && matchesQuery(r, query, mockSearchRedaction(env)));
 
     const start = (page - 1) * limit;
     const receipts = filtered.slice(start, start + limit);
@@ -56,46 +388,434 @@ export async function getReceipts(
       receipts,
       pagination: {
         page,
-        pages: Math.ceil(filtered.length / limit),
+        pages: Math.max(1, Math.ceil(filtered.length / limit)),
         total: filtered.length,
       },
     };
   }
 
-  const params = new URLSearchParams({
-    page: String(page),
-    limit: String(limit),
-  });
-  if (filter !== 'all') params.set('status', filter);
+  return fetchApi(receiptsEndpoint(page, limit, filter, query), paginatedDecoder(receiptDecoder), { env, signal });
+}
+
+/**
+ * Cursor-paginated receipts for the explorer; pass the previous page's
+ * `nextCursor` to continue, or null for the first page
+ */
+export async function getReceiptsByCursor(
+  cursor: string | null,
+  limit: number,
+  filter: FilterType = 'all',
+  query: ReceiptQuery = {},
+  sort: ReceiptSort = DEFAULT_SORT,
+  { env = getActiveEnvironment(), signal }: FetchOptions = {}
+): Promise<CursorPage<Receipt>> {
+  if (env.mock) {
+    // As the backend would, reject cursors it didn't issue
+    if (cursor && !decodeCursor(cursor)) throw new ApiError('API error: Bad Request', 400);
+    const { MOCK_RECEIPTS, mockReceiptPage } = await import('./mocks');
+    const filtered = MOCK_RECEIPTS.filter(r => matchesFilter(r, filter) && matchesQuery(r, query, mockSearchRedaction(env)));
+    return mockReceiptPage(filtered, cursor, limit, sort);
+  }
+
+  return fetchApi(
+    receiptCursorEndpoint(cursor, limit, filter, query, sort),
+    cursorPageDecoder(receiptDecoder),
+    { env, signal }
+  );
+}
+
+export async function getReceipt(
+  id: string,
+  { env = getActiveEnvironment(), signal }: FetchOptions = {}
+): Promise<Receipt> {
+  if (env.mock) {
+    const { MOCK_RECEIPTS } = await import('./mocks');
+    const receipt = MOCK_RECEIPTS.find(r => r.id === id);
+    if (!receipt) throw new ApiError('API error: Not Found', 404);
+    return receipt;
+  }
+  return fetchApi(`/receipts/${encodeURIComponent(id)}`, receiptDecoder, { env, signal });
+}
+
+/**
+ * Create a receipt. It comes back as far as the backend got before
+ * responding; signing and anchoring may still be under way.
+ */
+export async function submitReceipt(
+  submission: ReceiptSubmission,
+  { env = getActiveEnvironment(), signal }: FetchOptions = {}
+): Promise<Receipt> {
+  if (env.mock) {
+    const { submitMockReceipt } = await import('./mocks');
+    return submitMockReceipt(submission);
+  }
+  return fetchApi('/receipts', receiptDecoder, { env, method: 'POST', body: submission, signal });
+}
+
+export async function getThroughput(
+  window: ThroughputWindow,
+  { env = getActiveEnvironment(), signal }: FetchOptions = {}
+): Promise<ThroughputPoint[]> {
+  if (env.mock) {
+    const { mockThroughput } = await import('./mocks');
+    return mockThroughput(window);
+  }
+  return fetchApi(throughputEndpoint(window), array(throughputPointDecoder), { env, signal });
+}
 
-  return fetchApi<PaginatedResponse<Receipt>>(`/receipts?${params}`);
+export async function getChainStatus({ env = getActiveEnvironment(), signal }: FetchOptions = {}): Promise<ChainStatus> {
+  if (env.mock) {
+    const { MOCK_CHAIN } = await import('./mocks');
+    return structuredClone(MOCK_CHAIN);
+  }
+  return fetchApi('/analytics/chain', chainStatusDecoder, { env, signal });
 }
 
-export async function getThroughput(hours: number = 24): Promise<ThroughputPoint[]> {
-  if (USE_MOCK) return MOCK_THROUGHPUT;
-  return fetchApi<ThroughputPoint[]>(`/analytics/throughput?hours=${hours}`);
+export async function getAnchoringAnalytics(
+  window: ThroughputWindow,
+  { env = getActiveEnvironment(), signal }: FetchOptions = {}
+): Promise<AnchoringAnalytics> {
+  if (env.mock) {
+    const { mockAnchoring } = await import('./mocks');
+    return mockAnchoring(window);
+  }
+  const params = new URLSearchParams({ from: window.from, to: window.to, bucket: window.bucket });
+  return fetchApi(`/analytics/anchoring?${params}`, anchoringAnalyticsDecoder, { env, signal });
 }
 
-export async function getChainStatus(): Promise<ChainStatus> {
-  if (USE_MOCK) return MOCK_CHAIN;
-  return fetchApi<ChainStatus>('/analytics/chain');
+/**
+ * Failed checks over time, by signer key, and every failed receipt in the window
+ */
+export async function getFailureAnalytics(
+  window: ThroughputWindow,
+  { env = getActiveEnvironment(), signal }: FetchOptions = {}
+): Promise<FailureAnalytics> {
+  if (env.mock) {
+    const { mockFailures } = await import('./mocks');
+    return mockFailures(window);
+  }
+  const params = new URLSearchParams({ from: window.from, to: window.to, bucket: window.bucket });
+  return fetchApi(`/analytics/failures?${params}`, failureAnalyticsDecoder, { env, signal });
 }
 
-export async function fetchAllData(page: number, filter: FilterType) {
-  const [metrics, receiptsData, throughput, chainStatus] = await Promise.all([
-    getMetrics(),
-    getReceipts(page, 10, filter),
-    getThroughput(24),
-    getChainStatus(),
+/**
+ * Signatures per algorithm and the post-quantum share of receipts over a window
+ */
+export async function getSignatureAnalytics(
+  window: ThroughputWindow,
+  { env = getActiveEnvironment(), signal }: FetchOptions = {}
+): Promise<SignatureAnalytics> {
+  if (env.mock) {
+    const { mockSignatures } = await import('./mocks');
+    return mockSignatures(window);
+  }
+  const params = new URLSearchParams({ from: window.from, to: window.to, bucket: window.bucket });
+  return fetchApi(`/analytics/signatures?${params}`, signatureAnalyticsDecoder, { env, signal });
+}
+
+/**
+ * Every signer key the backend has used or scheduled, with its validity window
+ */
+export async function getKeys({ env = getActiveEnvironment(), signal }: FetchOptions = {}): Promise<SigningKey[]> {
+  if (env.mock) {
+    const { mockKeys } = await import('./mocks');
+    return mockKeys();
+  }
+  return fetchApi('/keys', array(signingKeyDecoder), { env, signal });
+}
+
+/**
+ * Receipts still waiting for an anchor, oldest first
+ */
+export async function getOldestPending(limit: number = 10, { env = getActiveEnvironment(), signal }: FetchOptions = {}): Promise<Receipt[]> {
+  if (env.mock) {
+    const { mockOldestPending } = await import('./mocks');
+    return mockOldestPending(limit);
+  }
+  return fetchApi(`/analytics/anchoring/pending?limit=${limit}`, array(receiptDecoder), { env, signal });
+}
+
+/**
+ * Record an auditor's reveal; the payload may only be shown once this resolves
+ */
+export async function recordReveal(reveal: RevealRequest): Promise<RevealAuditEntry> {
+  const env = getActiveEnvironment();
+  if (env.mock) {
+    const { recordMockReveal } = await import('./mocks');
+    return recordMockReveal(reveal, getSession(env.id)?.user.id ?? 'unknown');
+  }
+  return fetchApi('/audit/reveals', revealAuditEntryDecoder, { env, method: 'POST', body: reveal });
+}
+
+// ============================================================================
+// Dashboard data
+// ============================================================================
+
+export type Settled<T> = { ok: true; data: T } | { ok: false; error: unknown };
+
+/** Each overview panel loads, and fails, on its own */
+export interface DashboardResults {
+  metrics: Settled<Metrics>;
+  receipts: Settled<PaginatedResponse<Receipt>>;
+  throughput: Settled<ThroughputPoint[]>;
+  chainStatus: Settled<ChainStatus>;
+}
+
+export type DashboardPanel = keyof DashboardResults;
+
+async function settle<T>(promise: Promise<T>): Promise<Settled<T>> {
+  try {
+    return { ok: true, data: await promise };
+  } catch (error) {
+    return { ok: false, error };
+  }
+}
+
+/**
+ * Load every overview panel. A failing panel doesn't discard the others;
+ * only cancellation rejects.
+ */
+export async function fetchAllData(
+  page: number,
+  filter: FilterType,
+  query: ReceiptQuery,
+  throughputWindow: ThroughputWindow,
+  { signal }: FetchOptions = {}
+): Promise<DashboardResults> {
+  const [metrics, receipts, throughput, chainStatus] = await Promise.all([
+    settle(getMetrics(undefined, { signal })),
+    settle(getReceipts(page, RECEIPTS_PER_PAGE, filter, query, { signal })),
+    settle(getThroughput(throughputWindow, { signal })),
+    settle(getChainStatus({ signal })),
   ]);
+  if (signal?.aborted) throw abortError();
+  return { metrics, receipts, throughput, chainStatus };
+}
 
+/**
+ * What `fetchAllData` last returned for these arguments, to show while it
+ * revalidates; null unless every panel is cached
+ */
+export function peekAllData(
+  page: number,
+  filter: FilterType,
+  query: ReceiptQuery,
+  throughputWindow: ThroughputWindow
+): DashboardResults | null {
+  const metrics = peekCache<Metrics>('/metrics');
+  const receipts = peekCache<PaginatedResponse<Receipt>>(receiptsEndpoint(page, RECEIPTS_PER_PAGE, filter, query));
+  const throughput = peekCache<ThroughputPoint[]>(throughputEndpoint(throughputWindow));
+  const chainStatus = peekCache<ChainStatus>('/analytics/chain');
+  if (!metrics || !receipts || !throughput || !chainStatus) return null;
   return {
-    metrics,
-    receipts: receiptsData.receipts,
-    totalPages: receiptsData.pagination.pages,
-    throughput,
-    chainStatus,
+    metrics: { ok: true, data: metrics },
+    receipts: { ok: true, data: receipts },
+    throughput: { ok: true, data: throughput },
+    chainStatus: { ok: true, data: chainStatus },
+  };
+}
+
+// ============================================================================
+// Live stream
+// ============================================================================
+
+const STREAM_BACKOFF_BASE_MS = 1000;
+const STREAM_BACKOFF_MAX_MS = 30000;
+const STREAM_FAILURES_BEFORE_POLLING = 3;
+
+interface StreamHandlers {
+  onEvent: (event: StreamEvent) => void;
+  onStatus: (status: StreamStatus) => void;
+}
+
+interface TransportCallbacks {
+  onOpen: () => void;
+  onEvent: (event: StreamEvent) => void;
+  /** Called once; `opened` tells whether the connection was ever established */
+  onFail: (opened: boolean) => void;
+}
+
+/**
+ * Decode one pushed message; schema issues are reported against `env`, the
+ * environment the stream belongs to, even if the user has since switched
+ */
+function parseStreamEvent(env: ApiEnvironment, data: unknown): StreamEvent | null {
+  if (typeof data !== 'string') return null;
+  let event: unknown;
+  try {
+    event = JSON.parse(data);
+  } catch {
+    console.warn('Ignoring malformed stream event:', data);
+    return null;
+  }
+  try {
+    return decodeResponse(env, '/stream', streamEventDecoder, event);
+  } catch (e) {
+    if (!(e instanceof DecodeError)) throw e;
+    return null;
+  }
+}
+
+/**
+ * EventSource and WebSocket cannot send headers, so the stream is opened with
+ * a short-lived single-use ticket from `POST /stream/tickets`, which is
+ * requested with the environment's usual credentials. Access tokens never go
+ * in a URL, where access logs and browser history would keep them.
+ */
+async function streamUrl(env: ApiEnvironment, transport: 'sse' | 'websocket'): Promise<URL> {
+  const url = new URL(`${env.baseUrl}/stream`, window.location.href);
+  if (transport === 'websocket') url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  if (env.auth.type !== 'none') {
+    const { ticket } = await fetchApi('/stream/tickets', streamTicketDecoder, { env, method: 'POST' });
+    url.searchParams.set('ticket', ticket);
+  }
+  return url;
+}
+
+function openEventSource(env: ApiEnvironment, url: URL, { onOpen, onEvent, onFail }: TransportCallbacks): () => void {
+  if (typeof EventSource === 'undefined') {
+    onFail(false);
+    return () => {};
+  }
+  const source = new EventSource(url);
+  let opened = false;
+
+  source.onopen = () => {
+    opened = true;
+    onOpen();
+  };
+  source.onmessage = e => {
+    const event = parseStreamEvent(env, e.data);
+    if (event) onEvent(event);
+  };
+  // EventSource retries on its own; close it so backoff stays under our control
+  source.onerror = () => {
+    source.close();
+    onFail(opened);
+  };
+
+  return () => source.close();
+}
+
+function openWebSocket(env: ApiEnvironment, url: URL, { onOpen, onEvent, onFail }: TransportCallbacks): () => void {
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(url);
+  } catch {
+    onFail(false);
+    return () => {};
+  }
+  let opened = false;
+  let failed = false;
+
+  const fail = () => {
+    if (failed) return;
+    failed = true;
+    onFail(opened);
+  };
+
+  socket.onopen = () => {
+    opened = true;
+    onOpen();
+  };
+  socket.onmessage = e => {
+    const event = parseStreamEvent(env, e.data);
+    if (event) onEvent(event);
+  };
+  socket.onerror = fail;
+  socket.onclose = fail;
+
+  return () => {
+    failed = true;
+    socket.close();
+  };
+}
+
+/**
+ * Subscribe to pushed receipts, metric deltas and anchor confirmations.
+ * Tries SSE, then WebSocket, reconnecting with jittered exponential backoff.
+ * After repeated failures reports 'polling' so the caller can fall back to
+ * interval refreshes while reconnects continue in the background.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToStream({ onEvent, onStatus }: StreamHandlers): () => void {
+  const env = getActiveEnvironment();
+  if (env.mock) {
+    // The demo dataset loads on demand, so real environments never pay for it
+    let stop: (() => void) | null = null;
+    let stopped = false;
+    onStatus('mock');
+    import('./mocks').then(({ startMockStream }) => {
+      if (!stopped) stop = startMockStream(onEvent);
+    });
+    return () => {
+      stopped = true;
+      stop?.();
+    };
+  }
+
+  let closed = false;
+  let failures = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let teardown: () => void = () => {};
+
+  const scheduleReconnect = () => {
+    if (closed) return;
+    failures += 1;
+    onStatus(failures >= STREAM_FAILURES_BEFORE_POLLING ? 'polling' : 'connecting');
+    const backoff = Math.min(STREAM_BACKOFF_MAX_MS, STREAM_BACKOFF_BASE_MS * 2 ** (failures - 1));
+    timer = setTimeout(connect, backoff / 2 + Math.random() * backoff / 2);
+  };
+
+  // Every attempt gets a fresh ticket; failing to get one counts as a failed connection
+  const open = (
+    transport: 'sse' | 'websocket',
+    start: (env: ApiEnvironment, url: URL, callbacks: TransportCallbacks) => () => void,
+    callbacks: TransportCallbacks
+  ) => {
+    streamUrl(env, transport).then(
+      url => {
+        if (!closed) teardown = start(env, url, callbacks);
+      },
+      e => {
+        console.error('Stream ticket error:', e);
+        scheduleReconnect();
+      }
+    );
+  };
+
+  const connectWebSocket = () => {
+    open('websocket', openWebSocket, {
+      onOpen: () => {
+        failures = 0;
+        onStatus('websocket');
+      },
+      onEvent,
+      onFail: scheduleReconnect,
+    });
+  };
+
+  const connect = () => {
+    if (closed) return;
+    open('sse', openEventSource, {
+      onOpen: () => {
+        failures = 0;
+        onStatus('sse');
+      },
+      onEvent,
+      // Only fall back to WebSocket when SSE never came up
+      onFail: opened => (opened ? scheduleReconnect() : connectWebSocket()),
+    });
+  };
+
+  onStatus('connecting');
+  connect();
+
+  return () => {
+    closed = true;
+    clearTimeout(timer);
+    teardown();
   };
 }
 
-export { ApiError, USE_MOCK };
+export { ApiError, TimeoutError };
@@ -0,0 +1,404 @@
+// Sign-in, sessions and roles
+// Sessions are kept per environment in sessionStorage. `token` environments
+// sign in with an API token and `oidc` ones with the authorization code flow
+// plus PKCE; mock environments offer a demo sign-in for either role. The
+// role always comes from `/auth/me`, including for static credentials.
+import { useState, useEffect } from 'react';
+import { authUserDecoder, type AuthUser, type Role } from './types';
+import {
+  findEnvironment, selectEnvironment, staticAuthHeaders, type ApiEnvironment, type EnvironmentAuth
+} from './environments';
+import { clearOfflineData } from './offline';
+import { decode, DecodeError } from './decode';
+import { reportSchemaIssues } from './diagnostics';
+
+export interface AuthSession {
+  user: AuthUser;
+  accessToken?: string;
+  refreshToken?: string;
+  /** Access token expiry, epoch ms */
+  expiresAt?: number;
+  idToken?: string;
+}
+
+export type SessionStatus = 'checking' | 'signed-in' | 'signed-out';
+
+type OidcAuth = Extract<EnvironmentAuth, { type: 'oidc' }>;
+
+class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const SESSION_KEY_PREFIX = 'juggernaut.auth.session.';
+const PENDING_SIGN_IN_KEY = 'juggernaut.auth.pending';
+const REFRESH_MARGIN_MS = 60000;
+const DEFAULT_OIDC_SCOPE = 'openid profile offline_access';
+
+// ============================================================================
+// Session storage
+// ============================================================================
+
+type SessionListener = (envId: string, notice?: string) => void;
+
+const listeners = new Set<SessionListener>();
+
+export function onSessionChange(listener: SessionListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getSession(envId: string): AuthSession | null {
+  try {
+    const raw = sessionStorage.getItem(SESSION_KEY_PREFIX + envId);
+    return raw ? (JSON.parse(raw) as AuthSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+function storeSession(envId: string, session: AuthSession | null, notice?: string): void {
+  try {
+    if (session) sessionStorage.setItem(SESSION_KEY_PREFIX + envId, JSON.stringify(session));
+    else sessionStorage.removeItem(SESSION_KEY_PREFIX + envId);
+  } catch (e) {
+    console.error('Failed to persist session:', e);
+  }
+  listeners.forEach(listener => listener(envId, notice));
+}
+
+/**
+ * Whether the user has to sign in before the environment can be used
+ */
+export function requiresSignIn(env: ApiEnvironment): boolean {
+  return env.mock || env.auth.type === 'token' || env.auth.type === 'oidc';
+}
+
+async function fetchCurrentUser(env: ApiEnvironment, headers: Record<string, string>): Promise<AuthUser> {
+  const response = await fetch(`${env.baseUrl}/auth/me`, {
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+  });
+  if (response.status === 401 || response.status === 403) throw new AuthError('Credentials were rejected');
+  if (!response.ok) throw new AuthError(`Could not load the signed-in user (${response.status})`);
+
+  try {
+    const { value, issues } = decode(authUserDecoder, await response.json());
+    reportSchemaIssues(env.id, '/auth/me', issues);
+    return value;
+  } catch (e) {
+    if (!(e instanceof DecodeError)) throw e;
+    reportSchemaIssues(env.id, '/auth/me', e.issues);
+    throw new AuthError('Unexpected response from /auth/me');
+  }
+}
+
+// ============================================================================
+// Sign-in methods
+// ============================================================================
+
+export function signInDemo(env: ApiEnvironment, role: Role): AuthSession {
+  const session: AuthSession = {
+    user: { id: `demo-${role}`, name: role === 'auditor' ? 'Demo Auditor' : 'Demo Viewer', role },
+  };
+  storeSession(env.id, session);
+  return session;
+}
+
+export async function signInWithToken(env: ApiEnvironment, token: string): Promise<AuthSession> {
+  const user = await fetchCurrentUser(env, { Authorization: `Bearer ${token}` });
+  const session: AuthSession = { user, accessToken: token };
+  storeSession(env.id, session);
+  return session;
+}
+
+/**
+ * Static-credential environments: ask the backend who we are, viewer when it can't say
+ */
+async function resolveStaticSession(env: ApiEnvironment): Promise<AuthSession> {
+  let user: AuthUser;
+  try {
+    user = await fetchCurrentUser(env, staticAuthHeaders(env.auth));
+  } catch (e) {
+    console.error('Current user lookup failed, continuing as viewer:', e);
+    user = { id: 'anonymous', name: 'Anonymous', role: 'viewer' };
+  }
+  const session: AuthSession = { user };
+  storeSession(env.id, session);
+  return session;
+}
+
+// ============================================================================
+// OIDC (authorization code + PKCE)
+// ============================================================================
+
+interface OidcConfiguration {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  end_session_endpoint?: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  id_token?: string;
+}
+
+interface PendingSignIn {
+  envId: string;
+  state: string;
+  verifier: string;
+  returnTo: string;
+}
+
+const discoveries = new Map<string, Promise<OidcConfiguration>>();
+
+function discover(issuer: string): Promise<OidcConfiguration> {
+  let config = discoveries.get(issuer);
+  if (!config) {
+    config = fetch(`${issuer}/.well-known/openid-configuration`).then(response => {
+      if (!response.ok) throw new AuthError(`OIDC discovery failed (${response.status})`);
+      return response.json();
+    });
+    // Let a failed discovery be retried
+    config.catch(() => discoveries.delete(issuer));
+    discoveries.set(issuer, config);
+  }
+  return config;
+}
+
+const redirectUri = (): string => `${window.location.origin}${import.meta.env.BASE_URL}`;
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+const randomToken = (bytes: number): string => base64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+
+async function requestTokens(auth: OidcAuth, params: Record<string, string>): Promise<TokenResponse> {
+  const config = await discover(auth.issuer);
+  const response = await fetch(config.token_endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({ client_id: auth.clientId, ...params }),
+  });
+  if (!response.ok) throw new AuthError(`Token request failed (${response.status})`);
+  return response.json();
+}
+
+function sessionFromTokens(tokens: TokenResponse, user: AuthUser, previous?: AuthSession): AuthSession {
+  return {
+    user,
+    accessToken: tokens.access_token,
+    // Providers that don't rotate refresh tokens omit them on refresh
+    refreshToken: tokens.refresh_token ?? previous?.refreshToken,
+    expiresAt: tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : undefined,
+    idToken: tokens.id_token ?? previous?.idToken,
+  };
+}
+
+/**
+ * Redirect to the identity provider. The current URL is restored afterwards.
+ */
+export async function beginOidcSignIn(env: ApiEnvironment): Promise<void> {
+  if (env.auth.type !== 'oidc') throw new AuthError('Environment does not use OIDC');
+  const config = await discover(env.auth.issuer);
+  const verifier = randomToken(32);
+  const challenge = base64Url(new Uint8Array(
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))
+  ));
+  const pending: PendingSignIn = {
+    envId: env.id,
+    state: randomToken(16),
+    verifier,
+    returnTo: `${window.location.pathname}${window.location.search}`,
+  };
+  sessionStorage.setItem(PENDING_SIGN_IN_KEY, JSON.stringify(pending));
+
+  const url = new URL(config.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: env.auth.clientId,
+    redirect_uri: redirectUri(),
+    scope: env.auth.scope ?? DEFAULT_OIDC_SCOPE,
+    state: pending.state,
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+  }).toString();
+  window.location.assign(url.toString());
+}
+
+/**
+ * Finish an OIDC redirect if the URL carries one. Call once at startup after
+ * the environment registry has loaded; resolves to an error message on failure.
+ */
+export async function completeOidcSignIn(): Promise<string | null> {
+  const params = new URLSearchParams(window.location.search);
+  const state = params.get('state');
+  const code = params.get('code');
+  const error = params.get('error');
+  if (!state || (!code && !error)) return null;
+
+  let pending: PendingSignIn | null = null;
+  try {
+    pending = JSON.parse(sessionStorage.getItem(PENDING_SIGN_IN_KEY) ?? 'null');
+    sessionStorage.removeItem(PENDING_SIGN_IN_KEY);
+  } catch {
+    // Treated as an unmatched response below
+  }
+  if (!pending || pending.state !== state) {
+    window.history.replaceState(null, '', import.meta.env.BASE_URL);
+    return 'Sign-in response did not match a pending sign-in';
+  }
+  window.history.replaceState(null, '', pending.returnTo);
+  if (error) return `Sign-in failed: ${params.get('error_description') ?? error}`;
+
+  const env = findEnvironment(pending.envId);
+  if (!env || env.auth.type !== 'oidc') return 'The environment used to sign in no longer exists';
+  selectEnvironment(env.id);
+
+  try {
+    const tokens = await requestTokens(env.auth, {
+      grant_type: 'authorization_code',
+      code: code!,
+      redirect_uri: redirectUri(),
+      code_verifier: pending.verifier,
+    });
+    const user = await fetchCurrentUser(env, { Authorization: `Bearer ${tokens.access_token}` });
+    storeSession(env.id, sessionFromTokens(tokens, user));
+    return null;
+  } catch (e) {
+    console.error('OIDC sign-in error:', e);
+    return e instanceof AuthError ? e.message : 'Sign-in failed';
+  }
+}
+
+const refreshes = new Map<string, Promise<AuthSession | null>>();
+
+/**
+ * Refresh an OIDC session; resolves to null when that isn't possible.
+ * Concurrent callers share one refresh.
+ */
+export function refreshSession(env: ApiEnvironment): Promise<AuthSession | null> {
+  const inFlight = refreshes.get(env.id);
+  if (inFlight) return inFlight;
+
+  const session = getSession(env.id);
+  const auth = env.auth;
+  if (auth.type !== 'oidc' || !session?.refreshToken) return Promise.resolve(null);
+
+  const refresh = requestTokens(auth, { grant_type: 'refresh_token', refresh_token: session.refreshToken })
+    .then(tokens => {
+      const next = sessionFromTokens(tokens, session.user, session);
+      storeSession(env.id, next);
+      return next;
+    })
+    .catch(e => {
+      console.error('Token refresh error:', e);
+      return null;
+    })
+    .finally(() => refreshes.delete(env.id));
+  refreshes.set(env.id, refresh);
+  return refresh;
+}
+
+// ============================================================================
+// Request credentials
+// ============================================================================
+
+/**
+ * Headers for a request to `env`, refreshing a session that is about to expire
+ */
+export async function authorizationHeaders(env: ApiEnvironment): Promise<Record<string, string>> {
+  if (!requiresSignIn(env)) return staticAuthHeaders(env.auth);
+  let session = getSession(env.id);
+  if (session?.expiresAt && session.expiresAt - REFRESH_MARGIN_MS < Date.now()) {
+    session = (await refreshSession(env)) ?? session;
+  }
+  return session?.accessToken ? { Authorization: `Bearer ${session.accessToken}` } : {};
+}
+
+/**
+ * Drop a session the server rejected; the dashboard falls back to sign-in
+ */
+export function expireSession(env: ApiEnvironment): void {
+  if (!requiresSignIn(env) || !getSession(env.id)) return;
+  storeSession(env.id, null, 'Your session has expired. Sign in again.');
+}
+
+export async function signOut(env: ApiEnvironment): Promise<void> {
+  const session = getSession(env.id);
+  storeSession(env.id, null);
+  // Cached data belongs to the session that fetched it
+  await clearOfflineData(env.id);
+  if (env.auth.type !== 'oidc' || !session?.idToken) return;
+
+  // End the provider session too, when it supports that
+  try {
+    const config = await discover(env.auth.issuer);
+    if (!config.end_session_endpoint) return;
+    const url = new URL(config.end_session_endpoint);
+    url.search = new URLSearchParams({
+      id_token_hint: session.idToken,
+      post_logout_redirect_uri: redirectUri(),
+    }).toString();
+    window.location.assign(url.toString());
+  } catch (e) {
+    console.error('OIDC sign-out error:', e);
+  }
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+/**
+ * Session for the active environment. Static-credential environments resolve
+ * their user in the background; the others wait for a sign-in.
+ */
+export function useSession(env: ApiEnvironment) {
+  const [session, setSession] = useState<AuthSession | null>(() => getSession(env.id));
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const current = getSession(env.id);
+    setSession(current);
+    setNotice(null);
+    if (!current && !requiresSignIn(env)) {
+      resolveStaticSession(env).then(resolved => {
+        if (!cancelled) setSession(resolved);
+      });
+    }
+
+    const unsubscribe = onSessionChange((envId, message) => {
+      if (envId !== env.id) return;
+      setSession(getSession(env.id));
+      setNotice(message ?? null);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [env]);
+
+  let status: SessionStatus = 'signed-in';
+  if (!session) status = requiresSignIn(env) ? 'signed-out' : 'checking';
+
+  return {
+    session,
+    status,
+    /** Why the user was signed out, e.g. an expired session */
+    notice,
+    role: session?.user.role ?? 'viewer',
+  };
+}
+
+export { AuthError };
@@ -0,0 +1,183 @@
+// Shared UI primitives used across dashboard views
+import React from 'react';
+import { CheckCircle, XCircle, AlertCircle, WifiOff } from 'lucide-react';
+import { formatTime, formatDate } from './hooks';
+import type { LocalVerification } from './verify';
+
+interface StatusBadgeProps {
+  verified: boolean;
+  label: string;
+  /** Hover text, e.g. why a check failed */
+  title?: string;
+}
+
+export const StatusBadge: React.FC<StatusBadgeProps> = ({ verified, label, title }) => (
+  <span title={title} className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${
+    verified ? 'bg-emerald-900/50 text-emerald-400' : 'bg-red-900/50 text-red-400'
+  }`}>
+    {verified ? <CheckCircle className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+    {label}
+  </span>
+);
+
+/** Marks a post-quantum signature algorithm */
+export const PqcTag: React.FC = () => (
+  <span className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-teal-900/50 text-teal-400">PQC</span>
+);
+
+interface LocalVerificationPanelProps {
+  result: LocalVerification;
+  /** Who reported the flags the local checks are compared against */
+  claimedBy?: string;
+}
+
+/**
+ * Local check results beside the reported flags, with hash diffs where they disagree
+ */
+export const LocalVerificationPanel: React.FC<LocalVerificationPanelProps> = ({ result, claimedBy = 'Server' }) => (
+  <div className="bg-zinc-800 rounded p-3 space-y-2">
+    <div className="flex items-center justify-between">
+      <p className="text-xs text-zinc-400">
+        Local verification • {formatTime(result.verifiedAt)}
+      </p>
+      {result.mismatches.length === 0 ? (
+        <span className="text-xs text-emerald-400">Matches {claimedBy.toLowerCase()}</span>
+      ) : (
+        <span className="text-xs text-red-400">
+          {result.mismatches.length} check{result.mismatches.length === 1 ? '' : 's'} disagree with {claimedBy.toLowerCase()}
+        </span>
+      )}
+    </div>
+    {!result.registryBound && (
+      <p className="text-xs text-amber-400">
+        Self-consistent only: signatures were checked against the keys the receipt carries, not the key registry
+      </p>
+    )}
+    {result.checks.map((check, i) => {
+      const disagrees = check.local !== null && check.local !== check.server;
+      return (
+        <div
+          // Not keyed by id: two signatures may use the same algorithm
+          key={i}
+          className={`rounded p-2 text-xs ${disagrees ? 'bg-red-900/30 border border-red-800' : 'bg-zinc-900/50'}`}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium text-zinc-300">{check.label}</span>
+            <div className="flex items-center gap-2">
+              <span className="text-zinc-500">{claimedBy}</span>
+              <StatusBadge verified={check.server} label={check.server ? 'Pass' : 'Fail'} />
+              <span className="text-zinc-500">Local</span>
+              {check.local === null ? (
+                <span className="text-zinc-500">n/a</span>
+              ) : (
+                <StatusBadge verified={check.local} label={check.local ? 'Pass' : 'Fail'} />
+              )}
+            </div>
+          </div>
+          {check.engine && <p className="text-zinc-500 mt-1">via {check.engine}</p>}
+          {check.detail && <p className="text-zinc-400 mt-1">{check.detail}</p>}
+          {disagrees && check.expected && check.actual && check.expected !== check.actual && (
+            <div className="mt-2 font-mono space-y-0.5 break-all">
+              <p className="text-red-300">- {check.expected}</p>
+              <p className="text-emerald-300">+ {check.actual}</p>
+            </div>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
+interface MetricCardProps {
+  icon: React.FC<{ className?: string }>;
+  label: string;
+  value: string | number;
+  subvalue?: string;
+  color: string;
+}
+
+export const MetricCard: React.FC<MetricCardProps> = ({ icon: Icon, label, value, subvalue, color }) => (
+  <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4">
+    <div className="flex items-center gap-3">
+      <div className={`p-2 rounded-lg ${color}`}>
+        <Icon className="w-5 h-5" />
+      </div>
+      <div>
+        <p className="text-zinc-400 text-sm">{label}</p>
+        <p className="text-2xl font-semibold text-white">{value}</p>
+        {subvalue && <p className="text-xs text-zinc-500">{subvalue}</p>}
+      </div>
+    </div>
+  </div>
+);
+
+interface ErrorBannerProps {
+  message: string;
+  onRetry: () => void;
+}
+
+export const ErrorBanner: React.FC<ErrorBannerProps> = ({ message, onRetry }) => (
+  <div className="bg-red-900/20 border border-red-800 rounded-lg p-4 flex items-center justify-between">
+    <div className="flex items-center gap-3">
+      <AlertCircle className="w-5 h-5 text-red-400" />
+      <p className="text-red-300">{message}</p>
+    </div>
+    <button
+      onClick={onRetry}
+      className="px-3 py-1.5 bg-red-800 hover:bg-red-700 rounded text-sm font-medium transition"
+    >
+      Retry
+    </button>
+  </div>
+);
+
+interface PanelErrorProps {
+  message: string;
+  onRetry: () => void;
+}
+
+/**
+ * Inline failure for one panel; the rest of the view keeps working
+ */
+export const PanelError: React.FC<PanelErrorProps> = ({ message, onRetry }) => (
+  <div className="flex items-center gap-2 text-xs text-red-400" role="alert">
+    <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+    <span>{message}</span>
+    <button onClick={onRetry} className="text-red-300 hover:text-white underline">
+      Retry
+    </button>
+  </div>
+);
+
+interface OfflineBannerProps {
+  /** Epoch ms the shown data was fetched */
+  asOf: number;
+  onRetry: () => void;
+}
+
+const DAY_MS = 86400000;
+
+export const OfflineBanner: React.FC<OfflineBannerProps> = ({ asOf, onRetry }) => {
+  const iso = new Date(asOf).toISOString();
+  return (
+    <div className="bg-amber-900/20 border border-amber-800 rounded-lg p-4 flex items-center justify-between">
+      <div className="flex items-center gap-3">
+        <WifiOff className="w-5 h-5 text-amber-400" />
+        <p className="text-amber-300">
+          Offline — data as of {Date.now() - asOf < DAY_MS ? formatTime(iso) : formatDate(iso)}
+        </p>
+      </div>
+      <button
+        onClick={onRetry}
+        className="px-3 py-1.5 bg-amber-800 hover:bg-amber-700 rounded text-sm font-medium transition"
+      >
+        Retry
+      </button>
+    </div>
+  );
+};
+
+// Recharts styling for the dark theme
+export const CHART_TICK = { fill: '#71717a', fontSize: 11 };
+export const CHART_TOOLTIP_STYLE = { background: '#18181b', border: '1px solid #27272a', borderRadius: 8 };
+export const CHART_TOOLTIP_LABEL_STYLE = { color: '#a1a1aa' };
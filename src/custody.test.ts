@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+
+import { diffPayloads, diffRedactedPayloads } from './custody';
+import { redactPayload, type RedactionRule } from './redaction';
+
+const RULES: RedactionRule[] = [
+  { field: 'patientId', mode: 'mask' },
+  { field: 'diagnosis', mode: 'mask' },
+  { field: 'notes', mode: 'remove' },
+];
+
+describe('diffPayloads', () => {
+  it('compares leaves of nested objects and arrays whole', () => {
+    expect(diffPayloads({ a: 1, b: { c: 2 }, d: [1] }, { a: 1, b: { c: 3 }, d: [1, 2], e: true })).toEqual([
+      { path: 'a', kind: 'unchanged', before: 1, after: 1 },
+      { path: 'b.c', kind: 'changed', before: 2, after: 3 },
+      { path: 'd', kind: 'changed', before: [1], after: [1, 2] },
+      { path: 'e', kind: 'added', after: true },
+    ]);
+  });
+});
+
+describe('diffRedactedPayloads', () => {
+  it('does not reveal whether masked values changed, appeared or disappeared', () => {
+    const before = redactPayload({ patientId: 'P-1', ward: 'North', notes: 'a' }, RULES);
+    const after = redactPayload({ patientId: 'P-2', ward: 'South', diagnosis: 'flu', notes: 'b' }, RULES);
+    expect(diffRedactedPayloads(before, after)).toEqual([
+      { path: 'patientId', kind: 'redacted' },
+      { path: 'ward', kind: 'changed', before: 'North', after: 'South' },
+      { path: 'diagnosis', kind: 'redacted' },
+    ]);
+  });
+});
@@ -0,0 +1,153 @@
+// Receipt comparison and chain of custody
+// Diffs the payloads of two receipts, and links a subject's receipts through
+// `previousReceiptHash` to find gaps and forks in their chain.
+import type { Receipt } from './types';
+import { getReceipts, type FetchOptions } from './api';
+import { canonicalize } from './verify';
+import { getFieldValue, resolveSchema, type PayloadSchema } from './schemas';
+import type { RedactedPayload } from './redaction';
+
+/** `redacted` hides whether a masked value changed */
+export type PayloadChangeKind = 'added' | 'removed' | 'changed' | 'unchanged' | 'redacted';
+
+export interface PayloadChange {
+  /** Dotted path of a leaf value; arrays are compared whole */
+  path: string;
+  kind: PayloadChangeKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ReceiptSubject {
+  /** Payload path, e.g. `patientId` */
+  path: string;
+  label: string;
+  value: string | number;
+}
+
+/**
+ * How a receipt connects to the one before it: `start` begins the chain,
+ * `missing` points at a receipt the subject doesn't have, and `unlinked`
+ * is a later receipt that points nowhere
+ */
+export type CustodyLink = 'start' | 'linked' | 'missing' | 'unlinked';
+
+export interface CustodyEntry {
+  receipt: Receipt;
+  link: CustodyLink;
+  /** Another receipt continues from the same previous receipt */
+  forked: boolean;
+}
+
+export interface CustodyChain {
+  /** Oldest first */
+  entries: CustodyEntry[];
+  /** Entries whose link is missing or unlinked */
+  gaps: number;
+  /** Previous receipt hashes continued by more than one receipt */
+  forks: string[];
+  /** The subject has more receipts than were fetched */
+  truncated: boolean;
+}
+
+const CUSTODY_PAGE_SIZE = 100;
+const MAX_CUSTODY_RECEIPTS = 500;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const normalizeHash = (hash: string): string => (hash.startsWith('0x') ? hash.slice(2) : hash).toLowerCase();
+
+/**
+ * Leaf-by-leaf comparison, in the order fields appear in `before` then `after`
+ */
+export function diffPayloads(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  prefix = ''
+): PayloadChange[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return keys.flatMap((key): PayloadChange[] => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const a = before[key];
+    const b = after[key];
+    if (isPlainObject(a) && isPlainObject(b)) return diffPayloads(a, b, path);
+    if (a === undefined) return [{ path, kind: 'added', after: b }];
+    if (b === undefined) return [{ path, kind: 'removed', before: a }];
+    return [{ path, kind: canonicalize(a) === canonicalize(b) ? 'unchanged' : 'changed', before: a, after: b }];
+  });
+}
+
+/**
+ * Diff of what the viewer is shown. Masked values on either side collapse to
+ * `redacted`, so the diff doesn't tell whether they changed, appeared or went.
+ */
+export function diffRedactedPayloads(before: RedactedPayload, after: RedactedPayload): PayloadChange[] {
+  const redacted = new Set([...before.redactedFields, ...after.redactedFields]);
+  return diffPayloads(before.payload, after.payload).map(change => (
+    redacted.has(change.path) ? { path: change.path, kind: 'redacted' } : change
+  ));
+}
+
+/**
+ * The receipt's first schema field marked as its subject, when the payload has it
+ */
+export function receiptSubject(receipt: Receipt, schemas: PayloadSchema[]): ReceiptSubject | null {
+  for (const field of resolveSchema(receipt, schemas).fields) {
+    if (!field.subject) continue;
+    const value = getFieldValue(receipt.payload, field.path);
+    if (typeof value === 'string' || typeof value === 'number') {
+      return { path: field.path, label: field.label, value };
+    }
+  }
+  return null;
+}
+
+export function buildCustodyChain(receipts: Receipt[], truncated = false): CustodyChain {
+  const sorted = [...receipts].sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+  const hashes = new Set(sorted.map(r => normalizeHash(r.receiptHash)));
+
+  const continuations = new Map<string, number>();
+  for (const r of sorted) {
+    if (!r.previousReceiptHash) continue;
+    const previous = normalizeHash(r.previousReceiptHash);
+    continuations.set(previous, (continuations.get(previous) ?? 0) + 1);
+  }
+  const forks = [...continuations].filter(([, count]) => count > 1).map(([hash]) => hash);
+
+  const entries = sorted.map((receipt, i): CustodyEntry => {
+    const previous = receipt.previousReceiptHash && normalizeHash(receipt.previousReceiptHash);
+    let link: CustodyLink;
+    // Past the fetch limit the oldest receipts are missing, so the first one here can't be judged
+    if (i === 0 && (!previous || truncated)) link = 'start';
+    else if (!previous) link = 'unlinked';
+    else link = hashes.has(previous) ? 'linked' : 'missing';
+    return { receipt, link, forked: !!previous && forks.includes(previous) };
+  });
+
+  return {
+    entries,
+    gaps: entries.filter(e => e.link === 'missing' || e.link === 'unlinked').length,
+    forks,
+    truncated,
+  };
+}
+
+/**
+ * Every receipt for a subject, up to `MAX_CUSTODY_RECEIPTS`, chained oldest first
+ */
+export async function fetchCustodyChain(
+  subject: Pick<ReceiptSubject, 'path' | 'value'>,
+  { signal }: FetchOptions = {}
+): Promise<CustodyChain> {
+  const query = { payload: { [subject.path]: String(subject.value) } };
+  const receipts: Receipt[] = [];
+  let page = 0;
+  let pages = 1;
+  while (page < pages && receipts.length < MAX_CUSTODY_RECEIPTS) {
+    const response = await getReceipts(++page, CUSTODY_PAGE_SIZE, 'all', query, { signal });
+    receipts.push(...response.receipts);
+    pages = response.pagination.pages;
+  }
+  return buildCustodyChain(receipts, page < pages);
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  decode, object, array, optional, nullable, string, number, literal, tagged, numeric, decimal, isoTime, DecodeError
+} from './decode';
+import { publicReceiptDecoder, receiptDecoder } from './types';
+
+describe('decode', () => {
+  const point = object({ x: number, label: optional(string), kind: literal('a', 'b') });
+
+  it('returns typed values and passes unknown fields through', () => {
+    const { value, issues } = decode(point, { x: 1, kind: 'a', extra: true });
+    expect(value).toEqual({ x: 1, kind: 'a', extra: true });
+    expect(issues).toEqual([]);
+  });
+
+  it('treats null as an absent optional field', () => {
+    expect(decode(point, { x: 1, kind: 'b', label: null }).value).toEqual({ x: 1, kind: 'b' });
+    expect(decode(nullable(number), null).value).toBeNull();
+  });
+
+  it('lists every offending field with its path', () => {
+    let error: unknown;
+    try {
+      decode(array(point), [{ x: 1, kind: 'a' }, { x: 'one', kind: 'c' }]);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(DecodeError);
+    const { issues, message } = error as DecodeError;
+    expect(issues.map(i => i.path)).toEqual(['[1].x', '[1].kind']);
+    expect(message).toBe(`Invalid response: [1].x expected number, got string "one" (+1 more)`);
+  });
+
+  it('rejects non-finite numbers', () => {
+    expect(() => decode(number, NaN)).toThrow(DecodeError);
+  });
+
+  it('dispatches tagged variants by their tag', () => {
+    const event = tagged('type', {
+      receipt: object({ id: string }),
+      heartbeat: object({}),
+    });
+    expect(decode(event, { type: 'heartbeat' }).value).toEqual({ type: 'heartbeat' });
+    expect(() => decode(event, { type: 'unknown' })).toThrow(/type expected 'receipt' \| 'heartbeat'/);
+  });
+});
+
+describe('coercing primitives', () => {
+  it('coerces and reports legacy forms', () => {
+    const { value, issues } = decode(object({ n: numeric, rate: decimal, at: isoTime }), {
+      n: '42', rate: 99.5, at: Date.parse('2026-10-01T00:00:00Z'),
+    });
+    expect(value).toEqual({ n: 42, rate: '99.50', at: '2026-10-01T00:00:00.000Z' });
+    expect(issues.map(i => [i.path, i.severity])).toEqual([['n', 'coerced'], ['rate', 'coerced'], ['at', 'coerced']]);
+  });
+
+  it('rejects strings that are not numbers or timestamps', () => {
+    expect(() => decode(numeric, ' ')).toThrow(DecodeError);
+    expect(() => decode(isoTime, 'yesterday')).toThrow(DecodeError);
+  });
+});
+
+describe('receiptDecoder', () => {
+  const base = {
+    id: '1', receiptHash: 'ab', payload: {}, timestamp: 1, hashVerified: true, createdAt: '2026-10-01T00:00:00Z',
+  };
+
+  it('upgrades dual-signature flags to the signature list', () => {
+    const { value, issues } = decode(receiptDecoder, {
+      ...base, edVerified: true, ecVerified: false, signatures: { ed25519: 'aa' }, publicKeys: { secp256k1: 'bb' },
+    });
+    expect(value.signatures).toEqual([
+      { algorithm: 'ed25519', verified: true, signature: 'aa' },
+      { algorithm: 'secp256k1', verified: false, publicKey: 'bb' },
+    ]);
+    expect(value).not.toHaveProperty('edVerified');
+    expect(issues).toHaveLength(1);
+    expect(issues[0].severity).toBe('coerced');
+  });
+
+  it('rejects a receipt without signatures of either form', () => {
+    expect(() => decode(receiptDecoder, base)).toThrow(/signatures expected array/);
+  });
+});
+
+describe('publicReceiptDecoder', () => {
+  it('upgrades dual-signature flags to the signature list', () => {
+    const { value, issues } = decode(publicReceiptDecoder, {
+      id: '1', receiptHash: 'ab', createdAt: '2026-10-01T00:00:00Z', hashVerified: true, edVerified: true, ecVerified: true,
+    });
+    expect(value.signatures.map(s => [s.algorithm, s.verified])).toEqual([['ed25519', true], ['secp256k1', true]]);
+    expect(issues[0].severity).toBe('coerced');
+  });
+});
@@ -0,0 +1,245 @@
+// Runtime decoding of API responses
+// A decoder checks one shape and returns it typed. Known legacy variants are
+// coerced and reported; anything else rejects the whole response. The static
+// API types are derived from the decoders with `Infer`, so the two can't drift.
+
+export interface SchemaIssue {
+  /** Field path into the response, e.g. `receipts[3].edVerified` */
+  path: string;
+  expected: string;
+  /** Short description of what arrived */
+  received: string;
+  /** Coerced issues were repaired; errors rejected the response */
+  severity: 'coerced' | 'error';
+}
+
+export interface Decoder<T> {
+  (value: unknown, path: string, issues: SchemaIssue[]): T;
+}
+
+/** Marks object fields that may be absent */
+interface OptionalDecoder<T> extends Decoder<T | undefined> {
+  readonly optional: true;
+}
+
+type Shape = Record<string, Decoder<unknown>>;
+
+export type Infer<D> = D extends Decoder<infer T> ? T : never;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ObjectType<S extends Shape> = Simplify<
+  { [K in keyof S as S[K] extends OptionalDecoder<unknown> ? never : K]: Infer<S[K]> } &
+  { [K in keyof S as S[K] extends OptionalDecoder<unknown> ? K : never]?: Exclude<Infer<S[K]>, undefined> }
+>;
+
+export interface ObjectDecoder<S extends Shape> extends Decoder<ObjectType<S>> {
+  /** Field decoders, for building extended shapes */
+  readonly shape: S;
+}
+
+class DecodeError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(message: string, issues: SchemaIssue[]) {
+    super(message);
+    this.issues = issues;
+    this.name = 'DecodeError';
+  }
+}
+
+// Thrown between decoders once the failure is recorded; never escapes `decode`
+const INVALID = Symbol('invalid');
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `array(${value.length})`;
+  if (typeof value === 'string') return value.length > 40 ? `string "${value.slice(0, 40)}…"` : `string "${value}"`;
+  if (typeof value === 'number' || typeof value === 'boolean') return `${typeof value} ${value}`;
+  return typeof value;
+}
+
+function fail(path: string, expected: string, value: unknown, issues: SchemaIssue[]): never {
+  issues.push({ path: path || '(root)', expected, received: describe(value), severity: 'error' });
+  throw INVALID;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const child = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+/**
+ * Decode `value`, or throw a DecodeError listing every offending field.
+ * Coercions are returned alongside the value.
+ */
+export function decode<T>(decoder: Decoder<T>, value: unknown): { value: T; issues: SchemaIssue[] } {
+  const issues: SchemaIssue[] = [];
+  try {
+    return { value: decoder(value, '', issues), issues };
+  } catch (e) {
+    if (e !== INVALID) throw e;
+    const errors = issues.filter(i => i.severity === 'error');
+    const first = errors[0];
+    const more = errors.length > 1 ? ` (+${errors.length - 1} more)` : '';
+    throw new DecodeError(`Invalid response: ${first.path} expected ${first.expected}, got ${first.received}${more}`, issues);
+  }
+}
+
+// ============================================================================
+// Primitives
+// ============================================================================
+
+export const string: Decoder<string> = (value, path, issues) =>
+  typeof value === 'string' ? value : fail(path, 'string', value, issues);
+
+export const number: Decoder<number> = (value, path, issues) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'number', value, issues);
+
+export const boolean: Decoder<boolean> = (value, path, issues) =>
+  typeof value === 'boolean' ? value : fail(path, 'boolean', value, issues);
+
+export function literal<const T extends string>(...values: T[]): Decoder<T> {
+  const expected = values.map(v => `'${v}'`).join(' | ');
+  return (value, path, issues) =>
+    values.includes(value as T) ? (value as T) : fail(path, expected, value, issues);
+}
+
+/** Any JSON object, left as it is */
+export const unknownRecord: Decoder<Record<string, unknown>> = (value, path, issues) =>
+  isPlainObject(value) ? value : fail(path, 'object', value, issues);
+
+// ============================================================================
+// Combinators
+// ============================================================================
+
+/**
+ * An absent field; null is accepted as absent since many backends send it
+ */
+export function optional<T>(decoder: Decoder<T>): OptionalDecoder<T> {
+  const decode: Decoder<T | undefined> = (value, path, issues) =>
+    value === undefined || value === null ? undefined : decoder(value, path, issues);
+  return Object.assign(decode, { optional: true as const });
+}
+
+export function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+  return (value, path, issues) => (value === null ? null : decoder(value, path, issues));
+}
+
+export function array<T>(item: Decoder<T>): Decoder<T[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) fail(path, 'array', value, issues);
+    let failed = false;
+    const out = value.map((v, i) => {
+      try {
+        return item(v, `${path}[${i}]`, issues);
+      } catch (e) {
+        if (e !== INVALID) throw e;
+        failed = true;
+        return undefined as T;
+      }
+    });
+    if (failed) throw INVALID;
+    return out;
+  };
+}
+
+export function record<T>(item: Decoder<T>): Decoder<Record<string, T>> {
+  return (value, path, issues) => {
+    if (!isPlainObject(value)) fail(path, 'object', value, issues);
+    let failed = false;
+    const out: Record<string, T> = {};
+    for (const [key, v] of Object.entries(value)) {
+      try {
+        out[key] = item(v, child(path, key), issues);
+      } catch (e) {
+        if (e !== INVALID) throw e;
+        failed = true;
+      }
+    }
+    if (failed) throw INVALID;
+    return out;
+  };
+}
+
+/**
+ * Every field in `shape` is checked; fields the shape doesn't know are
+ * passed through untouched so exports keep them
+ */
+export function object<S extends Shape>(shape: S): ObjectDecoder<S> {
+  const decode: Decoder<ObjectType<S>> = (value, path, issues) => {
+    if (!isPlainObject(value)) fail(path, 'object', value, issues);
+    let failed = false;
+    const out: Record<string, unknown> = { ...value };
+    for (const [key, field] of Object.entries(shape)) {
+      try {
+        const decoded = field(value[key], child(path, key), issues);
+        if (decoded === undefined) delete out[key];
+        else out[key] = decoded;
+      } catch (e) {
+        if (e !== INVALID) throw e;
+        failed = true;
+      }
+    }
+    if (failed) throw INVALID;
+    return out as ObjectType<S>;
+  };
+  return Object.assign(decode, { shape });
+}
+
+/**
+ * Objects told apart by a string `tag` field, e.g. stream events by `type`
+ */
+export function tagged<K extends string, M extends Record<string, Decoder<object>>>(
+  tag: K,
+  variants: M
+): Decoder<{ [V in keyof M]: Infer<M[V]> & { [P in K]: V } }[keyof M]> {
+  const expected = Object.keys(variants).map(v => `'${v}'`).join(' | ');
+  return (value, path, issues) => {
+    if (!isPlainObject(value)) fail(path, 'object', value, issues);
+    const name = value[tag];
+    if (typeof name !== 'string' || !Object.prototype.hasOwnProperty.call(variants, name)) fail(child(path, tag), expected, name, issues);
+    return variants[name](value, path, issues) as never;
+  };
+}
+
+/**
+ * Accept a legacy variant: when `upgrade` recognises the value it returns the
+ * current form, which is reported as a coercion and then decoded as usual
+ */
+export function withLegacy<T>(
+  decoder: Decoder<T>,
+  legacy: string,
+  upgrade: (value: unknown) => unknown
+): Decoder<T> {
+  return (value, path, issues) => {
+    const upgraded = upgrade(value);
+    if (upgraded === undefined) return decoder(value, path, issues);
+    issues.push({ path: path || '(root)', expected: legacy, received: describe(value), severity: 'coerced' });
+    return decoder(upgraded, path, issues);
+  };
+}
+
+// ============================================================================
+// Coercing primitives
+// ============================================================================
+
+/** A number, also accepted as a numeric string */
+export const numeric: Decoder<number> = withLegacy(number, 'number, not a numeric string', value =>
+  typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value)) ? Number(value) : undefined
+);
+
+/** A fixed-point string such as a rate, also accepted as a number */
+export const decimal: Decoder<string> = withLegacy(string, 'decimal string, not a number', value =>
+  typeof value === 'number' && Number.isFinite(value) ? value.toFixed(2) : undefined
+);
+
+const isoString: Decoder<string> = (value, path, issues) =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? value : fail(path, 'ISO timestamp', value, issues);
+
+/** An ISO timestamp, also accepted as epoch milliseconds */
+export const isoTime: Decoder<string> = withLegacy(isoString, 'ISO timestamp, not epoch ms', value =>
+  typeof value === 'number' && Number.isFinite(value) ? new Date(value).toISOString() : undefined
+);
+
+export { DecodeError };
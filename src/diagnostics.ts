@@ -0,0 +1,88 @@
+// Schema violations reported while decoding API responses
+// Kept in memory for the developer diagnostics panel. Repeats of the same
+// field on the same endpoint are counted rather than listed again.
+import { useState, useEffect } from 'react';
+
+import type { SchemaIssue } from './decode';
+
+export interface SchemaViolation extends SchemaIssue {
+  envId: string;
+  /** Endpoint path without the query string */
+  endpoint: string;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+const MAX_VIOLATIONS = 100;
+
+let violations: SchemaViolation[] = [];
+const listeners = new Set<() => void>();
+
+// `receipts[3].edVerified` and `receipts[7].edVerified` are the same problem
+const normalizePath = (path: string): string => path.replace(/\[\d+\]/g, '[]');
+
+const violationKey = (v: Pick<SchemaViolation, 'envId' | 'endpoint' | 'path' | 'severity'>): string =>
+  `${v.envId} ${v.endpoint} ${v.path} ${v.severity}`;
+
+export function reportSchemaIssues(envId: string, endpoint: string, issues: SchemaIssue[]): void {
+  if (issues.length === 0) return;
+  const now = Date.now();
+  const path = endpoint.split('?')[0];
+  const byKey = new Map(violations.map(v => [violationKey(v), v]));
+
+  for (const issue of issues) {
+    const entry = { ...issue, envId, endpoint: path, path: normalizePath(issue.path) };
+    const existing = byKey.get(violationKey(entry));
+    if (existing) {
+      byKey.set(violationKey(entry), { ...existing, ...entry, count: existing.count + 1, lastSeen: now });
+    } else {
+      byKey.set(violationKey(entry), { ...entry, count: 1, firstSeen: now, lastSeen: now });
+    }
+  }
+
+  violations = [...byKey.values()]
+    .sort((a, b) => b.lastSeen - a.lastSeen)
+    .slice(0, MAX_VIOLATIONS);
+  listeners.forEach(listener => listener());
+}
+
+export function getSchemaViolations(): SchemaViolation[] {
+  return violations;
+}
+
+export function clearSchemaViolations(): void {
+  violations = [];
+  listeners.forEach(listener => listener());
+}
+
+export function onSchemaViolations(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function useSchemaViolations(): SchemaViolation[] {
+  const [current, setCurrent] = useState(getSchemaViolations);
+
+  useEffect(() => {
+    setCurrent(getSchemaViolations());
+    return onSchemaViolations(() => setCurrent(getSchemaViolations()));
+  }, []);
+
+  return current;
+}
+
+const DIAGNOSTICS_KEY = 'juggernaut.diagnostics';
+
+/**
+ * The panel is always on in development; elsewhere set
+ * `localStorage['juggernaut.diagnostics'] = 'on'`
+ */
+export function diagnosticsEnabled(): boolean {
+  if (import.meta.env.DEV) return true;
+  try {
+    return localStorage.getItem(DIAGNOSTICS_KEY) === 'on';
+  } catch {
+    return false;
+  }
+}
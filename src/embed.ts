@@ -0,0 +1,59 @@
+// <juggernaut-receipt> custom element
+// Frames the verification widget page from the dashboard's origin, so the
+// host page needs only this script:
+//
+//   <script type="module" src="https://…/juggernaut-rail-dashboard/embed.js"></script>
+//   <juggernaut-receipt receipt="<hash or id>" env="production"></juggernaut-receipt>
+//
+// The payload is only shown with the `allow-payload` attribute.
+import { WIDGET_PAGE, WIDGET_HEIGHT_MESSAGE, widgetSearch } from './widgetParams';
+
+// The widget page sits under the base path on this script's origin; kept in a
+// variable so Vite doesn't treat it as an asset URL
+const scriptUrl = import.meta.url;
+const WIDGET_URL = new URL(`${import.meta.env.BASE_URL}${WIDGET_PAGE}`, scriptUrl);
+
+class JuggernautReceipt extends HTMLElement {
+  static observedAttributes = ['receipt', 'env', 'allow-payload'];
+
+  private frame: HTMLIFrameElement | null = null;
+
+  private onMessage = (event: MessageEvent) => {
+    if (!this.frame || event.source !== this.frame.contentWindow || event.origin !== WIDGET_URL.origin) return;
+    if (event.data?.type === WIDGET_HEIGHT_MESSAGE && typeof event.data.height === 'number') {
+      this.frame.style.height = `${event.data.height}px`;
+    }
+  };
+
+  connectedCallback() {
+    const root = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
+    this.frame = document.createElement('iframe');
+    this.frame.title = 'Receipt verification';
+    this.frame.style.cssText = 'border:0;width:100%;height:220px;color-scheme:dark';
+    root.replaceChildren(this.frame);
+    window.addEventListener('message', this.onMessage);
+    this.load();
+  }
+
+  disconnectedCallback() {
+    window.removeEventListener('message', this.onMessage);
+    this.frame = null;
+  }
+
+  attributeChangedCallback() {
+    this.load();
+  }
+
+  private load() {
+    if (!this.frame) return;
+    const url = new URL(WIDGET_URL);
+    url.search = widgetSearch({
+      receipt: this.getAttribute('receipt') ?? '',
+      env: this.getAttribute('env'),
+      allowPayload: this.hasAttribute('allow-payload'),
+    });
+    if (this.frame.src !== url.href) this.frame.src = url.href;
+  }
+}
+
+if (!customElements.get('juggernaut-receipt')) customElements.define('juggernaut-receipt', JuggernautReceipt);
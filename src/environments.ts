@@ -0,0 +1,194 @@
+// Runtime API environment registry
+// Environments are read at startup from `environments.json` served next to
+// the app, so one build can target staging, production or any customer rail.
+// Without that file the build-time VITE_API_URL is the only environment.
+import { DEFAULT_REDACTION_RULES, isRedactionRule, type RedactionRule } from './redaction';
+import {
+  BUILTIN_PAYLOAD_SCHEMAS, isPayloadSchema, mergeSchemas, withSensitiveFields, type PayloadSchema
+} from './schemas';
+
+export type EnvironmentColor = 'zinc' | 'blue' | 'emerald' | 'amber' | 'red' | 'violet';
+
+/**
+ * How requests are authenticated. `bearer` and `header` credentials are static
+ * and visible to anyone who can load the registry; `token` and `oidc` make the
+ * user sign in.
+ */
+export type EnvironmentAuth =
+  | { type: 'none' }
+  | { type: 'bearer'; token: string }
+  | { type: 'header'; header: string; value: string }
+  | { type: 'token' }
+  | { type: 'oidc'; issuer: string; clientId: string; scope?: string };
+
+export interface ApiEnvironment {
+  id: string;
+  name: string;
+  baseUrl: string;
+  auth: EnvironmentAuth;
+  color: EnvironmentColor;
+  /** Answer from the built-in mock dataset instead of `baseUrl` */
+  mock: boolean;
+  /** JSON-RPC node for independent anchor verification */
+  rpcUrl?: string;
+  /**
+   * Payload fields masked on screen, in the offline cache and in exports until
+   * an auditor reveals them, sensitive schema fields included. Masking happens
+   * in the browser and does not protect data the API returns.
+   */
+  redaction: RedactionRule[];
+  /** Payload schemas by receipt type */
+  schemas: PayloadSchema[];
+}
+
+const USE_MOCK = import.meta.env.VITE_USE_MOCK === 'true' || import.meta.env.DEV;
+
+const ENVIRONMENTS_URL = import.meta.env.VITE_ENVIRONMENTS_URL || `${import.meta.env.BASE_URL}environments.json`;
+const SELECTED_KEY = 'juggernaut.environment';
+
+const ENVIRONMENT_COLORS: EnvironmentColor[] = ['zinc', 'blue', 'emerald', 'amber', 'red', 'violet'];
+
+function defaultAuth(): EnvironmentAuth {
+  const { VITE_AUTH, VITE_OIDC_ISSUER, VITE_OIDC_CLIENT_ID, VITE_OIDC_SCOPE } = import.meta.env;
+  if (VITE_AUTH === 'token') return { type: 'token' };
+  if (VITE_AUTH === 'oidc' && VITE_OIDC_ISSUER && VITE_OIDC_CLIENT_ID) {
+    return { type: 'oidc', issuer: VITE_OIDC_ISSUER, clientId: VITE_OIDC_CLIENT_ID, scope: VITE_OIDC_SCOPE || undefined };
+  }
+  return { type: 'none' };
+}
+
+const DEFAULT_ENVIRONMENT: ApiEnvironment = {
+  id: 'default',
+  name: USE_MOCK ? 'Demo' : 'Default',
+  baseUrl: import.meta.env.VITE_API_URL || 'http://localhost:8000',
+  auth: defaultAuth(),
+  color: 'zinc',
+  mock: USE_MOCK,
+  rpcUrl: import.meta.env.VITE_RPC_URL || undefined,
+  redaction: withSensitiveFields(DEFAULT_REDACTION_RULES, BUILTIN_PAYLOAD_SCHEMAS),
+  schemas: BUILTIN_PAYLOAD_SCHEMAS,
+};
+
+let environments: ApiEnvironment[] = [DEFAULT_ENVIRONMENT];
+let active: ApiEnvironment = DEFAULT_ENVIRONMENT;
+
+function parseAuth(value: unknown): EnvironmentAuth | null {
+  if (value === undefined) return { type: 'none' };
+  const a = value as Record<string, unknown> | null;
+  if (a?.type === 'none') return { type: 'none' };
+  if (a?.type === 'bearer' && typeof a.token === 'string') return { type: 'bearer', token: a.token };
+  if (a?.type === 'header' && typeof a.header === 'string' && typeof a.value === 'string') {
+    return { type: 'header', header: a.header, value: a.value };
+  }
+  if (a?.type === 'token') return { type: 'token' };
+  if (a?.type === 'oidc' && typeof a.issuer === 'string' && typeof a.clientId === 'string') {
+    return {
+      type: 'oidc',
+      issuer: a.issuer.replace(/\/$/, ''),
+      clientId: a.clientId,
+      scope: typeof a.scope === 'string' ? a.scope : undefined,
+    };
+  }
+  return null;
+}
+
+/**
+ * Validate one registry entry, filling in defaults; null when it is unusable
+ */
+function toEnvironment(value: unknown): ApiEnvironment | null {
+  if (!value || typeof value !== 'object') return null;
+  const e = value as Record<string, unknown>;
+  const auth = parseAuth(e.auth);
+  const mock = e.mock === true;
+  if (typeof e.id !== 'string' || typeof e.name !== 'string' || !auth) return null;
+  if (typeof e.baseUrl !== 'string' && !mock) return null;
+  if (e.redaction !== undefined && !(Array.isArray(e.redaction) && e.redaction.every(isRedactionRule))) return null;
+  if (e.schemas !== undefined && !(Array.isArray(e.schemas) && e.schemas.every(isPayloadSchema))) return null;
+  const schemas = mergeSchemas((e.schemas as PayloadSchema[] | undefined) ?? []);
+
+  return {
+    id: e.id,
+    name: e.name,
+    baseUrl: typeof e.baseUrl === 'string' ? e.baseUrl.replace(/\/$/, '') : '',
+    auth,
+    color: ENVIRONMENT_COLORS.includes(e.color as EnvironmentColor) ? e.color as EnvironmentColor : 'zinc',
+    mock,
+    rpcUrl: typeof e.rpcUrl === 'string' ? e.rpcUrl : undefined,
+    redaction: withSensitiveFields((e.redaction as RedactionRule[] | undefined) ?? DEFAULT_REDACTION_RULES, schemas),
+    schemas,
+  };
+}
+
+/**
+ * Parse a registry file: a list of environments, or `{ environments: [...] }`
+ */
+export function parseEnvironments(data: unknown): ApiEnvironment[] {
+  const list = Array.isArray(data) ? data : (data as { environments?: unknown })?.environments;
+  if (!Array.isArray(list)) return [];
+  const parsed: ApiEnvironment[] = [];
+  list.forEach((item, i) => {
+    const env = toEnvironment(item);
+    if (!env) console.error(`Environment ${i + 1} in registry is invalid, skipping`);
+    else if (parsed.some(p => p.id === env.id)) console.error(`Duplicate environment id "${env.id}", skipping`);
+    else parsed.push(env);
+  });
+  return parsed;
+}
+
+/**
+ * Load the registry and select `preferredId`, else the last used environment.
+ * A missing registry file is not an error.
+ */
+export async function loadEnvironments(preferredId?: string | null): Promise<ApiEnvironment[]> {
+  try {
+    const response = await fetch(ENVIRONMENTS_URL);
+    if (response.ok && response.headers.get('content-type')?.includes('json')) {
+      const registry = parseEnvironments(await response.json());
+      if (registry.length > 0) environments = registry;
+    }
+  } catch (e) {
+    console.error('Environment registry error:', e);
+  }
+
+  let saved: string | null = null;
+  try {
+    saved = localStorage.getItem(SELECTED_KEY);
+  } catch {
+    // Storage unavailable; fall back to the first environment
+  }
+  active = findEnvironment(preferredId ?? '') ?? findEnvironment(saved ?? '') ?? environments[0];
+  return environments;
+}
+
+export function getEnvironments(): ApiEnvironment[] {
+  return environments;
+}
+
+export function getActiveEnvironment(): ApiEnvironment {
+  return active;
+}
+
+export function findEnvironment(id: string): ApiEnvironment | undefined {
+  return environments.find(e => e.id === id);
+}
+
+export function selectEnvironment(id: string): ApiEnvironment {
+  active = findEnvironment(id) ?? active;
+  try {
+    localStorage.setItem(SELECTED_KEY, active.id);
+  } catch (e) {
+    console.error('Failed to persist environment selection:', e);
+  }
+  return active;
+}
+
+/**
+ * Headers for static credentials; signed-in environments get theirs from the session
+ */
+export function staticAuthHeaders(auth: EnvironmentAuth): Record<string, string> {
+  switch (auth.type) {
+    case 'bearer': return { Authorization: `Bearer ${auth.token}` };
+    case 'header': return { [auth.header]: auth.value };
+    default: return {};
+  }
+}
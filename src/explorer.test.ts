@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+
+import type { Receipt, ReceiptSort } from './types';
+import { compareReceipts, decodeCursor, encodeCursor, DEFAULT_SORT } from './explorer';
+import { mockReceiptPage } from './mocks';
+
+function receipt(n: number, minutesAgo: number, blockNumber?: number): Receipt {
+  return {
+    id: `rec_${n}`,
+    receiptHash: `${n}`,
+    payload: {},
+    timestamp: 0,
+    hashVerified: true,
+    createdAt: new Date(Date.parse('2026-10-01T12:00:00.000Z') - minutesAgo * 60000).toISOString(),
+    txHash: blockNumber === undefined ? undefined : `0x${n}`,
+    blockNumber,
+    signatures: [{ algorithm: 'ed25519', verified: true }],
+  };
+}
+
+// Two receipts share a timestamp, so ids have to break the tie
+const RECEIPTS = [
+  receipt(1, 50, 100), receipt(2, 40, 100), receipt(3, 30), receipt(4, 30, 101), receipt(10, 20), receipt(11, 10, 102),
+];
+
+/** Every page from the first cursor to the last */
+function allPages(receipts: Receipt[], limit: number, sort: ReceiptSort): string[][] {
+  const pages: string[][] = [];
+  let cursor: string | null = null;
+  do {
+    const page = mockReceiptPage(receipts, cursor, limit, sort);
+    pages.push(page.receipts.map(r => r.id));
+    cursor = page.nextCursor ?? null;
+  } while (cursor && pages.length < 10);
+  return pages;
+}
+
+describe('cursors', () => {
+  it('round-trip a sort position', () => {
+    const cursor = encodeCursor({ key: 1759320000000, id: 'rec_7' });
+    expect(decodeCursor(cursor)).toEqual({ key: 1759320000000, id: 'rec_7' });
+  });
+
+  it('reject cursors that are not positions', () => {
+    expect(decodeCursor('not base64!')).toBeNull();
+    expect(decodeCursor(btoa('not json'))).toBeNull();
+    expect(decodeCursor(btoa(JSON.stringify({ key: '1', id: 'rec_1' })))).toBeNull();
+    expect(decodeCursor(btoa('null'))).toBeNull();
+  });
+});
+
+describe('mockReceiptPage', () => {
+  it('pages newest first, breaking timestamp ties by id', () => {
+    expect(allPages(RECEIPTS, 4, DEFAULT_SORT)).toEqual([
+      ['rec_11', 'rec_10', 'rec_4', 'rec_3'],
+      ['rec_2', 'rec_1'],
+    ]);
+  });
+
+  it('covers every receipt exactly once in any order', () => {
+    const sorts: ReceiptSort[] = [
+      { field: 'time', direction: 'asc' },
+      { field: 'block', direction: 'desc' },
+      { field: 'status', direction: 'asc' },
+    ];
+    for (const sort of sorts) {
+      const ids = allPages(RECEIPTS, 2, sort).flat();
+      const expected = [...RECEIPTS].sort((a, b) => compareReceipts(a, b, sort)).map(r => r.id);
+      expect(ids).toEqual(expected);
+    }
+  });
+
+  it('sorts receipts without a block as the newest block', () => {
+    expect(allPages(RECEIPTS, 10, { field: 'block', direction: 'desc' })[0].slice(0, 2)).toEqual(['rec_10', 'rec_3']);
+  });
+
+  it('does not shift later pages when receipts arrive at the top', () => {
+    const first = mockReceiptPage(RECEIPTS, null, 3, DEFAULT_SORT);
+    const grown = [...RECEIPTS, receipt(12, 5), receipt(13, 1)];
+    const second = mockReceiptPage(grown, first.nextCursor!, 3, DEFAULT_SORT);
+    expect(second.receipts.map(r => r.id)).toEqual(['rec_3', 'rec_2', 'rec_1']);
+    expect(second.total).toBe(8);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('ends with no cursor when the last page is exactly full', () => {
+    const pages = allPages(RECEIPTS, 3, DEFAULT_SORT);
+    expect(pages).toHaveLength(2);
+    expect(mockReceiptPage([], null, 3, DEFAULT_SORT)).toEqual({ receipts: [], nextCursor: null, total: 0 });
+  });
+
+  it('rejects a cursor it did not issue', () => {
+    expect(() => mockReceiptPage(RECEIPTS, 'bogus', 3, DEFAULT_SORT)).toThrow('Invalid cursor');
+  });
+});
@@ -0,0 +1,71 @@
+// Receipts explorer ordering
+// Sort keys for the explorer's columns. The backend sorts the same way; the
+// mock API uses these to serve keyset pages.
+import type { Receipt, ReceiptSort, ReceiptSortField } from './types';
+import { hasFailedCheck } from './forensics';
+
+export type ReceiptStatus = 'failed' | 'pending' | 'anchored';
+
+/** Ascending status order: problems first, then work in progress */
+const STATUS_RANK: Record<ReceiptStatus, number> = { failed: 0, pending: 1, anchored: 2 };
+
+export const DEFAULT_SORT: ReceiptSort = { field: 'time', direction: 'desc' };
+
+export function receiptStatus(receipt: Receipt): ReceiptStatus {
+  if (hasFailedCheck(receipt)) return 'failed';
+  return receipt.txHash ? 'anchored' : 'pending';
+}
+
+/**
+ * Numeric sort key; receipts without a block sort as the newest block
+ */
+export function sortKey(receipt: Receipt, field: ReceiptSortField): number {
+  switch (field) {
+    case 'time': return Date.parse(receipt.createdAt);
+    case 'block': return receipt.blockNumber ?? Number.MAX_SAFE_INTEGER;
+    case 'status': return STATUS_RANK[receiptStatus(receipt)];
+  }
+}
+
+/** A receipt's place in a sort order */
+export interface SortPosition {
+  key: number;
+  id: string;
+}
+
+/**
+ * Opaque keyset cursor for the position of the last receipt on a page
+ */
+export function encodeCursor({ key, id }: SortPosition): string {
+  return btoa(JSON.stringify({ key, id }));
+}
+
+/**
+ * Position a cursor continues after; null when it is not one of ours
+ */
+export function decodeCursor(cursor: string): SortPosition | null {
+  try {
+    const position: unknown = JSON.parse(atob(cursor));
+    const { key, id } = (position ?? {}) as Record<string, unknown>;
+    return typeof key === 'number' && typeof id === 'string' ? { key, id } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Order by a sort key, ties broken by id so every receipt has one place
+ */
+export function compareByKey(a: SortPosition, b: SortPosition, { direction }: ReceiptSort): number {
+  const order = a.key - b.key || a.id.localeCompare(b.id, undefined, { numeric: true });
+  return direction === 'asc' ? order : -order;
+}
+
+export function compareReceipts(a: Receipt, b: Receipt, sort: ReceiptSort): number {
+  return compareByKey({ key: sortKey(a, sort.field), id: a.id }, { key: sortKey(b, sort.field), id: b.id }, sort);
+}
+
+/**
+ * New receipts belong at the top only when the newest come first
+ */
+export const newestFirst = (sort: ReceiptSort): boolean => sort.field === 'time' && sort.direction === 'desc';
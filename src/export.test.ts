@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { unzipSync, strFromU8 } from 'fflate';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+
+import type { ChainStatus, Receipt } from './types';
+import { getChainStatus, getReceiptsByCursor } from './api';
+import { exportReceipts, type BundleManifest, type ExportProgress } from './export';
+
+vi.mock('./api', async importOriginal => ({
+  ...await importOriginal<typeof import('./api')>(),
+  getReceiptsByCursor: vi.fn(),
+  getChainStatus: vi.fn(),
+}));
+
+const CHAIN: ChainStatus = { anchored: 2, pending: 1, unanchored: 0 };
+
+function receipt(n: number, overrides: Partial<Receipt> = {}): Receipt {
+  return {
+    id: `rec_${n}`,
+    receiptHash: `${n}`.padStart(64, '0'),
+    payload: { n },
+    timestamp: n,
+    hashVerified: true,
+    createdAt: '2026-10-01T00:00:00.000Z',
+    txHash: n % 2 === 0 ? `0x${n}` : undefined,
+    signatures: [{ algorithm: 'ed25519', signature: 'aa', publicKey: 'bb', verified: true }],
+    ...overrides,
+  };
+}
+
+/** Serve `pages` in order through cursors `c1`, `c2`, … */
+function servePages(pages: Receipt[][], total?: number) {
+  vi.mocked(getReceiptsByCursor).mockImplementation(async cursor => {
+    const index = cursor === null ? 0 : Number(cursor.slice(1));
+    const next = index + 1 < pages.length ? `c${index + 1}` : null;
+    return { receipts: pages[index], nextCursor: next, total };
+  });
+}
+
+beforeEach(() => {
+  vi.mocked(getReceiptsByCursor).mockReset();
+  vi.mocked(getChainStatus).mockReset().mockResolvedValue(CHAIN);
+});
+
+describe('CSV export', () => {
+  it('quotes cells with commas, quotes and line breaks', async () => {
+    servePages([[receipt(1, { id: 'a,"b"\nc', payload: { note: 'x,y' } })]]);
+    const { blob, count } = await exportReceipts({ format: 'csv', filter: 'all', query: {} });
+    const [header, row] = (await blob.text()).split('\r\n');
+
+    expect(count).toBe(1);
+    expect(header.split(',')[0]).toBe('id');
+    expect(row.startsWith('"a,""b""\nc",')).toBe(true);
+    expect(row).toContain(',"{""note"":""x,y""}",');
+  });
+
+  it('leaves missing values empty', async () => {
+    servePages([[receipt(1, { signatures: [] })]]);
+    const { blob } = await exportReceipts({ format: 'csv', filter: 'all', query: {} });
+    const row = (await blob.text()).split('\r\n')[1];
+    // edVerified, ecVerified, then txHash and blockNumber
+    expect(row.split(',').slice(4, 6)).toEqual(['', '']);
+    expect(row).toContain(',true,,,');
+  });
+});
+
+describe('cursor paging', () => {
+  it('follows the cursor to the last page and reports progress', async () => {
+    servePages([[receipt(1), receipt(2)], [receipt(3)]], 3);
+    const progress: ExportProgress[] = [];
+    const { blob, count } = await exportReceipts({
+      format: 'jsonl', filter: 'verified', query: { text: 'x' }, onProgress: p => progress.push(p),
+    });
+
+    expect(count).toBe(3);
+    expect((await blob.text()).trim().split('\n').map(line => JSON.parse(line).id)).toEqual(['rec_1', 'rec_2', 'rec_3']);
+    expect(vi.mocked(getReceiptsByCursor).mock.calls.map(([cursor, , filter]) => [cursor, filter]))
+      .toEqual([[null, 'verified'], ['c1', 'verified']]);
+    expect(progress).toEqual([{ exported: 2, total: 3 }, { exported: 3, total: 3 }]);
+  });
+
+  it('reports no total when the backend does not count', async () => {
+    servePages([[receipt(1)]]);
+    const progress: ExportProgress[] = [];
+    await exportReceipts({ format: 'jsonl', filter: 'all', query: {}, onProgress: p => progress.push(p) });
+    expect(progress).toEqual([{ exported: 1, total: null }]);
+  });
+
+  it('redacts payloads with the given rules', async () => {
+    servePages([[receipt(1, { payload: { patientId: 'P-1', ward: 'North' } })]]);
+    const { blob } = await exportReceipts({
+      format: 'jsonl', filter: 'all', query: {}, redaction: [{ field: 'patientId', mode: 'remove' }],
+    });
+    expect(JSON.parse(await blob.text()).payload).toEqual({ ward: 'North' });
+  });
+});
+
+describe('audit bundle', () => {
+  it('records a checksum for every file and counts the receipts', async () => {
+    servePages([[receipt(1), receipt(2, { hashVerified: false })], [receipt(4)]], 3);
+    const { blob, count } = await exportReceipts({ format: 'bundle', filter: 'all', query: {} });
+    const files = unzipSync(new Uint8Array(await blob.arrayBuffer()));
+    const manifest: BundleManifest = JSON.parse(strFromU8(files['manifest.json']));
+
+    expect(count).toBe(3);
+    expect(Object.keys(files).sort()).toEqual(['chain-status.json', 'manifest.json', 'receipts.jsonl']);
+    expect(manifest.counts).toEqual({ receipts: 3, verified: 2, failed: 1, anchored: 2, pending: 1 });
+    expect(manifest.files.map(f => f.name).sort()).toEqual(['chain-status.json', 'receipts.jsonl']);
+    for (const { name, bytes, sha256: checksum } of manifest.files) {
+      expect(files[name].length).toBe(bytes);
+      expect(bytesToHex(sha256(files[name]))).toBe(checksum);
+    }
+    expect(JSON.parse(strFromU8(files['chain-status.json']))).toEqual(CHAIN);
+  });
+
+  it('passes the signal to the chain status request', async () => {
+    servePages([[receipt(1)]]);
+    const controller = new AbortController();
+    await exportReceipts({ format: 'bundle', filter: 'all', query: {}, signal: controller.signal });
+    expect(getChainStatus).toHaveBeenCalledWith({ signal: controller.signal });
+  });
+});
+
+describe('cancellation', () => {
+  it('stops paging once the signal fires', async () => {
+    const controller = new AbortController();
+    servePages([[receipt(1)], [receipt(2)], [receipt(3)]]);
+    const result = exportReceipts({
+      format: 'csv', filter: 'all', query: {}, signal: controller.signal, onProgress: () => controller.abort(),
+    });
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(getReceiptsByCursor).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start a bundle after a cancelled chain status request', async () => {
+    const controller = new AbortController();
+    vi.mocked(getChainStatus).mockImplementation(async () => {
+      controller.abort();
+      return CHAIN;
+    });
+    servePages([[receipt(1)]]);
+
+    await expect(exportReceipts({ format: 'bundle', filter: 'all', query: {}, signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+    expect(getReceiptsByCursor).not.toHaveBeenCalled();
+  });
+});
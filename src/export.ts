@@ -0,0 +1,237 @@
+// Receipt export: CSV, JSON Lines and zipped audit bundles
+// Bundles are checksummed, not signed: the browser holds no key an auditor
+// could trust, so the manifest catches corruption but not deliberate edits.
+// Authenticity comes from re-verifying each receipt's own signatures.
+import { Zip, ZipDeflate, strToU8 } from 'fflate';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import type { ChainStatus, CursorPage, FilterType, Receipt, ReceiptQuery } from './types';
+import { getChainStatus, getReceiptsByCursor } from './api';
+import { canonicalize } from './verify';
+import { DEFAULT_SORT } from './explorer';
+import { redactReceipt, type RedactionRule } from './redaction';
+import { receiptSignature, signaturesVerified } from './signatures';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'bundle';
+
+export interface ExportProgress {
+  exported: number;
+  /** Matching receipts overall; null when the backend doesn't count them */
+  total: number | null;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  filter: FilterType;
+  query: ReceiptQuery;
+  /** Payload fields to redact; exported payloads then no longer match their hashes */
+  redaction?: RedactionRule[];
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  filename: string;
+  count: number;
+}
+
+export interface BundleManifest {
+  generatedAt: string;
+  filter: FilterType;
+  query: ReceiptQuery;
+  /** Rules applied to the exported payloads, empty when they are complete */
+  redaction: RedactionRule[];
+  counts: {
+    receipts: number;
+    verified: number;
+    failed: number;
+    anchored: number;
+    pending: number;
+  };
+  files: { name: string; bytes: number; sha256: string }[];
+}
+
+const EXPORT_PAGE_SIZE = 100;
+
+// The dual-signature columns stay for existing consumers; `signatures` holds
+// every entry, post-quantum ones included, as canonical JSON
+const CSV_COLUMNS = [
+  'id', 'receiptHash', 'createdAt', 'timestamp', 'edVerified', 'ecVerified', 'hashVerified',
+  'txHash', 'blockNumber', 'payload', 'ed25519Signature', 'secp256k1Signature',
+  'ed25519PublicKey', 'secp256k1PublicKey', 'signatures',
+] as const;
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const s = String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function toCsvRow(r: Receipt): string {
+  const ed = receiptSignature(r, 'ed25519');
+  const ec = receiptSignature(r, 'secp256k1');
+  return [
+    r.id, r.receiptHash, r.createdAt, r.timestamp, ed?.verified, ec?.verified, r.hashVerified,
+    r.txHash, r.blockNumber, canonicalize(r.payload), ed?.signature, ec?.signature,
+    ed?.publicKey, ec?.publicKey, canonicalize(r.signatures),
+  ].map(csvCell).join(',') + '\r\n';
+}
+
+function toJsonLine(r: Receipt): string {
+  return JSON.stringify(r) + '\n';
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+}
+
+/**
+ * Page through every receipt matching the filter and query, newest first,
+ * redacted by the export's rules. Cursor pages continue after the last
+ * receipt returned, so receipts ingested during the export neither shift
+ * pages nor get exported twice.
+ */
+async function* receiptPages(
+  { filter, query, redaction = [], signal }: ExportOptions
+): AsyncGenerator<{ receipts: Receipt[]; total: number | null }> {
+  let cursor: string | null = null;
+
+  do {
+    throwIfAborted(signal);
+    const data: CursorPage<Receipt> = await getReceiptsByCursor(
+      cursor, EXPORT_PAGE_SIZE, filter, query, DEFAULT_SORT, { signal }
+    );
+    throwIfAborted(signal);
+    cursor = data.nextCursor ?? null;
+
+    const receipts = redaction.length > 0 ? data.receipts.map(r => redactReceipt(r, redaction)) : data.receipts;
+    yield { receipts, total: data.total ?? null };
+  } while (cursor);
+}
+
+function exportFilename(format: ExportFormat): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const ext = format === 'bundle' ? 'zip' : format;
+  return `receipts-${stamp}.${ext}`;
+}
+
+async function exportText(
+  options: ExportOptions,
+  header: string,
+  toLine: (r: Receipt) => string,
+  type: string
+): Promise<ExportResult> {
+  const parts: string[] = header ? [header] : [];
+  let count = 0;
+
+  for await (const { receipts, total } of receiptPages(options)) {
+    parts.push(...receipts.map(toLine));
+    count += receipts.length;
+    options.onProgress?.({ exported: count, total });
+  }
+
+  return { blob: new Blob(parts, { type }), filename: exportFilename(options.format), count };
+}
+
+/**
+ * Zip of receipts.jsonl, chain-status.json and manifest.json. The manifest
+ * records counts and the SHA-256 of every other file in the archive; it is
+ * not itself signed.
+ */
+async function exportBundle(options: ExportOptions): Promise<ExportResult> {
+  const { filter, query, redaction = [], signal, onProgress } = options;
+  const chainStatus: ChainStatus = await getChainStatus({ signal });
+  throwIfAborted(signal);
+  const generatedAt = new Date().toISOString();
+
+  const zip = new Zip();
+  const chunks: Uint8Array[] = [];
+  let zipError: Error | null = null;
+  const done = new Promise<void>(resolve => {
+    zip.ondata = (err, data, final) => {
+      if (err) zipError = err;
+      else chunks.push(data);
+      if (err || final) resolve();
+    };
+  });
+  const files: BundleManifest['files'] = [];
+
+  const addFile = (name: string, content: string) => {
+    const bytes = strToU8(content);
+    const file = new ZipDeflate(name, { level: 6 });
+    zip.add(file);
+    file.push(bytes, true);
+    files.push({ name, bytes: bytes.length, sha256: bytesToHex(sha256(bytes)) });
+  };
+
+  const counts: BundleManifest['counts'] = { receipts: 0, verified: 0, failed: 0, anchored: 0, pending: 0 };
+  const receiptsFile = new ZipDeflate('receipts.jsonl', { level: 6 });
+  const receiptsHash = sha256.create();
+  let receiptsBytes = 0;
+  zip.add(receiptsFile);
+
+  try {
+    for await (const { receipts, total } of receiptPages(options)) {
+      if (zipError) throw zipError;
+      const bytes = strToU8(receipts.map(toJsonLine).join(''));
+      receiptsFile.push(bytes);
+      receiptsHash.update(bytes);
+      receiptsBytes += bytes.length;
+
+      for (const r of receipts) {
+        counts.receipts += 1;
+        if (signaturesVerified(r) && r.hashVerified) counts.verified += 1;
+        else counts.failed += 1;
+        if (r.txHash) counts.anchored += 1;
+        else counts.pending += 1;
+      }
+      onProgress?.({ exported: counts.receipts, total });
+    }
+  } catch (e) {
+    zip.terminate();
+    throw e;
+  }
+
+  receiptsFile.push(new Uint8Array(0), true);
+  files.push({ name: 'receipts.jsonl', bytes: receiptsBytes, sha256: bytesToHex(receiptsHash.digest()) });
+  addFile('chain-status.json', JSON.stringify(chainStatus, null, 2));
+
+  const manifest: BundleManifest = { generatedAt, filter, query, redaction, counts, files };
+  const manifestFile = new ZipDeflate('manifest.json', { level: 6 });
+  zip.add(manifestFile);
+  manifestFile.push(strToU8(JSON.stringify(manifest, null, 2)), true);
+  zip.end();
+
+  await done;
+  if (zipError) throw zipError;
+  return {
+    blob: new Blob(chunks as BlobPart[], { type: 'application/zip' }),
+    filename: exportFilename('bundle'),
+    count: counts.receipts,
+  };
+}
+
+/**
+ * Export every receipt matching the current filter and search. Reject with
+ * an AbortError when `signal` fires.
+ */
+export function exportReceipts(options: ExportOptions): Promise<ExportResult> {
+  switch (options.format) {
+    case 'csv':
+      return exportText(options, CSV_COLUMNS.join(',') + '\r\n', toCsvRow, 'text/csv');
+    case 'jsonl':
+      return exportText(options, '', toJsonLine, 'application/x-ndjson');
+    case 'bundle':
+      return exportBundle(options);
+  }
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,120 @@
+// Signature failure forensics
+// Turns the verification flags and the backend's failure details into one
+// entry per failed check, and groups failed receipts by cause or signer key.
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import type { Receipt, CheckId, VerificationFailure } from './types';
+
+export type FailureGrouping = 'check' | 'key';
+
+export interface FailureGroup {
+  key: string;
+  label: string;
+  /** Failed check, for check groups and single-algorithm key groups */
+  check?: CheckId;
+  receipts: Receipt[];
+}
+
+export const CHECK_LABELS: Record<CheckId, string> = {
+  hash: 'Hash',
+  ed25519: 'Ed25519',
+  secp256k1: 'ECDSA',
+  'ml-dsa': 'ML-DSA',
+  'slh-dsa': 'SLH-DSA',
+};
+
+const REASON_LABELS: Record<string, string> = {
+  signature_mismatch: 'Signature does not cover the receipt hash',
+  malformed_signature: 'Signature is not well-formed',
+  unknown_key: 'Signed with a key the backend does not know',
+  revoked_key: 'Signed with a revoked key',
+  hash_mismatch: 'Payload hash differs from the receipt hash',
+};
+
+/** Failed checks the backend flagged without saying why */
+const UNREPORTED = 'unreported';
+
+export function describeReason(reason: string): string {
+  if (reason === UNREPORTED) return 'Reason not reported';
+  return REASON_LABELS[reason] ?? reason.replace(/_/g, ' ');
+}
+
+/**
+ * Short, stable identifier for a signer public key: the first 8 bytes of its
+ * SHA-256 as hex, in colon-separated groups of four digits (two bytes)
+ */
+export function keyFingerprint(publicKeyHex: string): string {
+  try {
+    const bytes = hexToBytes(publicKeyHex.startsWith('0x') ? publicKeyHex.slice(2) : publicKeyHex);
+    return bytesToHex(sha256(bytes).slice(0, 8)).match(/.{4}/g)!.join(':');
+  } catch {
+    return 'invalid key';
+  }
+}
+
+/**
+ * One entry per failed check. Checks the backend failed without details are
+ * still listed, with the fingerprint taken from the signature's public key.
+ */
+export function receiptFailures(receipt: Receipt): VerificationFailure[] {
+  const failed: { check: CheckId; publicKey?: string }[] = receipt.signatures
+    .filter(s => !s.verified)
+    .map(s => ({ check: s.algorithm, publicKey: s.publicKey }));
+  if (!receipt.hashVerified) failed.unshift({ check: 'hash' });
+
+  return failed.map(({ check, publicKey }) => {
+    const reported = receipt.failures?.find(f => f.check === check);
+    return {
+      check,
+      reason: reported?.reason ?? UNREPORTED,
+      expectedHash: reported?.expectedHash,
+      actualHash: reported?.actualHash,
+      keyFingerprint: reported?.keyFingerprint ?? (publicKey ? keyFingerprint(publicKey) : undefined),
+    };
+  });
+}
+
+/**
+ * Why a check failed, for hover text; undefined when it passed
+ */
+export function failureReason(receipt: Receipt, check: CheckId): string | undefined {
+  const failure = receiptFailures(receipt).find(f => f.check === check);
+  return failure && describeReason(failure.reason);
+}
+
+export function hasFailedCheck(receipt: Receipt): boolean {
+  return !receipt.hashVerified || receipt.signatures.some(s => !s.verified);
+}
+
+/**
+ * Failed receipts grouped by failed check and reason, or by the signer key
+ * behind the failed signature. A receipt appears in every group it fails in.
+ * Largest groups first.
+ */
+export function groupFailures(receipts: Receipt[], by: FailureGrouping): FailureGroup[] {
+  const groups = new Map<string, FailureGroup>();
+
+  for (const receipt of receipts) {
+    for (const failure of receiptFailures(receipt)) {
+      let key: string;
+      let label: string;
+      if (by === 'check') {
+        key = `${failure.check} ${failure.reason}`;
+        label = `${CHECK_LABELS[failure.check]}: ${describeReason(failure.reason)}`;
+      } else if (failure.check === 'hash') {
+        // Hash failures are about the payload, not a signer
+        key = 'hash';
+        label = 'Payload hash (no signer key)';
+      } else {
+        key = `${failure.check} ${failure.keyFingerprint ?? 'unknown'}`;
+        label = `${CHECK_LABELS[failure.check]} key ${failure.keyFingerprint ?? 'unknown'}`;
+      }
+
+      const group = groups.get(key) ?? { key, label, check: failure.check, receipts: [] };
+      if (!group.receipts.includes(receipt)) group.receipts.push(receipt);
+      groups.set(key, group);
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => b.receipts.length - a.receipts.length);
+}
@@ -15,19 +15,6 @@ export function useDebounce<T>(value: T, delay: number): T {
   return debouncedValue;
 }
 
-/**
- * Handle keyboard shortcuts
- */
-export function useKeydown(key: string, callback: () => void): void {
-  useEffect(() => {
-    const handler = (e: KeyboardEvent) => {
-      if (e.key === key) callback();
-    };
-    window.addEventListener('keydown', handler);
-    return () => window.removeEventListener('keydown', handler);
-  }, [key, callback]);
-}
-
 /**
  * Interval that respects component lifecycle
  */
@@ -45,6 +32,25 @@ export function useInterval(callback: () => void, delay: number | null): void {
   }, [delay]);
 }
 
+/**
+ * Browser connectivity, from `navigator.onLine` and the online/offline events
+ */
+export function useOnline(): boolean {
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+}
+
 /**
  * Format timestamp consistently
  */
@@ -68,6 +74,17 @@ export function formatDate(isoString: string): string {
   });
 }
 
+/**
+ * Compact duration, e.g. `45s`, `12m 30s`, `3h 5m`, `2d 4h`
+ */
+export function formatDuration(seconds: number): string {
+  const s = Math.max(0, Math.round(seconds));
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${s % 60}s`;
+  if (s < 86400) return `${Math.floor(s / 3600)}h ${Math.floor((s % 3600) / 60)}m`;
+  return `${Math.floor(s / 86400)}d ${Math.floor((s % 86400) / 3600)}h`;
+}
+
 /**
  * Truncate hash for display
  */
@@ -0,0 +1,95 @@
+// Signing key registry
+// Matches the public keys on a receipt against the registry from `/keys` and
+// flags signatures made outside a key's validity window or after revocation.
+import { useState, useEffect } from 'react';
+import type { Receipt, SigningKey, SignerAlgorithm } from './types';
+import { getKeys, isAbortError } from './api';
+import { CHECK_LABELS } from './forensics';
+import { formatDate } from './hooks';
+
+export type KeyStatus = 'scheduled' | 'active' | 'retired' | 'revoked';
+
+export interface KeyWarning {
+  algorithm: SignerAlgorithm;
+  /** Registry key, when the receipt's key is in the registry */
+  key?: SigningKey;
+  message: string;
+}
+
+const normalizeHex = (hex: string): string => (hex.startsWith('0x') ? hex.slice(2) : hex).toLowerCase();
+
+export function keyStatus(key: SigningKey, now: number = Date.now()): KeyStatus {
+  if (key.revokedAt && Date.parse(key.revokedAt) <= now) return 'revoked';
+  if (Date.parse(key.validFrom) > now) return 'scheduled';
+  if (key.validTo && Date.parse(key.validTo) <= now) return 'retired';
+  return 'active';
+}
+
+/**
+ * End of the period a key could sign in: revocation, retirement, or null while current
+ */
+export function keyEnd(key: SigningKey): number | null {
+  const ends = [key.revokedAt, key.validTo].filter((t): t is string => !!t).map(Date.parse);
+  return ends.length > 0 ? Math.min(...ends) : null;
+}
+
+export function findSigningKey(
+  keys: SigningKey[],
+  algorithm: SignerAlgorithm,
+  publicKey: string
+): SigningKey | undefined {
+  const hex = normalizeHex(publicKey);
+  return keys.find(k => k.algorithm === algorithm && normalizeHex(k.publicKey) === hex);
+}
+
+/**
+ * Problems with the keys that signed a receipt, judged at its creation time.
+ * Keys missing from the registry are only flagged once the registry knows
+ * at least one key of that algorithm.
+ */
+export function receiptKeyWarnings(receipt: Receipt, keys: SigningKey[]): KeyWarning[] {
+  const signedAt = Date.parse(receipt.createdAt);
+  const warnings: KeyWarning[] = [];
+
+  for (const { algorithm, publicKey } of receipt.signatures) {
+    if (!publicKey) continue;
+    const label = CHECK_LABELS[algorithm];
+    const key = findSigningKey(keys, algorithm, publicKey);
+    if (!key) {
+      if (keys.some(k => k.algorithm === algorithm)) {
+        warnings.push({ algorithm, message: `${label} key is not in the key registry` });
+      }
+      continue;
+    }
+    if (key.revokedAt && signedAt >= Date.parse(key.revokedAt)) {
+      warnings.push({ algorithm, key, message: `${label} key ${key.fingerprint} was revoked ${formatDate(key.revokedAt)}` });
+    } else if (signedAt < Date.parse(key.validFrom)) {
+      warnings.push({ algorithm, key, message: `${label} key ${key.fingerprint} was not valid until ${formatDate(key.validFrom)}` });
+    } else if (key.validTo && signedAt >= Date.parse(key.validTo)) {
+      warnings.push({ algorithm, key, message: `${label} key ${key.fingerprint} was retired ${formatDate(key.validTo)}` });
+    }
+  }
+  return warnings;
+}
+
+/**
+ * The environment's key registry; empty until loaded, and when it can't be,
+ * in which case receipts are simply not checked
+ */
+export function useSigningKeys(envId: string, enabled: boolean): SigningKey[] {
+  const [keys, setKeys] = useState<SigningKey[]>([]);
+
+  useEffect(() => {
+    setKeys([]);
+    if (!enabled) return;
+    const controller = new AbortController();
+    getKeys({ signal: controller.signal })
+      .then(setKeys)
+      .catch(e => {
+        if (!isAbortError(e)) console.error('Signing keys fetch error:', e);
+      });
+    return () => controller.abort();
+  }, [envId, enabled]);
+
+  return keys;
+}
@@ -1,10 +1,26 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import Dashboard from './Dashboard';
+import { loadEnvironments } from './environments';
+import { completeOidcSignIn } from './auth';
+import { currentLocation } from './router';
 import './index.css';
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <Dashboard />
-  </React.StrictMode>
-);
+// Cache the app shell so the dashboard opens without a connection
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  navigator.serviceWorker
+    .register(`${import.meta.env.BASE_URL}sw.js`, { scope: import.meta.env.BASE_URL })
+    .catch(e => console.error('Service worker registration error:', e));
+}
+
+// The registry decides which backend the first fetch goes to; an identity
+// provider redirect is finished before the dashboard first renders
+loadEnvironments(currentLocation().environment)
+  .then(completeOidcSignIn)
+  .then(authNotice => {
+    ReactDOM.createRoot(document.getElementById('root')!).render(
+      <React.StrictMode>
+        <Dashboard authNotice={authNotice} />
+      </React.StrictMode>
+    );
+  });
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+
+import { buildMerkleTree, getMerkleProof, replayMerkleProof, hashPair } from './merkle';
+
+const leaf = (n: number) => bytesToHex(sha256(utf8ToBytes(`receipt-${n}`)));
+const leaves = Array.from({ length: 5 }, (_, i) => leaf(i));
+
+describe('buildMerkleTree', () => {
+  it('pairs an unpaired node with itself', () => {
+    const levels = buildMerkleTree(leaves);
+    expect(levels.map(l => l.length)).toEqual([5, 3, 2, 1]);
+    expect(levels[1][2]).toBe(hashPair(leaves[4], leaves[4]));
+  });
+
+  it('returns an empty level for no leaves', () => {
+    expect(buildMerkleTree([])).toEqual([[]]);
+  });
+});
+
+describe('replayMerkleProof', () => {
+  const levels = buildMerkleTree(leaves);
+
+  it('recomputes the root for every leaf', () => {
+    leaves.forEach((hash, i) => {
+      const replay = replayMerkleProof(hash, getMerkleProof(levels, i));
+      expect(replay.leafMatches).toBe(true);
+      expect(replay.rootMatches).toBe(true);
+      expect(replay.steps).toHaveLength(3);
+      expect(replay.error).toBeUndefined();
+    });
+  });
+
+  it('accepts 0x-prefixed and upper-case hashes', () => {
+    const proof = getMerkleProof(levels, 2);
+    const replay = replayMerkleProof(`0x${leaves[2].toUpperCase()}`, { ...proof, root: `0x${proof.root}` });
+    expect(replay.rootMatches).toBe(true);
+  });
+
+  it('fails when a sibling is tampered with', () => {
+    const proof = getMerkleProof(levels, 1);
+    const path = proof.path.map((step, i) => (i === 1 ? { ...step, hash: leaf(99) } : step));
+    expect(replayMerkleProof(leaves[1], { ...proof, path }).rootMatches).toBe(false);
+  });
+
+  it('fails when the sibling order is swapped', () => {
+    const proof = getMerkleProof(levels, 0);
+    const path = proof.path.map(step => ({ ...step, position: step.position === 'left' ? 'right' as const : 'left' as const }));
+    expect(replayMerkleProof(leaves[0], { ...proof, path }).rootMatches).toBe(false);
+  });
+
+  it('flags a proof for a different receipt', () => {
+    const replay = replayMerkleProof(leaves[3], getMerkleProof(levels, 0));
+    expect(replay.leafMatches).toBe(false);
+    expect(replay.rootMatches).toBe(false);
+  });
+
+  it('reports hashes that are not hex', () => {
+    const proof = getMerkleProof(levels, 0);
+    const path = [{ ...proof.path[0], hash: 'zz'.repeat(32) }, ...proof.path.slice(1)];
+    const replay = replayMerkleProof(leaves[0], { ...proof, path });
+    expect(replay.rootMatches).toBe(false);
+    expect(replay.error).toBeDefined();
+  });
+
+  it('rejects siblings that are not 32 bytes', () => {
+    const proof = getMerkleProof(levels, 0);
+    for (const hash of [leaves[1].slice(0, 62), `${leaves[1]}00`, '']) {
+      const path = [{ ...proof.path[0], hash }, ...proof.path.slice(1)];
+      const replay = replayMerkleProof(leaves[0], { ...proof, path });
+      expect(replay.rootMatches).toBe(false);
+      expect(replay.error).toMatch(/32-byte/);
+    }
+  });
+
+  it('rejects a leaf that is not 32 bytes, even with an empty path', () => {
+    const short = leaves[0].slice(0, 40);
+    const replay = replayMerkleProof(short, { leaf: short, leafIndex: 0, path: [], root: short });
+    expect(replay.rootMatches).toBe(false);
+    expect(replay.error).toMatch(/32-byte/);
+  });
+
+  it('throws from hashPair on a short node', () => {
+    expect(() => hashPair(leaves[0], leaves[1].slice(2))).toThrow(/32-byte/);
+  });
+});
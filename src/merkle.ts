@@ -0,0 +1,102 @@
+// Merkle inclusion proofs for anchored receipt batches
+// Leaves are receipt hashes; parents are SHA-256(left || right) over raw
+// bytes. An unpaired node at the end of a level is paired with itself.
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import type { MerkleProof } from './types';
+
+export interface MerkleReplayStep {
+  level: number;
+  left: string;
+  right: string;
+  /** Side of the pair holding the path node being proven */
+  pathSide: 'left' | 'right';
+  parent: string;
+}
+
+export interface MerkleReplay {
+  steps: MerkleReplayStep[];
+  computedRoot: string;
+  leafMatches: boolean;
+  rootMatches: boolean;
+  /** Set when a hash in the proof is not 32 bytes of valid hex */
+  error?: string;
+}
+
+function normalize(hex: string): string {
+  return (hex.startsWith('0x') ? hex.slice(2) : hex).toLowerCase();
+}
+
+/**
+ * Raw bytes of a SHA-256 hash; throws unless the hex decodes to exactly 32
+ * bytes, so a short node can't be padded into a matching pair.
+ */
+function hashBytes(hex: string): Uint8Array {
+  const bytes = hexToBytes(normalize(hex));
+  if (bytes.length !== 32) throw new Error(`Expected a 32-byte hash, got ${bytes.length} bytes: ${hex}`);
+  return bytes;
+}
+
+export function hashPair(left: string, right: string): string {
+  const bytes = new Uint8Array(64);
+  bytes.set(hashBytes(left), 0);
+  bytes.set(hashBytes(right), 32);
+  return bytesToHex(sha256(bytes));
+}
+
+/**
+ * All levels of the tree, leaves first and the root level last
+ */
+export function buildMerkleTree(leaves: string[]): string[][] {
+  if (leaves.length === 0) return [[]];
+  const levels = [leaves.map(normalize)];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(hashPair(level[i], level[i + 1] ?? level[i]));
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+export function getMerkleProof(levels: string[][], leafIndex: number): MerkleProof {
+  const path: MerkleProof['path'] = [];
+  let index = leafIndex;
+  for (const level of levels.slice(0, -1)) {
+    const isRight = index % 2 === 1;
+    const sibling = isRight ? level[index - 1] : level[index + 1] ?? level[index];
+    path.push({ hash: sibling, position: isRight ? 'left' : 'right' });
+    index = Math.floor(index / 2);
+  }
+  return { leaf: levels[0][leafIndex], leafIndex, path, root: levels[levels.length - 1][0] };
+}
+
+/**
+ * Recompute the root from the receipt hash, recording every pairing so the
+ * path can be shown step by step.
+ */
+export function replayMerkleProof(receiptHash: string, proof: MerkleProof): MerkleReplay {
+  const steps: MerkleReplayStep[] = [];
+  const leafMatches = normalize(proof.leaf) === normalize(receiptHash);
+  let current = normalize(receiptHash);
+
+  try {
+    hashBytes(receiptHash);
+    hashBytes(proof.leaf);
+    hashBytes(proof.root);
+    proof.path.forEach((step, level) => {
+      const sibling = normalize(step.hash);
+      const [left, right] = step.position === 'left' ? [sibling, current] : [current, sibling];
+      const parent = hashPair(left, right);
+      steps.push({ level, left, right, pathSide: step.position === 'left' ? 'right' : 'left', parent });
+      current = parent;
+    });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : 'Invalid proof';
+    return { steps, computedRoot: current, leafMatches, rootMatches: false, error };
+  }
+
+  return { steps, computedRoot: current, leafMatches, rootMatches: current === normalize(proof.root) };
+}
@@ -0,0 +1,53 @@
+// Client-side metric arithmetic
+import type { Metrics, MetricsDelta, SignatureStats } from './types';
+
+/**
+ * Add per-algorithm increments to the matching entries; new algorithms are appended
+ */
+function applySignaturesDelta(stats: SignatureStats[], delta: SignatureStats[]): SignatureStats[] {
+  const merged = stats.map(s => {
+    const d = delta.find(x => x.algorithm === s.algorithm);
+    return d ? { ...s, signed: s.signed + d.signed, verified: s.verified + d.verified } : s;
+  });
+  return [...merged, ...delta.filter(d => !stats.some(s => s.algorithm === d.algorithm))];
+}
+
+/**
+ * Apply pushed counter increments and recompute the derived rates
+ */
+export function applyMetricsDelta(metrics: Metrics, delta: MetricsDelta): Metrics {
+  const total = metrics.total + (delta.total ?? 0);
+  const verified = metrics.verified + (delta.verified ?? 0);
+  const anchored = metrics.anchored + (delta.anchored ?? 0);
+  const lastHour = metrics.lastHour + (delta.lastHour ?? 0);
+  const lastDay = metrics.lastDay + (delta.lastDay ?? 0);
+  const rate = (n: number) => (total > 0 ? ((n / total) * 100).toFixed(2) : '0.00');
+
+  return {
+    total,
+    lastHour,
+    lastDay,
+    verified,
+    anchored,
+    verificationRate: rate(verified),
+    anchoringRate: rate(anchored),
+    throughput: {
+      hourly: lastHour,
+      daily: lastDay,
+      avgPerMinute: (lastDay / 1440).toFixed(2),
+    },
+    // Without a breakdown to start from, increments alone would undercount
+    signatures: metrics.signatures && delta.signatures
+      ? applySignaturesDelta(metrics.signatures, delta.signatures)
+      : metrics.signatures,
+  };
+}
+
+/**
+ * Nearest-rank percentile of an ascending-sorted list; null when empty
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
@@ -1,45 +1,682 @@
 // Mock data for development/demo mode
-import type { Receipt, Metrics, ThroughputPoint, ChainStatus } from './types';
+// Evaluating this module generates keys and signs the whole dataset, which
+// takes seconds: import it dynamically, and only for mock environments.
+import { ed25519 } from '@noble/curves/ed25519';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { sha256, sha512 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { ml_dsa65 } from '@noble/post-quantum/ml-dsa';
+import { slh_dsa_sha2_128f } from '@noble/post-quantum/slh-dsa';
+import type {
+  Receipt, Metrics, MetricsDelta, ThroughputPoint, ThroughputBucket, ThroughputWindow, ChainStatus,
+  StreamEvent, AnchoringAnalytics, BacklogPoint, RevealRequest, RevealAuditEntry, FailureAnalytics,
+  VerificationFailure, SigningKey, SignerAlgorithm, ReceiptSignature, SignatureAnalytics, ReceiptSubmission,
+  CursorPage, ReceiptSort
+} from './types';
+import { applyMetricsDelta, percentile } from './metrics';
+import { buildMerkleTree, getMerkleProof } from './merkle';
+import { BUCKET_MS } from './throughput';
+import { canonicalize } from './verify';
+import { keyFingerprint, hasFailedCheck } from './forensics';
+import { SIGNER_ALGORITHMS, signatureStats, signaturesVerified } from './signatures';
+import { sortKey, compareByKey, encodeCursor, decodeCursor } from './explorer';
 
 const randomHex = (length: number): string =>
   Array.from({ length }, () => '0123456789abcdef'[Math.floor(Math.random() * 16)]).join('');
 
+// Deterministic 0..1 noise so refetching a window returns the same series
+const seededNoise = (seed: number): number => {
+  const x = Math.sin(seed * 12.9898) * 43758.5453;
+  return x - Math.floor(x);
+};
+
+// Fixed demo signer keys so mock receipts stay verifiable across reloads
+const DEMO_ED25519_KEY = sha256(utf8ToBytes('juggernaut-demo-ed25519'));
+const DEMO_SECP256K1_KEY = sha256(utf8ToBytes('juggernaut-demo-secp256k1'));
+const DEMO_ML_DSA_KEYS = ml_dsa65.keygen(sha256(utf8ToBytes('juggernaut-demo-ml-dsa')));
+const DEMO_SLH_DSA_KEYS = slh_dsa_sha2_128f.keygen(
+  sha512(utf8ToBytes('juggernaut-demo-slh-dsa')).slice(0, slh_dsa_sha2_128f.seedLen)
+);
+
+// Keys the current ones replaced, and the next scheduled Ed25519 key
+const DEMO_RETIRED_ED25519_KEY = sha256(utf8ToBytes('juggernaut-demo-ed25519-retired'));
+const DEMO_REVOKED_SECP256K1_KEY = sha256(utf8ToBytes('juggernaut-demo-secp256k1-revoked'));
+const DEMO_NEXT_ED25519_KEY = sha256(utf8ToBytes('juggernaut-demo-ed25519-next'));
+
+interface MockSigner {
+  algorithm: SignerAlgorithm;
+  parameterSet?: string;
+  publicKey: string;
+  sign: (message: Uint8Array) => Uint8Array;
+}
+
+const ed25519Signer = (secretKey: Uint8Array): MockSigner => ({
+  algorithm: 'ed25519',
+  publicKey: bytesToHex(ed25519.getPublicKey(secretKey)),
+  sign: message => ed25519.sign(message, secretKey),
+});
+
+const MOCK_SIGNERS = {
+  ed25519: ed25519Signer(DEMO_ED25519_KEY),
+  retiredEd25519: ed25519Signer(DEMO_RETIRED_ED25519_KEY),
+  secp256k1: {
+    algorithm: 'secp256k1',
+    publicKey: bytesToHex(secp256k1.getPublicKey(DEMO_SECP256K1_KEY, true)),
+    sign: message => secp256k1.sign(message, DEMO_SECP256K1_KEY).toCompactRawBytes(),
+  },
+  mlDsa: {
+    algorithm: 'ml-dsa',
+    parameterSet: 'ML-DSA-65',
+    publicKey: bytesToHex(DEMO_ML_DSA_KEYS.publicKey),
+    sign: message => ml_dsa65.sign(DEMO_ML_DSA_KEYS.secretKey, message),
+  },
+  slhDsa: {
+    algorithm: 'slh-dsa',
+    parameterSet: 'SLH-DSA-SHA2-128f',
+    publicKey: bytesToHex(DEMO_SLH_DSA_KEYS.publicKey),
+    sign: message => slh_dsa_sha2_128f.sign(DEMO_SLH_DSA_KEYS.secretKey, message),
+  },
+} satisfies Record<string, MockSigner>;
+
+// A misconfigured signer that kept the retired Ed25519 key signs every 23rd receipt
+const MOCK_STALE_KEY_EVERY = 23;
+// Receipts from this one on are co-signed with ML-DSA; every 25th of those
+// also carries an SLH-DSA signature from the hash-based pilot
+const MOCK_PQC_FROM = 985;
+const MOCK_SLH_DSA_EVERY = 25;
+const MOCK_SIGNATURE_FAILURE_RATE = 0.02;
+
+function mockSigners(n: number): MockSigner[] {
+  const signers: MockSigner[] = [
+    n % MOCK_STALE_KEY_EVERY === 0 ? MOCK_SIGNERS.retiredEd25519 : MOCK_SIGNERS.ed25519,
+    MOCK_SIGNERS.secp256k1,
+  ];
+  if (n >= MOCK_PQC_FROM) signers.push(MOCK_SIGNERS.mlDsa);
+  if (n >= MOCK_PQC_FROM && n % MOCK_SLH_DSA_EVERY === 0) signers.push(MOCK_SIGNERS.slhDsa);
+  return signers;
+}
+
+/**
+ * Hash a payload and sign it with every signer receipt `n` is configured
+ * for. A failed signature signs a different message so it is well-formed
+ * but does not verify, and is reported the way the backend would.
+ */
+function signMockReceipt(
+  payload: Record<string, unknown>,
+  n: number
+): Pick<Receipt, 'receiptHash' | 'signatures' | 'failures'> {
+  const hash = sha256(utf8ToBytes(canonicalize(payload)));
+  const wrong = sha256(hash);
+  const signatures: ReceiptSignature[] = mockSigners(n).map(({ algorithm, parameterSet, publicKey, sign }) => {
+    const verified = Math.random() > MOCK_SIGNATURE_FAILURE_RATE;
+    return { algorithm, parameterSet, signature: bytesToHex(sign(verified ? hash : wrong)), publicKey, verified };
+  });
+  const failures: VerificationFailure[] = signatures
+    .filter(s => !s.verified)
+    .map(s => ({
+      check: s.algorithm,
+      reason: 'signature_mismatch',
+      expectedHash: bytesToHex(hash),
+      actualHash: bytesToHex(wrong),
+      keyFingerprint: keyFingerprint(s.publicKey!),
+    }));
+  return {
+    receiptHash: bytesToHex(hash),
+    signatures,
+    ...(failures.length > 0 && { failures }),
+  };
+}
+
+/**
+ * Anchor receipts as one batch: a shared transaction and block, with an
+ * inclusion proof for each receipt against the batch's Merkle root.
+ */
+function anchorMockBatch(receipts: Receipt[], blockNumber: number, anchoredAt: string): Receipt[] {
+  const txHash = `0x${randomHex(64)}`;
+  const tree = buildMerkleTree(receipts.map(r => r.receiptHash));
+  return receipts.map((r, i) => ({
+    ...r, txHash, blockNumber, anchoredAt, merkleProof: getMerkleProof(tree, i)
+  }));
+}
+
+const MOCK_BATCH_SIZES = [4, 6, 3, 5, 8, 2, 7];
+const MOCK_NURSES = ['Alice', 'Bob', 'Carol'];
+// Few enough patients that each has a chain of receipts in the mock dataset
+const MOCK_PATIENTS = 12;
+const MOCK_MEDICATIONS: [string, number, string][] = [
+  ['Amoxicillin', 500, 'mg'], ['Paracetamol', 1, 'g'], ['Heparin', 5000, 'IU'], ['Insulin glargine', 12, 'units'],
+];
+// Every fifth receipt records a medication round instead of a selfie check-in
+const MOCK_MEDICATION_EVERY = 5;
+
+function mockPayload(n: number, createdAt: string): Pick<Receipt, 'type' | 'payload'> {
+  const patientId = 100 + (n % MOCK_PATIENTS);
+  const nurse = MOCK_NURSES[n % 3];
+  if (n % MOCK_MEDICATION_EVERY === 0) {
+    const [medication, amount, unit] = MOCK_MEDICATIONS[(n / MOCK_MEDICATION_EVERY) % MOCK_MEDICATIONS.length];
+    return {
+      type: 'medication',
+      payload: { medication, dose: { amount, unit }, administeredBy: nurse, patientId, administeredAt: createdAt },
+    };
+  }
+  return { type: 'selfie', payload: { id: `selfie_${n}.jpg`, patientId, nurse } };
+}
+
 export const MOCK_METRICS: Metrics = {
   total: 1847,
   lastHour: 23,
   lastDay: 412,
   verified: 1839,
-  anchored: 1847,
+  anchored: 1844,
   verificationRate: '99.57',
-  anchoringRate: '100.00',
-  throughput: { hourly: 23, daily: 412, avgPerMinute: '0.38' }
+  anchoringRate: '99.84',
+  throughput: { hourly: 23, daily: 412, avgPerMinute: '0.38' },
+  signatures: [
+    { algorithm: 'ed25519', signed: 1847, verified: 1842 },
+    { algorithm: 'secp256k1', signed: 1847, verified: 1843 },
+    { algorithm: 'ml-dsa', signed: 618, verified: 616 },
+    { algorithm: 'slh-dsa', signed: 24, verified: 24 },
+  ]
 };
 
-export const MOCK_RECEIPTS: Receipt[] = Array.from({ length: 50 }, (_, i) => ({
-  id: `rec_${1000 - i}`,
-  receiptHash: randomHex(64),
-  payload: {
-    id: `selfie_${1000 - i}.jpg`,
-    patientId: 100 + i,
-    nurse: ['Alice', 'Bob', 'Carol'][i % 3]
-  },
-  timestamp: Date.now() - i * 180000,
-  edVerified: Math.random() > 0.02,
-  ecVerified: Math.random() > 0.02,
-  hashVerified: true,
-  txHash: `0x${randomHex(64)}`,
-  blockNumber: 1000 - i,
-  createdAt: new Date(Date.now() - i * 180000).toISOString()
-}));
-
-export const MOCK_THROUGHPUT: ThroughputPoint[] = Array.from({ length: 24 }, (_, i) => ({
-  hour: new Date(Date.now() - (23 - i) * 3600000).toISOString().slice(11, 13) + ':00',
-  count: Math.floor(Math.random() * 30) + 10
-}));
+const unanchoredReceipts: Receipt[] = Array.from({ length: 50 }, (_, i) => {
+  const createdAt = new Date(Date.now() - i * 180000).toISOString();
+  const { type, payload } = mockPayload(1000 - i, createdAt);
+
+  return {
+    id: `rec_${1000 - i}`,
+    type,
+    ...signMockReceipt(payload, 1000 - i),
+    payload,
+    timestamp: Date.parse(createdAt),
+    hashVerified: true,
+    createdAt
+  };
+});
+
+// Each patient's receipts chain to the one before. One follows a receipt that
+// was never ingested, and one forks from the receipt its predecessor continued.
+const MOCK_CHAIN_GAP_ID = 'rec_990';
+const MOCK_CHAIN_FORK_ID = 'rec_997';
+
+unanchoredReceipts.forEach((receipt, i) => {
+  const earlier = unanchoredReceipts.slice(i + 1).filter(r => r.payload.patientId === receipt.payload.patientId);
+  if (receipt.id === MOCK_CHAIN_GAP_ID) {
+    receipt.previousReceiptHash = bytesToHex(sha256(utf8ToBytes('mock-receipt-never-ingested')));
+  } else {
+    receipt.previousReceiptHash = (receipt.id === MOCK_CHAIN_FORK_ID ? earlier[1] : earlier[0])?.receiptHash;
+  }
+});
+
+// The newest receipts are still waiting for the next batch
+const MOCK_INITIAL_PENDING = 3;
+
+export const MOCK_RECEIPTS: Receipt[] = unanchoredReceipts.slice(0, MOCK_INITIAL_PENDING);
+for (let start = MOCK_INITIAL_PENDING, batch = 0; start < unanchoredReceipts.length; batch++) {
+  const size = MOCK_BATCH_SIZES[batch % MOCK_BATCH_SIZES.length];
+  const receipts = unanchoredReceipts.slice(start, start + size);
+  const blockNumber = 1000 - batch * 4;
+  // Confirmed a few minutes after the batch's newest receipt; now and then much later
+  const lagMinutes = seededNoise(blockNumber) < 0.15 ? 25 : 1 + 6 * seededNoise(blockNumber + 0.5);
+  const anchoredAt = Math.min(Date.now(), Date.parse(receipts[0].createdAt) + lagMinutes * 60000);
+  MOCK_RECEIPTS.push(...anchorMockBatch(receipts, blockNumber, new Date(anchoredAt).toISOString()));
+  start += size;
+}
+
+const MOCK_RECEIPTS_PER_HOUR = 17;
+const MOCK_ANCHOR_LAG_MS = 20 * 60000;
+
+/**
+ * Expected receipts per hour at a point in time: a daytime peak and quieter weekends
+ */
+function mockHourlyRate(date: Date, bucket: ThroughputBucket): number {
+  const hour = bucket === 'day' ? 12 : date.getHours() + date.getMinutes() / 60;
+  const diurnal = 0.55 + 0.45 * Math.sin(((hour - 9) / 24) * 2 * Math.PI);
+  const weekend = date.getDay() === 0 || date.getDay() === 6 ? 0.6 : 1;
+  return MOCK_RECEIPTS_PER_HOUR * diurnal * weekend;
+}
+
+/**
+ * Throughput series for any window, with a small failure rate and anchoring
+ * that lags ingest for the most recent buckets.
+ */
+export function mockThroughput({ from, to, bucket }: ThroughputWindow): ThroughputPoint[] {
+  const step = BUCKET_MS[bucket];
+  const now = Date.now();
+  const points: ThroughputPoint[] = [];
+
+  for (let t = Date.parse(from); t < Date.parse(to); t += step) {
+    const date = new Date(t);
+    const seed = t / step;
+    const expected = mockHourlyRate(date, bucket) * (step / BUCKET_MS.hour);
+
+    // Dithered rounding keeps sparse minute buckets close to the expected rate
+    const count = t > now ? 0 : Math.floor(expected * 2 * seededNoise(seed) + seededNoise(seed + 0.25));
+    const failed = Math.min(count, Math.round(count * 0.004 + (seededNoise(seed + 0.5) < 0.08 ? 1 : 0)));
+    const anchoredShare = Math.min(1, Math.max(0, (now - t - step) / MOCK_ANCHOR_LAG_MS));
+
+    points.push({
+      timestamp: date.toISOString(),
+      count,
+      verified: count - failed,
+      failed,
+      anchored: Math.round(count * anchoredShare),
+    });
+  }
+  return points;
+}
+
+const latestAnchored = MOCK_RECEIPTS.find(r => r.txHash)!;
 
 export const MOCK_CHAIN: ChainStatus = {
-  anchored: 1847,
-  pending: 0,
+  anchored: 1844,
+  pending: MOCK_INITIAL_PENDING,
   unanchored: 0,
-  latestBlock: { blockNumber: 1000, txHash: '0xabc...def' }
+  latestBlock: { blockNumber: latestAnchored.blockNumber!, txHash: latestAnchored.txHash! }
 };
+
+/**
+ * Anchoring analytics for a window. Latency and batch sizes come from the
+ * mock dataset; the backlog series is synthetic, ending at the live count.
+ */
+export function mockAnchoring({ from, to, bucket }: ThroughputWindow): AnchoringAnalytics {
+  const start = Date.parse(from);
+  const end = Date.parse(to);
+  const anchored = MOCK_RECEIPTS.filter(r => {
+    const t = r.anchoredAt ? Date.parse(r.anchoredAt) : NaN;
+    return t >= start && t < end;
+  });
+
+  const latencies = anchored
+    .map(r => (Date.parse(r.anchoredAt!) - Date.parse(r.createdAt)) / 1000)
+    .sort((a, b) => a - b);
+
+  const perBlock = new Map<number, number>();
+  anchored.forEach(r => perBlock.set(r.blockNumber!, (perBlock.get(r.blockNumber!) ?? 0) + 1));
+  const blocksBySize = new Map<number, number>();
+  perBlock.forEach(size => blocksBySize.set(size, (blocksBySize.get(size) ?? 0) + 1));
+
+  const step = BUCKET_MS[bucket];
+  const now = Date.now();
+  const backlog: BacklogPoint[] = [];
+  for (let t = start; t < end && t <= now; t += step) {
+    const seed = t / step;
+    const waiting = mockHourlyRate(new Date(t), bucket) * (MOCK_ANCHOR_LAG_MS / BUCKET_MS.hour);
+    // Occasional gas spikes hold batches back
+    const spike = seededNoise(seed + 0.75) < 0.03 ? MOCK_RECEIPTS_PER_HOUR * 2 : 0;
+    backlog.push({
+      timestamp: new Date(t).toISOString(),
+      pending: Math.round(waiting * (0.4 + seededNoise(seed + 0.9)) + spike),
+    });
+  }
+  if (backlog.length > 0 && end >= now) backlog[backlog.length - 1].pending = MOCK_CHAIN.pending;
+
+  return {
+    latency: {
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+      p99: percentile(latencies, 99),
+      samples: latencies.length,
+    },
+    backlog,
+    batchSizes: [...blocksBySize]
+      .map(([size, blocks]) => ({ size, blocks }))
+      .sort((a, b) => a.size - b.size),
+  };
+}
+
+/**
+ * Failure analytics for a window. The timeline follows the synthetic
+ * throughput series; failed receipts and key counts come from the mock dataset.
+ */
+export function mockFailures(window: ThroughputWindow): FailureAnalytics {
+  const start = Date.parse(window.from);
+  const end = Date.parse(window.to);
+  const inWindow = MOCK_RECEIPTS.filter(r => {
+    const t = Date.parse(r.createdAt);
+    return t >= start && t < end;
+  });
+
+  const timeline = mockThroughput(window).map(p => {
+    // Most failures are one bad signature; split them between the algorithms
+    const ed25519 = Math.round(p.failed * seededNoise(Date.parse(p.timestamp) / BUCKET_MS.minute));
+    return { timestamp: p.timestamp, total: p.count, failed: p.failed, hash: 0, ed25519, secp256k1: p.failed - ed25519 };
+  });
+
+  return {
+    timeline,
+    keys: SIGNER_ALGORITHMS.flatMap(algorithm => {
+      const signatures = inWindow.flatMap(r => r.signatures.filter(s => s.algorithm === algorithm && s.publicKey));
+      const publicKeys = [...new Set(signatures.map(s => s.publicKey!))];
+      return publicKeys.map(publicKey => {
+        const signed = signatures.filter(s => s.publicKey === publicKey);
+        return {
+          fingerprint: keyFingerprint(publicKey),
+          algorithm,
+          signed: signed.length,
+          failed: signed.filter(s => !s.verified).length,
+        };
+      });
+    }),
+    receipts: structuredClone(inWindow.filter(hasFailedCheck)),
+  };
+}
+
+const DAY_MS = 86400000;
+// Load time, so the demo rotation dates stay put while the page is open
+const MOCK_KEYS_NOW = Date.now();
+const MOCK_RETIRED_ED25519_COUNT = 1240;
+const MOCK_REVOKED_SECP256K1_COUNT = 980;
+// Post-quantum co-signing started this long ago and reached every receipt two days ago
+const MOCK_PQC_ROLLOUT_DAYS = 30;
+const MOCK_PQC_RAMP_DAYS = 28;
+
+const mockSigned = (algorithm: SignerAlgorithm): number =>
+  MOCK_METRICS.signatures?.find(s => s.algorithm === algorithm)?.signed ?? 0;
+
+/**
+ * Key registry: a routine Ed25519 rotation with the next key scheduled, an
+ * emergency secp256k1 rotation after a revocation, and the post-quantum keys
+ * of the PQC rollout. Counts follow the mock metrics, with the stale-key
+ * receipts charged to the retired key.
+ */
+export function mockKeys(): SigningKey[] {
+  const at = (days: number) => new Date(MOCK_KEYS_NOW + days * DAY_MS).toISOString();
+  const stale = MOCK_RECEIPTS.filter(r =>
+    r.signatures.some(s => s.publicKey === MOCK_SIGNERS.retiredEd25519.publicKey)
+  ).length;
+  const key = (id: string, algorithm: SigningKey['algorithm'], publicKey: string, rest: Partial<SigningKey>) => ({
+    id, algorithm, publicKey, fingerprint: keyFingerprint(publicKey), validFrom: at(0), receiptCount: 0, ...rest,
+  });
+
+  return [
+    key('ed25519-2', 'ed25519', MOCK_SIGNERS.ed25519.publicKey, {
+      validFrom: at(-90),
+      validTo: at(14),
+      receiptCount: MOCK_METRICS.total - MOCK_RETIRED_ED25519_COUNT - stale,
+    }),
+    key('ed25519-1', 'ed25519', MOCK_SIGNERS.retiredEd25519.publicKey, {
+      validFrom: at(-270),
+      validTo: at(-90),
+      receiptCount: MOCK_RETIRED_ED25519_COUNT + stale,
+    }),
+    key('ed25519-3', 'ed25519', bytesToHex(ed25519.getPublicKey(DEMO_NEXT_ED25519_KEY)), {
+      validFrom: at(14),
+    }),
+    key('secp256k1-2', 'secp256k1', MOCK_SIGNERS.secp256k1.publicKey, {
+      validFrom: at(-120),
+      receiptCount: MOCK_METRICS.total - MOCK_REVOKED_SECP256K1_COUNT,
+    }),
+    key('secp256k1-1', 'secp256k1', bytesToHex(secp256k1.getPublicKey(DEMO_REVOKED_SECP256K1_KEY, true)), {
+      validFrom: at(-270),
+      revokedAt: at(-120),
+      revocationReason: 'Key material exposed in a build log',
+      receiptCount: MOCK_REVOKED_SECP256K1_COUNT,
+    }),
+    key('ml-dsa-1', 'ml-dsa', MOCK_SIGNERS.mlDsa.publicKey, {
+      validFrom: at(-MOCK_PQC_ROLLOUT_DAYS),
+      receiptCount: mockSigned('ml-dsa'),
+    }),
+    key('slh-dsa-1', 'slh-dsa', MOCK_SIGNERS.slhDsa.publicKey, {
+      validFrom: at(-MOCK_PQC_ROLLOUT_DAYS),
+      receiptCount: mockSigned('slh-dsa'),
+    }),
+  ];
+}
+
+/**
+ * Signature analytics for a window. Volumes follow the synthetic throughput
+ * series; the post-quantum share ramps up over the rollout.
+ */
+export function mockSignatures(window: ThroughputWindow): SignatureAnalytics {
+  const rolloutStart = MOCK_KEYS_NOW - MOCK_PQC_ROLLOUT_DAYS * DAY_MS;
+  const timeline = mockThroughput(window).map(p => {
+    const share = Math.min(1, Math.max(0, (Date.parse(p.timestamp) - rolloutStart) / (MOCK_PQC_RAMP_DAYS * DAY_MS)));
+    return { timestamp: p.timestamp, total: p.count, pqc: Math.round(p.count * share), failed: p.failed };
+  });
+  const total = timeline.reduce((sum, p) => sum + p.total, 0);
+  const pqc = timeline.reduce((sum, p) => sum + p.pqc, 0);
+  const failed = timeline.reduce((sum, p) => sum + p.failed, 0);
+  const stats = (algorithm: SignerAlgorithm, signed: number, failures: number) =>
+    ({ algorithm, signed, verified: signed - Math.min(signed, failures) });
+  const slhDsa = Math.round(pqc / MOCK_SLH_DSA_EVERY);
+
+  return {
+    total,
+    pqc,
+    // Most failures are one bad classical signature
+    algorithms: [
+      stats('ed25519', total, Math.ceil(failed / 2)),
+      stats('secp256k1', total, Math.floor(failed / 2)),
+      stats('ml-dsa', pqc, Math.round(pqc * 0.002)),
+      stats('slh-dsa', slhDsa, 0),
+    ].filter(s => s.signed > 0),
+    timeline: timeline.map(({ timestamp, total, pqc }) => ({ timestamp, total, pqc })),
+  };
+}
+
+/**
+ * Receipt by id or receipt hash, for the public lookup
+ */
+export function findMockReceipt(ref: string): Receipt | undefined {
+  const hash = (ref.startsWith('0x') ? ref.slice(2) : ref).toLowerCase();
+  return MOCK_RECEIPTS.find(r => r.id === ref || r.receiptHash === hash);
+}
+
+/**
+ * Keyset page of already filtered receipts. The cursor holds the last
+ * receipt's sort key and id, so receipts arriving at the top between pages
+ * don't shift the next one.
+ */
+export function mockReceiptPage(
+  receipts: Receipt[],
+  cursor: string | null,
+  limit: number,
+  sort: ReceiptSort
+): CursorPage<Receipt> {
+  const keyed = receipts
+    .map(receipt => ({ receipt, key: sortKey(receipt, sort.field), id: receipt.id }))
+    .sort((a, b) => compareByKey(a, b, sort));
+  const after = cursor ? decodeCursor(cursor) : null;
+  if (cursor && !after) throw new RangeError('Invalid cursor');
+  const start = after ? keyed.findIndex(r => compareByKey(r, after, sort) > 0) : 0;
+  const page = start < 0 ? [] : keyed.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const more = start >= 0 && start + limit < keyed.length;
+  return {
+    receipts: page.map(r => r.receipt),
+    nextCursor: more && last ? encodeCursor(last) : null,
+    total: keyed.length,
+  };
+}
+
+export function mockOldestPending(limit: number): Receipt[] {
+  return MOCK_RECEIPTS
+    .filter(r => !r.txHash)
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt))
+    .slice(0, limit);
+}
+
+export const MOCK_AUDIT_LOG: RevealAuditEntry[] = [];
+
+export function recordMockReveal(request: RevealRequest, actor: string): RevealAuditEntry {
+  const entry: RevealAuditEntry = {
+    ...request,
+    id: `audit_${MOCK_AUDIT_LOG.length + 1}`,
+    actor,
+    recordedAt: new Date().toISOString()
+  };
+  MOCK_AUDIT_LOG.unshift(entry);
+  return structuredClone(entry);
+}
+
+const MOCK_STREAM_RECEIPT_MS = 4000;
+const MOCK_STREAM_ANCHOR_EVERY = 4;
+
+let nextStreamId = 1001;
+let nextStreamBlock = 1001;
+let sinceAnchor = 0;
+
+const updateMockMetrics = (delta: MetricsDelta) => {
+  Object.assign(MOCK_METRICS, applyMetricsDelta(MOCK_METRICS, delta));
+};
+
+/**
+ * Emit synthetic live events: a signed receipt every few seconds, anchored
+ * in batches. The mock dataset is updated too, so later fetches agree with
+ * what was streamed. Returns a function that stops the stream.
+ */
+export function startMockStream(emit: (event: StreamEvent) => void): () => void {
+  const emitMetrics = (delta: MetricsDelta) => {
+    updateMockMetrics(delta);
+    emit({ type: 'metrics', delta });
+  };
+
+  const id = setInterval(() => {
+    const n = nextStreamId++;
+    const createdAt = new Date().toISOString();
+    const { type, payload } = mockPayload(n, createdAt);
+    const receipt: Receipt = {
+      id: `rec_${n}`,
+      type,
+      ...signMockReceipt(payload, n),
+      payload,
+      timestamp: Date.parse(createdAt),
+      hashVerified: true,
+      createdAt,
+      previousReceiptHash: MOCK_RECEIPTS.find(r => r.payload.patientId === payload.patientId)?.receiptHash
+    };
+
+    MOCK_RECEIPTS.unshift(receipt);
+    MOCK_CHAIN.pending += 1;
+    emit({ type: 'receipt', receipt });
+    emitMetrics({
+      total: 1,
+      lastHour: 1,
+      lastDay: 1,
+      verified: signaturesVerified(receipt) ? 1 : 0,
+      signatures: signatureStats([receipt]),
+    });
+
+    sinceAnchor += 1;
+    if (sinceAnchor >= MOCK_STREAM_ANCHOR_EVERY) {
+      // Each batch sweeps up everything signed and still pending
+      const batch = anchorMockBatch(
+        MOCK_RECEIPTS.filter(r => !r.txHash && r.signatures.length > 0),
+        nextStreamBlock++,
+        new Date().toISOString()
+      );
+      const receiptIds = batch.map(r => r.id);
+      const { txHash, blockNumber, anchoredAt } = batch[0] as Required<Receipt>;
+      MOCK_RECEIPTS.forEach((r, i) => {
+        const anchored = batch.find(b => b.id === r.id);
+        if (anchored) MOCK_RECEIPTS[i] = anchored;
+      });
+      MOCK_CHAIN.pending -= receiptIds.length;
+      MOCK_CHAIN.anchored += receiptIds.length;
+      MOCK_CHAIN.latestBlock = { blockNumber, txHash };
+
+      emit({
+        type: 'anchor',
+        receiptIds,
+        txHash,
+        blockNumber,
+        anchoredAt,
+        proofs: Object.fromEntries(batch.map(r => [r.id, r.merkleProof!]))
+      });
+      emitMetrics({ anchored: receiptIds.length });
+      sinceAnchor = 0;
+    }
+  }, MOCK_STREAM_RECEIPT_MS);
+
+  return () => clearInterval(id);
+}
+
+const MOCK_SUBMIT_SIGN_MS = 1500;
+const MOCK_SUBMIT_ANCHOR_MS = 8000;
+
+/**
+ * Accept a submitted payload the way the backend would: hashed straight
+ * away, signed shortly after and anchored on its own a few seconds later,
+ * unless a streamed batch picks it up first. Returns the hashed receipt.
+ */
+export function submitMockReceipt({ type, payload }: ReceiptSubmission): Receipt {
+  const n = nextStreamId++;
+  const createdAt = new Date().toISOString();
+  const { receiptHash, ...signed } = signMockReceipt(payload, n);
+  const receipt: Receipt = {
+    id: `rec_${n}`,
+    type,
+    receiptHash,
+    payload,
+    timestamp: Date.parse(createdAt),
+    hashVerified: true,
+    createdAt,
+    signatures: [],
+  };
+  MOCK_RECEIPTS.unshift(receipt);
+  MOCK_CHAIN.pending += 1;
+  updateMockMetrics({ total: 1, lastHour: 1, lastDay: 1 });
+
+  // Receipts are replaced rather than mutated, like the stream's anchor batches
+  const indexOf = () => MOCK_RECEIPTS.findIndex(r => r.id === receipt.id);
+  setTimeout(() => {
+    const i = indexOf();
+    if (i < 0) return;
+    MOCK_RECEIPTS[i] = { ...MOCK_RECEIPTS[i], ...signed };
+    updateMockMetrics({ verified: signaturesVerified(MOCK_RECEIPTS[i]) ? 1 : 0, signatures: signatureStats([MOCK_RECEIPTS[i]]) });
+  }, MOCK_SUBMIT_SIGN_MS);
+  setTimeout(() => {
+    const i = indexOf();
+    if (i < 0 || MOCK_RECEIPTS[i].txHash) return;
+    const [anchored] = anchorMockBatch([MOCK_RECEIPTS[i]], nextStreamBlock++, new Date().toISOString());
+    MOCK_RECEIPTS[i] = anchored;
+    MOCK_CHAIN.pending -= 1;
+    MOCK_CHAIN.anchored += 1;
+    MOCK_CHAIN.latestBlock = { blockNumber: anchored.blockNumber!, txHash: anchored.txHash! };
+    updateMockMetrics({ anchored: 1 });
+  }, MOCK_SUBMIT_ANCHOR_MS);
+
+  return structuredClone(receipt);
+}
+
+// Block the mock chain has since reorganized away, to demo reorg detection
+const MOCK_REORGED_BLOCK = 968;
+const MOCK_CHAIN_HEAD_LEAD = 4;
+// Arbitrary 4-byte selector standing in for the anchor contract call
+const MOCK_ANCHOR_SELECTOR = 'f1c2f0c4';
+
+const toHex = (n: number): string => `0x${n.toString(16)}`;
+
+const mockBlockHash = (n: number): string =>
+  `0x${bytesToHex(sha256(utf8ToBytes(`mock-block-${n}`)))}`;
+
+/**
+ * Minimal EVM JSON-RPC node over the mock dataset, for anchor verification in demo mode
+ */
+export function mockRpc(method: string, params: unknown[]): unknown {
+  const head = (MOCK_CHAIN.latestBlock?.blockNumber ?? 0) + MOCK_CHAIN_HEAD_LEAD;
+
+  if (method === 'eth_blockNumber') return toHex(head);
+  if (method === 'eth_getBlockByNumber') {
+    const n = parseInt(params[0] as string, 16);
+    return n <= head ? { number: toHex(n), hash: mockBlockHash(n) } : null;
+  }
+
+  const txHash = params[0] as string;
+  const receipt = MOCK_RECEIPTS.find(r => r.txHash === txHash);
+  if (!receipt?.blockNumber) return null;
+  const minedIn = receipt.blockNumber;
+  // Mined in a block that has since been replaced at the same height
+  const blockHash = minedIn === MOCK_REORGED_BLOCK ? mockBlockHash(-minedIn) : mockBlockHash(minedIn);
+  const root = receipt.merkleProof?.root ?? receipt.receiptHash;
+
+  switch (method) {
+    case 'eth_getTransactionByHash':
+      return { hash: txHash, input: `0x${MOCK_ANCHOR_SELECTOR}${root}`, blockNumber: toHex(minedIn) };
+    case 'eth_getTransactionReceipt':
+      return { transactionHash: txHash, blockNumber: toHex(minedIn), blockHash, status: '0x1' };
+    default:
+      throw new Error(`Unsupported mock RPC method: ${method}`);
+  }
+}
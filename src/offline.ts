@@ -0,0 +1,235 @@
+// Offline snapshots in IndexedDB
+// The last dashboard data per environment and the receipts the user opened
+// are kept so the dashboard still has something to show when the API is
+// unreachable. Payloads are redacted before they are written: nothing here
+// should hold more than a viewer may see. Generated compliance reports, which
+// hold aggregates only, are stored alongside.
+import { receiptDecoder, type Receipt } from './types';
+import { decode } from './decode';
+import { redactReceipt, type RedactionRule } from './redaction';
+
+export interface Snapshot<T> {
+  data: T;
+  /** Epoch ms the data was fetched */
+  savedAt: number;
+}
+
+interface StoredReceipt {
+  key: string;
+  envId: string;
+  viewedAt: number;
+  receipt: Receipt;
+}
+
+const DB_NAME = 'juggernaut';
+const DB_VERSION = 2;
+const SNAPSHOTS = 'snapshots';
+const RECEIPTS = 'receipts';
+const REPORTS = 'reports';
+const MAX_RECENT_RECEIPTS = 50;
+const MAX_STORED_REPORTS = 50;
+
+// Receipts read back from the cache, whose payloads are redacted copies
+const cachedReceipts = new WeakSet<Receipt>();
+
+let db: Promise<IDBDatabase> | null = null;
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!db) {
+    db = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const open = indexedDB.open(DB_NAME, DB_VERSION);
+      open.onupgradeneeded = e => {
+        if (e.oldVersion < 1) {
+          open.result.createObjectStore(SNAPSHOTS);
+          open.result.createObjectStore(RECEIPTS, { keyPath: 'key' }).createIndex('envId', 'envId');
+        }
+        if (e.oldVersion < 2) {
+          open.result.createObjectStore(REPORTS, { keyPath: 'id' }).createIndex('envId', 'envId');
+        }
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => reject(open.error);
+    });
+    // Let a failed open be retried
+    db.catch(() => {
+      db = null;
+    });
+  }
+  return db;
+}
+
+async function store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  return (await openDb()).transaction(name, mode).objectStore(name);
+}
+
+/**
+ * Redacted copies of `receipts`, tagged so `isCachedReceipt` recognises them.
+ * Decoding upgrades receipts cached in an older shape, e.g. dual-signed ones.
+ */
+function fromCache(receipts: Receipt[]): Receipt[] {
+  return receipts.map(r => {
+    const receipt = decode(receiptDecoder, r).value;
+    cachedReceipts.add(receipt);
+    return receipt;
+  });
+}
+
+export function isCachedReceipt(receipt: Receipt): boolean {
+  return cachedReceipts.has(receipt);
+}
+
+// ============================================================================
+// Dashboard snapshots
+// ============================================================================
+
+/**
+ * Store the latest data for an environment; receipts in `data.receipts` are redacted
+ */
+export async function saveSnapshot<T extends { receipts: Receipt[] }>(
+  envId: string,
+  data: T,
+  savedAt: number,
+  redaction: RedactionRule[]
+): Promise<void> {
+  try {
+    const snapshot: Snapshot<T> = {
+      data: { ...data, receipts: data.receipts.map(r => redactReceipt(r, redaction)) },
+      savedAt,
+    };
+    await request((await store(SNAPSHOTS, 'readwrite')).put(snapshot, envId));
+  } catch (e) {
+    console.error('Snapshot save error:', e);
+  }
+}
+
+export async function loadSnapshot<T extends { receipts: Receipt[] }>(envId: string): Promise<Snapshot<T> | null> {
+  try {
+    const snapshot = await request<Snapshot<T> | undefined>((await store(SNAPSHOTS, 'readonly')).get(envId));
+    if (!snapshot) return null;
+    return { ...snapshot, data: { ...snapshot.data, receipts: fromCache(snapshot.data.receipts) } };
+  } catch (e) {
+    console.error('Snapshot load error:', e);
+    return null;
+  }
+}
+
+// ============================================================================
+// Recently viewed receipts
+// ============================================================================
+
+export async function rememberReceipt(envId: string, receipt: Receipt, redaction: RedactionRule[]): Promise<void> {
+  try {
+    const entry: StoredReceipt = {
+      key: `${envId}/${receipt.id}`,
+      envId,
+      viewedAt: Date.now(),
+      receipt: redactReceipt(receipt, redaction),
+    };
+    const receipts = await store(RECEIPTS, 'readwrite');
+    await request(receipts.put(entry));
+
+    // Keep the most recently viewed only
+    const all = await request<StoredReceipt[]>(receipts.index('envId').getAll(envId));
+    all.sort((a, b) => b.viewedAt - a.viewedAt)
+      .slice(MAX_RECENT_RECEIPTS)
+      .forEach(old => receipts.delete(old.key));
+  } catch (e) {
+    console.error('Receipt cache error:', e);
+  }
+}
+
+export async function getCachedReceipt(envId: string, id: string): Promise<Receipt | null> {
+  try {
+    const entry = await request<StoredReceipt | undefined>((await store(RECEIPTS, 'readonly')).get(`${envId}/${id}`));
+    return entry ? fromCache([entry.receipt])[0] : null;
+  } catch (e) {
+    console.error('Receipt cache error:', e);
+    return null;
+  }
+}
+
+// ============================================================================
+// Generated reports
+// ============================================================================
+
+export interface StoredReport {
+  id: string;
+  envId: string;
+  templateId: string;
+  title: string;
+  /** ISO bounds of the period covered */
+  from: string;
+  to: string;
+  generatedAt: string;
+  /** Generated by the schedule rather than on demand */
+  scheduled: boolean;
+  /** Standalone printable page */
+  html: string;
+}
+
+/**
+ * Store a report, keeping the most recent per environment. Resolves false
+ * when IndexedDB is unavailable or the write fails.
+ */
+export async function saveReport(report: StoredReport): Promise<boolean> {
+  try {
+    const reports = await store(REPORTS, 'readwrite');
+    await request(reports.put(report));
+    const all = await request<StoredReport[]>(reports.index('envId').getAll(report.envId));
+    all.sort((a, b) => b.generatedAt.localeCompare(a.generatedAt))
+      .slice(MAX_STORED_REPORTS)
+      .forEach(old => reports.delete(old.id));
+    return true;
+  } catch (e) {
+    console.error('Report save error:', e);
+    return false;
+  }
+}
+
+/**
+ * Reports for an environment, newest first
+ */
+export async function listReports(envId: string): Promise<StoredReport[]> {
+  try {
+    const all = await request<StoredReport[]>((await store(REPORTS, 'readonly')).index('envId').getAll(envId));
+    return all.sort((a, b) => b.generatedAt.localeCompare(a.generatedAt));
+  } catch (e) {
+    console.error('Report list error:', e);
+    return [];
+  }
+}
+
+export async function deleteReport(id: string): Promise<void> {
+  try {
+    await request((await store(REPORTS, 'readwrite')).delete(id));
+  } catch (e) {
+    console.error('Report delete error:', e);
+  }
+}
+
+/**
+ * Forget everything cached for an environment, e.g. on sign-out. Reports
+ * are kept: they are the user's own compliance record.
+ */
+export async function clearOfflineData(envId: string): Promise<void> {
+  try {
+    const snapshots = await store(SNAPSHOTS, 'readwrite');
+    await request(snapshots.delete(envId));
+    const receipts = await store(RECEIPTS, 'readwrite');
+    const keys = await request(receipts.index('envId').getAllKeys(envId));
+    keys.forEach(key => receipts.delete(key));
+  } catch (e) {
+    console.error('Offline cache clear error:', e);
+  }
+}
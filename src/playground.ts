@@ -0,0 +1,71 @@
+// Submission playground
+// Parses pasted or uploaded JSON, either a bare payload or a receipt as
+// exported by the dashboard, and tracks a submitted receipt's lifecycle.
+import { receiptDecoder, type Receipt, type ReceiptSubmission } from './types';
+import { decode, DecodeError } from './decode';
+
+export type LifecycleStage = 'submitted' | 'hashed' | 'signed' | 'anchored';
+
+export const LIFECYCLE_STAGES: LifecycleStage[] = ['submitted', 'hashed', 'signed', 'anchored'];
+
+export type PlaygroundInput =
+  | { kind: 'payload'; submission: ReceiptSubmission }
+  /** An existing receipt; submitting it resubmits its payload */
+  | { kind: 'receipt'; receipt: Receipt; submission: ReceiptSubmission };
+
+class InputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InputError';
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Exports and API responses carry these; a payload is unlikely to have both
+const looksLikeReceipt = (value: Record<string, unknown>): boolean =>
+  typeof value.receiptHash === 'string' && isPlainObject(value.payload);
+
+/**
+ * A JSON payload, or one receipt: a JSON object or a single line of a JSON
+ * Lines export. Receipts are decoded like API responses, so legacy
+ * dual-signature exports are accepted too.
+ */
+export function parsePlaygroundInput(text: string): PlaygroundInput {
+  const lines = text.trim().split('\n').filter(line => line.trim() !== '');
+  if (lines.length === 0) throw new InputError('Paste a JSON payload or receipt');
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (e) {
+    const jsonLines = lines.length > 1 && lines.every(line => line.trim().startsWith('{'));
+    throw new InputError(jsonLines
+      ? 'JSON Lines exports hold one receipt per line; paste a single line'
+      : `Not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!isPlainObject(value)) throw new InputError('Expected a JSON object');
+
+  if (!looksLikeReceipt(value)) return { kind: 'payload', submission: { payload: value } };
+
+  try {
+    const { value: receipt } = decode(receiptDecoder, value);
+    return { kind: 'receipt', receipt, submission: { type: receipt.type, payload: receipt.payload } };
+  } catch (e) {
+    if (!(e instanceof DecodeError)) throw e;
+    const errors = e.issues.filter(i => i.severity === 'error');
+    throw new InputError(`Not a valid receipt: ${errors.map(i => `${i.path} expected ${i.expected}, got ${i.received}`).join('; ')}`);
+  }
+}
+
+/**
+ * Furthest stage the receipt has reached
+ */
+export function lifecycleStage(receipt: Receipt): LifecycleStage {
+  if (receipt.txHash) return 'anchored';
+  if (receipt.signatures.length > 0) return 'signed';
+  return receipt.receiptHash ? 'hashed' : 'submitted';
+}
+
+export { InputError };
@@ -0,0 +1,69 @@
+// Public receipt lookup for the embeddable widget
+// Kept apart from api.ts so the widget bundle carries neither the dashboard
+// client with its credential handling nor the mock dataset, which is only
+// loaded in demo mode.
+import { publicReceiptDecoder, type PublicReceipt } from './types';
+import { decode } from './decode';
+import type { ApiEnvironment } from './environments';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+interface PublicLookupOptions {
+  /** Keep the payload when the backend publishes one */
+  allowPayload?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Only the public fields: decoders pass unknown fields through, and a
+ * receipt from the mock dataset has everything
+ */
+export function toPublicReceipt(receipt: PublicReceipt, allowPayload: boolean): PublicReceipt {
+  const { id, receiptHash, createdAt, hashVerified, signatures, txHash, blockNumber, anchoredAt, payload } = receipt;
+  return {
+    id,
+    receiptHash,
+    createdAt,
+    hashVerified,
+    signatures: signatures.map(({ algorithm, parameterSet, verified }) => ({ algorithm, parameterSet, verified })),
+    txHash,
+    blockNumber,
+    anchoredAt,
+    ...(allowPayload && payload && { payload }),
+  };
+}
+
+/**
+ * Look up a receipt by hash or id without credentials; null when there is no
+ * such receipt. The payload is dropped here unless allowed, so it never
+ * reaches the page.
+ */
+export async function getPublicReceipt(
+  env: ApiEnvironment,
+  ref: string,
+  { allowPayload = false, signal }: PublicLookupOptions = {}
+): Promise<PublicReceipt | null> {
+  if (env.mock) {
+    const { findMockReceipt } = await import('./mocks');
+    const receipt = findMockReceipt(ref);
+    return receipt ? toPublicReceipt(receipt, allowPayload) : null;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    const response = await fetch(`${env.baseUrl}/public/receipts/${encodeURIComponent(ref)}`, {
+      credentials: 'omit',
+      signal: controller.signal,
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Lookup failed (${response.status})`);
+    const { value } = decode(publicReceiptDecoder, await response.json());
+    return toPublicReceipt(value, allowPayload);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
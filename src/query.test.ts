@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+
+import type { Receipt } from './types';
+import type { RedactionRule } from './redaction';
+import { parseReceiptQuery, matchesQuery, isEmptyQuery } from './query';
+
+function receipt(overrides: Partial<Receipt> = {}): Receipt {
+  return {
+    id: '1',
+    receiptHash: '3fa9c0de',
+    payload: { nurse: 'Alice', patientId: 'P-1001', vitals: { pulse: 72 } },
+    timestamp: Date.parse('2026-10-02T12:00:00Z'),
+    hashVerified: true,
+    txHash: '0xabc123',
+    blockNumber: 920,
+    createdAt: '2026-10-02T12:00:00.000Z',
+    signatures: [
+      { algorithm: 'ed25519', verified: true },
+      { algorithm: 'secp256k1', verified: false },
+    ],
+    ...overrides,
+  };
+}
+
+describe('parseReceiptQuery', () => {
+  it('parses structured terms and free text', () => {
+    const { query, errors } = parseReceiptQuery('nurse:Alice block:>900 ed:failed hash:3FA9 foo "bar baz"');
+    expect(errors).toEqual([]);
+    expect(query).toEqual({
+      payload: { nurse: 'Alice' },
+      blockMin: 901,
+      ed: 'failed',
+      hashPrefix: '3fa9',
+      text: 'foo bar baz',
+    });
+  });
+
+  it('parses block ranges', () => {
+    expect(parseReceiptQuery('block:900..950').query).toEqual({ blockMin: 900, blockMax: 950 });
+    expect(parseReceiptQuery('block:<=900').query).toEqual({ blockMax: 900 });
+    expect(parseReceiptQuery('block:<900').query).toEqual({ blockMax: 899 });
+    expect(parseReceiptQuery('block:900').query).toEqual({ blockMin: 900, blockMax: 900 });
+  });
+
+  it('makes date-only `to:` cover the whole day', () => {
+    const { query } = parseReceiptQuery('from:2026-10-01 to:2026-10-01');
+    expect(Date.parse(query.to!) - Date.parse(query.from!)).toBe(86400000 - 1);
+  });
+
+  it('maps schema search keywords to payload paths', () => {
+    const { query } = parseReceiptQuery('Pulse:72 ward:"North wing"', { pulse: 'vitals.pulse' });
+    expect(query.payload).toEqual({ 'vitals.pulse': '72', ward: 'North wing' });
+  });
+
+  it('reports invalid values and keeps going', () => {
+    const { query, errors } = parseReceiptQuery('block:abc from:someday ec:maybe nurse:Bob');
+    expect(errors).toHaveLength(3);
+    expect(query).toEqual({ payload: { nurse: 'Bob' } });
+  });
+
+  it('treats a trailing or leading colon as text', () => {
+    expect(parseReceiptQuery('nurse: :x').query).toEqual({ text: 'nurse: :x' });
+    expect(isEmptyQuery(parseReceiptQuery('   ').query)).toBe(true);
+  });
+});
+
+describe('matchesQuery', () => {
+  const match = (input: string, r: Receipt = receipt()) => matchesQuery(r, parseReceiptQuery(input).query);
+
+  it('matches free text against hashes and payload', () => {
+    expect(match('3fa9')).toBe(true);
+    expect(match('abc123')).toBe(true);
+    expect(match('alice')).toBe(true);
+    expect(match('carol')).toBe(false);
+  });
+
+  it('matches payload fields case-insensitively, including nested paths', () => {
+    expect(match('nurse:alice')).toBe(true);
+    expect(match('nurse:Ali')).toBe(false);
+    expect(match('pulse:72', receipt())).toBe(false);
+    expect(matchesQuery(receipt(), { payload: { 'vitals.pulse': '72' } })).toBe(true);
+  });
+
+  it('matches block bounds and excludes unanchored receipts', () => {
+    expect(match('block:900..950')).toBe(true);
+    expect(match('block:>920')).toBe(false);
+    expect(match('block:>0', receipt({ blockNumber: undefined }))).toBe(false);
+  });
+
+  it('matches date bounds', () => {
+    expect(match('from:2026-10-02 to:2026-10-02')).toBe(true);
+    expect(match('from:2026-10-03')).toBe(false);
+  });
+
+  it('matches check statuses; a missing signature matches neither', () => {
+    expect(match('ed:verified ec:failed hashcheck:ok')).toBe(true);
+    expect(match('ec:verified')).toBe(false);
+    expect(match('ed:failed', receipt({ signatures: [] }))).toBe(false);
+    expect(match('ed:verified', receipt({ signatures: [] }))).toBe(false);
+  });
+
+  it('matches against the redacted payload when rules are given', () => {
+    const rules: RedactionRule[] = [
+      { field: 'patientId', mode: 'mask' },
+      { field: 'nurse', mode: 'remove' },
+    ];
+    const redacted = (input: string) => matchesQuery(receipt(), parseReceiptQuery(input).query, rules);
+    expect(match('P-1001')).toBe(true);
+    expect(redacted('P-1001')).toBe(false);
+    expect(redacted('patientId:P-1001')).toBe(false);
+    expect(redacted('alice')).toBe(false);
+    expect(redacted('nurse:Alice')).toBe(false);
+    expect(redacted('3fa9')).toBe(true);
+  });
+});
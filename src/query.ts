@@ -0,0 +1,182 @@
+// Receipt search query syntax
+// e.g. `nurse:Alice block:>900 ed:failed from:2026-10-01 3fa9`
+import type { CheckStatus, Receipt, ReceiptQuery } from './types';
+import { getFieldValue } from './schemas';
+import { receiptSignature } from './signatures';
+import { redactPayload, type RedactionRule } from './redaction';
+
+export interface ParsedQuery {
+  query: ReceiptQuery;
+  errors: string[];
+}
+
+const TOKEN_RE = /(\S+?):"([^"]*)"|"([^"]*)"|(\S+)/g;
+const DATE_ONLY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 86400000;
+
+function parseCheckStatus(value: string): CheckStatus | null {
+  const v = value.toLowerCase();
+  if (['verified', 'valid', 'ok', 'pass', 'true'].includes(v)) return 'verified';
+  if (['failed', 'invalid', 'fail', 'false'].includes(v)) return 'failed';
+  return null;
+}
+
+/**
+ * Parse `block:` values: `900`, `>900`, `>=900`, `<900`, `<=900`, `900..950`
+ */
+function parseBlockRange(value: string): { min?: number; max?: number } | null {
+  const range = value.match(/^(\d+)\.\.(\d+)$/);
+  if (range) return { min: Number(range[1]), max: Number(range[2]) };
+
+  const cmp = value.match(/^(>=|<=|>|<|=)?(\d+)$/);
+  if (!cmp) return null;
+  const n = Number(cmp[2]);
+  switch (cmp[1]) {
+    case '>': return { min: n + 1 };
+    case '>=': return { min: n };
+    case '<': return { max: n - 1 };
+    case '<=': return { max: n };
+    default: return { min: n, max: n };
+  }
+}
+
+/**
+ * Date-only `to:` values cover the whole day
+ */
+function parseDate(value: string, endOfDay: boolean): string | null {
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) return null;
+  return new Date(endOfDay && DATE_ONLY_RE.test(value) ? ms + DAY_MS - 1 : ms).toISOString();
+}
+
+/**
+ * Parse the search box into a structured query. Unknown `key:value` pairs
+ * match payload fields, through `fields` when the key is a schema search
+ * keyword; bare words become free text.
+ */
+export function parseReceiptQuery(input: string, fields: Record<string, string> = {}): ParsedQuery {
+  const query: ReceiptQuery = {};
+  const errors: string[] = [];
+  const text: string[] = [];
+
+  for (const match of input.matchAll(TOKEN_RE)) {
+    const [, quotedKey, quotedValue, quotedText, bare] = match;
+    if (quotedText !== undefined) {
+      text.push(quotedText);
+      continue;
+    }
+
+    let key: string;
+    let value: string;
+    if (quotedKey !== undefined) {
+      key = quotedKey;
+      value = quotedValue;
+    } else {
+      const sep = bare.indexOf(':');
+      if (sep <= 0 || sep === bare.length - 1) {
+        text.push(bare);
+        continue;
+      }
+      key = bare.slice(0, sep);
+      value = bare.slice(sep + 1);
+    }
+
+    switch (key.toLowerCase()) {
+      case 'hash':
+        query.hashPrefix = value.toLowerCase();
+        break;
+      case 'tx':
+        query.txHash = value.toLowerCase();
+        break;
+      case 'block': {
+        const range = parseBlockRange(value);
+        if (!range) {
+          errors.push(`Invalid block range "${value}"`);
+          break;
+        }
+        if (range.min !== undefined) query.blockMin = range.min;
+        if (range.max !== undefined) query.blockMax = range.max;
+        break;
+      }
+      case 'from':
+      case 'to': {
+        const iso = parseDate(value, key.toLowerCase() === 'to');
+        if (!iso) errors.push(`Invalid date "${value}"`);
+        else if (key.toLowerCase() === 'from') query.from = iso;
+        else query.to = iso;
+        break;
+      }
+      case 'ed':
+      case 'ec':
+      case 'hashcheck': {
+        const status = parseCheckStatus(value);
+        const field = key.toLowerCase() === 'hashcheck' ? 'hashCheck' : key.toLowerCase() as 'ed' | 'ec';
+        if (status) query[field] = status;
+        else errors.push(`Invalid ${key} status "${value}" (use verified or failed)`);
+        break;
+      }
+      default:
+        query.payload = { ...query.payload, [fields[key.toLowerCase()] ?? key]: value };
+    }
+  }
+
+  if (text.length > 0) query.text = text.join(' ');
+  return { query, errors };
+}
+
+export function isEmptyQuery(query: ReceiptQuery): boolean {
+  return Object.keys(query).length === 0;
+}
+
+/**
+ * `verified` is undefined when the receipt lacks the signature, which matches neither status
+ */
+function checkMatches(status: CheckStatus | undefined, verified: boolean | undefined): boolean {
+  return status === undefined || (verified !== undefined && (status === 'verified') === verified);
+}
+
+/**
+ * Reference semantics for ReceiptQuery, shared by the mock API and the live
+ * stream. Free text and payload fields are matched against the payload as
+ * redacted by `redaction`, so a viewer can't confirm a masked value by
+ * searching for it; the API has to do the same for its own searches.
+ */
+export function matchesQuery(receipt: Receipt, query: ReceiptQuery, redaction: RedactionRule[] = []): boolean {
+  const payload = redaction.length > 0 && (query.text || query.payload)
+    ? redactPayload(receipt.payload, redaction).payload
+    : receipt.payload;
+
+  if (query.text) {
+    const needle = query.text.toLowerCase();
+    const found =
+      receipt.receiptHash.toLowerCase().includes(needle) ||
+      receipt.txHash?.toLowerCase().includes(needle) ||
+      JSON.stringify(payload).toLowerCase().includes(needle);
+    if (!found) return false;
+  }
+  if (query.hashPrefix && !receipt.receiptHash.toLowerCase().startsWith(query.hashPrefix)) return false;
+  if (query.txHash && !receipt.txHash?.toLowerCase().startsWith(query.txHash)) return false;
+
+  if (query.payload) {
+    for (const [field, expected] of Object.entries(query.payload)) {
+      const actual = getFieldValue(payload, field);
+      if (actual === undefined || String(actual).toLowerCase() !== expected.toLowerCase()) return false;
+    }
+  }
+
+  const created = Date.parse(receipt.createdAt);
+  if (query.from && created < Date.parse(query.from)) return false;
+  if (query.to && created > Date.parse(query.to)) return false;
+
+  if (query.blockMin !== undefined || query.blockMax !== undefined) {
+    if (receipt.blockNumber === undefined) return false;
+    if (query.blockMin !== undefined && receipt.blockNumber < query.blockMin) return false;
+    if (query.blockMax !== undefined && receipt.blockNumber > query.blockMax) return false;
+  }
+
+  return (
+    checkMatches(query.ed, receiptSignature(receipt, 'ed25519')?.verified) &&
+    checkMatches(query.ec, receiptSignature(receipt, 'secp256k1')?.verified) &&
+    checkMatches(query.hashCheck, receipt.hashVerified)
+  );
+}
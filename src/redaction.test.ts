@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+
+import { redactPayload, isRedactionRule, type RedactionRule } from './redaction';
+
+const RULES: RedactionRule[] = [
+  { field: 'patient*', mode: 'mask' },
+  { field: 'nurse', mode: 'partial' },
+  { field: 'notes', mode: 'remove' },
+  { field: 'vitals.weight', mode: 'mask' },
+];
+
+describe('redactPayload', () => {
+  it('masks, partially masks and removes matching fields', () => {
+    const { payload, redactedFields } = redactPayload(
+      { patientId: 'P-1', patientName: 'Jane', nurse: 'Alice', notes: 'x', ward: 'North' },
+      RULES
+    );
+    expect(payload).toEqual({ patientId: '•••••', patientName: '•••••', nurse: 'A•••••', ward: 'North' });
+    expect(redactedFields).toEqual(['patientId', 'patientName', 'nurse', 'notes']);
+  });
+
+  it('matches nested paths and masks whole matched objects', () => {
+    const { payload, redactedFields } = redactPayload(
+      { vitals: { weight: 80, pulse: 72 }, patient: { name: 'Jane' } },
+      RULES
+    );
+    expect(payload).toEqual({ vitals: { weight: '•••••', pulse: 72 }, patient: '•••••' });
+    expect(redactedFields).toEqual(['vitals.weight', 'patient']);
+  });
+
+  it('matches case-insensitively, with wildcards within one path segment', () => {
+    const { payload } = redactPayload({ PatientId: 'P-1', visit: { patientId: 'P-1' } }, RULES);
+    expect(payload).toEqual({ PatientId: '•••••', visit: { patientId: 'P-1' } });
+  });
+
+  it('redacts fields of objects inside arrays', () => {
+    const rules: RedactionRule[] = [
+      { field: 'visits[].patientId', mode: 'mask' },
+      { field: 'visits[].nurse', mode: 'partial' },
+      { field: 'visits[].notes', mode: 'remove' },
+    ];
+    const { payload, redactedFields } = redactPayload(
+      { visits: [{ patientId: 'P-1', nurse: 'Alice', notes: 'x', ward: 'North' }, { patientId: 'P-2', nurse: 'Bob' }] },
+      rules
+    );
+    expect(payload).toEqual({
+      visits: [{ patientId: '•••••', nurse: 'A•••••', ward: 'North' }, { patientId: '•••••', nurse: 'B•••••' }],
+    });
+    expect(redactedFields).toEqual([
+      'visits.0.patientId', 'visits.0.nurse', 'visits.0.notes', 'visits.1.patientId', 'visits.1.nurse',
+    ]);
+  });
+
+  it('redacts nested arrays, elements and single indices', () => {
+    const { payload, redactedFields } = redactPayload(
+      {
+        wards: [{ beds: [{ patientName: 'Jane' }, { patientName: 'John' }] }],
+        codes: ['A1', 'B2'],
+        contacts: ['555-0100', '555-0101'],
+      },
+      [
+        { field: 'wards[].beds[].patient*', mode: 'mask' },
+        { field: 'codes[]', mode: 'remove' },
+        { field: 'contacts.1', mode: 'mask' },
+      ]
+    );
+    expect(payload).toEqual({
+      wards: [{ beds: [{ patientName: '•••••' }, { patientName: '•••••' }] }],
+      codes: ['•••••', '•••••'],
+      contacts: ['555-0100', '•••••'],
+    });
+    expect(redactedFields).toEqual([
+      'wards.0.beds.0.patientName', 'wards.0.beds.1.patientName', 'codes.0', 'codes.1', 'contacts.1',
+    ]);
+  });
+
+  it('accepts `*` for array indices', () => {
+    const { payload } = redactPayload({ visits: [{ patientId: 'P-1' }] }, [{ field: 'visits.*.patientId', mode: 'mask' }]);
+    expect(payload).toEqual({ visits: [{ patientId: '•••••' }] });
+  });
+
+  it('leaves the original payload untouched', () => {
+    const original = { nurse: 'Alice', vitals: { weight: 80 } };
+    redactPayload(original, RULES);
+    expect(original).toEqual({ nurse: 'Alice', vitals: { weight: 80 } });
+  });
+});
+
+describe('isRedactionRule', () => {
+  it('accepts rules with a field and a known mode', () => {
+    expect(isRedactionRule({ field: 'a', mode: 'mask' })).toBe(true);
+    expect(isRedactionRule({ field: '', mode: 'mask' })).toBe(false);
+    expect(isRedactionRule({ field: 'a', mode: 'hide' })).toBe(false);
+  });
+});
@@ -0,0 +1,118 @@
+// Payload redaction
+// Field rules decide which payload values are hidden from display and export.
+// Rules match dotted paths (`patient.name`) and accept `*` wildcards (`patient*`).
+// Array elements are matched as `[]`: `visits[].patientId` covers every visit.
+//
+// This is display masking, not access control: the browser has already
+// downloaded the full payload, so anyone signed in can read masked values
+// from DevTools or the network log. Fields a role must not see have to be
+// withheld by the API.
+import type { Receipt } from './types';
+
+export type RedactionMode = 'mask' | 'partial' | 'remove';
+
+export interface RedactionRule {
+  field: string;
+  mode: RedactionMode;
+}
+
+export interface RedactedPayload {
+  payload: Record<string, unknown>;
+  /** Dotted paths of every value that was changed or removed, array elements by index (`visits.0.patientId`) */
+  redactedFields: string[];
+}
+
+export const REDACTION_MODES: RedactionMode[] = ['mask', 'partial', 'remove'];
+
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { field: 'patient*', mode: 'mask' },
+  { field: 'nurse', mode: 'partial' },
+];
+
+const MASK = '•••••';
+
+const patternCache = new Map<string, RegExp>();
+
+function fieldPattern(field: string): RegExp {
+  let re = patternCache.get(field);
+  if (!re) {
+    const source = field.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^.]*');
+    re = new RegExp(`^${source}$`, 'i');
+    patternCache.set(field, re);
+  }
+  return re;
+}
+
+function matchRule(path: string, rules: RedactionRule[]): RedactionRule | undefined {
+  return rules.find(rule => fieldPattern(rule.field).test(path));
+}
+
+/**
+ * `partial` keeps the first character of strings so values stay distinguishable
+ */
+function redactValue(value: unknown, mode: Exclude<RedactionMode, 'remove'>): string {
+  if (mode === 'partial' && typeof value === 'string' && value.length > 1) {
+    return `${value[0]}${MASK}`;
+  }
+  return MASK;
+}
+
+interface RedactionContext {
+  rules: RedactionRule[];
+  redactedFields: string[];
+}
+
+/**
+ * Redact one value; `path` names it for display and `pattern` is the same
+ * path with array indices as `[]`, which rules are matched against. Undefined
+ * means the value is removed.
+ */
+function redactNode(value: unknown, path: string, pattern: string, context: RedactionContext): unknown {
+  const rule = matchRule(pattern, context.rules) ?? (path !== pattern ? matchRule(path, context.rules) : undefined);
+  if (rule) {
+    context.redactedFields.push(path);
+    return rule.mode === 'remove' ? undefined : redactValue(value, rule.mode);
+  }
+  if (Array.isArray(value)) {
+    // Removing an element would renumber the rest, so array elements are masked instead
+    return value.map((item, i) => redactNode(item, `${path}.${i}`, `${pattern}[]`, context) ?? MASK);
+  }
+  if (value && typeof value === 'object') {
+    return redactObject(value as Record<string, unknown>, path, pattern, context);
+  }
+  return value;
+}
+
+function redactObject(
+  obj: Record<string, unknown>,
+  prefix: string,
+  patternPrefix: string,
+  context: RedactionContext
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    const redacted = redactNode(
+      value,
+      prefix ? `${prefix}.${key}` : key,
+      patternPrefix ? `${patternPrefix}.${key}` : key,
+      context
+    );
+    if (redacted !== undefined) result[key] = redacted;
+  }
+  return result;
+}
+
+export function redactPayload(payload: Record<string, unknown>, rules: RedactionRule[]): RedactedPayload {
+  const redactedFields: string[] = [];
+  return { payload: redactObject(payload, '', '', { rules, redactedFields }), redactedFields };
+}
+
+export function redactReceipt(receipt: Receipt, rules: RedactionRule[]): Receipt {
+  return { ...receipt, payload: redactPayload(receipt.payload, rules).payload };
+}
+
+export function isRedactionRule(value: unknown): value is RedactionRule {
+  if (!value || typeof value !== 'object') return false;
+  const r = value as Record<string, unknown>;
+  return typeof r.field === 'string' && r.field !== '' && REDACTION_MODES.includes(r.mode as RedactionMode);
+}
@@ -0,0 +1,328 @@
+// Compliance report rendering
+// A standalone page with inline styles and SVG charts, so a stored report
+// opens, prints and saves to PDF the same way years later without the
+// dashboard around it.
+import type { ReportData, ReportSection } from './reports';
+import type { SigningKey, SignerKeyStats, ThroughputPoint } from './types';
+import { formatDuration, truncateHash } from './hooks';
+import { formatBucketLabel } from './throughput';
+import { CHECK_LABELS, receiptFailures, describeReason } from './forensics';
+import { SIGNER_ALGORITHMS, BADGE_LABELS } from './signatures';
+import { keyStatus, keyEnd, type KeyStatus } from './keys';
+
+const MAX_LISTED_FAILURES = 25;
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = { top: 10, right: 10, bottom: 24, left: 44 };
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { font: 13px/1.5 system-ui, -apple-system, 'Segoe UI', sans-serif; color: #18181b; margin: 0 auto;
+    max-width: 800px; padding: 32px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 28px 0 8px; padding-bottom: 4px; border-bottom: 1px solid #d4d4d8; }
+  .meta { color: #52525b; margin: 0; }
+  .cards { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; }
+  .card { border: 1px solid #d4d4d8; border-radius: 6px; padding: 8px 10px; }
+  .card .label { color: #52525b; font-size: 11px; }
+  .card .value { font-size: 18px; font-weight: 600; }
+  table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #e4e4e7; vertical-align: top; }
+  th { color: #52525b; font-weight: 500; font-size: 11px; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+  .mono { font-family: ui-monospace, monospace; font-size: 11px; }
+  .bad { color: #b91c1c; }
+  .muted { color: #71717a; }
+  .legend span { display: inline-flex; align-items: center; gap: 4px; margin-right: 12px; font-size: 11px; }
+  .legend i { display: inline-block; width: 10px; height: 10px; border-radius: 2px; }
+  section { break-inside: avoid; }
+  footer { margin-top: 32px; color: #71717a; font-size: 11px; }
+  @media print { body { padding: 0; } @page { margin: 16mm; } }
+`;
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+// Reports are filed for years; dates carry the year
+const formatDate = (iso: string): string => new Date(iso).toLocaleString('en-US', {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+const count = (n: number): string => n.toLocaleString('en-US');
+
+const rate = (part: number, total: number): string =>
+  (total > 0 ? `${((part / total) * 100).toFixed(2)}%` : '—');
+
+const card = (label: string, value: string): string =>
+  `<div class="card"><div class="label">${escapeHtml(label)}</div><div class="value">${escapeHtml(value)}</div></div>`;
+
+const table = (headers: { label: string; num?: boolean }[], rows: string[][]): string => `
+  <table>
+    <thead><tr>${headers.map(h => `<th${h.num ? ' class="num"' : ''}>${escapeHtml(h.label)}</th>`).join('')}</tr></thead>
+    <tbody>${rows.map(cells => `<tr>${cells.join('')}</tr>`).join('')}</tbody>
+  </table>`;
+
+const cell = (content: string, className?: string): string =>
+  `<td${className ? ` class="${className}"` : ''}>${content}</td>`;
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((total, item) => total + value(item), 0);
+}
+
+// ============================================================================
+// Sections
+// ============================================================================
+
+function summarySection(throughput: ThroughputPoint[]): string {
+  const total = sum(throughput, p => p.count);
+  const verified = sum(throughput, p => p.verified);
+  const anchored = sum(throughput, p => p.anchored);
+  const failed = sum(throughput, p => p.failed);
+  return `
+    <section>
+      <h2>Summary</h2>
+      <div class="cards">
+        ${card('Receipts', count(total))}
+        ${card('Verification rate', rate(verified, total))}
+        ${card('Anchoring rate', rate(anchored, total))}
+        ${card('Failed verification', count(failed))}
+      </div>
+      <p class="muted">${count(verified)} verified and ${count(anchored)} anchored of the receipts created in the period.</p>
+    </section>`;
+}
+
+function throughputSection(throughput: ThroughputPoint[], data: ReportData): string {
+  const { bucket } = data.range;
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const max = Math.max(1, ...throughput.map(p => p.count));
+  const slot = plotWidth / Math.max(1, throughput.length);
+  const barWidth = Math.max(1, slot * 0.8);
+  const y = (value: number) => CHART_PADDING.top + plotHeight - (value / max) * plotHeight;
+
+  const bars = throughput.map((p, i) => {
+    const x = CHART_PADDING.left + i * slot + (slot - barWidth) / 2;
+    const failedTop = y(p.failed);
+    return `<rect x="${x.toFixed(1)}" y="${y(p.count).toFixed(1)}" width="${barWidth.toFixed(1)}" ` +
+      `height="${(y(0) - y(p.count)).toFixed(1)}" fill="#3b82f6"/>` +
+      (p.failed > 0
+        ? `<rect x="${x.toFixed(1)}" y="${failedTop.toFixed(1)}" width="${barWidth.toFixed(1)}" ` +
+          `height="${(y(0) - failedTop).toFixed(1)}" fill="#ef4444"/>`
+        : '');
+  }).join('');
+
+  // First, middle and last bucket labels keep the axis readable at any length
+  const labelled = [...new Set([0, Math.floor((throughput.length - 1) / 2), throughput.length - 1])]
+    .filter(i => i >= 0 && i < throughput.length);
+  const labels = labelled.map(i => {
+    const x = CHART_PADDING.left + (i + 0.5) * slot;
+    const text = formatBucketLabel(throughput[i].timestamp, bucket, false);
+    return `<text x="${x.toFixed(1)}" y="${CHART_HEIGHT - 6}" font-size="10" text-anchor="middle" fill="#52525b">` +
+      `${escapeHtml(text)}</text>`;
+  }).join('');
+
+  return `
+    <section>
+      <h2>Throughput</h2>
+      <svg width="${CHART_WIDTH}" height="${CHART_HEIGHT}" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img"
+        aria-label="Receipts per ${bucket}" style="max-width: 100%; height: auto">
+        <line x1="${CHART_PADDING.left}" x2="${CHART_WIDTH - CHART_PADDING.right}" y1="${y(0)}" y2="${y(0)}" stroke="#a1a1aa"/>
+        <line x1="${CHART_PADDING.left}" x2="${CHART_WIDTH - CHART_PADDING.right}" y1="${y(max)}" y2="${y(max)}"
+          stroke="#e4e4e7" stroke-dasharray="3 3"/>
+        <text x="${CHART_PADDING.left - 6}" y="${y(max) + 4}" font-size="10" text-anchor="end" fill="#52525b">${count(max)}</text>
+        <text x="${CHART_PADDING.left - 6}" y="${y(0) + 4}" font-size="10" text-anchor="end" fill="#52525b">0</text>
+        ${bars}
+        ${labels}
+      </svg>
+      <p class="legend">
+        <span><i style="background:#3b82f6"></i>Receipts per ${bucket}</span>
+        <span><i style="background:#ef4444"></i>Failed verification</span>
+      </p>
+    </section>`;
+}
+
+function failuresSection(data: ReportData): string {
+  const { timeline, receipts } = data.failures!;
+  const total = sum(timeline, p => p.total);
+  const failed = sum(timeline, p => p.failed);
+  const checks = (['hash', ...SIGNER_ALGORITHMS] as const)
+    .map(check => ({ check, failed: sum(timeline, p => p[check] ?? 0) }))
+    .filter(c => c.check === 'hash' || c.failed > 0);
+
+  const listed = receipts.slice(0, MAX_LISTED_FAILURES).map(r => [
+    cell(escapeHtml(truncateHash(r.receiptHash, 8)), 'mono'),
+    cell(escapeHtml(formatDate(r.createdAt))),
+    cell(receiptFailures(r)
+      .map(f => `${escapeHtml(CHECK_LABELS[f.check])}: ${escapeHtml(describeReason(f.reason))}`)
+      .join('<br>'), 'bad'),
+  ]);
+
+  return `
+    <section>
+      <h2>Verification Failures</h2>
+      <div class="cards">
+        ${card('Failed receipts', count(failed))}
+        ${card('Failure rate', rate(failed, total))}
+        ${checks.map(c => card(`${CHECK_LABELS[c.check]} failures`, count(c.failed))).join('')}
+      </div>
+      ${receipts.length === 0
+        ? '<p class="muted">No receipt failed verification in the period.</p>'
+        : table([{ label: 'Receipt hash' }, { label: 'Created' }, { label: 'Failed checks' }], listed) +
+          (receipts.length > MAX_LISTED_FAILURES
+            ? `<p class="muted">…and ${count(receipts.length - MAX_LISTED_FAILURES)} more.</p>`
+            : '')}
+    </section>`;
+}
+
+function anchoringSection(data: ReportData): string {
+  const { latency } = data.anchoring!;
+  const percentile = (seconds: number | null) => (seconds === null ? '—' : formatDuration(seconds));
+  const chain = data.chain;
+  const chainTotal = chain ? chain.anchored + chain.pending + chain.unanchored : 0;
+  const segments = chain
+    ? [
+      { label: 'Anchored', value: chain.anchored, color: '#10b981' },
+      { label: 'Pending', value: chain.pending, color: '#f59e0b' },
+      { label: 'Unanchored', value: chain.unanchored, color: '#ef4444' },
+    ]
+    : [];
+  let offset = 0;
+  const bar = segments.map(s => {
+    const width = chainTotal > 0 ? (s.value / chainTotal) * CHART_WIDTH : 0;
+    const rect = `<rect x="${offset.toFixed(1)}" y="0" width="${width.toFixed(1)}" height="14" fill="${s.color}"/>`;
+    offset += width;
+    return rect;
+  }).join('');
+
+  return `
+    <section>
+      <h2>Anchoring</h2>
+      <div class="cards">
+        ${card('Anchored in period', count(latency.samples))}
+        ${card('Latency p50', percentile(latency.p50))}
+        ${card('Latency p95', percentile(latency.p95))}
+        ${card('Latency p99', percentile(latency.p99))}
+      </div>
+      ${chain ? `
+        <p class="meta" style="margin-top: 12px">Chain status as of ${escapeHtml(formatDate(data.generatedAt))}</p>
+        <svg width="${CHART_WIDTH}" height="14" viewBox="0 0 ${CHART_WIDTH} 14" role="img" aria-label="Chain status"
+          style="max-width: 100%; height: auto">${bar}</svg>
+        <p class="legend">${segments.map(s =>
+          `<span><i style="background:${s.color}"></i>${s.label}: ${count(s.value)} (${rate(s.value, chainTotal)})</span>`
+        ).join('')}</p>` : ''}
+    </section>`;
+}
+
+const KEY_STATUS_LABELS: Record<KeyStatus, string> = {
+  active: 'Active',
+  scheduled: 'Scheduled',
+  retired: 'Retired',
+  revoked: 'Revoked',
+};
+
+/**
+ * Status at the end of the period, with the date it changed
+ */
+function describeKeyStatus(key: SigningKey, at: number): string {
+  const status = keyStatus(key, at);
+  const since = status === 'revoked' ? key.revokedAt : status === 'retired' ? key.validTo : undefined;
+  const label = `${KEY_STATUS_LABELS[status]}${since ? ` ${formatDate(since)}` : ''}`;
+  return status === 'revoked' ? `<span class="bad">${escapeHtml(label)}</span>` : escapeHtml(label);
+}
+
+function keysSection(data: ReportData): string {
+  const from = Date.parse(data.range.from);
+  const to = Date.parse(data.range.to);
+  const signatures = data.signatures!;
+  const usage = new Map<string, SignerKeyStats>(data.failures!.keys.map(k => [k.fingerprint, k]));
+  // Keys valid at some point in the period, and any that signed without being registered
+  const registered = data.keys!.filter(k => Date.parse(k.validFrom) < to && (keyEnd(k) ?? Infinity) > from);
+  const unknown = [...usage.values()].filter(u => !data.keys!.some(k => k.fingerprint === u.fingerprint));
+
+  const algorithmRows = signatures.algorithms.map(a => [
+    cell(escapeHtml(BADGE_LABELS[a.algorithm])),
+    cell(count(a.signed), 'num'),
+    cell(count(a.verified), 'num'),
+    cell(rate(a.verified, a.signed), 'num'),
+  ]);
+  const keyRow = (label: string, fingerprint: string, algorithm: SigningKey['algorithm'], status: string) => {
+    const stats = usage.get(fingerprint);
+    return [
+      cell(label),
+      cell(escapeHtml(fingerprint), 'mono'),
+      cell(escapeHtml(BADGE_LABELS[algorithm])),
+      cell(status),
+      cell(count(stats?.signed ?? 0), 'num'),
+      cell(count(stats?.failed ?? 0), stats?.failed ? 'num bad' : 'num'),
+    ];
+  };
+  const keyRows = [
+    ...registered.map(k => keyRow(escapeHtml(k.id), k.fingerprint, k.algorithm, describeKeyStatus(k, to))),
+    ...unknown.map(u => keyRow('<span class="bad">Unregistered</span>', u.fingerprint, u.algorithm, '—')),
+  ];
+
+  return `
+    <section>
+      <h2>Signing Keys</h2>
+      <div class="cards">
+        ${card('Receipts signed', count(signatures.total))}
+        ${card('Post-quantum share', rate(signatures.pqc, signatures.total))}
+        ${card('Keys in use', count(registered.length))}
+        ${card('Unregistered keys', count(unknown.length))}
+      </div>
+      ${table(
+        [{ label: 'Algorithm' }, { label: 'Signed', num: true }, { label: 'Verified', num: true }, { label: 'Rate', num: true }],
+        algorithmRows
+      )}
+      ${table(
+        [
+          { label: 'Key' }, { label: 'Fingerprint' }, { label: 'Algorithm' }, { label: 'Status' },
+          { label: 'Signed', num: true }, { label: 'Failed', num: true },
+        ],
+        keyRows
+      )}
+    </section>`;
+}
+
+const RENDERERS: Record<ReportSection, (data: ReportData) => string> = {
+  summary: data => summarySection(data.throughput!),
+  throughput: data => throughputSection(data.throughput!, data),
+  failures: failuresSection,
+  anchoring: anchoringSection,
+  keys: keysSection,
+};
+
+/**
+ * Render a report as a complete HTML document, sections in the usual order
+ */
+export function renderReportHtml(data: ReportData): string {
+  const sections = (Object.keys(RENDERERS) as ReportSection[])
+    .filter(section => data.sections.includes(section))
+    .map(section => RENDERERS[section](data))
+    .join('');
+  const title = `${data.title} • ${data.range.label}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(data.title)}</h1>
+  <p class="meta">${escapeHtml(data.environment.name)} • ${escapeHtml(data.range.label)}</p>
+  <p class="meta">${escapeHtml(formatDate(data.range.from))} to ${escapeHtml(formatDate(data.range.to))}</p>
+</header>
+${sections}
+<footer>Generated ${escapeHtml(formatDate(data.generatedAt))} by the Juggernaut Rail receipt dashboard.</footer>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+import type { ApiEnvironment } from './environments';
+import {
+  collectReportData, isReportDue, latestScheduledRun, resolveReportRange, type ReportTemplate
+} from './reports';
+
+// Local times throughout, since periods and schedules follow the local calendar
+const local = (year: number, month: number, day: number, hours = 0, minutes = 0) =>
+  new Date(year, month - 1, day, hours, minutes);
+
+function template(overrides: Partial<ReportTemplate> = {}): ReportTemplate {
+  return {
+    id: 't1',
+    name: 'Compliance',
+    period: 'month',
+    sections: ['summary'],
+    schedule: { enabled: true, time: '08:00', weekday: 1, monthDay: 1 },
+    createdAt: local(2026, 1, 1).toISOString(),
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('resolveReportRange', () => {
+  it('covers the previous calendar month, across a year boundary', () => {
+    const range = resolveReportRange('month', local(2026, 1, 15, 9));
+    expect(range.from).toBe(local(2025, 12, 1).toISOString());
+    expect(range.to).toBe(local(2026, 1, 1).toISOString());
+    expect(range).toMatchObject({ bucket: 'day', label: 'December 2025' });
+  });
+
+  it('treats the first of the month as the start of a new period', () => {
+    const range = resolveReportRange('month', local(2026, 3, 1, 0, 5));
+    expect(range.from).toBe(local(2026, 2, 1).toISOString());
+    expect(range.to).toBe(local(2026, 3, 1).toISOString());
+  });
+
+  it('covers the previous Monday to Sunday week', () => {
+    // Wednesday 2026-10-14
+    const range = resolveReportRange('week', local(2026, 10, 14, 12));
+    expect(range.from).toBe(local(2026, 10, 5).toISOString());
+    expect(range.to).toBe(local(2026, 10, 12).toISOString());
+    expect(range.label).toBe('Oct 5 – Oct 11, 2026');
+  });
+
+  it('counts a Monday as the start of the current week, and Sunday as its end', () => {
+    expect(resolveReportRange('week', local(2026, 10, 12, 1)).from).toBe(local(2026, 10, 5).toISOString());
+    expect(resolveReportRange('week', local(2026, 10, 18, 23)).from).toBe(local(2026, 10, 5).toISOString());
+  });
+
+  it('covers the previous day by the hour', () => {
+    const range = resolveReportRange('day', local(2026, 3, 1, 10));
+    expect(range.from).toBe(local(2026, 2, 28).toISOString());
+    expect(range.to).toBe(local(2026, 3, 1).toISOString());
+    expect(range.bucket).toBe('hour');
+  });
+});
+
+describe('latestScheduledRun', () => {
+  it('is today once the time has passed, otherwise yesterday', () => {
+    const daily = template({ period: 'day' });
+    expect(latestScheduledRun(daily, local(2026, 10, 14, 8))).toEqual(local(2026, 10, 14, 8));
+    expect(latestScheduledRun(daily, local(2026, 10, 14, 7, 59))).toEqual(local(2026, 10, 13, 8));
+  });
+
+  it('finds the last scheduled weekday', () => {
+    const weekly = template({ period: 'week', schedule: { ...template().schedule, weekday: 1 } });
+    // Wednesday, then the Monday itself before and after the time
+    expect(latestScheduledRun(weekly, local(2026, 10, 14, 12))).toEqual(local(2026, 10, 12, 8));
+    expect(latestScheduledRun(weekly, local(2026, 10, 12, 7))).toEqual(local(2026, 10, 5, 8));
+    expect(latestScheduledRun(weekly, local(2026, 10, 12, 9))).toEqual(local(2026, 10, 12, 8));
+  });
+
+  it('falls back to the previous month, across a year boundary', () => {
+    const monthly = template({ schedule: { ...template().schedule, monthDay: 15 } });
+    expect(latestScheduledRun(monthly, local(2026, 10, 20))).toEqual(local(2026, 10, 15, 8));
+    expect(latestScheduledRun(monthly, local(2026, 1, 10))).toEqual(local(2025, 12, 15, 8));
+  });
+});
+
+describe('isReportDue', () => {
+  const now = local(2026, 10, 1, 8, 30);
+
+  it('is due within the grace period after a run it has not made', () => {
+    expect(isReportDue(template({ lastRunAt: local(2026, 9, 1, 8).toISOString() }), now)).toBe(true);
+  });
+
+  it('is not due again once the run was made', () => {
+    expect(isReportDue(template({ lastRunAt: local(2026, 10, 1, 8, 0).toISOString() }), now)).toBe(false);
+  });
+
+  it('skips a run missed by more than an hour', () => {
+    const later = local(2026, 10, 1, 9, 1);
+    expect(isReportDue(template({ lastRunAt: local(2026, 9, 1, 8).toISOString() }), later)).toBe(false);
+  });
+
+  it('does not retry a failed run', () => {
+    const failed = template({ lastRunAt: local(2026, 10, 1, 8, 0).toISOString(), lastRunError: 'API Error (500)' });
+    expect(isReportDue(failed, now)).toBe(false);
+    expect(isReportDue(failed, local(2026, 11, 1, 8, 10))).toBe(true);
+  });
+
+  it('ignores runs scheduled before the template existed, and disabled schedules', () => {
+    expect(isReportDue(template({ createdAt: local(2026, 10, 1, 8, 15).toISOString() }), now)).toBe(false);
+    expect(isReportDue(template({ schedule: { ...template().schedule, enabled: false } }), now)).toBe(false);
+  });
+});
+
+describe('collectReportData', () => {
+  it("fetches from the report's environment, not the active one", async () => {
+    const env: ApiEnvironment = {
+      id: 'reporting', name: 'Reporting', baseUrl: 'https://reports.test', auth: { type: 'none' },
+      color: 'zinc', mock: false, redaction: [], schemas: [],
+    };
+    const fetch = vi.fn(async (_url: string) => new Response('[]'));
+    vi.stubGlobal('fetch', fetch);
+
+    const range = resolveReportRange('month', local(2026, 10, 14));
+    const data = await collectReportData(env, template(), range);
+    expect(data.environment).toEqual({ id: 'reporting', name: 'Reporting' });
+    expect(data.throughput).toEqual([]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0][0]).toMatch(/^https:\/\/reports\.test\/analytics\/throughput\?/);
+  });
+});
@@ -0,0 +1,345 @@
+// Compliance reports
+// A template picks a period and the sections to include; generating it pulls
+// the period's analytics and renders a standalone printable page, stored in
+// IndexedDB. Templates may be scheduled, in which case the dashboard
+// generates them while it is open at the scheduled time. Templates persist in
+// localStorage per environment.
+import { useEffect, useCallback } from 'react';
+import type {
+  ThroughputBucket, ThroughputPoint, FailureAnalytics, AnchoringAnalytics, SignatureAnalytics, SigningKey,
+  ChainStatus
+} from './types';
+import {
+  getThroughput, getFailureAnalytics, getAnchoringAnalytics, getSignatureAnalytics, getKeys, getChainStatus,
+  ApiError, type FetchOptions
+} from './api';
+import type { ApiEnvironment } from './environments';
+import { useInterval } from './hooks';
+import { saveReport, type StoredReport } from './offline';
+import { renderReportHtml } from './reportHtml';
+
+/** Reports cover the last complete calendar period of this length */
+export type ReportPeriod = 'day' | 'week' | 'month';
+
+export type ReportSection = 'summary' | 'throughput' | 'failures' | 'anchoring' | 'keys';
+
+export interface ReportSchedule {
+  enabled: boolean;
+  /** Local time of day, `HH:MM` */
+  time: string;
+  /** Weekly reports: 0 is Sunday */
+  weekday: number;
+  /** Monthly reports: 1–28, so every month has the day */
+  monthDay: number;
+}
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  period: ReportPeriod;
+  sections: ReportSection[];
+  schedule: ReportSchedule;
+  createdAt: string;
+  /** ISO time of the last scheduled generation */
+  lastRunAt?: string;
+  /** Why the last scheduled generation failed; cleared by the next run */
+  lastRunError?: string;
+}
+
+export interface ReportRange {
+  from: string;
+  to: string;
+  bucket: ThroughputBucket;
+  label: string;
+}
+
+/** What a report was generated from; sections that weren't requested stay null */
+export interface ReportData {
+  title: string;
+  environment: Pick<ApiEnvironment, 'id' | 'name'>;
+  range: ReportRange;
+  sections: ReportSection[];
+  generatedAt: string;
+  throughput: ThroughputPoint[] | null;
+  failures: FailureAnalytics | null;
+  anchoring: AnchoringAnalytics | null;
+  chain: ChainStatus | null;
+  signatures: SignatureAnalytics | null;
+  keys: SigningKey[] | null;
+}
+
+export const REPORT_PERIODS: Record<ReportPeriod, { label: string; adjective: string }> = {
+  day: { label: 'Previous day', adjective: 'Daily' },
+  week: { label: 'Previous week', adjective: 'Weekly' },
+  month: { label: 'Previous month', adjective: 'Monthly' },
+};
+
+export const REPORT_SECTIONS: Record<ReportSection, string> = {
+  summary: 'Summary: totals, verification and anchoring rates',
+  throughput: 'Throughput chart',
+  failures: 'Verification failures',
+  anchoring: 'Anchoring latency and chain status',
+  keys: 'Signing key usage',
+};
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const TEMPLATES_KEY_PREFIX = 'juggernaut.reports.templates.';
+const SCHEDULE_CHECK_MS = 60000;
+/**
+ * A run missed by more than this, e.g. because the dashboard was closed at
+ * the time, is skipped rather than generated late
+ */
+const SCHEDULE_GRACE_MS = 60 * 60000;
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+export function newReportTemplate(): ReportTemplate {
+  return {
+    id: crypto.randomUUID(),
+    name: 'Monthly compliance report',
+    period: 'month',
+    sections: Object.keys(REPORT_SECTIONS) as ReportSection[],
+    schedule: { enabled: false, time: '08:00', weekday: 1, monthDay: 1 },
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function loadReportTemplates(envId: string): ReportTemplate[] {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_KEY_PREFIX + envId);
+    const saved: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveReportTemplates(envId: string, templates: ReportTemplate[]): void {
+  try {
+    localStorage.setItem(TEMPLATES_KEY_PREFIX + envId, JSON.stringify(templates));
+  } catch (e) {
+    console.error('Failed to persist report templates:', e);
+  }
+}
+
+/**
+ * Save edited templates without losing run bookkeeping the scheduler wrote
+ * meanwhile
+ */
+export function updateReportTemplates(envId: string, templates: ReportTemplate[]): void {
+  const stored = new Map(loadReportTemplates(envId).map(t => [t.id, t]));
+  saveReportTemplates(envId, templates.map(t => {
+    const saved = stored.get(t.id);
+    return saved ? { ...t, lastRunAt: saved.lastRunAt, lastRunError: saved.lastRunError } : t;
+  }));
+}
+
+// ============================================================================
+// Periods and schedules
+// ============================================================================
+
+/**
+ * The last complete calendar day, week (Monday to Sunday) or month before
+ * `now`, in local time
+ */
+export function resolveReportRange(period: ReportPeriod, now: Date = new Date()): ReportRange {
+  const to = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  let from: Date;
+  let label: string;
+  switch (period) {
+    case 'day':
+      from = new Date(to.getFullYear(), to.getMonth(), to.getDate() - 1);
+      label = from.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+      break;
+    case 'week': {
+      to.setDate(to.getDate() - ((to.getDay() + 6) % 7));
+      from = new Date(to.getFullYear(), to.getMonth(), to.getDate() - 7);
+      const last = new Date(to.getFullYear(), to.getMonth(), to.getDate() - 1);
+      const day = { month: 'short', day: 'numeric' } as const;
+      label = `${from.toLocaleDateString('en-US', day)} – ${last.toLocaleDateString('en-US', { ...day, year: 'numeric' })}`;
+      break;
+    }
+    case 'month':
+      to.setDate(1);
+      from = new Date(to.getFullYear(), to.getMonth() - 1, 1);
+      label = from.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+      break;
+  }
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    bucket: period === 'day' ? 'hour' : 'day',
+    label,
+  };
+}
+
+/**
+ * Most recent scheduled time at or before `now`
+ */
+export function latestScheduledRun({ period, schedule }: ReportTemplate, now: Date = new Date()): Date {
+  const [hours, minutes] = schedule.time.split(':').map(Number);
+  const at = (year: number, month: number, day: number) => new Date(year, month, day, hours, minutes);
+  const y = now.getFullYear();
+  const m = now.getMonth();
+  const d = now.getDate();
+
+  let run: Date;
+  switch (period) {
+    case 'day':
+      run = at(y, m, d);
+      if (run > now) run = at(y, m, d - 1);
+      break;
+    case 'week':
+      run = at(y, m, d - ((now.getDay() - schedule.weekday + 7) % 7));
+      if (run > now) run = at(run.getFullYear(), run.getMonth(), run.getDate() - 7);
+      break;
+    case 'month':
+      run = at(y, m, schedule.monthDay);
+      if (run > now) run = at(y, m - 1, schedule.monthDay);
+      break;
+  }
+  return run;
+}
+
+/**
+ * Human-readable schedule, e.g. "Monthly on day 1 at 08:00"
+ */
+export function describeSchedule({ period, schedule }: ReportTemplate): string {
+  const on = period === 'week' ? ` on ${WEEKDAYS[schedule.weekday]}s`
+    : period === 'month' ? ` on day ${schedule.monthDay}`
+    : '';
+  return `${REPORT_PERIODS[period].adjective}${on} at ${schedule.time}`;
+}
+
+export function isReportDue(template: ReportTemplate, now: Date = new Date()): boolean {
+  if (!template.schedule.enabled) return false;
+  const run = latestScheduledRun(template, now).getTime();
+  const since = Date.parse(template.lastRunAt ?? template.createdAt);
+  return run > since && now.getTime() - run <= SCHEDULE_GRACE_MS;
+}
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+const generatedListeners = new Set<(report: StoredReport) => void>();
+
+export function onReportGenerated(listener: (report: StoredReport) => void): () => void {
+  generatedListeners.add(listener);
+  return () => generatedListeners.delete(listener);
+}
+
+/**
+ * Fetch what the template's sections need for the period. Chain status is
+ * as of generation: the API has no history of it.
+ */
+export async function collectReportData(
+  env: ApiEnvironment,
+  template: ReportTemplate,
+  range: ReportRange,
+  { signal }: FetchOptions = {}
+): Promise<ReportData> {
+  const has = (section: ReportSection) => template.sections.includes(section);
+  const timeWindow = { from: range.from, to: range.to, bucket: range.bucket };
+  const when = <T>(needed: boolean, fetch: () => Promise<T>): Promise<T | null> =>
+    (needed ? fetch() : Promise.resolve(null));
+
+  // Pinned to `env`: a scheduled run must not follow the user to another environment
+  const options = { env, signal };
+
+  const [throughput, failures, anchoring, chain, signatures, keys] = await Promise.all([
+    when(has('summary') || has('throughput'), () => getThroughput(timeWindow, options)),
+    when(has('failures') || has('keys'), () => getFailureAnalytics(timeWindow, options)),
+    when(has('anchoring'), () => getAnchoringAnalytics(timeWindow, options)),
+    when(has('anchoring'), () => getChainStatus(options)),
+    when(has('keys'), () => getSignatureAnalytics(timeWindow, options)),
+    when(has('keys'), () => getKeys(options)),
+  ]);
+
+  return {
+    title: template.name,
+    environment: { id: env.id, name: env.name },
+    range,
+    sections: template.sections,
+    generatedAt: new Date().toISOString(),
+    throughput,
+    failures,
+    anchoring,
+    chain,
+    signatures,
+    keys,
+  };
+}
+
+/**
+ * Generate and store a report for the last complete period. An on-demand
+ * report that can't be stored is still returned for preview; a scheduled
+ * one rejects, since nobody would otherwise see it.
+ */
+export async function generateReport(
+  env: ApiEnvironment,
+  template: ReportTemplate,
+  { scheduled = false, now = new Date(), signal }: FetchOptions & { scheduled?: boolean; now?: Date } = {}
+): Promise<StoredReport> {
+  const range = resolveReportRange(template.period, now);
+  const data = await collectReportData(env, template, range, { signal });
+  const report: StoredReport = {
+    id: crypto.randomUUID(),
+    envId: env.id,
+    templateId: template.id,
+    title: `${template.name} • ${range.label}`,
+    from: range.from,
+    to: range.to,
+    generatedAt: data.generatedAt,
+    scheduled,
+    html: renderReportHtml(data),
+  };
+  if (await saveReport(report)) {
+    generatedListeners.forEach(listener => listener(report));
+  } else if (scheduled) {
+    throw new Error('The report could not be stored in this browser');
+  }
+  return report;
+}
+
+/**
+ * Generate scheduled reports that come due while the dashboard is open.
+ * Templates are re-read on every check, so edits and other tabs' runs are
+ * seen; a run is claimed before generating so two tabs don't both run it.
+ * A failed run keeps its claim and is recorded on the template rather than
+ * retried, so a broken backend or storage can't loop every check.
+ */
+export function useReportScheduler(env: ApiEnvironment, enabled: boolean): void {
+  const check = useCallback(() => {
+    if (!enabled) return;
+    const now = new Date();
+    const templates = loadReportTemplates(env.id);
+    const due = templates.filter(t => isReportDue(t, now));
+    if (due.length === 0) return;
+
+    const claimed = new Set(due.map(t => t.id));
+    saveReportTemplates(env.id, templates.map(t => (
+      claimed.has(t.id) ? { ...t, lastRunAt: now.toISOString(), lastRunError: undefined } : t
+    )));
+    for (const template of due) {
+      generateReport(env, template, { scheduled: true, now }).catch(e => {
+        console.error(`Scheduled report "${template.name}" failed:`, e);
+        const lastRunError = e instanceof ApiError ? `API Error (${e.status}): ${e.message}`
+          : e instanceof Error ? e.message
+          : 'Failed to generate report';
+        saveReportTemplates(env.id, loadReportTemplates(env.id).map(t => (
+          t.id === template.id ? { ...t, lastRunError } : t
+        )));
+      });
+    }
+  }, [env, enabled]);
+
+  useEffect(() => {
+    check();
+  }, [check]);
+
+  useInterval(check, SCHEDULE_CHECK_MS);
+}
@@ -0,0 +1,105 @@
+// URL-synced dashboard state
+// Paths are relative to the Vite base: `/`, `/explorer`, `/anchoring`,
+// `/failures`, `/keys`, `/migration`, `/playground`, `/reports` and
+// `/receipt/:id`.
+// Environment, page, filter and search travel as query parameters so links
+// can be shared.
+import { useEffect, useRef } from 'react';
+import type { FilterType } from './types';
+
+export type DashboardView = 'overview' | 'explorer' | 'anchoring' | 'failures' | 'keys' | 'migration' | 'playground'
+  | 'reports';
+
+export interface DashboardLocation {
+  /** Environment id; null leaves the current selection alone */
+  environment: string | null;
+  view: DashboardView;
+  /** Receipt open in the detail modal */
+  receiptId: string | null;
+  page: number;
+  filter: FilterType;
+  search: string;
+}
+
+const BASE = import.meta.env.BASE_URL.replace(/\/$/, '');
+const FILTERS: FilterType[] = ['all', 'verified', 'pending', 'anchored'];
+const RECEIPT_PATH_RE = /^\/receipt\/([^/]+)\/?$/;
+const VIEW_PATHS: Record<DashboardView, string> = {
+  overview: '/',
+  explorer: '/explorer',
+  anchoring: '/anchoring',
+  failures: '/failures',
+  keys: '/keys',
+  migration: '/migration',
+  playground: '/playground',
+  reports: '/reports',
+};
+
+const VIEWS = Object.keys(VIEW_PATHS) as DashboardView[];
+
+export function parseLocation(pathname: string, search: string): DashboardLocation {
+  const path = pathname.startsWith(BASE) ? pathname.slice(BASE.length) : pathname;
+  const params = new URLSearchParams(search);
+  const receipt = path.match(RECEIPT_PATH_RE);
+  const page = Number(params.get('page'));
+  const filter = params.get('filter') as FilterType;
+  const view = VIEWS.find(v => VIEW_PATHS[v] === (path.replace(/\/$/, '') || '/'))
+    ?? params.get('view') as DashboardView;
+
+  return {
+    environment: params.get('env'),
+    // A receipt opened from another view remembers it in `view=`
+    view: VIEWS.includes(view) ? view : 'overview',
+    receiptId: receipt ? decodeURIComponent(receipt[1]) : null,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+    filter: FILTERS.includes(filter) ? filter : 'all',
+    search: params.get('q') ?? '',
+  };
+}
+
+export function buildUrl(location: DashboardLocation): string {
+  const params = new URLSearchParams();
+  if (location.environment) params.set('env', location.environment);
+  if (location.search) params.set('q', location.search);
+  if (location.filter !== 'all') params.set('filter', location.filter);
+  if (location.page > 1) params.set('page', String(location.page));
+
+  let path = VIEW_PATHS[location.view];
+  if (location.receiptId) {
+    path = `/receipt/${encodeURIComponent(location.receiptId)}`;
+    if (location.view !== 'overview') params.set('view', location.view);
+  }
+  const query = params.toString();
+  return `${BASE}${path}${query ? `?${query}` : ''}`;
+}
+
+export function currentLocation(): DashboardLocation {
+  return parseLocation(window.location.pathname, window.location.search);
+}
+
+/**
+ * Point the address bar at `location`; a no-op when it is already there
+ */
+export function navigate(location: DashboardLocation, { replace = false } = {}): void {
+  const url = buildUrl(location);
+  if (url === `${window.location.pathname}${window.location.search}`) return;
+  if (replace) window.history.replaceState(null, '', url);
+  else window.history.pushState(null, '', url);
+}
+
+/**
+ * Call `onChange` with the new location on back/forward navigation
+ */
+export function usePopState(onChange: (location: DashboardLocation) => void): void {
+  const savedCallback = useRef(onChange);
+
+  useEffect(() => {
+    savedCallback.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    const handler = () => savedCallback.current(currentLocation());
+    window.addEventListener('popstate', handler);
+    return () => window.removeEventListener('popstate', handler);
+  }, []);
+}
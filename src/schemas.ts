@@ -0,0 +1,209 @@
+// Payload schema registry
+// Receipt payloads differ by receipt type. A schema names the fields worth
+// showing for a type, how to format them, which search keywords reach them
+// and which are sensitive. Receipts without a matching schema fall back to
+// the generic one and are shown through the payload viewer only.
+import type { Receipt } from './types';
+import { truncateHash } from './hooks';
+import type { RedactionRule } from './redaction';
+
+export type PayloadFormat = 'text' | 'number' | 'id' | 'datetime' | 'hash' | 'boolean' | 'json';
+
+export interface PayloadField {
+  /** Dotted path into the payload, e.g. `dose.amount` */
+  path: string;
+  label: string;
+  format?: PayloadFormat;
+  /** Shown as a receipts table column until the user chooses otherwise */
+  column?: boolean;
+  /** Search keyword for this field, e.g. `patient` in `patient:101` */
+  search?: string;
+  /** Always masked, on top of the environment's redaction rules */
+  sensitive?: boolean;
+  /** Identifies who the receipt is about; receipts sharing the value form a chain of custody */
+  subject?: boolean;
+}
+
+export interface PayloadSchema {
+  /** Matched against `receipt.type` */
+  type: string;
+  label: string;
+  /** Identifies untyped receipts: every listed field must be present */
+  detect?: string[];
+  fields: PayloadField[];
+}
+
+export interface PayloadColumn {
+  path: string;
+  label: string;
+  /** Shown unless the user has chosen columns */
+  defaultVisible: boolean;
+}
+
+export const PAYLOAD_FORMATS: PayloadFormat[] = ['text', 'number', 'id', 'datetime', 'hash', 'boolean', 'json'];
+
+export const BUILTIN_PAYLOAD_SCHEMAS: PayloadSchema[] = [
+  {
+    type: 'selfie',
+    label: 'Selfie check-in',
+    detect: ['nurse', 'patientId'],
+    fields: [
+      { path: 'nurse', label: 'Nurse', column: true, search: 'nurse' },
+      { path: 'patientId', label: 'Patient', format: 'id', column: true, search: 'patient', sensitive: true, subject: true },
+      { path: 'id', label: 'Image', search: 'image' },
+    ],
+  },
+  {
+    type: 'medication',
+    label: 'Medication',
+    detect: ['medication', 'administeredBy'],
+    fields: [
+      { path: 'medication', label: 'Medication', column: true, search: 'medication' },
+      { path: 'dose.amount', label: 'Dose', format: 'number' },
+      { path: 'dose.unit', label: 'Unit' },
+      { path: 'administeredBy', label: 'Administered by', column: true, search: 'by', sensitive: true },
+      { path: 'patientId', label: 'Patient', format: 'id', search: 'patient', sensitive: true, subject: true },
+      { path: 'administeredAt', label: 'Administered', format: 'datetime' },
+    ],
+  },
+];
+
+export const GENERIC_SCHEMA: PayloadSchema = { type: 'generic', label: 'Receipt', fields: [] };
+
+export function getFieldValue(payload: Record<string, unknown>, path: string): unknown {
+  let value: unknown = payload;
+  for (const key of path.split('.')) {
+    if (!value || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Values that don't fit the format (including redaction masks) are shown as-is
+ */
+export function formatPayloadValue(value: unknown, format: PayloadFormat = 'text'): string {
+  if (value === undefined || value === null || value === '') return '—';
+  switch (format) {
+    case 'number':
+      if (typeof value === 'number') return value.toLocaleString();
+      break;
+    case 'id':
+      if (typeof value === 'number' || typeof value === 'string') return `#${value}`;
+      break;
+    case 'datetime': {
+      const ms = typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN;
+      if (!Number.isNaN(ms)) return new Date(ms).toLocaleString();
+      break;
+    }
+    case 'hash':
+      if (typeof value === 'string' && value.length > 20) return truncateHash(value, 8);
+      break;
+    case 'boolean':
+      if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+      break;
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Schema for a receipt: by type, then by the fields its payload carries
+ */
+export function resolveSchema(receipt: Receipt, schemas: PayloadSchema[]): PayloadSchema {
+  if (receipt.type) {
+    const typed = schemas.find(s => s.type === receipt.type);
+    if (typed) return typed;
+  }
+  return schemas.find(s => s.detect?.length && s.detect.every(path => getFieldValue(receipt.payload, path) !== undefined))
+    ?? GENERIC_SCHEMA;
+}
+
+/**
+ * Every field offered by the column chooser, first schema wins on shared paths
+ */
+export function payloadColumns(schemas: PayloadSchema[]): PayloadColumn[] {
+  const columns = new Map<string, PayloadColumn>();
+  for (const schema of schemas) {
+    for (const field of schema.fields) {
+      const existing = columns.get(field.path);
+      if (existing) existing.defaultVisible ||= !!field.column;
+      else columns.set(field.path, { path: field.path, label: field.label, defaultVisible: !!field.column });
+    }
+  }
+  return [...columns.values()];
+}
+
+/**
+ * Search keyword → payload path, for `parseReceiptQuery`
+ */
+export function searchFields(schemas: PayloadSchema[]): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const schema of schemas) {
+    for (const field of schema.fields) {
+      const keyword = field.search?.toLowerCase();
+      if (keyword && !(keyword in fields)) fields[keyword] = field.path;
+    }
+  }
+  return fields;
+}
+
+/**
+ * Redaction rules with every sensitive schema field added as a mask
+ */
+export function withSensitiveFields(rules: RedactionRule[], schemas: PayloadSchema[]): RedactionRule[] {
+  const sensitive = schemas
+    .flatMap(s => s.fields)
+    .filter(f => f.sensitive && !rules.some(r => r.field === f.path))
+    .map(f => ({ field: f.path, mode: 'mask' as const }));
+  return [...rules, ...new Map(sensitive.map(r => [r.field, r])).values()];
+}
+
+function isPayloadField(value: unknown): value is PayloadField {
+  if (!value || typeof value !== 'object') return false;
+  const f = value as Record<string, unknown>;
+  return typeof f.path === 'string' && f.path !== '' && typeof f.label === 'string' &&
+    (f.format === undefined || PAYLOAD_FORMATS.includes(f.format as PayloadFormat)) &&
+    (f.search === undefined || typeof f.search === 'string');
+}
+
+export function isPayloadSchema(value: unknown): value is PayloadSchema {
+  if (!value || typeof value !== 'object') return false;
+  const s = value as Record<string, unknown>;
+  return typeof s.type === 'string' && s.type !== '' && typeof s.label === 'string' &&
+    (s.detect === undefined || (Array.isArray(s.detect) && s.detect.every(d => typeof d === 'string'))) &&
+    Array.isArray(s.fields) && s.fields.every(isPayloadField);
+}
+
+const COLUMNS_KEY_PREFIX = 'juggernaut.columns.';
+
+/**
+ * The user's column choice for an environment, or the schema defaults.
+ * Paths no longer offered by the schemas are dropped.
+ */
+export function loadVisibleColumns(envId: string, columns: PayloadColumn[]): string[] {
+  try {
+    const raw = localStorage.getItem(COLUMNS_KEY_PREFIX + envId);
+    if (raw) {
+      const saved = JSON.parse(raw) as string[];
+      return columns.map(c => c.path).filter(path => saved.includes(path));
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  return columns.filter(c => c.defaultVisible).map(c => c.path);
+}
+
+export function saveVisibleColumns(envId: string, visible: string[]): void {
+  try {
+    localStorage.setItem(COLUMNS_KEY_PREFIX + envId, JSON.stringify(visible));
+  } catch (e) {
+    console.error('Failed to persist column choice:', e);
+  }
+}
+
+/**
+ * Registry schemas first; built-ins fill in types the registry doesn't define
+ */
+export function mergeSchemas(custom: PayloadSchema[]): PayloadSchema[] {
+  return [...custom, ...BUILTIN_PAYLOAD_SCHEMAS.filter(b => !custom.some(c => c.type === b.type))];
+}
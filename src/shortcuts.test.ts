@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+
+import { listShortcuts, matchesShortcut, formatShortcut, DEFAULT_GROUP, type Shortcut } from './shortcuts';
+
+const press = (key: string, modifiers: Partial<Record<'metaKey' | 'ctrlKey' | 'altKey' | 'shiftKey', boolean>> = {}) =>
+  ({ key, metaKey: false, ctrlKey: false, altKey: false, shiftKey: false, ...modifiers });
+
+const bind = (keys: string, description?: string, enabled?: boolean): Shortcut =>
+  ({ keys, description, enabled, handler: () => {} });
+
+describe('matchesShortcut', () => {
+  it('maps mod to ⌘ on macOS and Ctrl elsewhere', () => {
+    expect(matchesShortcut('mod+k', press('k', { metaKey: true }), true)).toBe(true);
+    expect(matchesShortcut('mod+k', press('k', { ctrlKey: true }), true)).toBe(false);
+    expect(matchesShortcut('mod+k', press('k', { ctrlKey: true }), false)).toBe(true);
+    expect(matchesShortcut('mod+k', press('k', { metaKey: true }), false)).toBe(false);
+  });
+
+  it('requires exactly the modifiers in the combination', () => {
+    expect(matchesShortcut('k', press('k', { ctrlKey: true }), false)).toBe(false);
+    expect(matchesShortcut('k', press('k', { metaKey: true }), false)).toBe(false);
+    expect(matchesShortcut('mod+k', press('k', { ctrlKey: true, altKey: true }), false)).toBe(false);
+    expect(matchesShortcut('shift+alt+x', press('X', { altKey: true, shiftKey: true }), false)).toBe(true);
+    expect(matchesShortcut('shift+alt+x', press('x', { altKey: true }), false)).toBe(false);
+    expect(matchesShortcut('j', press('J', { shiftKey: true }), false)).toBe(false);
+  });
+
+  it('takes the shift that symbols need for granted', () => {
+    expect(matchesShortcut('?', press('?', { shiftKey: true }), false)).toBe(true);
+    expect(matchesShortcut('+', press('+', { shiftKey: true }), false)).toBe(true);
+    expect(matchesShortcut('mod++', press('+', { ctrlKey: true }), false)).toBe(true);
+  });
+
+  it('compares named keys case-insensitively', () => {
+    expect(matchesShortcut('Escape', press('Escape'), false)).toBe(true);
+    expect(matchesShortcut('escape', press('Escape'), false)).toBe(true);
+    expect(matchesShortcut('ArrowLeft', press('ArrowRight'), false)).toBe(false);
+  });
+});
+
+describe('listShortcuts', () => {
+  it('lists stacked bindings with the same action once', () => {
+    const listed = listShortcuts([bind('Escape', 'Close dialog'), bind('Escape', 'Close dialog')]);
+    expect(listed).toEqual([{ keys: 'Escape', description: 'Close dialog', group: DEFAULT_GROUP, enabled: true }]);
+  });
+
+  it('marks a binding the later mount shadows with a different action', () => {
+    const listed = listShortcuts([bind('j', 'Next receipt'), bind('J', 'Jump to block')]);
+    expect(listed.map(s => [s.description, s.shadowedBy])).toEqual([
+      ['Next receipt', 'Jump to block'],
+      ['Jump to block', undefined],
+    ]);
+  });
+
+  it('treats modifier order and case as the same combination', () => {
+    const listed = listShortcuts([bind('shift+alt+x', 'Export'), bind('Alt+Shift+X', 'Expand')]);
+    expect(listed[0].shadowedBy).toBe('Expand');
+  });
+
+  it('does not report disabled or unlisted bindings as conflicts', () => {
+    expect(listShortcuts([bind('k', 'Previous receipt'), bind('k', 'Keys view', false)])
+      .map(s => s.shadowedBy)).toEqual([undefined, undefined]);
+    expect(listShortcuts([bind('k', 'Previous receipt'), bind('k')])).toHaveLength(1);
+    expect(listShortcuts([bind('k', 'Previous receipt'), bind('k')])[0].shadowedBy).toBeUndefined();
+  });
+
+  it('keeps a binding enabled when any of its mounts is', () => {
+    expect(listShortcuts([bind('?', 'Help', false), bind('?', 'Help')])[0].enabled).toBe(true);
+    expect(listShortcuts([bind('?', 'Help', false)])[0].enabled).toBe(false);
+  });
+
+  it('ignores bindings on different keys', () => {
+    expect(listShortcuts([bind('mod+k', 'Palette'), bind('k', 'Previous receipt')]).every(s => !s.shadowedBy)).toBe(true);
+  });
+});
+
+describe('formatShortcut', () => {
+  it('renders modifiers before the key', () => {
+    expect(formatShortcut('shift+alt+x').slice(-1)).toEqual(['X']);
+    expect(formatShortcut('Escape')).toEqual(['Esc']);
+    expect(formatShortcut('mod++')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,254 @@
+// Keyboard shortcut registry
+// Components register bindings while mounted and a single window listener
+// dispatches each keydown to the most recently mounted enabled binding for
+// that combination, so an open dialog's Escape shadows the page's. Listed
+// bindings that shadow one another with different actions are reported as
+// conflicts, in the console and in the shortcuts overlay.
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+
+export interface Shortcut {
+  /**
+   * Key combination: `j`, `?`, `Escape`, `ArrowLeft`, `mod+k`, `shift+alt+x`.
+   * `mod` is ⌘ on macOS and Ctrl elsewhere.
+   */
+  keys: string;
+  handler: (e: KeyboardEvent) => void;
+  /** Listed in the shortcuts overlay; bindings without one are unlisted */
+  description?: string;
+  group?: string;
+  /** Disabled bindings stay listed but never fire; defaults to true */
+  enabled?: boolean;
+}
+
+export interface ListedShortcut {
+  keys: string;
+  description: string;
+  group: string;
+  enabled: boolean;
+  /** Description of a later mount on the same keys that takes this binding's keypresses */
+  shadowedBy?: string;
+}
+
+interface KeyCombo {
+  key: string;
+  mod: boolean;
+  alt: boolean;
+  shift: boolean;
+}
+
+interface Registration {
+  /** Mount order of the registering component; later mounts take precedence */
+  order: number;
+  combo: KeyCombo;
+  shortcut: Shortcut;
+}
+
+export const DEFAULT_GROUP = 'General';
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const KEY_LABELS: Record<string, string> = {
+  escape: 'Esc',
+  enter: 'Enter',
+  arrowleft: '←',
+  arrowright: '→',
+  arrowup: '↑',
+  arrowdown: '↓',
+  ' ': 'Space',
+};
+
+const MODIFIER_LABELS = IS_MAC
+  ? { mod: '⌘', alt: '⌥', shift: '⇧' }
+  : { mod: 'Ctrl', alt: 'Alt', shift: 'Shift' };
+
+function parseCombo(keys: string): KeyCombo {
+  const parts = keys.split('+');
+  // A trailing empty part means the key itself is `+`
+  const key = parts.pop() || '+';
+  const modifiers = new Set(parts.map(p => p.toLowerCase()));
+  return {
+    key: key.toLowerCase(),
+    mod: modifiers.has('mod'),
+    alt: modifiers.has('alt'),
+    shift: modifiers.has('shift'),
+  };
+}
+
+function comboId({ key, mod, alt, shift }: KeyCombo): string {
+  return `${mod ? 'mod+' : ''}${alt ? 'alt+' : ''}${shift ? 'shift+' : ''}${key}`;
+}
+
+type KeyPress = Pick<KeyboardEvent, 'key' | 'metaKey' | 'ctrlKey' | 'altKey' | 'shiftKey'>;
+
+function matches(combo: KeyCombo, e: KeyPress, mac: boolean = IS_MAC): boolean {
+  const mod = mac ? e.metaKey : e.ctrlKey;
+  const other = mac ? e.ctrlKey : e.metaKey;
+  if (combo.mod !== mod || other || combo.alt !== e.altKey) return false;
+  // Symbols such as `?` already carry the shift in the key
+  const symbol = combo.key.length === 1 && !/[a-z0-9]/.test(combo.key);
+  if (!symbol && combo.shift !== e.shiftKey) return false;
+  return e.key.toLowerCase() === combo.key;
+}
+
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Bare keys are text while typing; only modifier combinations and Escape
+ * reach the registry from a form field
+ */
+const firesWhileTyping = (combo: KeyCombo): boolean => combo.mod || combo.key === 'escape';
+
+// Enter and Space on a focused button or link activate it instead
+const activates = (target: EventTarget | null, combo: KeyCombo): boolean =>
+  (combo.key === 'enter' || combo.key === ' ') && target instanceof HTMLElement && !!target.closest('button, a[href]');
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+// Newest mount first; replaced on every change for useSyncExternalStore
+let registrations: Registration[] = [];
+const listeners = new Set<() => void>();
+let nextOrder = 0;
+
+function dispatch(e: KeyboardEvent): void {
+  if (e.defaultPrevented || e.isComposing) return;
+  const editable = isEditable(e.target);
+  const match = registrations.find(({ combo, shortcut }) =>
+    shortcut.enabled !== false && (!editable || firesWhileTyping(combo)) && !activates(e.target, combo)
+    && matches(combo, e));
+  if (!match) return;
+  e.preventDefault();
+  match.shortcut.handler(e);
+}
+
+/**
+ * Two listed bindings doing different things on the same keys is a mistake;
+ * the later mount still wins, but say so
+ */
+function warnOnConflict(added: Registration): void {
+  if (!added.shortcut.description || added.shortcut.enabled === false) return;
+  const id = comboId(added.combo);
+  const clash = registrations.find(r => r !== added && r.shortcut.enabled !== false && r.shortcut.description
+    && r.shortcut.description !== added.shortcut.description && comboId(r.combo) === id);
+  if (clash) {
+    console.warn(
+      `Shortcut ${added.shortcut.keys} is bound to both "${clash.shortcut.description}" and ` +
+      `"${added.shortcut.description}"; the most recently mounted wins`
+    );
+  }
+}
+
+function update(next: Registration[]): void {
+  if (registrations.length === 0 && next.length > 0) window.addEventListener('keydown', dispatch);
+  if (registrations.length > 0 && next.length === 0) window.removeEventListener('keydown', dispatch);
+  registrations = next;
+  listeners.forEach(listener => listener());
+}
+
+function register(order: number, shortcuts: Shortcut[]): () => void {
+  const added = shortcuts.map(shortcut => ({ order, combo: parseCombo(shortcut.keys), shortcut }));
+  update([...registrations, ...added].sort((a, b) => b.order - a.order));
+  added.forEach(warnOnConflict);
+  return () => update(registrations.filter(r => !added.includes(r)));
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+const getRegistrations = () => registrations;
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Register bindings for as long as the component is mounted. Handlers may
+ * change freely; keys, descriptions and enabled state re-register in place.
+ */
+export function useShortcuts(shortcuts: Shortcut[]): void {
+  const [order] = useState(() => nextOrder++);
+  const latest = useRef(shortcuts);
+
+  useEffect(() => {
+    latest.current = shortcuts;
+  });
+
+  const signature = shortcuts
+    .map(s => [s.keys, s.description, s.group, s.enabled !== false].join('\u0000'))
+    .join('\u0001');
+
+  useEffect(() => register(order, latest.current.map((shortcut, i) => ({
+    ...shortcut,
+    handler: e => latest.current[i]?.handler(e),
+  }))), [order, signature]);
+}
+
+export function useShortcut(keys: string, handler: () => void, options: Omit<Shortcut, 'keys' | 'handler'> = {}): void {
+  useShortcuts([{ keys, handler, ...options }]);
+}
+
+/**
+ * Whether a keypress is the combination `keys`; `mod` is ⌘ when `mac`, else Ctrl
+ */
+export function matchesShortcut(keys: string, e: KeyPress, mac: boolean = IS_MAC): boolean {
+  return matches(parseCombo(keys), e, mac);
+}
+
+/**
+ * Listed bindings, given oldest mount first. Stacked dialogs each binding
+ * Escape to "Close dialog" are listed once; an enabled binding whose keys a
+ * later mount takes for something else is marked with what shadows it.
+ */
+export function listShortcuts(shortcuts: Shortcut[]): ListedShortcut[] {
+  const listed = new Map<string, ListedShortcut>();
+  // Newest enabled listing per combination, the one a keypress reaches
+  const winners = new Map<string, ListedShortcut>();
+  for (const shortcut of shortcuts) {
+    if (!shortcut.description) continue;
+    const combo = comboId(parseCombo(shortcut.keys));
+    const id = `${combo} ${shortcut.description}`;
+    const enabled = shortcut.enabled !== false;
+    const entry = listed.get(id) ?? {
+      keys: shortcut.keys,
+      description: shortcut.description,
+      group: shortcut.group ?? DEFAULT_GROUP,
+      enabled: false,
+    };
+    entry.enabled ||= enabled;
+    listed.set(id, entry);
+    if (enabled) winners.set(combo, entry);
+  }
+  for (const entry of listed.values()) {
+    const winner = winners.get(comboId(parseCombo(entry.keys)));
+    if (entry.enabled && winner && winner.description !== entry.description) entry.shadowedBy = winner.description;
+  }
+  return [...listed.values()];
+}
+
+/**
+ * Listed bindings for the shortcuts overlay, oldest mount first
+ */
+export function useShortcutList(): ListedShortcut[] {
+  const current = useSyncExternalStore(subscribe, getRegistrations);
+  // Registrations are kept newest first; a stable sort keeps each mount's own order
+  return listShortcuts([...current].sort((a, b) => a.order - b.order).map(r => r.shortcut));
+}
+
+/**
+ * Key caps for display, e.g. `mod+k` → ['Ctrl', 'K'] (['⌘', 'K'] on macOS)
+ */
+export function formatShortcut(keys: string): string[] {
+  const combo = parseCombo(keys);
+  const caps: string[] = [];
+  if (combo.mod) caps.push(MODIFIER_LABELS.mod);
+  if (combo.alt) caps.push(MODIFIER_LABELS.alt);
+  if (combo.shift) caps.push(MODIFIER_LABELS.shift);
+  caps.push(KEY_LABELS[combo.key] ?? (combo.key.length === 1 ? combo.key.toUpperCase() : keys.split('+').pop()!));
+  return caps;
+}
@@ -0,0 +1,61 @@
+// Receipt signatures
+// Receipts carry one signature per algorithm their signer is configured
+// with: the classical Ed25519/ECDSA pair, plus ML-DSA or SLH-DSA once a
+// signer has been migrated to post-quantum signing.
+import type { Receipt, ReceiptSignature, SignerAlgorithm, SignatureStats } from './types';
+import { CHECK_LABELS } from './forensics';
+
+export const SIGNER_ALGORITHMS: SignerAlgorithm[] = ['ed25519', 'secp256k1', 'ml-dsa', 'slh-dsa'];
+
+export const PQC_ALGORITHMS: SignerAlgorithm[] = ['ml-dsa', 'slh-dsa'];
+
+/** Short labels for table badges */
+export const BADGE_LABELS: Record<SignerAlgorithm, string> = {
+  ed25519: 'Ed',
+  secp256k1: 'EC',
+  'ml-dsa': 'ML',
+  'slh-dsa': 'SLH',
+};
+
+/** Chart colors, shared by every per-algorithm series */
+export const ALGORITHM_COLORS: Record<SignerAlgorithm, string> = {
+  ed25519: '#8b5cf6',
+  secp256k1: '#3b82f6',
+  'ml-dsa': '#10b981',
+  'slh-dsa': '#14b8a6',
+};
+
+export const isPostQuantum = (algorithm: SignerAlgorithm): boolean => PQC_ALGORITHMS.includes(algorithm);
+
+/**
+ * Parameter set where the backend reports one, e.g. `ML-DSA-65`, otherwise the algorithm
+ */
+export const signatureLabel = (signature: ReceiptSignature): string =>
+  signature.parameterSet ?? CHECK_LABELS[signature.algorithm];
+
+export function receiptSignature(receipt: Receipt, algorithm: SignerAlgorithm): ReceiptSignature | undefined {
+  return receipt.signatures.find(s => s.algorithm === algorithm);
+}
+
+/**
+ * Every signature verified; a receipt without signatures is not verified
+ */
+export function signaturesVerified(receipt: Pick<Receipt, 'signatures'>): boolean {
+  return receipt.signatures.length > 0 && receipt.signatures.every(s => s.verified);
+}
+
+export function hasPqcSignature(receipt: Receipt): boolean {
+  return receipt.signatures.some(s => isPostQuantum(s.algorithm));
+}
+
+/**
+ * Per-algorithm counts for a set of receipts, in `SIGNER_ALGORITHMS` order
+ */
+export function signatureStats(receipts: Receipt[]): SignatureStats[] {
+  return SIGNER_ALGORITHMS.flatMap(algorithm => {
+    const signed = receipts.flatMap(r => r.signatures.filter(s => s.algorithm === algorithm));
+    return signed.length > 0
+      ? [{ algorithm, signed: signed.length, verified: signed.filter(s => s.verified).length }]
+      : [];
+  });
+}
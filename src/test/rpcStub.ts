@@ -0,0 +1,103 @@
+// Local EVM JSON-RPC stub for tests
+// Serves the handful of methods anchor verification calls from an in-memory
+// chain over real HTTP on localhost, so the verifier runs unchanged with no
+// outside network.
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface StubTransaction {
+  input: string;
+  /** Null while unmined */
+  blockNumber: number | null;
+  /** Hash of the block the node saw it mined in; defaults to the canonical one */
+  blockHash?: string;
+  /** `0x1` success, `0x0` reverted */
+  status?: string;
+  /** Never answer requests about this transaction, like a stalled node */
+  hang?: boolean;
+}
+
+export interface StubChain {
+  head: number;
+  transactions: Record<string, StubTransaction>;
+}
+
+export interface RpcStub {
+  url: string;
+  chain: StubChain;
+  /** Methods received, in order */
+  calls: string[];
+  close: () => Promise<void>;
+}
+
+const toHex = (n: number): string => `0x${n.toString(16)}`;
+
+/** Canonical hash of block `n` */
+export const stubBlockHash = (n: number): string => `0x${n.toString(16).padStart(64, '0')}`;
+
+function answer(chain: StubChain, method: string, params: unknown[]): unknown {
+  switch (method) {
+    case 'eth_blockNumber':
+      return toHex(chain.head);
+    case 'eth_getBlockByNumber': {
+      const n = parseInt(params[0] as string, 16);
+      return n <= chain.head ? { number: toHex(n), hash: stubBlockHash(n) } : null;
+    }
+    case 'eth_getTransactionByHash': {
+      const hash = params[0] as string;
+      const tx = chain.transactions[hash];
+      return tx ? { hash, input: tx.input, blockNumber: tx.blockNumber === null ? null : toHex(tx.blockNumber) } : null;
+    }
+    case 'eth_getTransactionReceipt': {
+      const hash = params[0] as string;
+      const tx = chain.transactions[hash];
+      if (!tx || tx.blockNumber === null) return null;
+      return {
+        transactionHash: hash,
+        blockNumber: toHex(tx.blockNumber),
+        blockHash: tx.blockHash ?? stubBlockHash(tx.blockNumber),
+        status: tx.status ?? '0x1',
+      };
+    }
+    default:
+      throw Object.assign(new Error(`Method ${method} not supported`), { code: -32601 });
+  }
+}
+
+/**
+ * Start the stub on a free port; `chain` may be changed between calls
+ */
+export async function startRpcStub(chain: StubChain): Promise<RpcStub> {
+  const calls: string[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      calls.push(method);
+      if (chain.transactions[params?.[0]]?.hang) return;
+      let reply: object;
+      try {
+        reply = { jsonrpc: '2.0', id, result: answer(chain, method, params) };
+      } catch (e) {
+        const { message, code } = e as Error & { code: number };
+        reply = { jsonrpc: '2.0', id, error: { code, message } };
+      }
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(reply));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    chain,
+    calls,
+    close: () => new Promise(resolve => {
+      // Drop requests left hanging so close doesn't wait on them
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
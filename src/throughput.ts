@@ -0,0 +1,79 @@
+// Throughput chart ranges and bucketing
+import type { ThroughputBucket, ThroughputRange, ThroughputWindow } from './types';
+
+export const BUCKET_MS: Record<ThroughputBucket, number> = {
+  minute: 60000,
+  hour: 3600000,
+  day: 86400000,
+};
+
+export const THROUGHPUT_RANGES: Record<Exclude<ThroughputRange, 'custom'>, {
+  label: string;
+  title: string;
+  ms: number;
+  bucket: ThroughputBucket;
+}> = {
+  '1h': { label: '1h', title: 'Last Hour', ms: 3600000, bucket: 'minute' },
+  '24h': { label: '24h', title: '24-Hour', ms: 86400000, bucket: 'hour' },
+  '7d': { label: '7d', title: '7-Day', ms: 7 * 86400000, bucket: 'hour' },
+  '30d': { label: '30d', title: '30-Day', ms: 30 * 86400000, bucket: 'day' },
+};
+
+/**
+ * Pick a bucket size that keeps a custom window between ~30 and ~1500 points
+ */
+export function bucketForSpan(ms: number): ThroughputBucket {
+  if (ms <= 2 * BUCKET_MS.hour) return 'minute';
+  if (ms <= 14 * BUCKET_MS.day) return 'hour';
+  return 'day';
+}
+
+/**
+ * Align to bucket boundaries so repeated fetches return the same buckets
+ */
+function floorTo(ms: number, bucket: ThroughputBucket): number {
+  return Math.floor(ms / BUCKET_MS[bucket]) * BUCKET_MS[bucket];
+}
+
+export function resolveThroughputWindow(
+  range: ThroughputRange,
+  custom?: { from: string; to: string },
+  now: number = Date.now()
+): ThroughputWindow {
+  if (range === 'custom' && custom) {
+    const from = Date.parse(custom.from);
+    const to = Date.parse(custom.to);
+    const bucket = bucketForSpan(to - from);
+    return {
+      from: new Date(floorTo(from, bucket)).toISOString(),
+      to: new Date(to).toISOString(),
+      bucket,
+    };
+  }
+  const preset = THROUGHPUT_RANGES[range === 'custom' ? '24h' : range];
+  const to = floorTo(now, preset.bucket) + BUCKET_MS[preset.bucket];
+  return {
+    from: new Date(to - preset.ms).toISOString(),
+    to: new Date(to).toISOString(),
+    bucket: preset.bucket,
+  };
+}
+
+/**
+ * Axis label for a bucket; `withDate` for windows spanning several days
+ */
+export function formatBucketLabel(timestamp: string, bucket: ThroughputBucket, withDate: boolean): string {
+  const date = new Date(timestamp);
+  if (bucket === 'day') {
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  }
+  const time = date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+  return withDate ? `${date.getMonth() + 1}/${date.getDate()} ${time}` : time;
+}
+
+/**
+ * End of the bucket that starts at `timestamp`, as ISO
+ */
+export function bucketEnd(timestamp: string, bucket: ThroughputBucket): string {
+  return new Date(Date.parse(timestamp) + BUCKET_MS[bucket] - 1).toISOString();
+}
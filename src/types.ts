@@ -1,55 +1,434 @@
 // Receipt Dashboard Types
+// Shapes returned by the API are declared as decoders (see decode.ts) and the
+// types derived from them; client-side types are plain interfaces.
+import {
+  object, string, boolean, literal, optional, nullable, array, record, unknownRecord, tagged,
+  withLegacy, numeric, decimal, isoTime, type Decoder, type Infer
+} from './decode';
 
-export interface Receipt {
-  id: string;
-  receiptHash: string;
-  payload: Record<string, unknown>;
-  timestamp: number;
-  edVerified: boolean;
-  ecVerified: boolean;
-  hashVerified: boolean;
-  txHash?: string;
-  blockNumber?: number;
-  createdAt: string;
-}
+export const merkleProofStepDecoder = object({
+  /** Hex sibling hash at this level */
+  hash: string,
+  /** Which side the sibling sits on when hashing the pair */
+  position: literal('left', 'right'),
+});
+export interface MerkleProofStep extends Infer<typeof merkleProofStepDecoder> {}
+
+/** Inclusion proof tying a receipt hash to the root anchored on-chain */
+export const merkleProofDecoder = object({
+  leaf: string,
+  leafIndex: numeric,
+  path: array(merkleProofStepDecoder),
+  root: string,
+});
+export interface MerkleProof extends Infer<typeof merkleProofDecoder> {}
+
+/** Classical Ed25519 and ECDSA, and the post-quantum ML-DSA (Dilithium) and SLH-DSA (SPHINCS+) */
+export const signerAlgorithmDecoder = literal('ed25519', 'secp256k1', 'ml-dsa', 'slh-dsa');
+export type SignerAlgorithm = Infer<typeof signerAlgorithmDecoder>;
+
+export const checkIdDecoder = literal('hash', 'ed25519', 'secp256k1', 'ml-dsa', 'slh-dsa');
+export type CheckId = Infer<typeof checkIdDecoder>;
+
+/** One signature over the 32-byte receipt hash */
+export const receiptSignatureDecoder = object({
+  algorithm: signerAlgorithmDecoder,
+  /** Post-quantum parameter set, e.g. `ML-DSA-65` or `SLH-DSA-SHA2-128f` */
+  parameterSet: optional(string),
+  /** Hex signature; ECDSA is 64-byte compact */
+  signature: optional(string),
+  /** Hex signer public key; secp256k1 is SEC1 compressed */
+  publicKey: optional(string),
+  /** Backend verification result */
+  verified: boolean,
+});
+export interface ReceiptSignature extends Infer<typeof receiptSignatureDecoder> {}
 
-export interface Metrics {
-  total: number;
-  lastHour: number;
-  lastDay: number;
-  verified: number;
-  anchored: number;
-  verificationRate: string;
-  anchoringRate: string;
-  throughput: {
-    hourly: number;
-    daily: number;
-    avgPerMinute: string;
+/** Why a check failed, as diagnosed by the backend */
+export const verificationFailureDecoder = object({
+  check: checkIdDecoder,
+  /** Machine-readable cause, e.g. `signature_mismatch` or `unknown_key` */
+  reason: string,
+  /** Hex hash the check expected: the receipt hash */
+  expectedHash: optional(string),
+  /** Hex hash actually found: the recomputed payload hash or the digest the signature covers */
+  actualHash: optional(string),
+  /** Fingerprint of the signer key the signature was checked against */
+  keyFingerprint: optional(string),
+});
+export interface VerificationFailure extends Infer<typeof verificationFailureDecoder> {}
+
+/**
+ * Dual-signed receipts from before the signature list: `edVerified`/`ecVerified`
+ * flags with `signatures` and `publicKeys` keyed by algorithm
+ */
+function dualSignatureList(value: unknown): unknown {
+  const receipt = value as Record<string, unknown> | null;
+  if (!receipt || typeof receipt !== 'object' || Array.isArray(receipt.signatures)) return undefined;
+  if (receipt.edVerified === undefined && receipt.ecVerified === undefined) return undefined;
+
+  const { edVerified, ecVerified, signatures, publicKeys, ...rest } = receipt;
+  const signatureMap = (signatures ?? {}) as Record<string, unknown>;
+  const publicKeyMap = (publicKeys ?? {}) as Record<string, unknown>;
+  return {
+    ...rest,
+    signatures: [
+      { algorithm: 'ed25519', verified: edVerified, signature: signatureMap.ed25519, publicKey: publicKeyMap.ed25519 },
+      { algorithm: 'secp256k1', verified: ecVerified, signature: signatureMap.secp256k1, publicKey: publicKeyMap.secp256k1 },
+    ],
   };
 }
 
-export interface ThroughputPoint {
-  hour: string;
-  count: number;
-}
+export const receiptDecoder = withLegacy(object({
+  id: string,
+  /** Receipt type, selects the payload schema; untyped receipts are matched by shape */
+  type: optional(string),
+  receiptHash: string,
+  payload: unknownRecord,
+  timestamp: numeric,
+  hashVerified: boolean,
+  txHash: optional(string),
+  blockNumber: optional(numeric),
+  createdAt: isoTime,
+  /** ISO time the anchor transaction was confirmed */
+  anchoredAt: optional(isoTime),
+  /** Receipt hash of the subject's previous receipt, when the backend chains them */
+  previousReceiptHash: optional(string),
+  /** Every signature the receipt carries, one entry per algorithm */
+  signatures: array(receiptSignatureDecoder),
+  merkleProof: optional(merkleProofDecoder),
+  /** Details for failed checks, when the backend reports them */
+  failures: optional(array(verificationFailureDecoder)),
+}), 'signature list, not edVerified/ecVerified flags', dualSignatureList);
+export interface Receipt extends Infer<typeof receiptDecoder> {}
 
-export interface ChainStatus {
-  anchored: number;
-  pending: number;
-  unanchored: number;
-  latestBlock?: {
-    blockNumber: number;
-    txHash: string;
-  };
+/**
+ * Response of the unauthenticated `/public/receipts/:ref`: the checks and
+ * anchor anyone holding a receipt hash or id may see
+ */
+export const publicReceiptDecoder = withLegacy(object({
+  id: string,
+  receiptHash: string,
+  createdAt: isoTime,
+  hashVerified: boolean,
+  signatures: array(receiptSignatureDecoder),
+  txHash: optional(string),
+  blockNumber: optional(numeric),
+  anchoredAt: optional(isoTime),
+  /** Only from backends configured to publish payloads */
+  payload: optional(unknownRecord),
+}), 'signature list, not edVerified/ecVerified flags', dualSignatureList);
+export interface PublicReceipt extends Infer<typeof publicReceiptDecoder> {}
+
+/** Receipts signed with one algorithm, and how many of those signatures verified */
+export const signatureStatsDecoder = object({
+  algorithm: signerAlgorithmDecoder,
+  signed: numeric,
+  verified: numeric,
+});
+export interface SignatureStats extends Infer<typeof signatureStatsDecoder> {}
+
+export const metricsDecoder = object({
+  total: numeric,
+  lastHour: numeric,
+  lastDay: numeric,
+  verified: numeric,
+  anchored: numeric,
+  /** Percentage with two decimals, e.g. `99.57` */
+  verificationRate: decimal,
+  anchoringRate: decimal,
+  throughput: object({
+    hourly: numeric,
+    daily: numeric,
+    avgPerMinute: decimal,
+  }),
+  /** Breakdown by signature algorithm; absent from backends that predate the signature list */
+  signatures: optional(array(signatureStatsDecoder)),
+});
+export interface Metrics extends Infer<typeof metricsDecoder> {}
+
+export type ThroughputRange = '1h' | '24h' | '7d' | '30d' | 'custom';
+
+export type ThroughputBucket = 'minute' | 'hour' | 'day';
+
+/** Time window requested from `/analytics/throughput` */
+export interface ThroughputWindow {
+  from: string;
+  to: string;
+  bucket: ThroughputBucket;
 }
 
-export interface PaginatedResponse<T> {
-  receipts: T[];
-  pagination: {
-    page: number;
-    pages: number;
-    total: number;
-  };
+/**
+ * Start of the latest `HH:00` that isn't in the future, in local time
+ */
+function hourLabelToIso(label: string): string | undefined {
+  const match = /^(\d{1,2}):00$/.exec(label);
+  if (!match || Number(match[1]) > 23) return undefined;
+  const date = new Date();
+  if (date.getHours() < Number(match[1])) date.setDate(date.getDate() - 1);
+  date.setHours(Number(match[1]), 0, 0, 0);
+  return date.toISOString();
 }
 
+export const throughputPointDecoder = withLegacy(
+  object({
+    /** ISO start of the bucket */
+    timestamp: isoTime,
+    /** Legacy `HH:00` label from hourly-only responses */
+    hour: optional(string),
+    count: numeric,
+    verified: numeric,
+    failed: numeric,
+    anchored: numeric,
+  }),
+  'timestamp, not only an hour label',
+  value => {
+    const point = value as Record<string, unknown> | null;
+    if (!point || typeof point !== 'object' || point.timestamp !== undefined || typeof point.hour !== 'string') {
+      return undefined;
+    }
+    const timestamp = hourLabelToIso(point.hour);
+    return timestamp && { ...point, timestamp };
+  }
+);
+export interface ThroughputPoint extends Infer<typeof throughputPointDecoder> {}
+
+export const chainStatusDecoder = object({
+  anchored: numeric,
+  pending: numeric,
+  unanchored: numeric,
+  latestBlock: optional(object({
+    blockNumber: numeric,
+    txHash: string,
+  })),
+});
+export interface ChainStatus extends Infer<typeof chainStatusDecoder> {}
+
+/** Time-to-anchor percentiles in seconds; null when nothing was anchored in the window */
+export const anchorLatencyDecoder = object({
+  p50: nullable(numeric),
+  p95: nullable(numeric),
+  p99: nullable(numeric),
+  /** Receipts anchored in the window */
+  samples: numeric,
+});
+export interface AnchorLatency extends Infer<typeof anchorLatencyDecoder> {}
+
+export const backlogPointDecoder = object({
+  /** ISO start of the bucket */
+  timestamp: isoTime,
+  /** Receipts created but not yet anchored at the end of the bucket */
+  pending: numeric,
+});
+export interface BacklogPoint extends Infer<typeof backlogPointDecoder> {}
+
+export const batchSizeCountDecoder = object({
+  /** Receipts per anchoring transaction */
+  size: numeric,
+  blocks: numeric,
+});
+export interface BatchSizeCount extends Infer<typeof batchSizeCountDecoder> {}
+
+/** Response of `/analytics/anchoring` */
+export const anchoringAnalyticsDecoder = object({
+  latency: anchorLatencyDecoder,
+  backlog: array(backlogPointDecoder),
+  batchSizes: array(batchSizeCountDecoder),
+});
+export interface AnchoringAnalytics extends Infer<typeof anchoringAnalyticsDecoder> {}
+
+export const failurePointDecoder = object({
+  /** ISO start of the bucket */
+  timestamp: isoTime,
+  /** Receipts created in the bucket */
+  total: numeric,
+  /** Receipts with at least one failed check */
+  failed: numeric,
+  /** Failed checks by type; a receipt failing two checks counts in both */
+  hash: numeric,
+  ed25519: numeric,
+  secp256k1: numeric,
+  'ml-dsa': optional(numeric),
+  'slh-dsa': optional(numeric),
+});
+export interface FailurePoint extends Infer<typeof failurePointDecoder> {}
+
+/** Signatures checked against one signer key in the window */
+export const signerKeyStatsDecoder = object({
+  fingerprint: string,
+  algorithm: signerAlgorithmDecoder,
+  signed: numeric,
+  failed: numeric,
+});
+export interface SignerKeyStats extends Infer<typeof signerKeyStatsDecoder> {}
+
+/** Response of `/analytics/failures` */
+export const failureAnalyticsDecoder = object({
+  timeline: array(failurePointDecoder),
+  keys: array(signerKeyStatsDecoder),
+  /** Every receipt in the window with a failed check, newest first */
+  receipts: array(receiptDecoder),
+});
+export interface FailureAnalytics extends Infer<typeof failureAnalyticsDecoder> {}
+
+export const migrationPointDecoder = object({
+  /** ISO start of the bucket */
+  timestamp: isoTime,
+  /** Receipts created in the bucket */
+  total: numeric,
+  /** Receipts with at least one post-quantum signature */
+  pqc: numeric,
+});
+export interface MigrationPoint extends Infer<typeof migrationPointDecoder> {}
+
+/** Response of `/analytics/signatures` */
+export const signatureAnalyticsDecoder = object({
+  /** Receipts created in the window */
+  total: numeric,
+  /** Receipts in the window with at least one post-quantum signature */
+  pqc: numeric,
+  algorithms: array(signatureStatsDecoder),
+  timeline: array(migrationPointDecoder),
+});
+export interface SignatureAnalytics extends Infer<typeof signatureAnalyticsDecoder> {}
+
+/** Entry of `/keys`: a signer key and when it was allowed to sign */
+export const signingKeyDecoder = object({
+  id: string,
+  algorithm: signerAlgorithmDecoder,
+  /** Hex public key, as in the receipt's signature entries */
+  publicKey: string,
+  fingerprint: string,
+  /** ISO start of the validity window */
+  validFrom: isoTime,
+  /** ISO end of the validity window; absent while the key is current */
+  validTo: optional(isoTime),
+  /** ISO time the key was revoked; signatures from then on are not trusted */
+  revokedAt: optional(isoTime),
+  revocationReason: optional(string),
+  /** Receipts signed with the key */
+  receiptCount: numeric,
+});
+export interface SigningKey extends Infer<typeof signingKeyDecoder> {}
+
+export const paginatedDecoder = <T>(item: Decoder<T>) => object({
+  receipts: array(item),
+  pagination: object({
+    page: numeric,
+    pages: numeric,
+    total: numeric,
+  }),
+});
+export type PaginatedResponse<T> = Infer<ReturnType<typeof paginatedDecoder<T>>>;
+
+/**
+ * Keyset page of `/receipts?cursor=`: later pages continue after the last
+ * receipt returned, so receipts arriving meanwhile don't shift them
+ */
+export const cursorPageDecoder = <T>(item: Decoder<T>) => object({
+  receipts: array(item),
+  /** Opaque cursor for the next page; absent or null on the last one */
+  nextCursor: optional(nullable(string)),
+  /** Matching receipts overall, when the backend counts them */
+  total: optional(numeric),
+});
+export type CursorPage<T> = Infer<ReturnType<typeof cursorPageDecoder<T>>>;
+
 export type FilterType = 'all' | 'verified' | 'pending' | 'anchored';
+
+export type ReceiptSortField = 'time' | 'block' | 'status';
+
+export interface ReceiptSort {
+  field: ReceiptSortField;
+  direction: 'asc' | 'desc';
+}
+
+/** Counter increments pushed by the live stream; rates are recomputed client-side */
+export const metricsDeltaDecoder = object({
+  total: optional(numeric),
+  lastHour: optional(numeric),
+  lastDay: optional(numeric),
+  verified: optional(numeric),
+  anchored: optional(numeric),
+  /** Per-algorithm increments; `signed` and `verified` are added to the matching entry */
+  signatures: optional(array(signatureStatsDecoder)),
+});
+export interface MetricsDelta extends Infer<typeof metricsDeltaDecoder> {}
+
+export const streamEventDecoder = tagged('type', {
+  receipt: object({ receipt: receiptDecoder }),
+  metrics: object({ delta: metricsDeltaDecoder }),
+  anchor: object({
+    receiptIds: array(string),
+    txHash: string,
+    blockNumber: numeric,
+    anchoredAt: optional(isoTime),
+    /** Inclusion proofs keyed by receipt id */
+    proofs: optional(record(merkleProofDecoder)),
+  }),
+});
+export type StreamEvent = Infer<typeof streamEventDecoder>;
+
+/** Response of `POST /stream/tickets`: a single-use credential for opening the stream */
+export const streamTicketDecoder = object({
+  ticket: string,
+  expiresAt: optional(isoTime),
+});
+
+/** Active live-update transport, or 'polling' once streaming has given up */
+export type StreamStatus = 'connecting' | 'sse' | 'websocket' | 'mock' | 'polling';
+
+export type CheckStatus = 'verified' | 'failed';
+
+/** Server-side receipt search; all present criteria must match */
+export interface ReceiptQuery {
+  /** Free text matched against hashes and payload */
+  text?: string;
+  hashPrefix?: string;
+  txHash?: string;
+  /** Payload field equality, case-insensitive */
+  payload?: Record<string, string>;
+  /** ISO timestamps bounding createdAt, inclusive */
+  from?: string;
+  to?: string;
+  blockMin?: number;
+  blockMax?: number;
+  ed?: CheckStatus;
+  ec?: CheckStatus;
+  hashCheck?: CheckStatus;
+}
+
+export const roleDecoder = literal('viewer', 'auditor');
+export type Role = Infer<typeof roleDecoder>;
+
+/** Response of `/auth/me` */
+export const authUserDecoder = object({
+  id: string,
+  name: string,
+  role: roleDecoder,
+});
+export interface AuthUser extends Infer<typeof authUserDecoder> {}
+
+/** Body of `POST /receipts`; the backend hashes, signs and anchors the payload */
+export interface ReceiptSubmission {
+  /** Receipt type, selects the payload schema */
+  type?: string;
+  payload: Record<string, unknown>;
+}
+
+/** Body of `POST /audit/reveals`, recorded before an auditor sees redacted fields */
+export interface RevealRequest {
+  receiptId: string;
+  fields: string[];
+  reason: string;
+}
+
+export const revealAuditEntryDecoder = object({
+  receiptId: string,
+  fields: array(string),
+  reason: string,
+  id: string,
+  actor: string,
+  recordedAt: isoTime,
+});
+export interface RevealAuditEntry extends Infer<typeof revealAuditEntryDecoder> {}
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { ed25519 } from '@noble/curves/ed25519';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { sha256, sha512 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { ml_dsa44 } from '@noble/post-quantum/ml-dsa';
+import { slh_dsa_sha2_128f } from '@noble/post-quantum/slh-dsa';
+
+import { canonicalize, verifyReceipt } from './verify';
+import type { Receipt, ReceiptSignature, SigningKey, SignerAlgorithm } from './types';
+
+const seed = (label: string): Uint8Array => sha256(utf8ToBytes(label));
+
+interface TestSigner {
+  algorithm: SignerAlgorithm;
+  parameterSet?: string;
+  publicKey: string;
+  sign: (message: Uint8Array) => Uint8Array;
+}
+
+const ML_DSA_KEYS = ml_dsa44.keygen(seed('ml-dsa'));
+const SLH_DSA_KEYS = slh_dsa_sha2_128f.keygen(
+  sha512(utf8ToBytes('slh-dsa')).slice(0, slh_dsa_sha2_128f.seedLen)
+);
+
+const SIGNERS: TestSigner[] = [
+  {
+    algorithm: 'ed25519',
+    publicKey: bytesToHex(ed25519.getPublicKey(seed('ed25519'))),
+    sign: message => ed25519.sign(message, seed('ed25519')),
+  },
+  {
+    algorithm: 'secp256k1',
+    publicKey: bytesToHex(secp256k1.getPublicKey(seed('secp256k1'), true)),
+    sign: message => secp256k1.sign(message, seed('secp256k1')).toCompactRawBytes(),
+  },
+  {
+    algorithm: 'ml-dsa',
+    parameterSet: 'ML-DSA-44',
+    publicKey: bytesToHex(ML_DSA_KEYS.publicKey),
+    sign: message => ml_dsa44.sign(ML_DSA_KEYS.secretKey, message),
+  },
+  {
+    algorithm: 'slh-dsa',
+    parameterSet: 'SLH-DSA-SHA2-128f',
+    publicKey: bytesToHex(SLH_DSA_KEYS.publicKey),
+    sign: message => slh_dsa_sha2_128f.sign(SLH_DSA_KEYS.secretKey, message),
+  },
+];
+
+const PAYLOAD = { event: 'dispatch', amount: 120, items: ['a', 'b'] };
+const HASH = sha256(utf8ToBytes(canonicalize(PAYLOAD)));
+
+const signature = (signer: TestSigner, overrides: Partial<ReceiptSignature> = {}): ReceiptSignature => ({
+  algorithm: signer.algorithm,
+  parameterSet: signer.parameterSet,
+  signature: bytesToHex(signer.sign(HASH)),
+  publicKey: signer.publicKey,
+  verified: true,
+  ...overrides,
+});
+
+const receipt = (signatures: ReceiptSignature[], payload: Record<string, unknown> = PAYLOAD): Receipt => ({
+  id: 'rec_1',
+  receiptHash: bytesToHex(HASH),
+  payload,
+  timestamp: 0,
+  hashVerified: true,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  signatures,
+});
+
+const registryKey = (signer: Pick<TestSigner, 'algorithm' | 'publicKey'>): SigningKey => ({
+  id: `key_${signer.algorithm}`,
+  algorithm: signer.algorithm,
+  publicKey: signer.publicKey,
+  fingerprint: signer.publicKey.slice(0, 16),
+  validFrom: '2025-01-01T00:00:00.000Z',
+  receiptCount: 1,
+});
+
+describe('canonicalize', () => {
+  it('sorts keys at every depth and drops undefined values', () => {
+    expect(canonicalize({ b: 1, a: { d: [3, { f: null, e: 'x' }], c: undefined } }))
+      .toBe('{"a":{"d":[3,{"e":"x","f":null}]},"b":1}');
+  });
+
+  it('serializes like JSON for scalars and empty containers', () => {
+    expect(canonicalize('a"b')).toBe('"a\\"b"');
+    expect(canonicalize(1.5)).toBe('1.5');
+    expect(canonicalize(null)).toBe('null');
+    expect(canonicalize(undefined)).toBe('null');
+    expect(canonicalize([])).toBe('[]');
+    expect(canonicalize({})).toBe('{}');
+  });
+
+  it('is independent of insertion order', () => {
+    expect(canonicalize({ x: 1, y: 2 })).toBe(canonicalize({ y: 2, x: 1 }));
+  });
+});
+
+describe.each(SIGNERS)('verifyReceipt with $algorithm', signer => {
+  const run = (entry: ReceiptSignature, payload?: Record<string, unknown>) =>
+    verifyReceipt(receipt([entry], payload), [registryKey(signer)]);
+
+  it('passes a valid signature', async () => {
+    const { checks, mismatches } = await run(signature(signer));
+    expect(checks.map(c => c.local)).toEqual([true, true]);
+    expect(mismatches).toEqual([]);
+  });
+
+  it('fails the hash check when the payload is tampered with', async () => {
+    const { checks, mismatches } = await run(signature(signer), { ...PAYLOAD, amount: 121 });
+    expect(checks[0]).toMatchObject({ id: 'hash', local: false, expected: bytesToHex(HASH) });
+    expect(checks[1].local).toBe(true);
+    expect(mismatches.map(c => c.id)).toEqual(['hash']);
+  });
+
+  it('fails a signature over a different message', async () => {
+    const forged = bytesToHex(signer.sign(sha256(HASH)));
+    const { checks, mismatches } = await run(signature(signer, { signature: forged }));
+    expect(checks[1]).toMatchObject({ id: signer.algorithm, local: false });
+    expect(mismatches.map(c => c.id)).toEqual([signer.algorithm]);
+  });
+
+  it('fails a public key that is not hex', async () => {
+    const { checks } = await run(signature(signer, { publicKey: 'not-a-key' }));
+    expect(checks[1]).toMatchObject({ local: false, detail: 'Malformed signature or public key' });
+  });
+
+  it('fails a public key of the wrong length', async () => {
+    const { checks } = await verifyReceipt(receipt([signature(signer, { publicKey: signer.publicKey.slice(2) })]));
+    expect(checks[1].local).toBe(false);
+  });
+});
+
+describe('verifyReceipt key binding', () => {
+  const [ed, ec] = SIGNERS;
+
+  it('is bound to the registry when every key is registered', async () => {
+    const result = await verifyReceipt(receipt([signature(ed), signature(ec)]), [registryKey(ed), registryKey(ec)]);
+    expect(result.registryBound).toBe(true);
+    expect(result.checks.slice(1).map(c => c.registered)).toEqual([true, true]);
+  });
+
+  it('is self-consistent only without a registry entry for the algorithm', async () => {
+    const result = await verifyReceipt(receipt([signature(ed), signature(ec)]), [registryKey(ed)]);
+    expect(result.registryBound).toBe(false);
+    expect(result.checks.map(c => c.local)).toEqual([true, true, true]);
+
+    expect((await verifyReceipt(receipt([signature(ed)]))).registryBound).toBe(false);
+  });
+
+  it('fails a valid signature made with a key the registry does not list', async () => {
+    const other = { algorithm: ed.algorithm, publicKey: bytesToHex(ed25519.getPublicKey(seed('other'))) };
+    const { checks } = await verifyReceipt(receipt([signature(ed)]), [registryKey(other)]);
+    expect(checks[1]).toMatchObject({ local: false, registered: false, detail: 'Public key is not in the key registry' });
+  });
+
+  it('matches registry keys regardless of prefix and case', async () => {
+    const key = registryKey({ algorithm: ed.algorithm, publicKey: `0x${ed.publicKey.toUpperCase()}` });
+    const { checks, registryBound } = await verifyReceipt(receipt([signature(ed)]), [key]);
+    expect(checks[1].local).toBe(true);
+    expect(registryBound).toBe(true);
+  });
+
+  it('reports n/a rather than failing when the receipt hash is not hex', async () => {
+    const { checks } = await verifyReceipt({ ...receipt([signature(ed)]), receiptHash: 'zz' }, [registryKey(ed)]);
+    expect(checks[1]).toMatchObject({ local: null, detail: 'Receipt hash is not valid hex' });
+  });
+});
@@ -0,0 +1,233 @@
+// Client-side receipt verification
+// Recomputes receipt hashes and checks every signature in the browser so the
+// dashboard does not have to take the backend's verification flags on trust.
+// Signatures are checked against the keys the receipt carries; only a key
+// found in the key registry ties a signature to an actual signer.
+import { ed25519 } from '@noble/curves/ed25519';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { ml_dsa44, ml_dsa65, ml_dsa87 } from '@noble/post-quantum/ml-dsa';
+import {
+  slh_dsa_sha2_128f, slh_dsa_sha2_128s, slh_dsa_sha2_192f, slh_dsa_sha2_192s, slh_dsa_sha2_256f, slh_dsa_sha2_256s,
+  slh_dsa_shake_128f, slh_dsa_shake_128s, slh_dsa_shake_192f, slh_dsa_shake_192s, slh_dsa_shake_256f, slh_dsa_shake_256s
+} from '@noble/post-quantum/slh-dsa';
+import type { Signer } from '@noble/post-quantum/utils';
+import type { Receipt, ReceiptSignature, CheckId, SigningKey } from './types';
+import { signatureLabel } from './signatures';
+import { findSigningKey } from './keys';
+
+export type VerificationEngine = 'WebCrypto' | 'noble';
+
+export interface CheckResult {
+  id: CheckId;
+  label: string;
+  server: boolean;
+  /** null when the receipt lacks the data needed to run the check */
+  local: boolean | null;
+  engine?: VerificationEngine;
+  expected?: string;
+  actual?: string;
+  detail?: string;
+  /** Signature checks only: whether the receipt's public key is in the key registry */
+  registered?: boolean;
+}
+
+export interface LocalVerification {
+  /** The hash check, then one check per signature in the receipt's order */
+  checks: CheckResult[];
+  mismatches: CheckResult[];
+  /**
+   * False when any signature was only checked against the key the receipt
+   * carries: the result then shows the receipt is self-consistent, not who signed it
+   */
+  registryBound: boolean;
+  verifiedAt: string;
+}
+
+/**
+ * Deterministic JSON serialization: object keys sorted, no whitespace.
+ * Must match the backend canonicalization byte-for-byte.
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(',')}}`;
+}
+
+export async function sha256Hex(data: string | Uint8Array): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return bytesToHex(new Uint8Array(digest));
+}
+
+function stripHexPrefix(hex: string): string {
+  return hex.startsWith('0x') ? hex.slice(2) : hex;
+}
+
+/**
+ * Ed25519 via WebCrypto where the browser supports it, otherwise the
+ * pure-TS implementation.
+ */
+async function verifyEd25519(
+  signature: Uint8Array,
+  message: Uint8Array,
+  publicKey: Uint8Array
+): Promise<{ valid: boolean; engine: VerificationEngine }> {
+  try {
+    // Copies give WebCrypto plain ArrayBuffer-backed views
+    const key = await crypto.subtle.importKey('raw', new Uint8Array(publicKey), { name: 'Ed25519' }, false, ['verify']);
+    const valid = await crypto.subtle.verify({ name: 'Ed25519' }, key, new Uint8Array(signature), new Uint8Array(message));
+    return { valid, engine: 'WebCrypto' };
+  } catch {
+    try {
+      return { valid: ed25519.verify(signature, message, publicKey), engine: 'noble' };
+    } catch {
+      return { valid: false, engine: 'noble' };
+    }
+  }
+}
+
+/**
+ * secp256k1 is not available in WebCrypto, so ECDSA always uses the pure-TS curve.
+ */
+function verifySecp256k1(signature: Uint8Array, messageHash: Uint8Array, publicKey: Uint8Array): boolean {
+  try {
+    return secp256k1.verify(signature, messageHash, publicKey);
+  } catch {
+    return false;
+  }
+}
+
+const ML_DSA: Record<string, Signer> = {
+  'ML-DSA-44': ml_dsa44,
+  'ML-DSA-65': ml_dsa65,
+  'ML-DSA-87': ml_dsa87,
+};
+
+// FIPS 204 public key sizes, for backends that omit the parameter set
+const ML_DSA_BY_KEY_BYTES: Record<number, string> = { 1312: 'ML-DSA-44', 1952: 'ML-DSA-65', 2592: 'ML-DSA-87' };
+
+// SLH-DSA keys of one security level are the same size across hash families
+// and variants, so the parameter set has to be reported
+const SLH_DSA: Record<string, Signer> = {
+  'SLH-DSA-SHA2-128f': slh_dsa_sha2_128f,
+  'SLH-DSA-SHA2-128s': slh_dsa_sha2_128s,
+  'SLH-DSA-SHA2-192f': slh_dsa_sha2_192f,
+  'SLH-DSA-SHA2-192s': slh_dsa_sha2_192s,
+  'SLH-DSA-SHA2-256f': slh_dsa_sha2_256f,
+  'SLH-DSA-SHA2-256s': slh_dsa_sha2_256s,
+  'SLH-DSA-SHAKE-128f': slh_dsa_shake_128f,
+  'SLH-DSA-SHAKE-128s': slh_dsa_shake_128s,
+  'SLH-DSA-SHAKE-192f': slh_dsa_shake_192f,
+  'SLH-DSA-SHAKE-192s': slh_dsa_shake_192s,
+  'SLH-DSA-SHAKE-256f': slh_dsa_shake_256f,
+  'SLH-DSA-SHAKE-256s': slh_dsa_shake_256s,
+};
+
+/**
+ * Post-quantum schemes are not in WebCrypto either, so they use the pure-TS
+ * implementations. Null when the parameter set is unknown.
+ */
+function verifyPostQuantum(
+  { algorithm, parameterSet }: ReceiptSignature,
+  signature: Uint8Array,
+  message: Uint8Array,
+  publicKey: Uint8Array
+): boolean | null {
+  const signer = algorithm === 'ml-dsa'
+    ? ML_DSA[parameterSet ?? ML_DSA_BY_KEY_BYTES[publicKey.length]]
+    : SLH_DSA[parameterSet ?? ''];
+  if (!signer) return null;
+  try {
+    return signer.verify(publicKey, message, signature);
+  } catch {
+    return false;
+  }
+}
+
+function decodeHex(hex: string): Uint8Array | null {
+  try {
+    return hexToBytes(stripHexPrefix(hex));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check one signature over the receipt hash; `message` is null when the hash is not valid hex.
+ * A key the registry does not list fails once the registry knows keys of
+ * that algorithm, the same rule the key warnings use.
+ */
+async function checkSignature(
+  entry: ReceiptSignature,
+  message: Uint8Array | null,
+  keys: SigningKey[]
+): Promise<CheckResult> {
+  const registered = !!entry.publicKey && !!findSigningKey(keys, entry.algorithm, entry.publicKey);
+  const check = { id: entry.algorithm, label: signatureLabel(entry), server: entry.verified, registered };
+  if (!message) return { ...check, local: null, detail: 'Receipt hash is not valid hex' };
+  if (!entry.signature || !entry.publicKey) {
+    return { ...check, local: null, detail: 'Receipt has no signature or public key' };
+  }
+
+  const signature = decodeHex(entry.signature);
+  const publicKey = decodeHex(entry.publicKey);
+  if (!signature || !publicKey) return { ...check, local: false, detail: 'Malformed signature or public key' };
+  if (!registered && keys.some(k => k.algorithm === entry.algorithm)) {
+    return { ...check, local: false, detail: 'Public key is not in the key registry' };
+  }
+
+  switch (entry.algorithm) {
+    case 'ed25519': {
+      const { valid, engine } = await verifyEd25519(signature, message, publicKey);
+      return { ...check, local: valid, engine };
+    }
+    case 'secp256k1':
+      return { ...check, local: verifySecp256k1(signature, message, publicKey), engine: 'noble' };
+    default: {
+      const valid = verifyPostQuantum(entry, signature, message, publicKey);
+      return valid === null
+        ? { ...check, local: null, detail: `Unsupported parameter set ${entry.parameterSet ?? '(not reported)'}` }
+        : { ...check, local: valid, engine: 'noble' };
+    }
+  }
+}
+
+/**
+ * Re-run every check locally and compare against the server-supplied flags.
+ * Without `keys` (the environment's key registry) signatures can only be
+ * checked against the receipt's own keys.
+ */
+export async function verifyReceipt(receipt: Receipt, keys: SigningKey[] = []): Promise<LocalVerification> {
+  const computedHash = await sha256Hex(canonicalize(receipt.payload));
+  const reportedHash = stripHexPrefix(receipt.receiptHash).toLowerCase();
+
+  const checks: CheckResult[] = [{
+    id: 'hash',
+    label: 'Hash',
+    server: receipt.hashVerified,
+    local: computedHash === reportedHash,
+    engine: 'WebCrypto',
+    expected: reportedHash,
+    actual: computedHash,
+  }];
+
+  const message = decodeHex(reportedHash);
+  for (const entry of receipt.signatures) {
+    checks.push(await checkSignature(entry, message, keys));
+  }
+
+  return {
+    checks,
+    mismatches: checks.filter(c => c.local !== null && c.local !== c.server),
+    registryBound: checks.every(c => c.registered !== false),
+    verifiedAt: new Date().toISOString(),
+  };
+}
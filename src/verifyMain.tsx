@@ -0,0 +1,27 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import ReceiptWidget from './ReceiptWidget';
+import { loadEnvironments, findEnvironment } from './environments';
+import { parseWidgetParams, WIDGET_HEIGHT_MESSAGE } from './widgetParams';
+import './index.css';
+
+// Entry for verify.html, the page `<juggernaut-receipt>` frames. Query
+// parameters: `receipt` (hash or id), `env` and `payload=1`.
+const params = parseWidgetParams(window.location.search);
+
+// Framing pages size the iframe to the card
+if (window.parent !== window) {
+  new ResizeObserver(() => {
+    window.parent.postMessage({ type: WIDGET_HEIGHT_MESSAGE, height: document.documentElement.scrollHeight }, '*');
+  }).observe(document.body);
+}
+
+// Only an explicit environment is used; the dashboard's last selection isn't
+loadEnvironments().then(environments => {
+  const env = (params.env && findEnvironment(params.env)) || environments[0];
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <ReceiptWidget env={env} params={params} />
+    </React.StrictMode>
+  );
+});
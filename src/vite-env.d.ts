@@ -3,6 +3,14 @@
 interface ImportMetaEnv {
   readonly VITE_API_URL: string;
   readonly VITE_USE_MOCK: string;
+  readonly VITE_RPC_URL?: string;
+  readonly VITE_RPC_MIN_CONFIRMATIONS?: string;
+  readonly VITE_RPC_TIMEOUT_MS?: string;
+  readonly VITE_ENVIRONMENTS_URL?: string;
+  readonly VITE_AUTH?: 'none' | 'token' | 'oidc';
+  readonly VITE_OIDC_ISSUER?: string;
+  readonly VITE_OIDC_CLIENT_ID?: string;
+  readonly VITE_OIDC_SCOPE?: string;
 }
 
 interface ImportMeta {
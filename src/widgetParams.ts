@@ -0,0 +1,34 @@
+// Embeddable widget parameters
+// Shared by the `<juggernaut-receipt>` element and the `verify.html` page it
+// frames; kept free of imports so the embed script stays small.
+
+/** Widget page, relative to the app's base path */
+export const WIDGET_PAGE = 'verify.html';
+
+/** Posted by the widget page to its parent whenever its height changes */
+export const WIDGET_HEIGHT_MESSAGE = 'juggernaut-receipt:height';
+
+export interface WidgetParams {
+  /** Receipt hash or id */
+  receipt: string;
+  /** Environment id; the first environment when absent */
+  env: string | null;
+  /** Show the payload, still redacted by the environment's rules. Off unless asked for. */
+  allowPayload: boolean;
+}
+
+export function parseWidgetParams(search: string): WidgetParams {
+  const params = new URLSearchParams(search);
+  return {
+    receipt: params.get('receipt')?.trim() ?? '',
+    env: params.get('env'),
+    allowPayload: params.get('payload') === '1',
+  };
+}
+
+export function widgetSearch({ receipt, env, allowPayload }: WidgetParams): string {
+  const params = new URLSearchParams({ receipt });
+  if (env) params.set('env', env);
+  if (allowPayload) params.set('payload', '1');
+  return `?${params}`;
+}
@@ -4,6 +4,8 @@ import react from '@vitejs/plugin-react';
 export default defineConfig({
   plugins: [react()],
   base: '/juggernaut-rail-dashboard/',
+  // The verification widget has its own build, vite.widget.config.ts, so it
+  // shares no chunks with the dashboard
   server: {
     port: 3000,
     proxy: {
@@ -0,0 +1,21 @@
+import { defineConfig, mergeConfig } from 'vite';
+import baseConfig from './vite.config';
+
+// The embeddable verification widget page and the script defining
+// <juggernaut-receipt>, which keeps a stable name for host pages. Built after
+// the dashboard into the same directory, so pages embedding a receipt load
+// only the widget's own chunks.
+export default mergeConfig(baseConfig, defineConfig({
+  build: {
+    emptyOutDir: false,
+    rollupOptions: {
+      input: {
+        verify: 'verify.html',
+        embed: 'src/embed.ts',
+      },
+      output: {
+        entryFileNames: chunk => (chunk.name === 'embed' ? 'embed.js' : 'assets/[name]-[hash].js'),
+      },
+    },
+  },
+}));